@@ -7,6 +7,12 @@ import DashboardPage from "./pages/Dashboard/DashboardPage";
 import { EntitasPage } from "./pages/Entitas/EntitasPage";
 import CoaPage from "./pages/COA/CoaPage";
 import PublicProfilesPage from "./pages/PublicUsers/PublicUsersPage";
+import AlertRulesPage from "./pages/Alerts/AlertRulesPage";
+import ConsolidationPage from "./pages/Consolidation/ConsolidationPage";
+import ReportBuilderPage from "./pages/Reports/ReportBuilderPage";
+import WorkspacePage from "./pages/Workspace/WorkspacePage";
+import AuditPage from "./pages/Audit/AuditPage";
+import { NotificationInbox } from "./components/NotificationInbox/NotificationInbox";
 import { useAuth } from "./contexts/AuthContext";
 import AuthPage from "./pages/Auth/AuthPage";
 import ResetPasswordPage from "./pages/Auth/ResetPasswordPage";
@@ -137,6 +143,56 @@ export default function App() {
               <span className="sidebar-menu-label">Realisasi</span>
             </NavLink>
 
+            {/* Konsolidasi */}
+            <NavLink
+              to="/konsolidasi"
+              className={({ isActive }) =>
+                `sidebar-menu-item ${isActive ? "active" : ""}`
+              }
+            >
+              <span className="sidebar-menu-label">Konsolidasi</span>
+            </NavLink>
+
+            {/* Laporan Custom */}
+            <NavLink
+              to="/laporan"
+              className={({ isActive }) =>
+                `sidebar-menu-item ${isActive ? "active" : ""}`
+              }
+            >
+              <span className="sidebar-menu-label">Laporan Custom</span>
+            </NavLink>
+
+            {/* Aturan Alert */}
+            <NavLink
+              to="/alert-rules"
+              className={({ isActive }) =>
+                `sidebar-menu-item ${isActive ? "active" : ""}`
+              }
+            >
+              <span className="sidebar-menu-label">Aturan Alert</span>
+            </NavLink>
+
+            {/* Workspace Tim */}
+            <NavLink
+              to="/workspace"
+              className={({ isActive }) =>
+                `sidebar-menu-item ${isActive ? "active" : ""}`
+              }
+            >
+              <span className="sidebar-menu-label">Workspace Tim</span>
+            </NavLink>
+
+            {/* Audit Log */}
+            <NavLink
+              to="/audit"
+              className={({ isActive }) =>
+                `sidebar-menu-item ${isActive ? "active" : ""}`
+              }
+            >
+              <span className="sidebar-menu-label">Audit Log</span>
+            </NavLink>
+
             {/* Lihat User Lain */}
             <NavLink
               to="/community"
@@ -167,6 +223,13 @@ export default function App() {
 
       {/* Main Content */}
       <div className={`app-main-content ${!shouldShowSidebar ? "no-sidebar" : ""}`}>
+        {/* Header */}
+        {shouldShowSidebar && (
+          <header className="app-header">
+            <NotificationInbox userId={user.id} />
+          </header>
+        )}
+
         {/* Page Content */}
         <main className="app-container">
           <Routes>
@@ -191,10 +254,30 @@ export default function App() {
                 user ? <BudgetRealizationPage /> : <Navigate to="/login" />
               }
             />
+            <Route
+              path="/konsolidasi"
+              element={user ? <ConsolidationPage /> : <Navigate to="/login" />}
+            />
+            <Route
+              path="/laporan"
+              element={user ? <ReportBuilderPage /> : <Navigate to="/login" />}
+            />
             <Route
               path="/dashboard"
               element={user ? <DashboardPage /> : <Navigate to="/login" />}
             />
+            <Route
+              path="/alert-rules"
+              element={user ? <AlertRulesPage /> : <Navigate to="/login" />}
+            />
+            <Route
+              path="/workspace"
+              element={user ? <WorkspacePage /> : <Navigate to="/login" />}
+            />
+            <Route
+              path="/audit"
+              element={user ? <AuditPage /> : <Navigate to="/login" />}
+            />
             <Route
               path="/community"
               element={user ? <PublicProfilesPage /> : <Navigate to="/login" />}
@@ -1,21 +1,44 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
 import { useEntity } from '../../contexts/EntityContext';
 import {
   createBudget,
   updateBudget,
   addBudgetItem,
   deleteBudgetItem,
+  createBudgetVersion,
+  ensureOriginalVersion,
   getAvailableAccountsForBudget,
+  updateBudgetOwnership,
   fetchAllAccountsByPeriod, // ✅ CHANGED: was fetchBSAccountsByPeriod
   type Budget,
   type BudgetItem,
+  type BudgetPeriodType,
+  type PhasingMethod,
 } from '../../lib/accurate';
+import { getCostCenters, type CostCenter } from '../../lib/costCenters';
+import { getEntityMembers, type WorkspaceMember } from '../../lib/workspaces';
 import {
   getAdaptiveFontSize,
   formatCurrency,
   calculateTotalAllocated,
   calculateTotalRealisasi,
 } from '../../services/budgetHelpers';
+import {
+  MONTHS_IN_FISCAL_YEAR,
+  buildSchedule,
+  formatPeriodLabel,
+  getBudgetEndPeriod,
+} from '../../services/budgetPhasing';
+import { BUDGET_STATUS_LABELS, getBudgetStatus, isBudgetEditable } from '../../services/budgetWorkflow';
+import { formatCostCenter, resolveCostCenterId, toAccurateDimension } from '../../services/costCenters';
+import {
+  canAssignBudgetOwner,
+  canEditBudgetContent,
+  canManageBudgetEditors,
+} from '../../services/budgetOwnership';
+import { WORKSPACE_ROLE_LABELS } from '../../services/workspaceRoles';
+import { PhasingEditor } from './PhasingEditor';
 import styles from './BudgetForm.module.css';
 
 interface BudgetFormProps {
@@ -28,6 +51,15 @@ interface BudgetFormProps {
 
 type AccountSource = 'database' | 'api';
 
+const PHASING_LABELS: Record<PhasingMethod, string> = {
+  EVEN: 'Rata',
+  SEASONAL: 'Musiman',
+  MANUAL: 'Manual',
+};
+
+const emptyWeights = () => Array(MONTHS_IN_FISCAL_YEAR).fill(1);
+const emptyManual = (): (number | '')[] => Array(MONTHS_IN_FISCAL_YEAR).fill('');
+
 // Union type for both account types
 type UnifiedAccount = {
   accountNo: string;
@@ -47,13 +79,25 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
   onSuccess,
   onCancel,
 }) => {
-  const { activeEntity } = useEntity();
+  const { user } = useAuth();
+  const { activeEntity, activeRole } = useEntity();
 
   // Form state
   const [name, setName] = useState(budget?.name || '');
   const [period, setPeriod] = useState(budget?.period || '');
+  const [periodType, setPeriodType] = useState<BudgetPeriodType>(budget?.period_type || 'MONTHLY');
+  const isFiscalYear = periodType === 'FISCAL_YEAR';
   const [description, setDescription] = useState(budget?.description || '');
   const [accountSource, setAccountSource] = useState<AccountSource>('database');
+  const [costCenterId, setCostCenterId] = useState(budget?.cost_center_id || '');
+  const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
+
+  // Ownership state (budget baru default dimiliki pembuatnya)
+  const [ownerId, setOwnerId] = useState(mode === 'create' ? user?.id || '' : budget?.owner_id || '');
+  const [editorIds, setEditorIds] = useState<string[]>(budget?.editor_ids || []);
+  const [entityMembers, setEntityMembers] = useState<Pick<WorkspaceMember, 'user_id' | 'email' | 'role'>[]>([]);
+  const [savingOwnership, setSavingOwnership] = useState(false);
+  const [ownershipMessage, setOwnershipMessage] = useState<string | null>(null);
 
   // Items state
   const [budgetItems, setBudgetItems] = useState<BudgetItem[]>(items);
@@ -63,9 +107,18 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
   const [selectedAccountNo, setSelectedAccountNo] = useState('');
   const [itemAmount, setItemAmount] = useState<number | ''>('');
   const [realisasiSnapshot, setRealisasiSnapshot] = useState<number>(0);
+  const [loadingSnapshot, setLoadingSnapshot] = useState(false);
+  // Request snapshot terakhir; respons request lama diabaikan
+  const snapshotRequestRef = useRef(0);
   const [itemDescription, setItemDescription] = useState('');
+  const [itemCostCenterId, setItemCostCenterId] = useState('');
   const [showAddItem, setShowAddItem] = useState(false);
 
+  // Phasing state (FISCAL_YEAR)
+  const [itemPhasing, setItemPhasing] = useState<PhasingMethod>('EVEN');
+  const [itemWeights, setItemWeights] = useState<number[]>(emptyWeights);
+  const [itemManual, setItemManual] = useState<(number | '')[]>(emptyManual);
+
   // Dropdown filter state
   const [accountFilter, setAccountFilter] = useState('');
 
@@ -75,6 +128,30 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [warnings, setWarnings] = useState<string[]>([]);
 
+  // Budget yang sudah diajukan/disetujui/dikunci hanya bisa dilihat
+  const isLocked = mode === 'edit' && !!budget && !isBudgetEditable(budget);
+  // Budget Editor hanya boleh mengubah budget miliknya / yang didelegasikan
+  const noAccess = mode === 'edit' && !!budget && !canEditBudgetContent(budget, user?.id, activeRole);
+  const formDisabled = loading || isLocked || noAccess;
+
+  const canAssignOwner = canAssignBudgetOwner(activeRole);
+  const canManageEditors = canManageBudgetEditors(
+    { owner_id: mode === 'create' ? ownerId : budget?.owner_id },
+    user?.id,
+    activeRole
+  );
+
+  // Cost center & anggota entitas aktif
+  useEffect(() => {
+    if (!activeEntity?.id) return;
+    getCostCenters(activeEntity.id).then(({ data }) => setCostCenters(data));
+    getEntityMembers(activeEntity.id).then(({ data }) => setEntityMembers(data));
+  }, [activeEntity?.id]);
+
+  // Cost center nonaktif tetap tampil jika sudah terpasang
+  const selectableCostCenters = (selectedId: string) =>
+    costCenters.filter((cc) => cc.is_active || cc.id === selectedId);
+
   // Load available accounts based on source
   useEffect(() => {
     if (activeEntity?.id) {
@@ -88,7 +165,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
         }
       }
     }
-  }, [activeEntity?.id, accountSource, period, budget?.id, budgetItems]);
+  }, [activeEntity?.id, accountSource, period, budget?.id, budgetItems, costCenterId, costCenters]);
 
   const loadDatabaseAccounts = async () => {
     if (!activeEntity) return;
@@ -130,21 +207,24 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
   };
 
   const loadAPIAccounts = async () => {
-    if (!activeEntity?.api_token || !period) return;
+    if (!activeEntity?.has_api_token || !period) return;
 
     setLoadingAccounts(true);
     setError(null);
 
     try {
       console.log('[DEBUG] Fetching ALL accounts from API (BS + PL)...');
-      console.log('[DEBUG] Token:', activeEntity.api_token ? 'EXISTS' : 'MISSING');
+      console.log('[DEBUG] Token:', activeEntity.has_api_token ? 'EXISTS' : 'MISSING');
       console.log('[DEBUG] Period:', period);
 
       // ✅ CHANGED: fetchBSAccountsByPeriod → fetchAllAccountsByPeriod
       // fetchAllAccountsByPeriod memanggil BS + PL secara paralel lalu merge
+      // Cost center budget yang tertaut ke Accurate → saldo per departemen / proyek
+      const dimension = toAccurateDimension(costCenters.find((cc) => cc.id === costCenterId));
       const result = await fetchAllAccountsByPeriod(
-        activeEntity.api_token,
-        period
+        activeEntity.id,
+        period,
+        dimension || undefined
       );
 
       console.log('[DEBUG] Result:', result);
@@ -182,30 +262,93 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
     }
   };
 
+  // Untuk phasing manual, total item = jumlah nominal per bulan
+  const manualTotal = itemManual.reduce<number>((sum, value) => sum + (Number(value) || 0), 0);
+  const effectiveItemAmount: number | '' =
+    isFiscalYear && itemPhasing === 'MANUAL' ? (manualTotal > 0 ? manualTotal : '') : itemAmount;
+
+  /**
+   * Field phasing untuk item baru (kosong untuk budget bulanan)
+   */
+  const buildItemPhasing = (total: number) => {
+    if (!isFiscalYear) {
+      return { phasing_method: null, monthly_allocations: null, seasonal_weights: null };
+    }
+    return {
+      phasing_method: itemPhasing,
+      monthly_allocations: buildSchedule(itemPhasing, total, {
+        weights: itemWeights,
+        manual: itemManual.map((value) => Number(value) || 0),
+      }),
+      seasonal_weights: itemPhasing === 'SEASONAL' ? itemWeights : null,
+    };
+  };
+
+  const resetItemPhasing = () => {
+    setItemPhasing('EVEN');
+    setItemWeights(emptyWeights());
+    setItemManual(emptyManual());
+  };
+
   const totalAllocated = calculateTotalAllocated(budgetItems);
   const totalBudget = totalAllocated;
   const totalRealisasi = calculateTotalRealisasi(budgetItems);
 
   useEffect(() => {
     const newWarnings: string[] = [];
-    if (typeof itemAmount === 'number' && itemAmount > 0 && itemAmount % 1000 !== 0) {
+    if (typeof effectiveItemAmount === 'number' && effectiveItemAmount > 0 && effectiveItemAmount % 1000 !== 0) {
       newWarnings.push('Jumlah budget: Disarankan gunakan angka bulat ribuan (kelipatan 1.000)');
     }
     setWarnings(newWarnings);
-  }, [itemAmount]);
+  }, [effectiveItemAmount]);
+
+  // Saldo dari API Accurate diambil saat ini; saldo database tidak diketahui waktunya
+  const snapshotTakenAt = () => (accountSource === 'api' ? new Date().toISOString() : null);
+
+  /**
+   * Snapshot realisasi item baru. Daftar akun API diambil dengan cost center
+   * budget; item yang memakai cost center sendiri di-fetch ulang dengan
+   * dimensi Accurate-nya, sama seperti refreshBudgetRealizations.
+   */
+  const loadItemSnapshot = async (accountNo: string, itemCcId: string) => {
+    const requestId = ++snapshotRequestRef.current;
+    const account = availableAccounts.find(a => a.accountNo === accountNo);
+    const listDimension = toAccurateDimension(costCenters.find((cc) => cc.id === costCenterId));
+    const itemDimension = toAccurateDimension(
+      costCenters.find((cc) => cc.id === resolveCostCenterId(itemCcId, costCenterId))
+    );
+    const sameSource = JSON.stringify(listDimension) === JSON.stringify(itemDimension);
+
+    if (!account || accountSource !== 'api' || sameSource || !activeEntity?.id || !period) {
+      setLoadingSnapshot(false);
+      setRealisasiSnapshot(account?.amount || 0);
+      return;
+    }
+
+    setLoadingSnapshot(true);
+    const result = await fetchAllAccountsByPeriod(activeEntity.id, period, itemDimension || undefined);
+    if (requestId !== snapshotRequestRef.current) return;
+
+    if (!result.success) setError(result.error || 'Gagal mengambil saldo cost center dari Accurate');
+    setRealisasiSnapshot(result.accounts?.find((acc) => acc.accountNo === accountNo)?.amount || 0);
+    setLoadingSnapshot(false);
+  };
 
   const handleAccountSelect = (accountNo: string) => {
     setSelectedAccountNo(accountNo);
+    setItemAmount('');
     if (!accountNo) {
-      setItemAmount('');
+      snapshotRequestRef.current++;
+      setLoadingSnapshot(false);
       setRealisasiSnapshot(0);
       return;
     }
-    const account = availableAccounts.find(a => a.accountNo === accountNo);
-    if (account) {
-      setItemAmount('');
-      setRealisasiSnapshot(account.amount || 0);
-    }
+    loadItemSnapshot(accountNo, itemCostCenterId);
+  };
+
+  const handleItemCostCenterChange = (itemCcId: string) => {
+    setItemCostCenterId(itemCcId);
+    if (selectedAccountNo) loadItemSnapshot(selectedAccountNo, itemCcId);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -231,6 +374,16 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
       return;
     }
 
+    if (isLocked) {
+      setError(`Budget berstatus ${BUDGET_STATUS_LABELS[getBudgetStatus(budget!)]} dan tidak dapat diubah`);
+      return;
+    }
+
+    if (noAccess) {
+      setError('Hanya owner dan editor budget yang dapat mengubah budget ini');
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
@@ -242,8 +395,12 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
           entity_id: activeEntity.id,
           name: name.trim(),
           period,
+          period_type: periodType,
           total_budget: calculatedTotalBudget,
           description: description.trim(),
+          cost_center_id: costCenterId || null,
+          owner_id: ownerId || null,
+          editor_ids: editorIds.filter((id) => id !== ownerId),
         });
 
         if (budgetError) throw budgetError;
@@ -258,16 +415,30 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
             account_type: item.account_type,
             allocated_amount: item.allocated_amount,
             realisasi_snapshot: item.realisasi_snapshot || 0,
+            realisasi_synced_at: item.realisasi_synced_at,
+            phasing_method: item.phasing_method,
+            monthly_allocations: item.monthly_allocations,
+            seasonal_weights: item.seasonal_weights,
+            cost_center_id: item.cost_center_id,
             description: item.description,
           });
         }
+
+        // Angka awal disimpan sebagai versi Original
+        await createBudgetVersion(newBudget!.id, 'ORIGINAL');
       } else {
-        await updateBudget(budget!.id, {
+        const { error: updateError } = await updateBudget(budget!.id, {
           name: name.trim(),
           period,
           total_budget: calculatedTotalBudget,
           description: description.trim(),
+          cost_center_id: costCenterId || null,
         });
+
+        if (updateError) throw updateError;
+
+        // Setiap simpan perubahan menjadi Revision baru (dilewati jika alokasi tidak berubah)
+        await createBudgetVersion(budget!.id, 'REVISION');
       }
 
       onSuccess();
@@ -278,13 +449,40 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
     }
   };
 
+  const toggleEditor = (userId: string) => {
+    setEditorIds((prev) => (prev.includes(userId) ? prev.filter((id) => id !== userId) : [...prev, userId]));
+  };
+
+  /**
+   * Simpan owner & editor budget yang sudah ada (tidak terikat status approval)
+   */
+  const handleSaveOwnership = async () => {
+    if (!budget) return;
+
+    setSavingOwnership(true);
+    setError(null);
+    setOwnershipMessage(null);
+    try {
+      const { error: ownershipError } = await updateBudgetOwnership(budget.id, {
+        owner_id: ownerId || null,
+        editor_ids: editorIds,
+      });
+      if (ownershipError) throw ownershipError;
+      setOwnershipMessage('Owner & editor tersimpan');
+    } catch (err) {
+      setError((err as Error).message || 'Gagal menyimpan owner budget');
+    } finally {
+      setSavingOwnership(false);
+    }
+  };
+
   const handleAddItem = () => {
     if (!selectedAccountNo) {
       setError('Pilih akun terlebih dahulu');
       return;
     }
 
-    if (itemAmount === '' || itemAmount <= 0) {
+    if (effectiveItemAmount === '' || effectiveItemAmount <= 0) {
       setError('Jumlah budget harus diisi dan lebih dari 0');
       return;
     }
@@ -309,8 +507,11 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
       account_code: selectedAccount.accountNo,
       account_name: selectedAccount.accountName,
       account_type: selectedAccount.accountType,
-      allocated_amount: Number(itemAmount),
+      allocated_amount: Number(effectiveItemAmount),
       realisasi_snapshot: realisasiSnapshot,
+      realisasi_synced_at: snapshotTakenAt(),
+      ...buildItemPhasing(Number(effectiveItemAmount)),
+      cost_center_id: itemCostCenterId || null,
       description: itemDescription.trim(),
     };
 
@@ -318,7 +519,9 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
     setSelectedAccountNo('');
     setItemAmount('');
     setRealisasiSnapshot(0);
+    resetItemPhasing();
     setItemDescription('');
+    setItemCostCenterId('');
     setAccountFilter('');
     setShowAddItem(false);
     setError(null);
@@ -327,7 +530,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
   const handleAddItemToExistingBudget = async () => {
     if (!budget?.id || !selectedAccountNo) return;
 
-    if (itemAmount === '' || itemAmount <= 0) {
+    if (effectiveItemAmount === '' || effectiveItemAmount <= 0) {
       setError('Jumlah budget harus diisi dan lebih dari 0');
       return;
     }
@@ -339,6 +542,9 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
     setError(null);
 
     try {
+      const { error: versionError } = await ensureOriginalVersion(budget.id);
+      if (versionError) throw versionError;
+
       const { data, error: addError } = await addBudgetItem({
         budget_id: budget.id,
         account_id: selectedAccount.id,
@@ -346,8 +552,11 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
         account_code: selectedAccount.accountNo,
         account_name: selectedAccount.accountName,
         account_type: selectedAccount.accountType,
-        allocated_amount: Number(itemAmount),
+        allocated_amount: Number(effectiveItemAmount),
         realisasi_snapshot: realisasiSnapshot,
+        realisasi_synced_at: snapshotTakenAt(),
+        ...buildItemPhasing(Number(effectiveItemAmount)),
+        cost_center_id: itemCostCenterId || null,
         description: itemDescription.trim(),
       });
 
@@ -357,7 +566,9 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
       setSelectedAccountNo('');
       setItemAmount('');
       setRealisasiSnapshot(0);
+      resetItemPhasing();
       setItemDescription('');
+      setItemCostCenterId('');
       setAccountFilter('');
       setShowAddItem(false);
     } catch (err: any) {
@@ -410,6 +621,25 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
         {/* Error Alert */}
         {error && <div className={styles.errorAlert}>{error}</div>}
 
+        {/* Approval Status */}
+        {isLocked && (
+          <div className={styles.warningAlert}>
+            Budget berstatus <strong>{BUDGET_STATUS_LABELS[getBudgetStatus(budget!)]}</strong> dan
+            tidak dapat diubah. Budget hanya bisa diedit saat berstatus Draft.
+          </div>
+        )}
+        {noAccess && (
+          <div className={styles.warningAlert}>
+            Anda bukan owner atau editor budget ini, sehingga budget hanya bisa dilihat.
+          </div>
+        )}
+        {mode === 'edit' && !isLocked && budget?.status_comment && (
+          <div className={styles.warningAlert}>
+            <div className={styles.warningAlertTitle}>Catatan penolakan:</div>
+            {budget.status_comment}
+          </div>
+        )}
+
         {/* Warning Alert */}
         {warnings.length > 0 && (
           <div className={styles.warningAlert}>
@@ -436,7 +666,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                 onChange={(e) => setName(e.target.value)}
                 required
                 maxLength={150}
-                disabled={loading}
+                disabled={formDisabled}
                 placeholder="Contoh: Budget Operasional Q1 2026"
                 className={styles.input}
               />
@@ -446,19 +676,118 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
             {/* Periode */}
             <div>
               <label className={styles.label}>
-                Periode <span className={styles.required}>*</span>
+                {isFiscalYear ? 'Bulan Awal Tahun Fiskal' : 'Periode'} <span className={styles.required}>*</span>
               </label>
               <input
                 type="month"
                 value={period}
                 onChange={(e) => setPeriod(e.target.value)}
                 required
-                disabled={loading}
+                disabled={formDisabled}
                 className={styles.monthInput}
               />
+              {isFiscalYear && period && (
+                <div className={styles.charCount}>
+                  s/d {formatPeriodLabel(getBudgetEndPeriod({ period, period_type: periodType }))}
+                </div>
+              )}
+            </div>
+
+            {/* Tipe Periode */}
+            <div>
+              <label className={styles.label}>Tipe Periode</label>
+              <select
+                value={periodType}
+                onChange={(e) => setPeriodType(e.target.value as BudgetPeriodType)}
+                disabled={formDisabled || mode === 'edit'}
+                className={styles.input}
+              >
+                <option value="MONTHLY">Bulanan</option>
+                <option value="FISCAL_YEAR">Tahun Fiskal (12 bulan)</option>
+              </select>
+            </div>
+
+            {/* Cost Center */}
+            <div>
+              <label className={styles.label}>Cost Center</label>
+              <select
+                value={costCenterId}
+                onChange={(e) => setCostCenterId(e.target.value)}
+                disabled={formDisabled}
+                className={styles.input}
+              >
+                <option value="">Tanpa cost center</option>
+                {selectableCostCenters(costCenterId).map((cc) => (
+                  <option key={cc.id} value={cc.id}>
+                    {cc.code} - {cc.name}
+                  </option>
+                ))}
+              </select>
+              <div className={styles.charCount}>Default untuk semua akun di budget ini</div>
             </div>
           </div>
 
+          {/* Owner & Editor */}
+          <div className={styles.formGrid}>
+            <div>
+              <label className={styles.label}>Owner Budget</label>
+              <select
+                value={ownerId}
+                onChange={(e) => setOwnerId(e.target.value)}
+                disabled={loading || savingOwnership || !canAssignOwner}
+                className={styles.input}
+              >
+                <option value="">Belum ada owner</option>
+                {entityMembers.map((member) => (
+                  <option key={member.user_id} value={member.user_id}>
+                    {member.email} ({WORKSPACE_ROLE_LABELS[member.role]})
+                  </option>
+                ))}
+              </select>
+              <div className={styles.charCount}>
+                {canAssignOwner ? 'Penanggung jawab budget' : 'Owner hanya bisa diganti Owner / Finance Admin'}
+              </div>
+            </div>
+
+            <div>
+              <label className={styles.label}>Editor</label>
+              <div className={styles.editorList}>
+                {entityMembers.filter((member) => member.user_id !== ownerId).length === 0 ? (
+                  <span className={styles.charCount}>Tidak ada anggota lain</span>
+                ) : (
+                  entityMembers
+                    .filter((member) => member.user_id !== ownerId)
+                    .map((member) => (
+                      <label key={member.user_id} className={styles.editorOption}>
+                        <input
+                          type="checkbox"
+                          checked={editorIds.includes(member.user_id)}
+                          onChange={() => toggleEditor(member.user_id)}
+                          disabled={loading || savingOwnership || !canManageEditors}
+                        />
+                        {member.email}
+                      </label>
+                    ))
+                )}
+              </div>
+              <div className={styles.charCount}>Anggota yang boleh ikut mengedit budget ini</div>
+            </div>
+          </div>
+
+          {mode === 'edit' && (canAssignOwner || canManageEditors) && (
+            <div className={styles.ownershipActions}>
+              <button
+                type="button"
+                onClick={handleSaveOwnership}
+                disabled={savingOwnership}
+                className={styles.cancelButton}
+              >
+                {savingOwnership ? 'Menyimpan...' : 'Simpan Owner & Editor'}
+              </button>
+              {ownershipMessage && <span className={styles.charCount}>{ownershipMessage}</span>}
+            </div>
+          )}
+
           {/* Account Source Selection - SWITCH TOGGLE */}
           <div className={styles.sourceContainer}>
             <div className={styles.sourceLeft}>
@@ -470,7 +799,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                   ? 'Akun dari List COA Excel Atau Manual Input'
                   : 'Akun dari API Accurate — BS (Neraca) + PL (Beban & Pendapatan) (Note: Jika sudah input akun tapi periodenya diubah maka akun yang terpilih tidak akan berubah)'}
               </div>
-              {!activeEntity?.api_token && accountSource === 'api' && (
+              {!activeEntity?.has_api_token && accountSource === 'api' && (
                 <div className={styles.sourceWarning}>
                   Token API tidak tersedia
                 </div>
@@ -491,7 +820,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                   type="checkbox"
                   checked={accountSource === 'api'}
                   onChange={(e) => setAccountSource(e.target.checked ? 'api' : 'database')}
-                  disabled={loading || !activeEntity?.api_token}
+                  disabled={formDisabled || !activeEntity?.has_api_token}
                 />
                 <span className={styles.slider}></span>
               </label>
@@ -511,7 +840,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
             <button
               type="button"
               onClick={() => setShowAddItem(!showAddItem)}
-              disabled={loading || loadingAccounts || (accountSource === 'api' && !period)}
+              disabled={formDisabled || loadingAccounts || (accountSource === 'api' && !period)}
               className={`${styles.addButton} ${showAddItem ? styles.addButtonClose : ''}`}
             >
               {showAddItem ? '✕ Tutup' : '+ Tambah Akun'}
@@ -602,7 +931,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                           Realisasi ({accountSource === 'database' ? 'Balance COA saat ini' : 'Saldo akun per periode'}):
                         </div>
                         <div style={{ fontSize: '18px', fontWeight: '600', color: '#0c4a6e' }}>
-                          Rp {formatCurrency(realisasiSnapshot)}
+                          {loadingSnapshot ? 'Memuat saldo cost center...' : `Rp ${formatCurrency(realisasiSnapshot)}`}
                         </div>
                         <div style={{ fontSize: '14px', color: '#075985', marginTop: '4px' }}>
                           Masukkan budget perkiraan yang akan dialokasikan untuk akun ini.
@@ -612,11 +941,11 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                       <div className={styles.amountGrid}>
                         <div>
                           <label className={styles.label}>
-                            Budget <span className={styles.required}>*</span>
+                            {isFiscalYear ? 'Budget Tahunan' : 'Budget'} <span className={styles.required}>*</span>
                           </label>
                           <input
                             type="number"
-                            value={itemAmount}
+                            value={effectiveItemAmount}
                             onChange={(e) => {
                               const value = e.target.value;
                               if (value === '' || value.replace(/\D/g, '').length <= 15) {
@@ -632,12 +961,14 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                             min={0}
                             max={999_999_999_999_999}
                             step={1}
-                            disabled={loading}
+                            disabled={formDisabled || (isFiscalYear && itemPhasing === 'MANUAL')}
                             placeholder="Masukkan nominal budget (max 15 digit)"
                             className={styles.input}
                           />
                           <div className={styles.charCount}>
-                            Input manual • Max 15 digit
+                            {isFiscalYear && itemPhasing === 'MANUAL'
+                              ? 'Dihitung dari total per bulan'
+                              : 'Input manual • Max 15 digit'}
                           </div>
                         </div>
 
@@ -648,17 +979,48 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                             value={itemDescription}
                             onChange={(e) => setItemDescription(e.target.value)}
                             maxLength={200}
-                            disabled={loading}
+                            disabled={formDisabled}
                             placeholder="Catatan (opsional, maks. 200 karakter)..."
                             className={styles.input}
                           />
                         </div>
+
+                        <div>
+                          <label className={styles.label}>Cost Center Akun</label>
+                          <select
+                            value={itemCostCenterId}
+                            onChange={(e) => handleItemCostCenterChange(e.target.value)}
+                            disabled={formDisabled}
+                            className={styles.input}
+                          >
+                            <option value="">Ikut budget</option>
+                            {selectableCostCenters(itemCostCenterId).map((cc) => (
+                              <option key={cc.id} value={cc.id}>
+                                {cc.code} - {cc.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
                       </div>
 
+                      {isFiscalYear && period && (
+                        <PhasingEditor
+                          startPeriod={period}
+                          total={Number(effectiveItemAmount) || 0}
+                          method={itemPhasing}
+                          weights={itemWeights}
+                          manual={itemManual}
+                          disabled={formDisabled}
+                          onMethodChange={setItemPhasing}
+                          onWeightsChange={setItemWeights}
+                          onManualChange={setItemManual}
+                        />
+                      )}
+
                       <button
                         type="button"
                         onClick={mode === 'edit' && budget?.id ? handleAddItemToExistingBudget : handleAddItem}
-                        disabled={!selectedAccountNo || itemAmount === '' || itemAmount <= 0 || loading}
+                        disabled={!selectedAccountNo || loadingSnapshot || effectiveItemAmount === '' || effectiveItemAmount <= 0 || formDisabled}
                         className={styles.addAccountButton}
                       >
                         ✓ Tambahkan ke Budget
@@ -685,6 +1047,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                     <th className={styles.tableHeaderCell}>Tipe</th>
                     <th className={styles.tableHeaderCell}>Budget</th>
                     <th className={styles.tableHeaderCell}>Realisasi</th>
+                    <th className={styles.tableHeaderCell}>Cost Center</th>
                     <th className={styles.tableHeaderCell}>Catatan</th>
                     <th className={`${styles.tableHeaderCell} ${styles.tableCellCenter}`}>Aksi</th>
                   </tr>
@@ -718,6 +1081,11 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                         >
                           Rp {formatCurrency(item.allocated_amount)}
                         </strong>
+                        {isFiscalYear && (
+                          <div className={styles.phasingBadge}>
+                            {PHASING_LABELS[item.phasing_method || 'EVEN']} • 12 bln
+                          </div>
+                        )}
                       </td>
                       <td className={styles.tableCell}>
                         <span
@@ -729,6 +1097,12 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                           Rp {formatCurrency(item.realisasi_snapshot || 0)}
                         </span>
                       </td>
+                      <td className={styles.tableCell}>
+                        {formatCostCenter(resolveCostCenterId(item.cost_center_id, costCenterId), costCenters)}
+                        {!item.cost_center_id && costCenterId && (
+                          <div className={styles.phasingBadge}>ikut budget</div>
+                        )}
+                      </td>
                       <td className={styles.tableCell}>
                         <div
                           style={{
@@ -745,7 +1119,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
                         <button
                           type="button"
                           onClick={() => handleDeleteItem(item.id, item.account_code)}
-                          disabled={loading}
+                          disabled={formDisabled}
                           className={styles.deleteButton}
                         >
                           Hapus
@@ -799,7 +1173,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
             onChange={(e) => setDescription(e.target.value)}
             rows={3}
             maxLength={500}
-            disabled={loading}
+            disabled={formDisabled}
             placeholder="Deskripsi budget (opsional)..."
             className={styles.textarea}
           />
@@ -819,7 +1193,7 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({
 
           <button
             type="submit"
-            disabled={loading || !name.trim() || !period || totalBudget <= 0}
+            disabled={formDisabled || !name.trim() || !period || totalBudget <= 0}
             className={styles.submitButton}
           >
             {loading ? 'Menyimpan...' : mode === 'create' ? 'Simpan Budget' : 'Update Budget'}
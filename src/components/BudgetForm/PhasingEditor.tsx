@@ -0,0 +1,116 @@
+import React from 'react';
+import type { PhasingMethod } from '../../lib/accurate';
+import {
+  buildSchedule,
+  formatPeriodLabel,
+  getFiscalMonths,
+} from '../../services/budgetPhasing';
+import { formatCurrency } from '../../services/budgetHelpers';
+import styles from './BudgetForm.module.css';
+
+interface PhasingEditorProps {
+  startPeriod: string;
+  total: number;
+  method: PhasingMethod;
+  weights: number[];
+  manual: (number | '')[];
+  disabled?: boolean;
+  onMethodChange: (method: PhasingMethod) => void;
+  onWeightsChange: (weights: number[]) => void;
+  onManualChange: (manual: (number | '')[]) => void;
+}
+
+const METHOD_OPTIONS: { value: PhasingMethod; label: string; hint: string }[] = [
+  { value: 'EVEN', label: 'Rata', hint: 'Budget tahunan dibagi rata ke 12 bulan' },
+  { value: 'SEASONAL', label: 'Musiman', hint: 'Budget tahunan dibagi sesuai bobot per bulan' },
+  { value: 'MANUAL', label: 'Manual', hint: 'Isi nominal budget per bulan satu per satu' },
+];
+
+/**
+ * Editor jadwal alokasi 12 bulan untuk item budget tahun fiskal
+ */
+export const PhasingEditor: React.FC<PhasingEditorProps> = ({
+  startPeriod,
+  total,
+  method,
+  weights,
+  manual,
+  disabled,
+  onMethodChange,
+  onWeightsChange,
+  onManualChange,
+}) => {
+  const months = getFiscalMonths(startPeriod);
+  const schedule = buildSchedule(method, total, {
+    weights,
+    manual: manual.map((value) => Number(value) || 0),
+  });
+  const activeOption = METHOD_OPTIONS.find((option) => option.value === method);
+
+  return (
+    <div className={styles.phasingContainer}>
+      <div className={styles.phasingHeader}>
+        <label className={styles.label}>Metode Phasing</label>
+        <select
+          value={method}
+          onChange={(e) => onMethodChange(e.target.value as PhasingMethod)}
+          disabled={disabled}
+          className={styles.input}
+        >
+          {METHOD_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <div className={styles.charCount}>{activeOption?.hint}</div>
+      </div>
+
+      <div className={styles.phasingGrid}>
+        {months.map((month, index) => (
+          <div key={month} className={styles.phasingCell}>
+            <div className={styles.phasingMonth}>{formatPeriodLabel(month)}</div>
+
+            {method === 'SEASONAL' && (
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={weights[index] ?? 0}
+                onChange={(e) => {
+                  const next = [...weights];
+                  next[index] = Number(e.target.value) || 0;
+                  onWeightsChange(next);
+                }}
+                disabled={disabled}
+                className={styles.input}
+                title="Bobot bulan ini"
+              />
+            )}
+
+            {method === 'MANUAL' ? (
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={manual[index] ?? ''}
+                onChange={(e) => {
+                  const next = [...manual];
+                  next[index] = e.target.value === '' ? '' : Number(e.target.value);
+                  onManualChange(next);
+                }}
+                disabled={disabled}
+                placeholder="0"
+                className={styles.input}
+              />
+            ) : (
+              <div className={styles.phasingAmount}>Rp {formatCurrency(schedule[index])}</div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PhasingEditor;
@@ -9,7 +9,7 @@ import {
   type CoaAccount,
   type EditAccountData,
 } from '../lib/accurate';
-import { deleteCoaAccount } from '../lib/supabase';
+import { deleteCoaAccount, deleteAllCoaByEntity } from '../lib/supabase';
 
 interface ExpandedState {
   [accountId: number]: boolean;
@@ -42,7 +42,8 @@ export const useCoaForm = () => {
   const [showFinalConfirmModal, setShowFinalConfirmModal] = useState(false);
   const [deletingAll, setDeletingAll] = useState(false);
 
-  const { activeEntity } = useEntity();
+  const { activeEntity, can } = useEntity();
+  const canEditCoa = can('EDIT_COA');
 
   // ============================================
   // LOAD COA FROM DATABASE
@@ -109,7 +110,7 @@ export const useCoaForm = () => {
       setError('Tidak ada entitas yang aktif');
       return;
     }
-    if (!activeEntity.api_token) {
+    if (!activeEntity.has_api_token) {
       setError('API Token tidak ditemukan');
       return;
     }
@@ -119,7 +120,7 @@ export const useCoaForm = () => {
       setError(null);
       setSyncStatus('Mengambil data COA dari Accurate API...');
 
-      const result = await fetchCoaFromAccurate(activeEntity.id, activeEntity.api_token);
+      const result = await fetchCoaFromAccurate(activeEntity.id);
 
       if (!result.success) {
         throw new Error(result.error || 'Gagal mengambil data COA');
@@ -302,15 +303,10 @@ export const useCoaForm = () => {
     try {
       console.log('[handleDeleteAll] Deleting all accounts for entity:', activeEntity.id);
 
-      const { supabase } = await import('../lib/supabase');
-      
-      const { error } = await supabase
-        .from('accurate_accounts')
-        .delete()
-        .eq('entity_id', activeEntity.id);
+      const { error } = await deleteAllCoaByEntity(activeEntity.id);
 
       if (error) {
-        throw new Error(error.message);
+        throw new Error(error);
       }
 
       const deletedCount = accounts.length;
@@ -367,6 +363,7 @@ export const useCoaForm = () => {
     lastSync,
     expanded,
     activeEntity,
+    canEditCoa,
     
     editModalOpen,
     editingAccount,
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import {
+  copyBudgetToPeriod,
+  createBudgetFromTemplate,
+  deleteBudgetTemplate,
+  getBudgetTemplates,
+  type Budget,
+  type BudgetTemplate,
+  type CopyBudgetResult,
+} from '../../lib/accurate';
+import { addMonths, MONTHS_IN_FISCAL_YEAR } from '../../services/budgetPhasing';
+import { applyUplift } from '../../services/budgetCopy';
+import { formatCurrency } from '../../services/budgetHelpers';
+import styles from './CopyBudgetModal.module.css';
+
+interface CopyBudgetModalProps {
+  entityId: string;
+  budget?: Budget; // Tanpa budget = buat dari template
+  onSuccess: (result: CopyBudgetResult) => void;
+  onClose: () => void;
+}
+
+const currentPeriod = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Periode berikutnya setelah budget sumber berakhir
+ */
+const getNextPeriod = (budget: Budget) =>
+  addMonths(budget.period, budget.period_type === 'FISCAL_YEAR' ? MONTHS_IN_FISCAL_YEAR : 1);
+
+/**
+ * Modal salin budget ke periode lain atau buat budget dari template
+ */
+export const CopyBudgetModal: React.FC<CopyBudgetModalProps> = ({ entityId, budget, onSuccess, onClose }) => {
+  const [templates, setTemplates] = useState<BudgetTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [name, setName] = useState(budget?.name || '');
+  const [period, setPeriod] = useState(budget ? getNextPeriod(budget) : currentPeriod());
+  const [upliftPercent, setUpliftPercent] = useState<number | ''>(0);
+  const [roundThousand, setRoundThousand] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedTemplate = templates.find((t) => t.id === templateId);
+  const sourceTotal = budget?.total_budget ?? selectedTemplate?.total_budget ?? 0;
+  const amountOptions = { upliftPercent: Number(upliftPercent) || 0, roundToThousand: roundThousand };
+
+  // Load template hanya saat mode template
+  useEffect(() => {
+    if (budget) return;
+
+    getBudgetTemplates(entityId).then(({ data }) => {
+      setTemplates(data);
+      if (data.length > 0) {
+        setTemplateId(data[0].id);
+        setName(data[0].name);
+      }
+    });
+  }, [entityId, budget]);
+
+  const handleSelectTemplate = (id: string) => {
+    setTemplateId(id);
+    setName(templates.find((t) => t.id === id)?.name || '');
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate) return;
+    if (!confirm(`Hapus template "${selectedTemplate.name}"?`)) return;
+
+    const { error } = await deleteBudgetTemplate(selectedTemplate.id);
+    if (error) {
+      setError('Gagal menghapus template: ' + (error as Error).message);
+      return;
+    }
+
+    const remaining = templates.filter((t) => t.id !== selectedTemplate.id);
+    setTemplates(remaining);
+    setTemplateId(remaining[0]?.id || '');
+    setName(remaining[0]?.name || '');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!budget && !selectedTemplate) {
+      setError('Pilih template terlebih dahulu');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const options = { ...amountOptions, name, period };
+      const { data, error } = budget
+        ? await copyBudgetToPeriod(budget.id, options)
+        : await createBudgetFromTemplate(selectedTemplate!, options);
+
+      if (error) throw error;
+      if (data) onSuccess(data);
+    } catch (err) {
+      console.error('[CopyBudgetModal] Error:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className={styles.modalOverlay} onClick={onClose}>
+      <div className={styles.modalContent} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.headerTitle}>
+            {budget ? `Salin Budget "${budget.name}"` : 'Buat Budget dari Template'}
+          </h2>
+          <p className={styles.headerSubtitle}>
+            Semua akun dan alokasi ikut disalin. Akun yang sudah suspended di COA dilewati.
+          </p>
+        </div>
+
+        {error && <div className={styles.errorAlert}>{error}</div>}
+
+        <form onSubmit={handleSubmit}>
+          {!budget && (
+            <div className={styles.field}>
+              <label className={styles.label}>Template</label>
+              {templates.length === 0 ? (
+                <div className={styles.hint}>
+                  Belum ada template. Gunakan tombol "Simpan sebagai Template" pada budget yang ada.
+                </div>
+              ) : (
+                <div className={styles.templateRow}>
+                  <select
+                    value={templateId}
+                    onChange={(e) => handleSelectTemplate(e.target.value)}
+                    disabled={loading}
+                    className={styles.input}
+                  >
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name} ({template.items.length} akun)
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleDeleteTemplate}
+                    disabled={loading}
+                    className={styles.deleteButton}
+                  >
+                    Hapus
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className={styles.field}>
+            <label className={styles.label}>Nama Budget Baru</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={loading}
+              className={styles.input}
+            />
+          </div>
+
+          <div className={styles.fieldGrid}>
+            <div className={styles.field}>
+              <label className={styles.label}>
+                {(budget?.period_type || selectedTemplate?.period_type) === 'FISCAL_YEAR'
+                  ? 'Bulan Awal Tahun Fiskal'
+                  : 'Periode Tujuan'}
+              </label>
+              <input
+                type="month"
+                value={period}
+                onChange={(e) => setPeriod(e.target.value)}
+                disabled={loading}
+                className={styles.input}
+              />
+            </div>
+
+            <div className={styles.field}>
+              <label className={styles.label}>Kenaikan (%)</label>
+              <input
+                type="number"
+                step="0.1"
+                value={upliftPercent}
+                onChange={(e) => setUpliftPercent(e.target.value === '' ? '' : Number(e.target.value))}
+                disabled={loading}
+                className={styles.input}
+              />
+            </div>
+          </div>
+
+          <label className={styles.checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={roundThousand}
+              onChange={(e) => setRoundThousand(e.target.checked)}
+              disabled={loading}
+            />
+            Bulatkan ke kelipatan 1.000
+          </label>
+
+          <div className={styles.preview}>
+            Total budget: Rp {formatCurrency(sourceTotal)} → <strong>Rp {formatCurrency(applyUplift(sourceTotal, amountOptions))}</strong>
+          </div>
+
+          <div className={styles.actionButtons}>
+            <button
+              type="submit"
+              disabled={loading || !name.trim() || !period || (!budget && !selectedTemplate)}
+              className={styles.submitButton}
+            >
+              {loading ? 'Menyalin...' : budget ? 'Salin Budget' : 'Buat Budget'}
+            </button>
+            <button type="button" onClick={onClose} disabled={loading} className={styles.cancelButton}>
+              Batal
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CopyBudgetModal;
@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import {
+  getCostCenters,
+  saveCostCenter,
+  deleteCostCenter,
+  type CostCenter,
+} from '../../lib/costCenters';
+import {
+  fetchAccurateDimensions,
+  type AccurateDimensionOption,
+  type AccurateDimensionType,
+} from '../../lib/accurate';
+import { ACCURATE_DIMENSION_LABELS } from '../../services/costCenters';
+import styles from './CostCenterManager.module.css';
+
+interface CostCenterManagerProps {
+  entityId: string;
+  entityName: string;
+  hasApiToken?: boolean;
+  onChange?: (costCenters: CostCenter[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Kelola daftar cost center / departemen satu entitas
+ */
+export const CostCenterManager: React.FC<CostCenterManagerProps> = ({
+  entityId,
+  entityName,
+  hasApiToken,
+  onChange,
+  onClose,
+}) => {
+  const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [dimension, setDimension] = useState<AccurateDimensionType | ''>('');
+  const [dimensionId, setDimensionId] = useState('');
+  const [dimensionOptions, setDimensionOptions] = useState<AccurateDimensionOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCostCenters(entityId).then(({ data }) => setCostCenters(data));
+  }, [entityId]);
+
+  // Daftar departemen / proyek Accurate untuk pilihan ID
+  useEffect(() => {
+    if (!hasApiToken || !dimension) return;
+    fetchAccurateDimensions(entityId, dimension).then((result) => setDimensionOptions(result.items || []));
+  }, [entityId, hasApiToken, dimension]);
+
+  const updateList = (next: CostCenter[]) => {
+    setCostCenters(next);
+    onChange?.(next);
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setCode('');
+    setName('');
+    setDimension('');
+    setDimensionId('');
+  };
+
+  const handleEdit = (costCenter: CostCenter) => {
+    setEditingId(costCenter.id);
+    setCode(costCenter.code);
+    setName(costCenter.name);
+    setDimension(costCenter.accurate_dimension || '');
+    setDimensionId(costCenter.accurate_dimension_id || '');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    setError(null);
+    const existing = costCenters.find((cc) => cc.id === editingId);
+    const { data, error } = await saveCostCenter(
+      {
+        entity_id: entityId,
+        code,
+        name,
+        is_active: existing?.is_active ?? true,
+        accurate_dimension: dimension || null,
+        accurate_dimension_id: dimensionId,
+      },
+      editingId || undefined
+    );
+    setLoading(false);
+
+    if (error || !data) {
+      setError('Gagal menyimpan cost center: ' + (error as Error).message);
+      return;
+    }
+
+    updateList(
+      [...costCenters.filter((cc) => cc.id !== data.id), data].sort((a, b) => a.code.localeCompare(b.code))
+    );
+    resetForm();
+  };
+
+  const handleToggleActive = async (costCenter: CostCenter) => {
+    const { data, error } = await saveCostCenter(
+      { ...costCenter, is_active: !costCenter.is_active },
+      costCenter.id
+    );
+    if (error || !data) {
+      setError('Gagal mengubah status cost center: ' + (error as Error).message);
+      return;
+    }
+    updateList(costCenters.map((cc) => (cc.id === data.id ? data : cc)));
+  };
+
+  const handleDelete = async (costCenter: CostCenter) => {
+    if (!confirm(`Hapus cost center ${costCenter.code} - ${costCenter.name}? Budget & item yang memakainya menjadi tanpa cost center.`)) {
+      return;
+    }
+
+    const { error } = await deleteCostCenter(costCenter.id);
+    if (error) {
+      setError('Gagal menghapus cost center: ' + (error as Error).message);
+      return;
+    }
+    updateList(costCenters.filter((cc) => cc.id !== costCenter.id));
+    if (editingId === costCenter.id) resetForm();
+  };
+
+  return (
+    <div className={styles.modalOverlay} onClick={onClose}>
+      <div className={styles.modalContent} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.headerTitle}>Cost Center</h2>
+          <p className={styles.headerSubtitle}>
+            Departemen / cost center untuk {entityName}. Bisa dipasang di budget atau per item.
+            Tautkan ke departemen / proyek Accurate agar realisasi diambil per dimensi tersebut.
+          </p>
+        </div>
+
+        {error && <div className={styles.errorAlert}>{error}</div>}
+
+        <form onSubmit={handleSubmit} className={styles.form}>
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Kode, contoh: MKT"
+            maxLength={20}
+            className={styles.input}
+          />
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nama, contoh: Marketing"
+            maxLength={100}
+            className={styles.input}
+          />
+          <select
+            value={dimension}
+            onChange={(e) => {
+              setDimension(e.target.value as AccurateDimensionType | '');
+              setDimensionOptions([]);
+            }}
+            className={styles.input}
+            title="Tautkan ke dimensi Accurate agar realisasi diambil per departemen / proyek"
+          >
+            <option value="">Tanpa dimensi Accurate</option>
+            {(Object.keys(ACCURATE_DIMENSION_LABELS) as AccurateDimensionType[]).map((type) => (
+              <option key={type} value={type}>
+                {ACCURATE_DIMENSION_LABELS[type]} Accurate
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={dimensionId}
+            onChange={(e) => setDimensionId(e.target.value)}
+            placeholder={dimension ? `ID ${ACCURATE_DIMENSION_LABELS[dimension].toLowerCase()}` : '-'}
+            disabled={!dimension}
+            list="cost-center-dimension-options"
+            className={styles.input}
+          />
+          <datalist id="cost-center-dimension-options">
+            {dimensionOptions.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </datalist>
+          <button type="submit" disabled={loading} className={styles.submitButton}>
+            {editingId ? 'Simpan' : '+ Tambah'}
+          </button>
+          {editingId && (
+            <button type="button" onClick={resetForm} className={styles.cancelButton}>
+              Batal
+            </button>
+          )}
+        </form>
+
+        {costCenters.length === 0 ? (
+          <div className={styles.empty}>Belum ada cost center</div>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Kode</th>
+                <th>Nama</th>
+                <th>Accurate</th>
+                <th>Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {costCenters.map((costCenter) => (
+                <tr key={costCenter.id} className={costCenter.is_active ? '' : styles.inactive}>
+                  <td>
+                    <code>{costCenter.code}</code>
+                  </td>
+                  <td>{costCenter.name}</td>
+                  <td>
+                    {costCenter.accurate_dimension
+                      ? `${ACCURATE_DIMENSION_LABELS[costCenter.accurate_dimension]} ${costCenter.accurate_dimension_id}`
+                      : '-'}
+                  </td>
+                  <td>
+                    <button onClick={() => handleToggleActive(costCenter)} className={styles.linkButton}>
+                      {costCenter.is_active ? 'Aktif' : 'Nonaktif'}
+                    </button>
+                  </td>
+                  <td className={styles.rowActions}>
+                    <button onClick={() => handleEdit(costCenter)} className={styles.linkButton}>
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(costCenter)} className={styles.deleteLink}>
+                      Hapus
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className={styles.actionButtons}>
+          <button type="button" onClick={onClose} className={styles.cancelButton}>
+            Tutup
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CostCenterManager;
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
-import { insertEntity, updateEntity, getEntities } from '../../lib/supabase';
+import { insertEntity, updateEntity } from '../../lib/supabase';
+import { findCredentialOwner, formatTokenHint } from '../../lib/credentialVault';
 import { validateAccurateTokenOwnership, quickValidateTokenFormat } from '../../lib/accurateValidate';
 import { validateAccurateApiToken } from '../../services/accurateValidation';
 import type { AccurateValidationResult, AccurateDatabase } from '../../lib/accurate';
@@ -43,23 +44,21 @@ export const EntitasForm: React.FC<Props> = ({
   const [selectedDatabaseId, setSelectedDatabaseId] = useState<string | null>(null);
   // ========================================================
 
-  const [existingTokens, setExistingTokens] = useState<string[]>([]);
   const [tokenDuplicate, setTokenDuplicate] = useState(false);
   const [tokenDuplicateEntity, setTokenDuplicateEntity] = useState('');
 
-  useEffect(() => {
-    loadExistingTokens();
-  }, []);
+  // Token lama ada di credential vault; field token kosong = tetap pakai token tersimpan
+  const hasStoredToken = mode === 'edit' && !!initialData?.has_api_token;
 
   useEffect(() => {
     if (mode === 'edit' && initialData) {
-      const method: EntityMethod = initialData.method || (initialData.api_token ? 'accurate' : 'manual');
+      const method: EntityMethod = initialData.method || (initialData.has_api_token ? 'accurate' : 'manual');
       setSelectedMethod(method);
       
       setFormData({
         entity_name: initialData.entity_name || '',
         description: initialData.description || '',
-        api_token: initialData.api_token || '',
+        api_token: '',
       });
       
       // ========== TAMBAHAN: Set database ID jika ada ==========
@@ -68,27 +67,13 @@ export const EntitasForm: React.FC<Props> = ({
       }
       // =========================================================
       
-      if (initialData.api_token && method === 'accurate') {
+      if (initialData.has_api_token && method === 'accurate') {
         setTokenValidated(true);
         setOwnershipValidated(true);
       }
     }
   }, [mode, initialData]);
 
-  const loadExistingTokens = async () => {
-    try {
-      const { data, error: err } = await getEntities();
-      if (err) throw err;
-
-      const tokens = (data || [])
-        .filter((e: any) => e.api_token)
-        .map((e: any) => e.api_token);
-      setExistingTokens(tokens);
-    } catch (err) {
-      console.error('Error loading existing tokens:', err);
-    }
-  };
-
   const handleMethodChange = (method: EntityMethod) => {
     setSelectedMethod(method);
     setError('');
@@ -140,19 +125,6 @@ export const EntitasForm: React.FC<Props> = ({
         entity_name: '',
         api_token: value,
       }));
-
-      if (value.trim() && value !== initialData?.api_token) {
-        const isDuplicate = existingTokens.includes(value.trim());
-        if (isDuplicate) {
-          setTokenDuplicate(true);
-          getEntities().then(({ data: entities }) => {
-            const duplicateEntity = entities?.find(
-              (e: any) => e.api_token === value.trim()
-            );
-            setTokenDuplicateEntity(duplicateEntity?.entity_name || 'Entitas lain');
-          });
-        }
-      }
     }
   };
 
@@ -174,9 +146,18 @@ export const EntitasForm: React.FC<Props> = ({
         return;
       }
 
-      if (tokenDuplicate && formData.api_token !== initialData?.api_token) {
+      // Cek token ganda di vault (hash token), tanpa membaca token entitas lain
+      const { data: duplicateOwner, error: duplicateError } = await findCredentialOwner(
+        formData.api_token,
+        initialData?.id
+      );
+      if (duplicateError) throw duplicateError;
+
+      if (duplicateOwner) {
+        setTokenDuplicate(true);
+        setTokenDuplicateEntity(duplicateOwner.entity_name || 'Entitas lain');
         setError(
-          `API Token ini sudah digunakan oleh "${tokenDuplicateEntity}". Gunakan token yang berbeda.`
+          `API Token ini sudah digunakan oleh "${duplicateOwner.entity_name || 'Entitas lain'}". Gunakan token yang berbeda.`
         );
         setValidating(false);
         return;
@@ -274,7 +255,7 @@ export const EntitasForm: React.FC<Props> = ({
       }
 
       if (selectedMethod === 'accurate') {
-        if (!formData.api_token.trim()) {
+        if (!formData.api_token.trim() && !hasStoredToken) {
           setError('API Token tidak boleh kosong');
           setLoading(false);
           return;
@@ -286,7 +267,7 @@ export const EntitasForm: React.FC<Props> = ({
           return;
         }
 
-        if (tokenDuplicate && formData.api_token !== initialData?.api_token) {
+        if (tokenDuplicate) {
           setError(
             `API Token ini sudah digunakan oleh "${tokenDuplicateEntity}". Gunakan token yang berbeda.`
           );
@@ -334,14 +315,17 @@ export const EntitasForm: React.FC<Props> = ({
       };
 
       if (selectedMethod === 'accurate') {
-        dataToSave.api_token = formData.api_token.trim();
+        // Token dikirim ke credential vault, bukan ke tabel entity
+        if (formData.api_token.trim()) {
+          dataToSave.api_token = formData.api_token.trim();
+        }
         // ========== KIRIM DATABASE ID ==========
         dataToSave.accurate_database_id = selectedDatabaseId;
         console.log('💾 Saving entity with database ID:', selectedDatabaseId);
         // ========================================
       } else {
         dataToSave.description = formData.description.trim() || null;
-        dataToSave.api_token = null;
+        if (hasStoredToken) dataToSave.api_token = null;
         dataToSave.accurate_database_id = null; // ← Manual entry tidak punya database ID
       }
 
@@ -359,6 +343,9 @@ export const EntitasForm: React.FC<Props> = ({
         console.log('✅ Entity updated:', result.data);
       }
 
+      // Token tidak disimpan lebih lama di state setelah masuk vault
+      setFormData(prev => ({ ...prev, api_token: '' }));
+
       setSuccess(
         mode === 'create'
           ? 'Entitas berhasil ditambahkan'
@@ -451,8 +438,12 @@ export const EntitasForm: React.FC<Props> = ({
                 className={`form-control ${styles.tokenInput} ${
                   tokenDuplicate || formatError ? styles.error : ''
                 }`}
-                placeholder="Masukkan API Token dari Accurate"
-                required
+                placeholder={
+                  hasStoredToken
+                    ? `Kosongkan untuk tetap memakai token tersimpan (${formatTokenHint(initialData)})`
+                    : 'Masukkan API Token dari Accurate'
+                }
+                required={!hasStoredToken}
                 disabled={validating || loading}
               />
               <button
@@ -470,7 +461,7 @@ export const EntitasForm: React.FC<Props> = ({
               </div>
             )}
 
-            {tokenDuplicate && formData.api_token !== initialData?.api_token && (
+            {tokenDuplicate && (
               <div className={styles.tokenDuplicateWarning}>
                 <span>
                   <strong>Token Sudah Terdaftar!</strong> Token ini sudah digunakan oleh entitas
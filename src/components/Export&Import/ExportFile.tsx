@@ -14,8 +14,26 @@ import {
   BorderStyle,
   ShadingType,
   VerticalAlign,
+  PageOrientation,
 } from 'docx';
-import type { BudgetRealization } from '../../lib/accurate';
+import type { CostCenterSubtotal } from '../../services/costCenters';
+import {
+  buildBudgetReportPdf,
+  buildEntityReportPdf,
+  summarizeReportGroups,
+  PDF_ORIENTATION_LABELS,
+  PDF_PAPER_SIZE_LABELS,
+  type BudgetReportGroup,
+  type PdfOrientation,
+  type PdfPaperSize,
+} from '../../services/budgetReportPdf';
+import {
+  formatGrowth,
+  type ComparisonLine,
+  type ComparisonTotals,
+} from '../../services/comparison';
+import { toSheetName } from '../../services/budgetWorkbook';
+import { formatMeasureValue, type ReportTable } from '../../services/reportBuilder';
 import styles from './ExportFile.module.css';
 
 // Helper: Format currency
@@ -34,368 +52,914 @@ const formatDate = (date: Date): string => {
   });
 };
 
-interface BudgetGroup {
-  budget_name: string;
-  period: string;
-  accounts: BudgetRealization[];
-  total_budget: number;
-  total_realisasi: number;
-  total_variance: number;
-  variance_percentage: number;
-  overall_status: 'ON_TRACK' | 'OVER_BUDGET';
-}
-
-interface ExportFileProps {
-  group: BudgetGroup;
-  entityName: string;
-  onExporting?: (isExporting: boolean) => void;
-}
+type BudgetGroup = BudgetReportGroup;
 
-export const ExportFile: React.FC<ExportFileProps> = ({ group, entityName, onExporting }) => {
-  const [exporting, setExporting] = React.useState(false);
+// Helper: Label cost center untuk baris subtotal
+const formatSubtotalLabel = (subtotal: CostCenterSubtotal): string => {
+  return subtotal.cost_center_id ? `${subtotal.code} - ${subtotal.name}` : subtotal.name;
+};
 
+/**
+ * Sheet laporan budget vs realisasi untuk satu budget group
+ */
+const buildBudgetGroupSheet = (group: BudgetGroup, entityName: string): XLSX.WorkSheet => {
   // ========================================
-  // EXPORT TO EXCEL (WITH STYLING)
+  // PREPARE DATA
   // ========================================
-  const exportToExcel = () => {
-    setExporting(true);
-    onExporting?.(true);
+  const data: any[][] = [];
+
+  // Title (Row 1)
+  data.push(['LAPORAN BUDGET VS REALISASI']);
+  data.push([]); // Empty row
+
+  // Header Info (Row 3-6)
+  data.push(['Entitas:', entityName]);
+  data.push(['Nama Budget:', group.budget_name]);
+  data.push(['Periode:', group.period]);
+  data.push(['Tanggal Export:', formatDate(new Date())]);
+  data.push([]); // Empty row
+
+  // Table Header (Row 8)
+  data.push([
+    'No',
+    'Kode Akun',
+    'Nama Akun',
+    'Tipe Akun',
+    'Budget (Rp)',
+    'Realisasi (Rp)',
+    'Variance (Rp)',
+    'Variance (%)',
+    'Status',
+  ]);
+
+  // Table Data
+  group.accounts.forEach((account, index) => {
+    data.push([
+      index + 1,
+      account.account_code,
+      account.account_name,
+      account.account_type || '-',
+      account.budget_allocated,
+      account.realisasi,
+      account.variance,
+      account.variance_percentage.toFixed(2),
+      account.status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
+    ]);
+  });
 
-    try {
-      // ========================================
-      // PREPARE DATA
-      // ========================================
-      const data: any[][] = [];
+  // Total Row
+  const totalRowIndex = data.length;
+  data.push([
+    'TOTAL',
+    '',
+    '',
+    '',
+    group.total_budget,
+    group.total_realisasi,
+    group.total_variance,
+    group.variance_percentage.toFixed(2),
+    group.overall_status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
+  ]);
+
+  // Subtotal per Cost Center
+  const costCenterSubtotals = group.cost_center_subtotals || [];
+  let costCenterHeaderIndex = -1;
+  if (costCenterSubtotals.length > 0) {
+    data.push([]);
+    data.push(['SUBTOTAL PER COST CENTER']);
+    costCenterHeaderIndex = data.length;
+    data.push(['No', 'Cost Center', '', 'Jumlah Akun', 'Budget (Rp)', 'Realisasi (Rp)', 'Variance (Rp)', 'Variance (%)', 'Status']);
+    costCenterSubtotals.forEach((subtotal, index) => {
+      data.push([
+        index + 1,
+        formatSubtotalLabel(subtotal),
+        '',
+        subtotal.account_count,
+        subtotal.budget,
+        subtotal.realisasi,
+        subtotal.variance,
+        subtotal.variance_percentage.toFixed(2),
+        subtotal.status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
+      ]);
+    });
+  }
 
-      // Title (Row 1)
-      data.push(['LAPORAN BUDGET VS REALISASI']);
-      data.push([]); // Empty row
+  // ========================================
+  // CREATE WORKSHEET
+  // ========================================
+  const ws = XLSX.utils.aoa_to_sheet(data);
 
-      // Header Info (Row 3-6)
-      data.push(['Entitas:', entityName]);
-      data.push(['Nama Budget:', group.budget_name]);
-      data.push(['Periode:', group.period]);
-      data.push(['Tanggal Export:', formatDate(new Date())]);
-      data.push([]); // Empty row
+  // ========================================
+  // MERGE CELLS
+  // ========================================
+  ws['!merges'] = [
+    // Title (merge A1:I1)
+    { s: { r: 0, c: 0 }, e: { r: 0, c: 8 } },
+    
+    // Total row - merge "TOTAL" across first 4 columns
+    { s: { r: totalRowIndex, c: 0 }, e: { r: totalRowIndex, c: 3 } },
+
+    // Subtotal cost center - label di kolom B:C
+    ...costCenterSubtotals.map((_, index) => ({
+      s: { r: costCenterHeaderIndex + index + 1, c: 1 },
+      e: { r: costCenterHeaderIndex + index + 1, c: 2 },
+    })),
+  ];
 
-      // Table Header (Row 8)
-      data.push([
-        'No',
-        'Kode Akun',
-        'Nama Akun',
-        'Tipe Akun',
-        'Budget (Rp)',
-        'Realisasi (Rp)',
-        'Variance (Rp)',
-        'Variance (%)',
-        'Status',
-      ]);
+  // ========================================
+  // COLUMN WIDTHS
+  // ========================================
+  ws['!cols'] = [
+    { wch: 5 },   // No
+    { wch: 15 },  // Kode Akun
+    { wch: 35 },  // Nama Akun
+    { wch: 12 },  // Tipe
+    { wch: 18 },  // Budget
+    { wch: 18 },  // Realisasi
+    { wch: 18 },  // Variance
+    { wch: 12 },  // Variance %
+    { wch: 15 },  // Status
+  ];
 
-      // Table Data
-      group.accounts.forEach((account, index) => {
-        data.push([
-          index + 1,
-          account.account_code,
-          account.account_name,
-          account.account_type || '-',
-          account.budget_allocated,
-          account.realisasi,
-          account.variance,
-          account.variance_percentage.toFixed(2),
-          account.status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
-        ]);
-      });
+  // ========================================
+  // STYLING
+  // ========================================
+  const range = XLSX.utils.decode_range(ws['!ref'] || 'A1');
 
-      // Total Row
-      const totalRowIndex = data.length;
-      data.push([
-        'TOTAL',
-        '',
-        '',
-        '',
-        group.total_budget,
-        group.total_realisasi,
-        group.total_variance,
-        group.variance_percentage.toFixed(2),
-        group.overall_status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
-      ]);
+  for (let R = range.s.r; R <= range.e.r; ++R) {
+    for (let C = range.s.c; C <= range.e.c; ++C) {
+      const cellAddress = XLSX.utils.encode_cell({ r: R, c: C });
+      if (!ws[cellAddress]) continue;
+
+      // Initialize cell style
+      if (!ws[cellAddress].s) ws[cellAddress].s = {};
 
       // ========================================
-      // CREATE WORKSHEET
+      // ROW 1: TITLE
       // ========================================
-      const ws = XLSX.utils.aoa_to_sheet(data);
+      if (R === 0) {
+        ws[cellAddress].s = {
+          font: { bold: true, sz: 14, name: 'Calibri' },
+          alignment: { horizontal: 'center', vertical: 'center' },
+          fill: { fgColor: { rgb: '4472C4' } },
+          border: {
+            top: { style: 'thin', color: { rgb: '000000' } },
+            bottom: { style: 'thin', color: { rgb: '000000' } },
+            left: { style: 'thin', color: { rgb: '000000' } },
+            right: { style: 'thin', color: { rgb: '000000' } },
+          },
+        };
+      }
 
       // ========================================
-      // MERGE CELLS
+      // ROW 3-6: HEADER INFO (Bold keys)
       // ========================================
-      ws['!merges'] = [
-        // Title (merge A1:I1)
-        { s: { r: 0, c: 0 }, e: { r: 0, c: 8 } },
-        
-        // Total row - merge "TOTAL" across first 4 columns
-        { s: { r: totalRowIndex, c: 0 }, e: { r: totalRowIndex, c: 3 } },
-      ];
+      if (R >= 2 && R <= 5 && C === 0) {
+        ws[cellAddress].s = {
+          font: { bold: true, sz: 11, name: 'Calibri' },
+          alignment: { horizontal: 'left', vertical: 'center' },
+        };
+      }
 
       // ========================================
-      // COLUMN WIDTHS
+      // ROW 8: TABLE HEADER
       // ========================================
-      ws['!cols'] = [
-        { wch: 5 },   // No
-        { wch: 15 },  // Kode Akun
-        { wch: 35 },  // Nama Akun
-        { wch: 12 },  // Tipe
-        { wch: 18 },  // Budget
-        { wch: 18 },  // Realisasi
-        { wch: 18 },  // Variance
-        { wch: 12 },  // Variance %
-        { wch: 15 },  // Status
-      ];
+      if (R === 7) {
+        ws[cellAddress].s = {
+          font: { bold: true, sz: 11, name: 'Calibri', color: { rgb: 'FFFFFF' } },
+          alignment: { horizontal: 'center', vertical: 'center', wrapText: true },
+          fill: { fgColor: { rgb: '808080' } }, // Gray background
+          border: {
+            top: { style: 'thin', color: { rgb: '000000' } },
+            bottom: { style: 'thin', color: { rgb: '000000' } },
+            left: { style: 'thin', color: { rgb: '000000' } },
+            right: { style: 'thin', color: { rgb: '000000' } },
+          },
+        };
+      }
 
       // ========================================
-      // STYLING
+      // DATA ROWS (R >= 8)
       // ========================================
-      const range = XLSX.utils.decode_range(ws['!ref'] || 'A1');
-
-      for (let R = range.s.r; R <= range.e.r; ++R) {
-        for (let C = range.s.c; C <= range.e.c; ++C) {
-          const cellAddress = XLSX.utils.encode_cell({ r: R, c: C });
-          if (!ws[cellAddress]) continue;
-
-          // Initialize cell style
-          if (!ws[cellAddress].s) ws[cellAddress].s = {};
-
-          // ========================================
-          // ROW 1: TITLE
-          // ========================================
-          if (R === 0) {
-            ws[cellAddress].s = {
-              font: { bold: true, sz: 14, name: 'Calibri' },
-              alignment: { horizontal: 'center', vertical: 'center' },
-              fill: { fgColor: { rgb: '4472C4' } },
-              border: {
-                top: { style: 'thin', color: { rgb: '000000' } },
-                bottom: { style: 'thin', color: { rgb: '000000' } },
-                left: { style: 'thin', color: { rgb: '000000' } },
-                right: { style: 'thin', color: { rgb: '000000' } },
-              },
-            };
-          }
-
-          // ========================================
-          // ROW 3-6: HEADER INFO (Bold keys)
-          // ========================================
-          if (R >= 2 && R <= 5 && C === 0) {
-            ws[cellAddress].s = {
-              font: { bold: true, sz: 11, name: 'Calibri' },
-              alignment: { horizontal: 'left', vertical: 'center' },
-            };
-          }
-
-          // ========================================
-          // ROW 8: TABLE HEADER
-          // ========================================
-          if (R === 7) {
-            ws[cellAddress].s = {
-              font: { bold: true, sz: 11, name: 'Calibri', color: { rgb: 'FFFFFF' } },
-              alignment: { horizontal: 'center', vertical: 'center', wrapText: true },
-              fill: { fgColor: { rgb: '808080' } }, // Gray background
-              border: {
-                top: { style: 'thin', color: { rgb: '000000' } },
-                bottom: { style: 'thin', color: { rgb: '000000' } },
-                left: { style: 'thin', color: { rgb: '000000' } },
-                right: { style: 'thin', color: { rgb: '000000' } },
-              },
-            };
-          }
-
-          // ========================================
-          // DATA ROWS (R >= 8)
-          // ========================================
-          if (R >= 8 && R < totalRowIndex) {
-            // Alignment
-            let alignment: any = { vertical: 'center' };
-            
-            if (C === 0 || C === 8) {
-              // No & Status - center
-              alignment.horizontal = 'center';
-            } else if (C >= 4 && C <= 7) {
-              // Numbers - right
-              alignment.horizontal = 'right';
-            } else {
-              // Text - left
-              alignment.horizontal = 'left';
-            }
-
-            ws[cellAddress].s = {
-              font: { sz: 11, name: 'Calibri' },
-              alignment: alignment,
-              border: {
-                top: { style: 'thin', color: { rgb: 'D9D9D9' } },
-                bottom: { style: 'thin', color: { rgb: 'D9D9D9' } },
-                left: { style: 'thin', color: { rgb: 'D9D9D9' } },
-                right: { style: 'thin', color: { rgb: 'D9D9D9' } },
-              },
-            };
-
-            // Number format for currency columns (E, F, G)
-            if (C >= 4 && C <= 6) {
-              ws[cellAddress].z = '#,##0';
-            }
-          }
-
-          // ========================================
-          // TOTAL ROW
-          // ========================================
-          if (R === totalRowIndex) {
-            let alignment: any = { vertical: 'center' };
-            
-            if (C <= 3) {
-              // "TOTAL" text - right aligned
-              alignment.horizontal = 'right';
-            } else if (C >= 4 && C <= 7) {
-              // Numbers - right
-              alignment.horizontal = 'right';
-            } else {
-              // Status - center
-              alignment.horizontal = 'center';
-            }
+      if (R >= 8 && R < totalRowIndex) {
+        // Alignment
+        let alignment: any = { vertical: 'center' };
+        
+        if (C === 0 || C === 8) {
+          // No & Status - center
+          alignment.horizontal = 'center';
+        } else if (C >= 4 && C <= 7) {
+          // Numbers - right
+          alignment.horizontal = 'right';
+        } else {
+          // Text - left
+          alignment.horizontal = 'left';
+        }
 
-            ws[cellAddress].s = {
-              font: { bold: true, sz: 11, name: 'Calibri' },
-              alignment: alignment,
-              fill: { fgColor: { rgb: 'F2F2F2' } }, // Light gray
-              border: {
-                top: { style: 'medium', color: { rgb: '000000' } },
-                bottom: { style: 'medium', color: { rgb: '000000' } },
-                left: { style: 'thin', color: { rgb: '000000' } },
-                right: { style: 'thin', color: { rgb: '000000' } },
-              },
-            };
+        ws[cellAddress].s = {
+          font: { sz: 11, name: 'Calibri' },
+          alignment: alignment,
+          border: {
+            top: { style: 'thin', color: { rgb: 'D9D9D9' } },
+            bottom: { style: 'thin', color: { rgb: 'D9D9D9' } },
+            left: { style: 'thin', color: { rgb: 'D9D9D9' } },
+            right: { style: 'thin', color: { rgb: 'D9D9D9' } },
+          },
+        };
 
-            // Number format for currency
-            if (C >= 4 && C <= 6) {
-              ws[cellAddress].z = '#,##0';
-            }
-          }
+        // Number format for currency columns (E, F, G)
+        if (C >= 4 && C <= 6) {
+          ws[cellAddress].z = '#,##0';
         }
       }
 
       // ========================================
-      // ROW HEIGHT
+      // TOTAL ROW
       // ========================================
-      ws['!rows'] = [];
-      ws['!rows'][0] = { hpt: 30 }; // Title row height
-      ws['!rows'][7] = { hpt: 30 }; // Header row height
+      if (R === totalRowIndex) {
+        let alignment: any = { vertical: 'center' };
+        
+        if (C <= 3) {
+          // "TOTAL" text - right aligned
+          alignment.horizontal = 'right';
+        } else if (C >= 4 && C <= 7) {
+          // Numbers - right
+          alignment.horizontal = 'right';
+        } else {
+          // Status - center
+          alignment.horizontal = 'center';
+        }
+
+        ws[cellAddress].s = {
+          font: { bold: true, sz: 11, name: 'Calibri' },
+          alignment: alignment,
+          fill: { fgColor: { rgb: 'F2F2F2' } }, // Light gray
+          border: {
+            top: { style: 'medium', color: { rgb: '000000' } },
+            bottom: { style: 'medium', color: { rgb: '000000' } },
+            left: { style: 'thin', color: { rgb: '000000' } },
+            right: { style: 'thin', color: { rgb: '000000' } },
+          },
+        };
+
+        // Number format for currency
+        if (C >= 4 && C <= 6) {
+          ws[cellAddress].z = '#,##0';
+        }
+      }
 
       // ========================================
-      // CREATE WORKBOOK & SAVE
+      // SUBTOTAL COST CENTER
       // ========================================
-      const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, ws, 'Budget Realization');
+      if (costCenterHeaderIndex > 0 && R === costCenterHeaderIndex - 1 && C === 0) {
+        ws[cellAddress].s = { font: { bold: true, sz: 12, name: 'Calibri' } };
+      }
 
-      const fileName = `Budget_Realization_${group.budget_name.replace(/\s+/g, '_')}_${group.period}_${new Date().getTime()}.xlsx`;
-      XLSX.writeFile(wb, fileName);
+      if (costCenterHeaderIndex > 0 && R >= costCenterHeaderIndex) {
+        const isHeader = R === costCenterHeaderIndex;
+        ws[cellAddress].s = {
+          font: isHeader
+            ? { bold: true, sz: 11, name: 'Calibri', color: { rgb: 'FFFFFF' } }
+            : { sz: 11, name: 'Calibri' },
+          alignment: {
+            vertical: 'center',
+            horizontal: isHeader || C === 0 || C === 3 || C === 8 ? 'center' : C >= 4 ? 'right' : 'left',
+          },
+          ...(isHeader && { fill: { fgColor: { rgb: '808080' } } }),
+          border: {
+            top: { style: 'thin', color: { rgb: 'D9D9D9' } },
+            bottom: { style: 'thin', color: { rgb: 'D9D9D9' } },
+            left: { style: 'thin', color: { rgb: 'D9D9D9' } },
+            right: { style: 'thin', color: { rgb: 'D9D9D9' } },
+          },
+        };
 
-      alert('✅ Export Excel berhasil!');
-      console.log('[ExportFile] Excel exported:', fileName);
-    } catch (err: any) {
-      console.error('[ExportFile] Excel export error:', err);
-      alert('❌ Gagal export Excel: ' + err.message);
-    } finally {
-      setExporting(false);
-      onExporting?.(false);
+        if (!isHeader && C >= 4 && C <= 6) {
+          ws[cellAddress].z = '#,##0';
+        }
+      }
     }
-  };
+  }
 
   // ========================================
-  // EXPORT TO CSV (FORMATTED)
+  // ROW HEIGHT
   // ========================================
-  const exportToCSV = () => {
-    setExporting(true);
-    onExporting?.(true);
+  ws['!rows'] = [];
+  ws['!rows'][0] = { hpt: 30 }; // Title row height
+  ws['!rows'][7] = { hpt: 30 }; // Header row height
 
-    try {
-      const csvData: string[][] = [];
+  return ws;
+};
 
-      // Title
-      csvData.push(['LAPORAN BUDGET VS REALISASI']);
-      csvData.push([]);
+/**
+ * Isi dokumen Word untuk satu budget group: judul, info header,
+ * tabel akun dan subtotal cost center
+ */
+const buildBudgetGroupWordChildren = (group: BudgetGroup, entityName: string): (Paragraph | Table)[] => [
+  // ========================================
+  // TITLE
+  // ========================================
+  new Paragraph({
+    children: [
+      new TextRun({
+        text: 'LAPORAN BUDGET VS REALISASI',
+        bold: true,
+        size: 28, // 14pt
+      }),
+    ],
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 400 },
+  }),
 
-      // Header Info
-      csvData.push(['Entitas:', entityName]);
-      csvData.push(['Nama Budget:', group.budget_name]);
-      csvData.push(['Periode:', group.period]);
-      csvData.push(['Tanggal Export:', formatDate(new Date())]);
-      csvData.push([]);
+  // ========================================
+  // HEADER INFO (Entitas, Budget, Periode, Tanggal)
+  // ========================================
+  new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: {
+      top: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+      bottom: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+      left: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+      right: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+      insideHorizontal: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+      insideVertical: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+    },
+    rows: [
+      // Row 1: Entitas
+      new TableRow({
+        children: [
+          new TableCell({
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Entitas:', bold: true })],
+              }),
+            ],
+            width: { size: 20, type: WidthType.PERCENTAGE },
+          }),
+          new TableCell({
+            children: [new Paragraph(entityName)],
+            width: { size: 80, type: WidthType.PERCENTAGE },
+          }),
+        ],
+      }),
 
-      // Table Header with separator line
-      csvData.push(['='.repeat(100)]); // Visual separator
-      csvData.push([
-        'No',
-        'Kode Akun',
-        'Nama Akun',
-        'Tipe Akun',
-        'Budget (Rp)',
-        'Realisasi (Rp)',
-        'Variance (Rp)',
-        'Variance (%)',
-        'Status',
-      ]);
-      csvData.push(['='.repeat(100)]); // Visual separator
+      // Row 2: Nama Budget
+      new TableRow({
+        children: [
+          new TableCell({
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Nama Budget:', bold: true })],
+              }),
+            ],
+          }),
+          new TableCell({
+            children: [new Paragraph(group.budget_name)],
+          }),
+        ],
+      }),
 
-      // Table Data
-      group.accounts.forEach((account, index) => {
-        csvData.push([
-          (index + 1).toString(),
-          account.account_code,
-          account.account_name,
-          account.account_type || '-',
-          formatCurrency(account.budget_allocated),
-          formatCurrency(account.realisasi),
-          formatCurrency(account.variance),
-          account.variance_percentage.toFixed(2) + '%',
-          account.status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
-        ]);
-      });
+      // Row 3: Periode
+      new TableRow({
+        children: [
+          new TableCell({
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Periode:', bold: true })],
+              }),
+            ],
+          }),
+          new TableCell({
+            children: [new Paragraph(group.period)],
+          }),
+        ],
+      }),
 
-      // Separator before total
-      csvData.push(['='.repeat(100)]);
+      // Row 4: Tanggal Export
+      new TableRow({
+        children: [
+          new TableCell({
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Tanggal Export:', bold: true })],
+              }),
+            ],
+          }),
+          new TableCell({
+            children: [new Paragraph(formatDate(new Date()))],
+          }),
+        ],
+      }),
+    ],
+  }),
 
-      // Total Row
-      csvData.push([
-        'TOTAL',
-        '',
-        '',
-        '',
-        formatCurrency(group.total_budget),
-        formatCurrency(group.total_realisasi),
-        formatCurrency(group.total_variance),
-        group.variance_percentage.toFixed(2) + '%',
-        group.overall_status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
-      ]);
+  // Spacing
+  new Paragraph({ text: '', spacing: { before: 400, after: 200 } }),
 
-      csvData.push(['='.repeat(100)]);
+  // ========================================
+  // MAIN TABLE (Accounting Spreadsheet Style)
+  // ========================================
+  new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      // ========================================
+      // TABLE HEADER
+      // ========================================
+      new TableRow({
+        tableHeader: true,
+        children: [
+          // No
+          new TableCell({
+            shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'No', bold: true })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+            width: { size: 5, type: WidthType.PERCENTAGE },
+          }),
 
-      // Convert to CSV string with proper escaping
-      const csvString = csvData
-        .map(row =>
-          row
-            .map(cell => {
-              // Escape quotes and wrap in quotes if contains comma
-              const escaped = cell.replace(/"/g, '""');
-              return cell.includes(',') || cell.includes('"') || cell.includes('\n')
-                ? `"${escaped}"`
-                : escaped;
-            })
-            .join(',')
-        )
-        .join('\n');
+          // Kode Akun
+          new TableCell({
+            shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Kode Akun', bold: true })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+            width: { size: 12, type: WidthType.PERCENTAGE },
+          }),
 
-      // Add BOM for proper Excel UTF-8 encoding
-      const BOM = '\uFEFF';
-      const blob = new Blob([BOM + csvString], { type: 'text/csv;charset=utf-8;' });
-      const fileName = `Budget_Realization_${group.budget_name.replace(/\s+/g, '_')}_${group.period}_${new Date().getTime()}.csv`;
-      saveAs(blob, fileName);
+          // Nama Akun
+          new TableCell({
+            shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Nama Akun', bold: true })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+            width: { size: 23, type: WidthType.PERCENTAGE },
+          }),
+
+          // Tipe Akun
+          new TableCell({
+            shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Tipe', bold: true })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+            width: { size: 10, type: WidthType.PERCENTAGE },
+          }),
+
+          // Budget (Rp)
+          new TableCell({
+            shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Budget (Rp)', bold: true })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+            width: { size: 12, type: WidthType.PERCENTAGE },
+          }),
+
+          // Realisasi (Rp)
+          new TableCell({
+            shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Realisasi (Rp)', bold: true })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+            width: { size: 12, type: WidthType.PERCENTAGE },
+          }),
+
+          // Variance (Rp)
+          new TableCell({
+            shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Variance (Rp)', bold: true })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+            width: { size: 12, type: WidthType.PERCENTAGE },
+          }),
+
+          // Variance (%)
+          new TableCell({
+            shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Variance (%)', bold: true })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+            width: { size: 10, type: WidthType.PERCENTAGE },
+          }),
+
+          // Status
+          new TableCell({
+            shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+            verticalAlign: VerticalAlign.CENTER,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'Status', bold: true })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+            width: { size: 12, type: WidthType.PERCENTAGE },
+          }),
+        ],
+      }),
+
+      // ========================================
+      // TABLE DATA ROWS
+      // ========================================
+      ...group.accounts.map((account, index) =>
+        new TableRow({
+          children: [
+            // No
+            new TableCell({
+              children: [
+                new Paragraph({
+                  text: (index + 1).toString(),
+                  alignment: AlignmentType.CENTER,
+                }),
+              ],
+            }),
+
+            // Kode Akun
+            new TableCell({
+              children: [
+                new Paragraph({
+                  text: account.account_code,
+                  alignment: AlignmentType.LEFT,
+                }),
+              ],
+            }),
+
+            // Nama Akun
+            new TableCell({
+              children: [
+                new Paragraph({
+                  text: account.account_name,
+                  alignment: AlignmentType.LEFT,
+                }),
+              ],
+            }),
+
+            // Tipe Akun
+            new TableCell({
+              children: [
+                new Paragraph({
+                  text: account.account_type || '-',
+                  alignment: AlignmentType.LEFT,
+                }),
+              ],
+            }),
+
+            // Budget (Rp)
+            new TableCell({
+              children: [
+                new Paragraph({
+                  text: formatCurrency(account.budget_allocated),
+                  alignment: AlignmentType.RIGHT,
+                }),
+              ],
+            }),
+
+            // Realisasi (Rp)
+            new TableCell({
+              children: [
+                new Paragraph({
+                  text: formatCurrency(account.realisasi),
+                  alignment: AlignmentType.RIGHT,
+                }),
+              ],
+            }),
+
+            // Variance (Rp)
+            new TableCell({
+              children: [
+                new Paragraph({
+                  text: formatCurrency(Math.abs(account.variance)),
+                  alignment: AlignmentType.RIGHT,
+                }),
+              ],
+            }),
+
+            // Variance (%)
+            new TableCell({
+              children: [
+                new Paragraph({
+                  text: `${Math.abs(account.variance_percentage).toFixed(2)}%`,
+                  alignment: AlignmentType.RIGHT,
+                }),
+              ],
+            }),
+
+            // Status
+            new TableCell({
+              children: [
+                new Paragraph({
+                  text: account.status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
+                  alignment: AlignmentType.CENTER,
+                }),
+              ],
+            }),
+          ],
+        })
+      ),
+
+      // ========================================
+      // TOTAL ROW
+      // ========================================
+      new TableRow({
+        children: [
+          // TOTAL (merged cells)
+          new TableCell({
+            shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
+            columnSpan: 4,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'TOTAL', bold: true })],
+                alignment: AlignmentType.RIGHT,
+              }),
+            ],
+          }),
+
+          // Total Budget
+          new TableCell({
+            shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: formatCurrency(group.total_budget), bold: true })],
+                alignment: AlignmentType.RIGHT,
+              }),
+            ],
+          }),
+
+          // Total Realisasi
+          new TableCell({
+            shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: formatCurrency(group.total_realisasi), bold: true })],
+                alignment: AlignmentType.RIGHT,
+              }),
+            ],
+          }),
+
+          // Total Variance
+          new TableCell({
+            shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: formatCurrency(Math.abs(group.total_variance)), bold: true })],
+                alignment: AlignmentType.RIGHT,
+              }),
+            ],
+          }),
+
+          // Total Variance %
+          new TableCell({
+            shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: `${Math.abs(group.variance_percentage).toFixed(2)}%`, bold: true })],
+                alignment: AlignmentType.RIGHT,
+              }),
+            ],
+          }),
+
+          // Overall Status
+          new TableCell({
+            shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: group.overall_status === 'ON_TRACK' ? 'On Track' : 'Over Budget', bold: true })],
+                alignment: AlignmentType.CENTER,
+              }),
+            ],
+          }),
+        ],
+      }),
+    ],
+  }),
+
+  // ========================================
+  // SUBTOTAL PER COST CENTER
+  // ========================================
+  ...(group.cost_center_subtotals && group.cost_center_subtotals.length > 0
+    ? [
+        new Paragraph({
+          children: [new TextRun({ text: 'Subtotal per Cost Center', bold: true, size: 24 })],
+          spacing: { before: 400, after: 200 },
+        }),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            new TableRow({
+              tableHeader: true,
+              children: ['Cost Center', 'Jumlah Akun', 'Budget (Rp)', 'Realisasi (Rp)', 'Variance (Rp)', 'Variance (%)', 'Status'].map(
+                (label) =>
+                  new TableCell({
+                    shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
+                    verticalAlign: VerticalAlign.CENTER,
+                    children: [
+                      new Paragraph({
+                        children: [new TextRun({ text: label, bold: true })],
+                        alignment: AlignmentType.CENTER,
+                      }),
+                    ],
+                  })
+              ),
+            }),
+            ...group.cost_center_subtotals.map((subtotal) =>
+              new TableRow({
+                children: [
+                  { text: formatSubtotalLabel(subtotal), alignment: AlignmentType.LEFT },
+                  { text: subtotal.account_count.toString(), alignment: AlignmentType.CENTER },
+                  { text: formatCurrency(subtotal.budget), alignment: AlignmentType.RIGHT },
+                  { text: formatCurrency(subtotal.realisasi), alignment: AlignmentType.RIGHT },
+                  { text: formatCurrency(Math.abs(subtotal.variance)), alignment: AlignmentType.RIGHT },
+                  { text: `${Math.abs(subtotal.variance_percentage).toFixed(2)}%`, alignment: AlignmentType.RIGHT },
+                  { text: subtotal.status === 'ON_TRACK' ? 'On Track' : 'Over Budget', alignment: AlignmentType.CENTER },
+                ].map(
+                  (cell) => new TableCell({ children: [new Paragraph(cell)] })
+                ),
+              })
+            ),
+          ],
+        }),
+      ]
+    : []),
+];
+
+interface ExportFileProps {
+  group: BudgetGroup;
+  entityName: string;
+  onExporting?: (isExporting: boolean) => void;
+}
+
+export const ExportFile: React.FC<ExportFileProps> = ({ group, entityName, onExporting }) => {
+  const [exporting, setExporting] = React.useState(false);
+  const [pdfPaperSize, setPdfPaperSize] = React.useState<PdfPaperSize>('A4');
+  const [pdfOrientation, setPdfOrientation] = React.useState<PdfOrientation>('portrait');
+
+  // ========================================
+  // EXPORT TO EXCEL (WITH STYLING)
+  // ========================================
+  const exportToExcel = () => {
+    setExporting(true);
+    onExporting?.(true);
+
+    try {
+      const ws = buildBudgetGroupSheet(group, entityName);
+
+      // ========================================
+      // CREATE WORKBOOK & SAVE
+      // ========================================
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, ws, 'Budget Realization');
+
+      const fileName = `Budget_Realization_${group.budget_name.replace(/\s+/g, '_')}_${group.period}_${new Date().getTime()}.xlsx`;
+      XLSX.writeFile(wb, fileName);
+
+      alert('✅ Export Excel berhasil!');
+      console.log('[ExportFile] Excel exported:', fileName);
+    } catch (err: any) {
+      console.error('[ExportFile] Excel export error:', err);
+      alert('❌ Gagal export Excel: ' + err.message);
+    } finally {
+      setExporting(false);
+      onExporting?.(false);
+    }
+  };
+
+  // ========================================
+  // EXPORT TO CSV (FORMATTED)
+  // ========================================
+  const exportToCSV = () => {
+    setExporting(true);
+    onExporting?.(true);
+
+    try {
+      const csvData: string[][] = [];
+
+      // Title
+      csvData.push(['LAPORAN BUDGET VS REALISASI']);
+      csvData.push([]);
+
+      // Header Info
+      csvData.push(['Entitas:', entityName]);
+      csvData.push(['Nama Budget:', group.budget_name]);
+      csvData.push(['Periode:', group.period]);
+      csvData.push(['Tanggal Export:', formatDate(new Date())]);
+      csvData.push([]);
+
+      // Table Header with separator line
+      csvData.push(['='.repeat(100)]); // Visual separator
+      csvData.push([
+        'No',
+        'Kode Akun',
+        'Nama Akun',
+        'Tipe Akun',
+        'Budget (Rp)',
+        'Realisasi (Rp)',
+        'Variance (Rp)',
+        'Variance (%)',
+        'Status',
+      ]);
+      csvData.push(['='.repeat(100)]); // Visual separator
+
+      // Table Data
+      group.accounts.forEach((account, index) => {
+        csvData.push([
+          (index + 1).toString(),
+          account.account_code,
+          account.account_name,
+          account.account_type || '-',
+          formatCurrency(account.budget_allocated),
+          formatCurrency(account.realisasi),
+          formatCurrency(account.variance),
+          account.variance_percentage.toFixed(2) + '%',
+          account.status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
+        ]);
+      });
+
+      // Separator before total
+      csvData.push(['='.repeat(100)]);
+
+      // Total Row
+      csvData.push([
+        'TOTAL',
+        '',
+        '',
+        '',
+        formatCurrency(group.total_budget),
+        formatCurrency(group.total_realisasi),
+        formatCurrency(group.total_variance),
+        group.variance_percentage.toFixed(2) + '%',
+        group.overall_status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
+      ]);
+
+      csvData.push(['='.repeat(100)]);
+
+      // Subtotal per Cost Center
+      if (group.cost_center_subtotals && group.cost_center_subtotals.length > 0) {
+        csvData.push([]);
+        csvData.push(['SUBTOTAL PER COST CENTER']);
+        csvData.push(['No', 'Cost Center', 'Jumlah Akun', 'Budget (Rp)', 'Realisasi (Rp)', 'Variance (Rp)', 'Variance (%)', 'Status']);
+        group.cost_center_subtotals.forEach((subtotal, index) => {
+          csvData.push([
+            (index + 1).toString(),
+            formatSubtotalLabel(subtotal),
+            subtotal.account_count.toString(),
+            formatCurrency(subtotal.budget),
+            formatCurrency(subtotal.realisasi),
+            formatCurrency(subtotal.variance),
+            subtotal.variance_percentage.toFixed(2) + '%',
+            subtotal.status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
+          ]);
+        });
+      }
+
+      // Convert to CSV string with proper escaping
+      const csvString = csvData
+        .map(row =>
+          row
+            .map(cell => {
+              // Escape quotes and wrap in quotes if contains comma
+              const escaped = cell.replace(/"/g, '""');
+              return cell.includes(',') || cell.includes('"') || cell.includes('\n')
+                ? `"${escaped}"`
+                : escaped;
+            })
+            .join(',')
+        )
+        .join('\n');
+
+      // Add BOM for proper Excel UTF-8 encoding
+      const BOM = '\uFEFF';
+      const blob = new Blob([BOM + csvString], { type: 'text/csv;charset=utf-8;' });
+      const fileName = `Budget_Realization_${group.budget_name.replace(/\s+/g, '_')}_${group.period}_${new Date().getTime()}.csv`;
+      saveAs(blob, fileName);
 
       alert('✅ Export CSV berhasil!');
       console.log('[ExportFile] CSV exported:', fileName);
@@ -429,429 +993,621 @@ export const ExportFile: React.FC<ExportFileProps> = ({ group, entityName, onExp
                 },
               },
             },
+            children: buildBudgetGroupWordChildren(group, entityName),
+          },
+        ],
+      });
+
+      const blob = await Packer.toBlob(doc);
+      const fileName = `Budget_Realization_${group.budget_name.replace(/\s+/g, '_')}_${group.period}_${new Date().getTime()}.docx`;
+      saveAs(blob, fileName);
+
+      alert('✅ Export Word berhasil!');
+      console.log('[ExportFile] Word exported:', fileName);
+    } catch (err: any) {
+      console.error('[ExportFile] Word export error:', err);
+      alert('❌ Gagal export Word: ' + err.message);
+    } finally {
+      setExporting(false);
+      onExporting?.(false);
+    }
+  };
+
+  // ========================================
+  // EXPORT TO PDF (CLIENT-SIDE)
+  // ========================================
+  const exportToPDF = () => {
+    setExporting(true);
+    onExporting?.(true);
+
+    try {
+      const doc = buildBudgetReportPdf(group, entityName, {
+        paperSize: pdfPaperSize,
+        orientation: pdfOrientation,
+      });
+      const fileName = `Budget_Realization_${group.budget_name.replace(/\s+/g, '_')}_${group.period}_${new Date().getTime()}.pdf`;
+      doc.save(fileName);
+
+      alert('✅ Export PDF berhasil!');
+      console.log('[ExportFile] PDF exported:', fileName);
+    } catch (err) {
+      console.error('[ExportFile] PDF export error:', err);
+      alert('❌ Gagal export PDF: ' + (err as Error).message);
+    } finally {
+      setExporting(false);
+      onExporting?.(false);
+    }
+  };
+
+  return (
+    <div className={styles.exportContainer}>
+      <button
+        onClick={exportToExcel}
+        disabled={exporting}
+        className={`${styles.exportButton} ${styles.excelButton}`}
+      >
+        {exporting ? 'Exporting...' : 'Export Excel'}
+      </button>
+
+      <button
+        onClick={exportToCSV}
+        disabled={exporting}
+        className={`${styles.exportButton} ${styles.csvButton}`}
+      >
+        {exporting ? 'Exporting...' : 'Export CSV'}
+      </button>
+
+      <button
+        onClick={exportToWord}
+        disabled={exporting}
+        className={`${styles.exportButton} ${styles.wordButton}`}
+      >
+        {exporting ? 'Exporting...' : 'Export Word'}
+      </button>
+
+      <div className={styles.pdfGroup}>
+        <select
+          value={pdfPaperSize}
+          onChange={(e) => setPdfPaperSize(e.target.value as PdfPaperSize)}
+          disabled={exporting}
+          className={styles.pdfSelect}
+          title="Ukuran kertas PDF"
+        >
+          {(Object.keys(PDF_PAPER_SIZE_LABELS) as PdfPaperSize[]).map((size) => (
+            <option key={size} value={size}>{PDF_PAPER_SIZE_LABELS[size]}</option>
+          ))}
+        </select>
+        <select
+          value={pdfOrientation}
+          onChange={(e) => setPdfOrientation(e.target.value as PdfOrientation)}
+          disabled={exporting}
+          className={styles.pdfSelect}
+          title="Orientasi halaman PDF"
+        >
+          {(Object.keys(PDF_ORIENTATION_LABELS) as PdfOrientation[]).map((orientation) => (
+            <option key={orientation} value={orientation}>{PDF_ORIENTATION_LABELS[orientation]}</option>
+          ))}
+        </select>
+        <button
+          onClick={exportToPDF}
+          disabled={exporting}
+          className={`${styles.exportButton} ${styles.pdfButton}`}
+        >
+          {exporting ? 'Exporting...' : 'Export PDF'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// ========================================
+// EXPORT LAPORAN PERBANDINGAN PERIODE
+// ========================================
+
+interface ExportComparisonFileProps {
+  entityName: string;
+  currentLabel: string;
+  previousLabel: string;
+  lines: ComparisonLine[];
+  totals: ComparisonTotals;
+}
+
+export const ExportComparisonFile: React.FC<ExportComparisonFileProps> = ({
+  entityName,
+  currentLabel,
+  previousLabel,
+  lines,
+  totals,
+}) => {
+  const [exporting, setExporting] = React.useState(false);
+
+  const headers = [
+    'Kode Akun',
+    'Nama Akun',
+    `Budget ${previousLabel}`,
+    `Budget ${currentLabel}`,
+    'Delta Budget',
+    'Growth Budget',
+    `Realisasi ${previousLabel}`,
+    `Realisasi ${currentLabel}`,
+    'Delta Realisasi',
+    'Growth Realisasi',
+  ];
+
+  const fileBaseName = `Perbandingan_${currentLabel}_vs_${previousLabel}`.replace(/\s+/g, '_');
+
+  const exportToExcel = () => {
+    setExporting(true);
+    try {
+      const data: (string | number)[][] = [
+        ['LAPORAN PERBANDINGAN PERIODE'],
+        [],
+        ['Entitas:', entityName],
+        ['Periode:', `${currentLabel} vs ${previousLabel}`],
+        ['Tanggal Export:', formatDate(new Date())],
+        [],
+        headers,
+        ...lines.map((line) => [
+          line.account_code,
+          line.account_name,
+          line.previous_budget,
+          line.current_budget,
+          line.budget_delta,
+          formatGrowth(line.budget_growth),
+          line.previous_actual,
+          line.current_actual,
+          line.actual_delta,
+          formatGrowth(line.actual_growth),
+        ]),
+      ];
+
+      const totalRowIndex = data.length;
+      data.push([
+        'TOTAL',
+        '',
+        totals.previous_budget,
+        totals.current_budget,
+        totals.budget_delta,
+        formatGrowth(totals.budget_growth),
+        totals.previous_actual,
+        totals.current_actual,
+        totals.actual_delta,
+        formatGrowth(totals.actual_growth),
+      ]);
+
+      const ws = XLSX.utils.aoa_to_sheet(data);
+      ws['!merges'] = [
+        { s: { r: 0, c: 0 }, e: { r: 0, c: 9 } },
+        { s: { r: totalRowIndex, c: 0 }, e: { r: totalRowIndex, c: 1 } },
+      ];
+      ws['!cols'] = [
+        { wch: 15 },
+        { wch: 35 },
+        ...Array.from({ length: 8 }, (_, i) => ({ wch: i % 4 === 3 ? 14 : 18 })),
+      ];
+
+      const range = XLSX.utils.decode_range(ws['!ref'] || 'A1');
+      for (let R = range.s.r; R <= range.e.r; ++R) {
+        for (let C = range.s.c; C <= range.e.c; ++C) {
+          const cellAddress = XLSX.utils.encode_cell({ r: R, c: C });
+          if (!ws[cellAddress]) continue;
+
+          if (R === 0) {
+            ws[cellAddress].s = {
+              font: { bold: true, sz: 14, name: 'Calibri' },
+              alignment: { horizontal: 'center', vertical: 'center' },
+            };
+          } else if (R === 6 || R === totalRowIndex) {
+            ws[cellAddress].s = {
+              font: { bold: true, sz: 11, name: 'Calibri', color: R === 6 ? { rgb: 'FFFFFF' } : undefined },
+              alignment: { horizontal: R === 6 ? 'center' : 'right', vertical: 'center', wrapText: true },
+              fill: { fgColor: { rgb: R === 6 ? '808080' : 'F2F2F2' } },
+            };
+          }
+
+          // Kolom nominal (bukan growth)
+          if (R > 6 && C >= 2 && (C - 2) % 4 !== 3) {
+            ws[cellAddress].z = '#,##0';
+          }
+        }
+      }
+
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, ws, 'Perbandingan');
+      const fileName = `${fileBaseName}_${new Date().getTime()}.xlsx`;
+      XLSX.writeFile(wb, fileName);
+
+      alert('✅ Export Excel berhasil!');
+      console.log('[ExportComparisonFile] Excel exported:', fileName);
+    } catch (err) {
+      console.error('[ExportComparisonFile] Excel export error:', err);
+      alert('❌ Gagal export Excel: ' + (err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportToWord = async () => {
+    setExporting(true);
+    try {
+      const cell = (text: string, options: { bold?: boolean; align?: (typeof AlignmentType)[keyof typeof AlignmentType]; shade?: string } = {}) =>
+        new TableCell({
+          shading: options.shade ? { fill: options.shade, type: ShadingType.CLEAR } : undefined,
+          verticalAlign: VerticalAlign.CENTER,
+          children: [
+            new Paragraph({
+              children: [new TextRun({ text, bold: options.bold, size: 18 })],
+              alignment: options.align || AlignmentType.LEFT,
+            }),
+          ],
+        });
+
+      const doc = new Document({
+        sections: [
+          {
+            properties: { page: { size: { orientation: PageOrientation.LANDSCAPE } } },
             children: [
-              // ========================================
-              // TITLE
-              // ========================================
               new Paragraph({
-                children: [
-                  new TextRun({
-                    text: 'LAPORAN BUDGET VS REALISASI',
-                    bold: true,
-                    size: 28, // 14pt
-                  }),
-                ],
+                children: [new TextRun({ text: 'LAPORAN PERBANDINGAN PERIODE', bold: true, size: 32 })],
                 alignment: AlignmentType.CENTER,
-                spacing: { after: 400 },
+                spacing: { after: 200 },
+              }),
+              new Paragraph({ children: [new TextRun({ text: 'Entitas: ', bold: true }), new TextRun(entityName)] }),
+              new Paragraph({
+                children: [new TextRun({ text: 'Periode: ', bold: true }), new TextRun(`${currentLabel} vs ${previousLabel}`)],
+              }),
+              new Paragraph({
+                children: [new TextRun({ text: 'Tanggal Export: ', bold: true }), new TextRun(formatDate(new Date()))],
+                spacing: { after: 300 },
               }),
-
-              // ========================================
-              // HEADER INFO (Entitas, Budget, Periode, Tanggal)
-              // ========================================
               new Table({
                 width: { size: 100, type: WidthType.PERCENTAGE },
-                borders: {
-                  top: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
-                  bottom: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
-                  left: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
-                  right: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
-                  insideHorizontal: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
-                  insideVertical: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
-                },
                 rows: [
-                  // Row 1: Entitas
                   new TableRow({
-                    children: [
-                      new TableCell({
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Entitas:', bold: true })],
-                          }),
-                        ],
-                        width: { size: 20, type: WidthType.PERCENTAGE },
-                      }),
-                      new TableCell({
-                        children: [new Paragraph(entityName)],
-                        width: { size: 80, type: WidthType.PERCENTAGE },
-                      }),
-                    ],
-                  }),
-
-                  // Row 2: Nama Budget
-                  new TableRow({
-                    children: [
-                      new TableCell({
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Nama Budget:', bold: true })],
-                          }),
-                        ],
-                      }),
-                      new TableCell({
-                        children: [new Paragraph(group.budget_name)],
-                      }),
-                    ],
-                  }),
-
-                  // Row 3: Periode
-                  new TableRow({
-                    children: [
-                      new TableCell({
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Periode:', bold: true })],
-                          }),
-                        ],
-                      }),
-                      new TableCell({
-                        children: [new Paragraph(group.period)],
-                      }),
-                    ],
+                    tableHeader: true,
+                    children: headers.map((header) => cell(header, { bold: true, align: AlignmentType.CENTER, shade: 'D9D9D9' })),
                   }),
-
-                  // Row 4: Tanggal Export
+                  ...lines.map((line) =>
+                    new TableRow({
+                      children: [
+                        cell(line.account_code),
+                        cell(line.account_name),
+                        cell(formatCurrency(line.previous_budget), { align: AlignmentType.RIGHT }),
+                        cell(formatCurrency(line.current_budget), { align: AlignmentType.RIGHT }),
+                        cell(formatCurrency(line.budget_delta), { align: AlignmentType.RIGHT }),
+                        cell(formatGrowth(line.budget_growth), { align: AlignmentType.RIGHT }),
+                        cell(formatCurrency(line.previous_actual), { align: AlignmentType.RIGHT }),
+                        cell(formatCurrency(line.current_actual), { align: AlignmentType.RIGHT }),
+                        cell(formatCurrency(line.actual_delta), { align: AlignmentType.RIGHT }),
+                        cell(formatGrowth(line.actual_growth), { align: AlignmentType.RIGHT }),
+                      ],
+                    })
+                  ),
                   new TableRow({
                     children: [
                       new TableCell({
+                        columnSpan: 2,
+                        shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
                         children: [
                           new Paragraph({
-                            children: [new TextRun({ text: 'Tanggal Export:', bold: true })],
+                            children: [new TextRun({ text: 'TOTAL', bold: true })],
+                            alignment: AlignmentType.RIGHT,
                           }),
                         ],
                       }),
-                      new TableCell({
-                        children: [new Paragraph(formatDate(new Date()))],
-                      }),
+                      ...[
+                        formatCurrency(totals.previous_budget),
+                        formatCurrency(totals.current_budget),
+                        formatCurrency(totals.budget_delta),
+                        formatGrowth(totals.budget_growth),
+                        formatCurrency(totals.previous_actual),
+                        formatCurrency(totals.current_actual),
+                        formatCurrency(totals.actual_delta),
+                        formatGrowth(totals.actual_growth),
+                      ].map((text) => cell(text, { bold: true, align: AlignmentType.RIGHT, shade: 'F2F2F2' })),
                     ],
                   }),
                 ],
               }),
+            ],
+          },
+        ],
+      });
 
-              // Spacing
-              new Paragraph({ text: '', spacing: { before: 400, after: 200 } }),
+      const blob = await Packer.toBlob(doc);
+      const fileName = `${fileBaseName}_${new Date().getTime()}.docx`;
+      saveAs(blob, fileName);
 
-              // ========================================
-              // MAIN TABLE (Accounting Spreadsheet Style)
-              // ========================================
-              new Table({
-                width: { size: 100, type: WidthType.PERCENTAGE },
-                rows: [
-                  // ========================================
-                  // TABLE HEADER
-                  // ========================================
-                  new TableRow({
-                    tableHeader: true,
-                    children: [
-                      // No
-                      new TableCell({
-                        shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
-                        verticalAlign: VerticalAlign.CENTER,
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'No', bold: true })],
-                            alignment: AlignmentType.CENTER,
-                          }),
-                        ],
-                        width: { size: 5, type: WidthType.PERCENTAGE },
-                      }),
+      alert('✅ Export Word berhasil!');
+      console.log('[ExportComparisonFile] Word exported:', fileName);
+    } catch (err) {
+      console.error('[ExportComparisonFile] Word export error:', err);
+      alert('❌ Gagal export Word: ' + (err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className={styles.exportContainer}>
+      <button
+        onClick={exportToExcel}
+        disabled={exporting || lines.length === 0}
+        className={`${styles.exportButton} ${styles.excelButton}`}
+      >
+        {exporting ? 'Exporting...' : 'Export Excel'}
+      </button>
+
+      <button
+        onClick={exportToWord}
+        disabled={exporting || lines.length === 0}
+        className={`${styles.exportButton} ${styles.wordButton}`}
+      >
+        {exporting ? 'Exporting...' : 'Export Word'}
+      </button>
+    </div>
+  );
+};
+
+// ========================================
+// EXPORT SELURUH BUDGET ENTITAS
+// ========================================
+
+interface ExportEntityFileProps {
+  groups: BudgetGroup[];
+  entityName: string;
+  period: string;
+}
+
+/**
+ * Export semua budget group entitas sekaligus: workbook (sheet ringkasan +
+ * satu sheet per budget), Word dan PDF multi-bagian
+ */
+export const ExportEntityFile: React.FC<ExportEntityFileProps> = ({ groups, entityName, period }) => {
+  const [exporting, setExporting] = React.useState(false);
+  const [pdfPaperSize, setPdfPaperSize] = React.useState<PdfPaperSize>('A4');
+  const [pdfOrientation, setPdfOrientation] = React.useState<PdfOrientation>('portrait');
+
+  const totals = summarizeReportGroups(groups);
+  const fileBaseName = `Budget_Realization_${entityName}_${period}`.replace(/\s+/g, '_');
+  const formatStatus = (status: 'ON_TRACK' | 'OVER_BUDGET') => (status === 'ON_TRACK' ? 'On Track' : 'Over Budget');
+
+  const summaryHeaders = ['No', 'Nama Budget', 'Periode', 'Jumlah Akun', 'Budget (Rp)', 'Realisasi (Rp)', 'Variance (Rp)', 'Variance (%)', 'Status'];
+
+  // ========================================
+  // EXPORT TO EXCEL (WORKBOOK)
+  // ========================================
+  const exportToExcel = () => {
+    setExporting(true);
+    try {
+      const data: (string | number)[][] = [
+        ['RINGKASAN BUDGET VS REALISASI'],
+        [],
+        ['Entitas:', entityName],
+        ['Periode:', period],
+        ['Tanggal Export:', formatDate(new Date())],
+        [],
+        summaryHeaders,
+        ...groups.map((group, index) => [
+          index + 1,
+          group.budget_name,
+          group.period,
+          group.accounts.length,
+          group.total_budget,
+          group.total_realisasi,
+          group.total_variance,
+          group.variance_percentage.toFixed(2),
+          formatStatus(group.overall_status),
+        ]),
+      ];
 
-                      // Kode Akun
-                      new TableCell({
-                        shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
-                        verticalAlign: VerticalAlign.CENTER,
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Kode Akun', bold: true })],
-                            alignment: AlignmentType.CENTER,
-                          }),
-                        ],
-                        width: { size: 12, type: WidthType.PERCENTAGE },
-                      }),
+      const totalRowIndex = data.length;
+      data.push([
+        'TOTAL',
+        '',
+        '',
+        '',
+        totals.total_budget,
+        totals.total_realisasi,
+        totals.total_variance,
+        totals.variance_percentage.toFixed(2),
+        formatStatus(totals.overall_status),
+      ]);
 
-                      // Nama Akun
-                      new TableCell({
-                        shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
-                        verticalAlign: VerticalAlign.CENTER,
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Nama Akun', bold: true })],
-                            alignment: AlignmentType.CENTER,
-                          }),
-                        ],
-                        width: { size: 23, type: WidthType.PERCENTAGE },
-                      }),
+      const summary = XLSX.utils.aoa_to_sheet(data);
+      summary['!merges'] = [
+        { s: { r: 0, c: 0 }, e: { r: 0, c: 8 } },
+        { s: { r: totalRowIndex, c: 0 }, e: { r: totalRowIndex, c: 3 } },
+      ];
+      summary['!cols'] = [
+        { wch: 5 },
+        { wch: 35 },
+        { wch: 12 },
+        { wch: 12 },
+        { wch: 18 },
+        { wch: 18 },
+        { wch: 18 },
+        { wch: 12 },
+        { wch: 15 },
+      ];
 
-                      // Tipe Akun
-                      new TableCell({
-                        shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
-                        verticalAlign: VerticalAlign.CENTER,
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Tipe', bold: true })],
-                            alignment: AlignmentType.CENTER,
-                          }),
-                        ],
-                        width: { size: 10, type: WidthType.PERCENTAGE },
-                      }),
+      const range = XLSX.utils.decode_range(summary['!ref'] || 'A1');
+      for (let R = range.s.r; R <= range.e.r; ++R) {
+        for (let C = range.s.c; C <= range.e.c; ++C) {
+          const cellAddress = XLSX.utils.encode_cell({ r: R, c: C });
+          if (!summary[cellAddress]) continue;
 
-                      // Budget (Rp)
-                      new TableCell({
-                        shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
-                        verticalAlign: VerticalAlign.CENTER,
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Budget (Rp)', bold: true })],
-                            alignment: AlignmentType.CENTER,
-                          }),
-                        ],
-                        width: { size: 12, type: WidthType.PERCENTAGE },
-                      }),
+          if (R === 0) {
+            summary[cellAddress].s = {
+              font: { bold: true, sz: 14, name: 'Calibri' },
+              alignment: { horizontal: 'center', vertical: 'center' },
+            };
+          } else if (R === 6 || R === totalRowIndex) {
+            summary[cellAddress].s = {
+              font: { bold: true, sz: 11, name: 'Calibri', color: R === 6 ? { rgb: 'FFFFFF' } : undefined },
+              alignment: { horizontal: R === 6 || C === 8 ? 'center' : 'right', vertical: 'center', wrapText: true },
+              fill: { fgColor: { rgb: R === 6 ? '808080' : 'F2F2F2' } },
+            };
+          }
 
-                      // Realisasi (Rp)
-                      new TableCell({
-                        shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
-                        verticalAlign: VerticalAlign.CENTER,
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Realisasi (Rp)', bold: true })],
-                            alignment: AlignmentType.CENTER,
-                          }),
-                        ],
-                        width: { size: 12, type: WidthType.PERCENTAGE },
-                      }),
+          if (R > 6 && C >= 4 && C <= 6) {
+            summary[cellAddress].z = '#,##0';
+          }
+        }
+      }
 
-                      // Variance (Rp)
-                      new TableCell({
-                        shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
-                        verticalAlign: VerticalAlign.CENTER,
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Variance (Rp)', bold: true })],
-                            alignment: AlignmentType.CENTER,
-                          }),
-                        ],
-                        width: { size: 12, type: WidthType.PERCENTAGE },
-                      }),
+      const wb = XLSX.utils.book_new();
+      const usedNames = new Set<string>(['ringkasan']);
+      XLSX.utils.book_append_sheet(wb, summary, 'Ringkasan');
+      for (const group of groups) {
+        const sheetName = toSheetName({ name: group.budget_name, period: group.period }, usedNames);
+        XLSX.utils.book_append_sheet(wb, buildBudgetGroupSheet(group, entityName), sheetName);
+      }
 
-                      // Variance (%)
-                      new TableCell({
-                        shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
-                        verticalAlign: VerticalAlign.CENTER,
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Variance (%)', bold: true })],
-                            alignment: AlignmentType.CENTER,
-                          }),
-                        ],
-                        width: { size: 10, type: WidthType.PERCENTAGE },
-                      }),
+      const fileName = `${fileBaseName}_${new Date().getTime()}.xlsx`;
+      XLSX.writeFile(wb, fileName);
 
-                      // Status
-                      new TableCell({
-                        shading: { fill: 'D9D9D9', type: ShadingType.CLEAR },
-                        verticalAlign: VerticalAlign.CENTER,
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'Status', bold: true })],
-                            alignment: AlignmentType.CENTER,
-                          }),
-                        ],
-                        width: { size: 12, type: WidthType.PERCENTAGE },
-                      }),
-                    ],
-                  }),
+      alert('✅ Export Excel berhasil!');
+      console.log('[ExportEntityFile] Excel exported:', fileName, groups.length, 'budgets');
+    } catch (err) {
+      console.error('[ExportEntityFile] Excel export error:', err);
+      alert('❌ Gagal export Excel: ' + (err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // ========================================
+  // EXPORT TO WORD (MULTI-SECTION)
+  // ========================================
+  const exportToWord = async () => {
+    setExporting(true);
+    try {
+      const cell = (text: string, options: { bold?: boolean; align?: (typeof AlignmentType)[keyof typeof AlignmentType]; shade?: string } = {}) =>
+        new TableCell({
+          shading: options.shade ? { fill: options.shade, type: ShadingType.CLEAR } : undefined,
+          verticalAlign: VerticalAlign.CENTER,
+          children: [
+            new Paragraph({
+              children: [new TextRun({ text, bold: options.bold })],
+              alignment: options.align || AlignmentType.LEFT,
+            }),
+          ],
+        });
+
+      const pageProperties = {
+        page: {
+          margin: { top: 720, right: 720, bottom: 720, left: 720 }, // 0.5 inch
+        },
+      };
 
-                  // ========================================
-                  // TABLE DATA ROWS
-                  // ========================================
-                  ...group.accounts.map((account, index) =>
+      const doc = new Document({
+        sections: [
+          // Ringkasan
+          {
+            properties: pageProperties,
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: 'RINGKASAN BUDGET VS REALISASI', bold: true, size: 28 })],
+                alignment: AlignmentType.CENTER,
+                spacing: { after: 400 },
+              }),
+              new Paragraph({ children: [new TextRun({ text: 'Entitas: ', bold: true }), new TextRun(entityName)] }),
+              new Paragraph({ children: [new TextRun({ text: 'Periode: ', bold: true }), new TextRun(period)] }),
+              new Paragraph({
+                children: [new TextRun({ text: 'Tanggal Export: ', bold: true }), new TextRun(formatDate(new Date()))],
+                spacing: { after: 300 },
+              }),
+              new Table({
+                width: { size: 100, type: WidthType.PERCENTAGE },
+                rows: [
+                  new TableRow({
+                    tableHeader: true,
+                    children: summaryHeaders.map((header) => cell(header, { bold: true, align: AlignmentType.CENTER, shade: 'D9D9D9' })),
+                  }),
+                  ...groups.map((group, index) =>
                     new TableRow({
                       children: [
-                        // No
-                        new TableCell({
-                          children: [
-                            new Paragraph({
-                              text: (index + 1).toString(),
-                              alignment: AlignmentType.CENTER,
-                            }),
-                          ],
-                        }),
-
-                        // Kode Akun
-                        new TableCell({
-                          children: [
-                            new Paragraph({
-                              text: account.account_code,
-                              alignment: AlignmentType.LEFT,
-                            }),
-                          ],
-                        }),
-
-                        // Nama Akun
-                        new TableCell({
-                          children: [
-                            new Paragraph({
-                              text: account.account_name,
-                              alignment: AlignmentType.LEFT,
-                            }),
-                          ],
-                        }),
-
-                        // Tipe Akun
-                        new TableCell({
-                          children: [
-                            new Paragraph({
-                              text: account.account_type || '-',
-                              alignment: AlignmentType.LEFT,
-                            }),
-                          ],
-                        }),
-
-                        // Budget (Rp)
-                        new TableCell({
-                          children: [
-                            new Paragraph({
-                              text: formatCurrency(account.budget_allocated),
-                              alignment: AlignmentType.RIGHT,
-                            }),
-                          ],
-                        }),
-
-                        // Realisasi (Rp)
-                        new TableCell({
-                          children: [
-                            new Paragraph({
-                              text: formatCurrency(account.realisasi),
-                              alignment: AlignmentType.RIGHT,
-                            }),
-                          ],
-                        }),
-
-                        // Variance (Rp)
-                        new TableCell({
-                          children: [
-                            new Paragraph({
-                              text: formatCurrency(Math.abs(account.variance)),
-                              alignment: AlignmentType.RIGHT,
-                            }),
-                          ],
-                        }),
-
-                        // Variance (%)
-                        new TableCell({
-                          children: [
-                            new Paragraph({
-                              text: `${Math.abs(account.variance_percentage).toFixed(2)}%`,
-                              alignment: AlignmentType.RIGHT,
-                            }),
-                          ],
-                        }),
-
-                        // Status
-                        new TableCell({
-                          children: [
-                            new Paragraph({
-                              text: account.status === 'ON_TRACK' ? 'On Track' : 'Over Budget',
-                              alignment: AlignmentType.CENTER,
-                            }),
-                          ],
-                        }),
+                        cell((index + 1).toString(), { align: AlignmentType.CENTER }),
+                        cell(group.budget_name),
+                        cell(group.period),
+                        cell(group.accounts.length.toString(), { align: AlignmentType.CENTER }),
+                        cell(formatCurrency(group.total_budget), { align: AlignmentType.RIGHT }),
+                        cell(formatCurrency(group.total_realisasi), { align: AlignmentType.RIGHT }),
+                        cell(formatCurrency(Math.abs(group.total_variance)), { align: AlignmentType.RIGHT }),
+                        cell(`${Math.abs(group.variance_percentage).toFixed(2)}%`, { align: AlignmentType.RIGHT }),
+                        cell(formatStatus(group.overall_status), { align: AlignmentType.CENTER }),
                       ],
                     })
                   ),
-
-                  // ========================================
-                  // TOTAL ROW
-                  // ========================================
                   new TableRow({
                     children: [
-                      // TOTAL (merged cells)
                       new TableCell({
-                        shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
                         columnSpan: 4,
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: 'TOTAL', bold: true })],
-                            alignment: AlignmentType.RIGHT,
-                          }),
-                        ],
-                      }),
-
-                      // Total Budget
-                      new TableCell({
-                        shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: formatCurrency(group.total_budget), bold: true })],
-                            alignment: AlignmentType.RIGHT,
-                          }),
-                        ],
-                      }),
-
-                      // Total Realisasi
-                      new TableCell({
-                        shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: formatCurrency(group.total_realisasi), bold: true })],
-                            alignment: AlignmentType.RIGHT,
-                          }),
-                        ],
-                      }),
-
-                      // Total Variance
-                      new TableCell({
-                        shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: formatCurrency(Math.abs(group.total_variance)), bold: true })],
-                            alignment: AlignmentType.RIGHT,
-                          }),
-                        ],
-                      }),
-
-                      // Total Variance %
-                      new TableCell({
                         shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
                         children: [
                           new Paragraph({
-                            children: [new TextRun({ text: `${Math.abs(group.variance_percentage).toFixed(2)}%`, bold: true })],
+                            children: [new TextRun({ text: 'TOTAL', bold: true })],
                             alignment: AlignmentType.RIGHT,
                           }),
                         ],
                       }),
-
-                      // Overall Status
-                      new TableCell({
-                        shading: { fill: 'F2F2F2', type: ShadingType.CLEAR },
-                        children: [
-                          new Paragraph({
-                            children: [new TextRun({ text: group.overall_status === 'ON_TRACK' ? 'On Track' : 'Over Budget', bold: true })],
-                            alignment: AlignmentType.CENTER,
-                          }),
-                        ],
-                      }),
+                      ...[
+                        formatCurrency(totals.total_budget),
+                        formatCurrency(totals.total_realisasi),
+                        formatCurrency(Math.abs(totals.total_variance)),
+                        `${Math.abs(totals.variance_percentage).toFixed(2)}%`,
+                      ].map((text) => cell(text, { bold: true, align: AlignmentType.RIGHT, shade: 'F2F2F2' })),
+                      cell(formatStatus(totals.overall_status), { bold: true, align: AlignmentType.CENTER, shade: 'F2F2F2' }),
                     ],
                   }),
                 ],
               }),
             ],
           },
+
+          // Satu bagian per budget group, masing-masing di halaman baru
+          ...groups.map((group) => ({
+            properties: pageProperties,
+            children: buildBudgetGroupWordChildren(group, entityName),
+          })),
         ],
       });
 
       const blob = await Packer.toBlob(doc);
-      const fileName = `Budget_Realization_${group.budget_name.replace(/\s+/g, '_')}_${group.period}_${new Date().getTime()}.docx`;
+      const fileName = `${fileBaseName}_${new Date().getTime()}.docx`;
       saveAs(blob, fileName);
 
       alert('✅ Export Word berhasil!');
-      console.log('[ExportFile] Word exported:', fileName);
-    } catch (err: any) {
-      console.error('[ExportFile] Word export error:', err);
-      alert('❌ Gagal export Word: ' + err.message);
+      console.log('[ExportEntityFile] Word exported:', fileName, groups.length, 'budgets');
+    } catch (err) {
+      console.error('[ExportEntityFile] Word export error:', err);
+      alert('❌ Gagal export Word: ' + (err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // ========================================
+  // EXPORT TO PDF (MULTI-SECTION)
+  // ========================================
+  const exportToPDF = () => {
+    setExporting(true);
+    try {
+      const doc = buildEntityReportPdf(groups, entityName, period, {
+        paperSize: pdfPaperSize,
+        orientation: pdfOrientation,
+      });
+      const fileName = `${fileBaseName}_${new Date().getTime()}.pdf`;
+      doc.save(fileName);
+
+      alert('✅ Export PDF berhasil!');
+      console.log('[ExportEntityFile] PDF exported:', fileName, groups.length, 'budgets');
+    } catch (err) {
+      console.error('[ExportEntityFile] PDF export error:', err);
+      alert('❌ Gagal export PDF: ' + (err as Error).message);
     } finally {
       setExporting(false);
-      onExporting?.(false);
     }
   };
 
@@ -859,26 +1615,185 @@ export const ExportFile: React.FC<ExportFileProps> = ({ group, entityName, onExp
     <div className={styles.exportContainer}>
       <button
         onClick={exportToExcel}
-        disabled={exporting}
+        disabled={exporting || groups.length === 0}
         className={`${styles.exportButton} ${styles.excelButton}`}
+        title="Satu workbook: sheet ringkasan + satu sheet per budget"
       >
-        {exporting ? 'Exporting...' : 'Export Excel'}
+        {exporting ? 'Exporting...' : 'Export Semua (Excel)'}
       </button>
 
       <button
-        onClick={exportToCSV}
-        disabled={exporting}
-        className={`${styles.exportButton} ${styles.csvButton}`}
+        onClick={exportToWord}
+        disabled={exporting || groups.length === 0}
+        className={`${styles.exportButton} ${styles.wordButton}`}
       >
-        {exporting ? 'Exporting...' : 'Export CSV'}
+        {exporting ? 'Exporting...' : 'Export Semua (Word)'}
+      </button>
+
+      <div className={styles.pdfGroup}>
+        <select
+          value={pdfPaperSize}
+          onChange={(e) => setPdfPaperSize(e.target.value as PdfPaperSize)}
+          disabled={exporting}
+          className={styles.pdfSelect}
+          title="Ukuran kertas PDF"
+        >
+          {(Object.keys(PDF_PAPER_SIZE_LABELS) as PdfPaperSize[]).map((size) => (
+            <option key={size} value={size}>{PDF_PAPER_SIZE_LABELS[size]}</option>
+          ))}
+        </select>
+        <select
+          value={pdfOrientation}
+          onChange={(e) => setPdfOrientation(e.target.value as PdfOrientation)}
+          disabled={exporting}
+          className={styles.pdfSelect}
+          title="Orientasi halaman PDF"
+        >
+          {(Object.keys(PDF_ORIENTATION_LABELS) as PdfOrientation[]).map((orientation) => (
+            <option key={orientation} value={orientation}>{PDF_ORIENTATION_LABELS[orientation]}</option>
+          ))}
+        </select>
+        <button
+          onClick={exportToPDF}
+          disabled={exporting || groups.length === 0}
+          className={`${styles.exportButton} ${styles.pdfButton}`}
+        >
+          {exporting ? 'Exporting...' : 'Export Semua (PDF)'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// ========================================
+// EXPORT LAPORAN CUSTOM (REPORT BUILDER)
+// ========================================
+
+interface ExportReportFileProps {
+  reportName: string;
+  periodLabel: string;
+  table: ReportTable;
+}
+
+export const ExportReportFile: React.FC<ExportReportFileProps> = ({ reportName, periodLabel, table }) => {
+  const [exporting, setExporting] = React.useState(false);
+
+  const fileBaseName = `Laporan_${reportName || 'Custom'}_${periodLabel}`.replace(/\s+/g, '_');
+
+  const exportToExcel = () => {
+    setExporting(true);
+    try {
+      const data: (string | number | null)[][] = [
+        [reportName.toUpperCase() || 'LAPORAN CUSTOM'],
+        [],
+        ['Periode:', periodLabel],
+        ['Tanggal Export:', formatDate(new Date())],
+        [],
+        table.header,
+        ...table.rows,
+        table.total,
+      ];
+      const headerRowIndex = 5;
+      const totalRowIndex = data.length - 1;
+
+      const ws = XLSX.utils.aoa_to_sheet(data);
+      ws['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: Math.max(table.header.length - 1, 1) } }];
+      ws['!cols'] = table.column_measures.map((measure) => ({ wch: measure ? 18 : 30 }));
+
+      const range = XLSX.utils.decode_range(ws['!ref'] || 'A1');
+      for (let R = range.s.r; R <= range.e.r; ++R) {
+        for (let C = range.s.c; C <= range.e.c; ++C) {
+          const cellAddress = XLSX.utils.encode_cell({ r: R, c: C });
+          if (!ws[cellAddress]) continue;
+
+          if (R === 0) {
+            ws[cellAddress].s = {
+              font: { bold: true, sz: 14, name: 'Calibri' },
+              alignment: { horizontal: 'center', vertical: 'center' },
+            };
+          } else if (R === headerRowIndex || R === totalRowIndex) {
+            ws[cellAddress].s = {
+              font: { bold: true, sz: 11, name: 'Calibri', color: R === headerRowIndex ? { rgb: 'FFFFFF' } : undefined },
+              alignment: { horizontal: R === headerRowIndex ? 'center' : 'left', vertical: 'center', wrapText: true },
+              fill: { fgColor: { rgb: R === headerRowIndex ? '808080' : 'F2F2F2' } },
+            };
+          }
+
+          const measure = table.column_measures[C];
+          if (R > headerRowIndex && measure) {
+            ws[cellAddress].z = measure === 'UTILIZATION' ? '0.00' : '#,##0';
+          }
+        }
+      }
+
+      const wb = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(wb, ws, 'Laporan');
+      const fileName = `${fileBaseName}_${new Date().getTime()}.xlsx`;
+      XLSX.writeFile(wb, fileName);
+
+      alert('✅ Export Excel berhasil!');
+      console.log('[ExportReportFile] Excel exported:', fileName);
+    } catch (err) {
+      console.error('[ExportReportFile] Excel export error:', err);
+      alert('❌ Gagal export Excel: ' + (err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const exportToCSV = () => {
+    setExporting(true);
+    try {
+      const formatCell = (value: string | number | null, index: number) => {
+        const measure = table.column_measures[index];
+        return measure && typeof value !== 'string' ? formatMeasureValue(value, measure) : String(value ?? '');
+      };
+
+      const csvData: string[][] = [
+        [reportName || 'Laporan Custom'],
+        ['Periode:', periodLabel],
+        ['Tanggal Export:', formatDate(new Date())],
+        [],
+        table.header,
+        ...table.rows.map((row) => row.map(formatCell)),
+        table.total.map(formatCell),
+      ];
+
+      const csvString = csvData
+        .map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(','))
+        .join('\n');
+
+      const BOM = '\uFEFF';
+      const blob = new Blob([BOM + csvString], { type: 'text/csv;charset=utf-8;' });
+      const fileName = `${fileBaseName}_${new Date().getTime()}.csv`;
+      saveAs(blob, fileName);
+
+      alert('✅ Export CSV berhasil!');
+      console.log('[ExportReportFile] CSV exported:', fileName);
+    } catch (err) {
+      console.error('[ExportReportFile] CSV export error:', err);
+      alert('❌ Gagal export CSV: ' + (err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className={styles.exportContainer}>
+      <button
+        onClick={exportToExcel}
+        disabled={exporting || table.rows.length === 0}
+        className={`${styles.exportButton} ${styles.excelButton}`}
+      >
+        {exporting ? 'Exporting...' : 'Export Excel'}
       </button>
 
       <button
-        onClick={exportToWord}
-        disabled={exporting}
-        className={`${styles.exportButton} ${styles.wordButton}`}
+        onClick={exportToCSV}
+        disabled={exporting || table.rows.length === 0}
+        className={`${styles.exportButton} ${styles.csvButton}`}
       >
-        {exporting ? 'Exporting...' : 'Export Word'}
+        {exporting ? 'Exporting...' : 'Export CSV'}
       </button>
     </div>
   );
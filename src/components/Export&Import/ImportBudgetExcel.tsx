@@ -0,0 +1,269 @@
+import React, { useState, useRef } from 'react';
+import * as XLSX from 'xlsx';
+import { getBudgetImportContext, importBudgets } from '../../lib/accurate';
+import {
+  groupBudgetImportRows,
+  hasBudgetImportColumns,
+  validateBudgetImportRows,
+  type BudgetImportRow,
+} from '../../services/budgetImport';
+import { formatCurrency } from '../../services/budgetHelpers';
+import styles from './ImportBudgetExcel.module.css';
+
+interface ImportBudgetExcelProps {
+  entityId: string;
+  onSuccess: (message: string) => void;
+  onClose: () => void;
+}
+
+const ACCEPTED_EXTENSIONS = ['.xlsx', '.xls', '.xlsm', '.csv'];
+
+/**
+ * Import budget massal dari Excel/CSV:
+ * baca file → validasi tiap baris terhadap COA → preview → import sekaligus
+ */
+export const ImportBudgetExcel: React.FC<ImportBudgetExcelProps> = ({ entityId, onSuccess, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BudgetImportRow[]>([]);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const errorRows = rows.filter((row) => row.errors.length > 0);
+  const groups = groupBudgetImportRows(rows);
+  const visibleRows = showErrorsOnly ? errorRows : rows;
+
+  /**
+   * Baca sheet pertama & validasi
+   */
+  const handleFileSelection = async (file: File) => {
+    const lowerName = file.name.toLowerCase();
+    if (!ACCEPTED_EXTENSIONS.some((ext) => lowerName.endsWith(ext))) {
+      setError('File harus berformat Excel (.xlsx, .xls, .xlsm) atau CSV');
+      return;
+    }
+
+    setFileName(file.name);
+    setRows([]);
+    setError(null);
+    setReading(true);
+
+    try {
+      const workbook = lowerName.endsWith('.csv')
+        ? XLSX.read(await file.text(), { type: 'string', raw: true })
+        : XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+
+      const rawData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as unknown[][];
+      const headerRowIndex = rawData
+        .slice(0, 20)
+        .findIndex((row) => Array.isArray(row) && hasBudgetImportColumns(row.map(String)));
+
+      if (headerRowIndex === -1) {
+        throw new Error('Kolom wajib tidak ditemukan: nama budget, periode, kode akun, jumlah');
+      }
+
+      const jsonData = XLSX.utils.sheet_to_json(worksheet, {
+        range: headerRowIndex,
+        defval: '',
+        // Nilai asli sel: angka tetap number, bukan teks tampilan berformat ribuan
+        raw: true,
+      }) as Record<string, unknown>[];
+
+      const dataRows = jsonData.filter((row) => Object.values(row).some((value) => String(value).trim() !== ''));
+      if (dataRows.length === 0) throw new Error('Tidak ada baris data di file');
+
+      const { data: context, error: contextError } = await getBudgetImportContext(entityId);
+      if (contextError || !context) throw contextError || new Error('Gagal memuat data COA');
+
+      const validated = validateBudgetImportRows(dataRows, context.accounts, context.budgets, headerRowIndex + 1);
+      console.log('[ImportBudgetExcel] Parsed', validated.length, 'rows,', validated.filter((r) => r.errors.length > 0).length, 'errors');
+
+      setRows(validated);
+      setShowErrorsOnly(validated.some((row) => row.errors.length > 0));
+    } catch (err) {
+      console.error('[ImportBudgetExcel] Error reading file:', err);
+      setError((err as Error).message);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(e.type === 'dragenter' || e.type === 'dragover');
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragActive(false);
+    if (e.dataTransfer.files?.[0]) handleFileSelection(e.dataTransfer.files[0]);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files?.[0]) handleFileSelection(e.target.files[0]);
+    e.target.value = '';
+  };
+
+  /**
+   * Import semua budget valid. Ditolak selama masih ada baris error
+   * agar isi file tidak masuk sebagian.
+   */
+  const handleImport = async () => {
+    if (errorRows.length > 0) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      const { data, error } = await importBudgets(entityId, groups);
+      if (error) throw error;
+
+      onSuccess(`Berhasil import ${data?.budget_count} budget dengan ${data?.item_count} akun dari ${fileName}`);
+    } catch (err) {
+      console.error('[ImportBudgetExcel] Error importing:', err);
+      setError('Gagal import budget: ' + (err as Error).message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    const ws = XLSX.utils.aoa_to_sheet([
+      ['budget_name', 'period', 'account_code', 'allocated_amount', 'description'],
+      ['Budget Operasional', '2026-01', '6-1000', 15000000, 'Gaji staf'],
+      ['Budget Operasional', '2026-01', '6-2000', 3000000, 'Listrik & air'],
+      ['Budget Marketing', '2026-01', '6-3000', 5000000, ''],
+    ]);
+    ws['!cols'] = [{ wch: 25 }, { wch: 10 }, { wch: 15 }, { wch: 18 }, { wch: 25 }];
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Budget Import');
+    XLSX.writeFile(wb, 'Budget_Import_Template.xlsx');
+  };
+
+  return (
+    <div className={styles.modalOverlay} onClick={onClose}>
+      <div className={styles.modalContent} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.headerTitle}>Import Budget</h2>
+          <p className={styles.headerSubtitle}>
+            Kolom wajib: nama budget, periode (YYYY-MM), kode akun, jumlah. Kolom keterangan opsional.
+          </p>
+        </div>
+
+        {error && <div className={styles.errorAlert}>{error}</div>}
+
+        <div
+          className={`${styles.dropArea} ${dragActive ? styles.dropAreaActive : ''}`}
+          onDragEnter={handleDrag}
+          onDragLeave={handleDrag}
+          onDragOver={handleDrag}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_EXTENSIONS.join(',')}
+            onChange={handleFileChange}
+            className={styles.fileInput}
+          />
+          {reading ? (
+            <p className={styles.dropText}>⏳ Membaca & memvalidasi file...</p>
+          ) : fileName ? (
+            <p className={styles.dropText}>
+              ✓ <strong>{fileName}</strong> — klik untuk ganti file
+            </p>
+          ) : (
+            <p className={styles.dropText}>Tarik file ke sini atau klik untuk memilih (.xlsx, .xls, .csv)</p>
+          )}
+        </div>
+
+        {rows.length > 0 && (
+          <>
+            <div className={errorRows.length > 0 ? styles.summaryError : styles.summaryOk}>
+              {rows.length} baris • {groups.length} budget siap dibuat
+              {errorRows.length > 0 && ` • ${errorRows.length} baris error, perbaiki file lalu upload ulang`}
+            </div>
+
+            {errorRows.length > 0 && (
+              <label className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={showErrorsOnly}
+                  onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                />
+                Tampilkan baris error saja
+              </label>
+            )}
+
+            <div className={styles.previewTableWrapper}>
+              <table className={styles.previewTable}>
+                <thead>
+                  <tr>
+                    <th>Baris</th>
+                    <th>Budget</th>
+                    <th>Periode</th>
+                    <th>Akun</th>
+                    <th className={styles.amount}>Jumlah</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row) => (
+                    <tr key={row.row_number} className={row.errors.length > 0 ? styles.rowError : ''}>
+                      <td>{row.row_number}</td>
+                      <td>{row.budget_name || '-'}</td>
+                      <td>{row.period || '-'}</td>
+                      <td>
+                        <code>{row.account_code || '-'}</code> {row.account_name}
+                      </td>
+                      <td className={styles.amount}>{formatCurrency(row.allocated_amount)}</td>
+                      <td>
+                        {row.errors.length > 0 ? (
+                          <ul className={styles.errorList}>
+                            {row.errors.map((message) => (
+                              <li key={message}>{message}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className={styles.okText}>OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className={styles.templateRow}>
+          <button onClick={handleDownloadTemplate} className={styles.templateButton}>
+            Download Template
+          </button>
+        </div>
+
+        <div className={styles.actionButtons}>
+          <button
+            onClick={handleImport}
+            disabled={importing || reading || groups.length === 0 || errorRows.length > 0}
+            className={styles.importButton}
+          >
+            {importing ? 'Importing...' : `Import ${groups.length} Budget`}
+          </button>
+          <button onClick={onClose} disabled={importing} className={styles.cancelButton}>
+            Batal
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportBudgetExcel;
@@ -0,0 +1,227 @@
+import React, { useState, useRef } from 'react';
+import * as XLSX from 'xlsx';
+import { applyBudgetItemDiff, getBudgetById, type BudgetWithItems } from '../../lib/accurate';
+import {
+  diffBudgetItems,
+  hasBudgetItemChanges,
+  parseBudgetWorkbook,
+  type BudgetItemDiff,
+  type WorkbookBudget,
+} from '../../services/budgetWorkbook';
+import { isBudgetEditable } from '../../services/budgetWorkflow';
+import { formatCurrency } from '../../services/budgetHelpers';
+import styles from './ImportBudgetWorkbook.module.css';
+
+interface ImportBudgetWorkbookProps {
+  onSuccess: (message: string) => void;
+  onClose: () => void;
+}
+
+// Hasil perbandingan satu sheet dengan budget di database
+interface WorkbookPreview {
+  workbook: WorkbookBudget;
+  current: BudgetWithItems | null;
+  diff: BudgetItemDiff | null;
+  warning: string | null; // Alasan sheet tidak bisa diterapkan
+  stale: boolean; // Budget sudah diubah setelah workbook diexport
+}
+
+/**
+ * Upload workbook hasil "Export Workbook", tampilkan diff per budget, lalu terapkan
+ */
+export const ImportBudgetWorkbook: React.FC<ImportBudgetWorkbookProps> = ({ onSuccess, onClose }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<WorkbookPreview[]>([]);
+  const [reading, setReading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applicable = previews.filter((p) => !p.warning && p.diff && hasBudgetItemChanges(p.diff));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setPreviews([]);
+    setError(null);
+    setReading(true);
+
+    try {
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+      const budgets = parseBudgetWorkbook(workbook);
+
+      const results = await Promise.all(
+        budgets.map(async (budget): Promise<WorkbookPreview> => {
+          const { data: current } = await getBudgetById(budget.meta.budget_id);
+
+          if (!current) {
+            return { workbook: budget, current: null, diff: null, warning: 'Budget sudah dihapus', stale: false };
+          }
+
+          if (budget.row_errors.length > 0) {
+            return {
+              workbook: budget,
+              current,
+              diff: null,
+              warning: `Perbaiki jumlah di workbook: ${budget.row_errors.join('; ')}`,
+              stale: false,
+            };
+          }
+
+          return {
+            workbook: budget,
+            current,
+            diff: diffBudgetItems(current.items, budget.items),
+            warning: isBudgetEditable(current) ? null : 'Budget tidak dalam status Draft, perubahan tidak bisa diterapkan',
+            stale: !!budget.meta.updated_at && budget.meta.updated_at !== (current.updated_at || ''),
+          };
+        })
+      );
+
+      setPreviews(results);
+    } catch (err) {
+      console.error('[ImportBudgetWorkbook] Error reading file:', err);
+      setError((err as Error).message);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    setError(null);
+    try {
+      for (const preview of applicable) {
+        const { error } = await applyBudgetItemDiff(preview.current!.id, preview.diff!);
+        if (error) throw new Error(`${preview.workbook.meta.budget_name}: ${(error as Error).message}`);
+      }
+
+      onSuccess(`Perubahan dari ${fileName} diterapkan ke ${applicable.length} budget`);
+    } catch (err) {
+      console.error('[ImportBudgetWorkbook] Error applying:', err);
+      setError('Gagal menerapkan workbook: ' + (err as Error).message);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className={styles.modalOverlay} onClick={onClose}>
+      <div className={styles.modalContent} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.headerTitle}>Upload Workbook Budget</h2>
+          <p className={styles.headerSubtitle}>
+            Gunakan file hasil "Export Workbook". Jangan ubah sheet tersembunyi _metadata.
+          </p>
+        </div>
+
+        {error && <div className={styles.errorAlert}>{error}</div>}
+
+        <div className={styles.uploadRow}>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xlsx"
+            onChange={handleFileChange}
+            className={styles.fileInput}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={reading || applying}
+            className={styles.selectButton}
+          >
+            Pilih File
+          </button>
+          <span className={styles.fileName}>
+            {reading ? '⏳ Membandingkan dengan data saat ini...' : fileName || 'Belum ada file'}
+          </span>
+        </div>
+
+        {previews.map((preview) => {
+          const { meta } = preview.workbook;
+          const diff = preview.diff;
+
+          return (
+            <div key={meta.budget_id} className={styles.budgetSection}>
+              <div className={styles.budgetTitle}>
+                {meta.budget_name} <span className={styles.period}>{meta.period}</span>
+              </div>
+
+              {preview.warning && <div className={styles.warning}>{preview.warning}</div>}
+              {!preview.warning && preview.stale && (
+                <div className={styles.warning}>
+                  Budget sudah diubah setelah workbook diexport. Perubahan di workbook akan menimpa data terbaru.
+                </div>
+              )}
+
+              {diff && !hasBudgetItemChanges(diff) && <div className={styles.noChange}>Tidak ada perubahan</div>}
+
+              {diff && hasBudgetItemChanges(diff) && (
+                <table className={styles.diffTable}>
+                  <tbody>
+                    {diff.added.map((item) => (
+                      <tr key={`add-${item.account_code}`} className={styles.added}>
+                        <td>+ Tambah</td>
+                        <td>
+                          <code>{item.account_code}</code> {item.account_name}
+                        </td>
+                        <td className={styles.amount}>{formatCurrency(item.allocated_amount)}</td>
+                      </tr>
+                    ))}
+                    {diff.changed.map(({ before, after }) => (
+                      <tr key={`chg-${after.account_code}`} className={styles.changed}>
+                        <td>~ Ubah</td>
+                        <td>
+                          <code>{after.account_code}</code> {before.account_name}
+                          {(before.description || null) !== after.description && (
+                            <div className={styles.descriptionChange}>
+                              Catatan: {before.description || '-'} → {after.description || '-'}
+                            </div>
+                          )}
+                        </td>
+                        <td className={styles.amount}>
+                          {formatCurrency(before.allocated_amount)} → {formatCurrency(after.allocated_amount)}
+                        </td>
+                      </tr>
+                    ))}
+                    {diff.removed.map((item) => (
+                      <tr key={`del-${item.account_code}`} className={styles.removed}>
+                        <td>− Hapus</td>
+                        <td>
+                          <code>{item.account_code}</code> {item.account_name}
+                        </td>
+                        <td className={styles.amount}>{formatCurrency(item.allocated_amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {diff && diff.unchanged_count > 0 && (
+                <div className={styles.noChange}>{diff.unchanged_count} akun tidak berubah</div>
+              )}
+            </div>
+          );
+        })}
+
+        <div className={styles.actionButtons}>
+          <button
+            onClick={handleApply}
+            disabled={applying || reading || applicable.length === 0}
+            className={styles.applyButton}
+          >
+            {applying ? 'Menerapkan...' : `Terapkan ke ${applicable.length} Budget`}
+          </button>
+          <button onClick={onClose} disabled={applying} className={styles.cancelButton}>
+            Batal
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportBudgetWorkbook;
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { saveAs } from 'file-saver';
+import type {
+  AccurateDimensionFilter,
+  AccurateJournalEntry,
+  BudgetRealization,
+} from '../../lib/accurate';
+import { getAccountJournalEntries, type JournalDrilldownResult } from '../../lib/journalDrilldown';
+import styles from './JournalDrilldown.module.css';
+
+interface JournalDrilldownProps {
+  entityId: string;
+  entityName: string;
+  hasApiToken?: boolean;
+  realization: BudgetRealization;
+  dimension?: AccurateDimensionFilter | null;
+  onClose: () => void;
+}
+
+// Helper: Format currency
+const formatCurrency = (amount: number): string => {
+  return amount.toLocaleString('id-ID');
+};
+
+const formatDate = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString('id-ID');
+};
+
+/**
+ * Daftar transaksi jurnal Accurate di balik satu baris realisasi
+ */
+export const JournalDrilldown: React.FC<JournalDrilldownProps> = ({
+  entityId,
+  entityName,
+  hasApiToken,
+  realization,
+  dimension,
+  onClose,
+}) => {
+  const [result, setResult] = useState<JournalDrilldownResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(
+    hasApiToken ? null : 'Entitas belum terhubung ke Accurate (API token kosong)'
+  );
+
+  // Budget tahun fiskal: realisasi YTD → jurnal sejak awal tahun fiskal
+  const fromPeriod = realization.fiscal_start_period || realization.period;
+  const toPeriod = realization.period;
+  const periodLabel = fromPeriod === toPeriod ? toPeriod : `${fromPeriod} s/d ${toPeriod}`;
+
+  const request = {
+    entityId,
+    accountCode: realization.account_code,
+    fromPeriod,
+    toPeriod,
+    dimension,
+  };
+
+  useEffect(() => {
+    if (!hasApiToken) return;
+    getAccountJournalEntries({
+      entityId,
+      accountCode: realization.account_code,
+      fromPeriod,
+      toPeriod,
+      dimension,
+    }).then(({ data, error }) => {
+      setResult(data);
+      setError(error ? 'Gagal memuat jurnal: ' + (error as Error).message : null);
+      setLoading(false);
+    });
+  }, [entityId, hasApiToken, realization.account_code, fromPeriod, toPeriod, dimension]);
+
+  const handleRefresh = async () => {
+    setLoading(true);
+    setError(null);
+    const { data, error } = await getAccountJournalEntries(request, true);
+    if (error) {
+      setError('Gagal memuat jurnal: ' + (error as Error).message);
+    } else {
+      setResult(data);
+    }
+    setLoading(false);
+  };
+
+  const entries: AccurateJournalEntry[] = result?.entries || [];
+  const totalAmount = entries.reduce((sum, entry) => sum + (entry.amount || 0), 0);
+  const difference = realization.realisasi - totalAmount;
+
+  // ========================================
+  // EXPORT
+  // ========================================
+  const buildRows = (): (string | number)[][] => [
+    ['No', 'Tanggal', 'Nomor', 'Keterangan', 'Tipe', 'Jumlah (Rp)'],
+    ...entries.map((entry, index) => [
+      index + 1,
+      formatDate(entry.date),
+      entry.number,
+      entry.description,
+      entry.transactionType || '-',
+      entry.amount,
+    ]),
+    ['', '', '', 'TOTAL', '', totalAmount],
+  ];
+
+  const fileBaseName = `Jurnal_${realization.account_code}_${toPeriod}_${new Date().getTime()}`;
+
+  const exportToExcel = () => {
+    const ws = XLSX.utils.aoa_to_sheet([
+      [`JURNAL AKUN ${realization.account_code} - ${realization.account_name}`],
+      ['Entitas:', entityName],
+      ['Periode:', periodLabel],
+      [],
+      ...buildRows(),
+    ]);
+    ws['!cols'] = [{ wch: 5 }, { wch: 12 }, { wch: 18 }, { wch: 45 }, { wch: 14 }, { wch: 18 }];
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Jurnal');
+    XLSX.writeFile(wb, `${fileBaseName}.xlsx`);
+    console.log('[JournalDrilldown] Excel exported:', fileBaseName);
+  };
+
+  const exportToCSV = () => {
+    const csvString = buildRows()
+      .map((row) =>
+        row
+          .map((cell) => {
+            const text = String(cell);
+            const escaped = text.replace(/"/g, '""');
+            return text.includes(',') || text.includes('"') || text.includes('\n') ? `"${escaped}"` : escaped;
+          })
+          .join(',')
+      )
+      .join('\n');
+
+    const blob = new Blob(['\uFEFF' + csvString], { type: 'text/csv;charset=utf-8;' });
+    saveAs(blob, `${fileBaseName}.csv`);
+    console.log('[JournalDrilldown] CSV exported:', fileBaseName);
+  };
+
+  return (
+    <div className={styles.modalOverlay} onClick={onClose}>
+      <div className={styles.modalContent} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <div>
+            <h2 className={styles.headerTitle}>
+              Transaksi {realization.account_code} - {realization.account_name}
+            </h2>
+            <p className={styles.headerSubtitle}>
+              Periode {periodLabel}
+              {result && (
+                <>
+                  {' '}• {result.from_cache ? 'Cache' : 'Diambil'}{' '}
+                  {new Date(result.fetched_at).toLocaleString('id-ID')}
+                </>
+              )}
+            </p>
+          </div>
+          <button onClick={onClose} className={styles.closeButton}>
+            ✕
+          </button>
+        </div>
+
+        {error && <div className={styles.errorAlert}>{error}</div>}
+
+        <div className={styles.toolbar}>
+          <div className={styles.summary}>
+            Total jurnal <strong>Rp{formatCurrency(totalAmount)}</strong> • Realisasi{' '}
+            <strong>Rp{formatCurrency(realization.realisasi)}</strong>
+            {entries.length > 0 && Math.abs(difference) >= 1 && (
+              <span className={styles.difference}> • Selisih Rp{formatCurrency(difference)}</span>
+            )}
+          </div>
+          <div className={styles.actions}>
+            <button onClick={handleRefresh} disabled={loading || !hasApiToken} className={styles.secondaryButton}>
+              {loading ? 'Memuat...' : 'Muat Ulang dari Accurate'}
+            </button>
+            <button onClick={exportToExcel} disabled={entries.length === 0} className={styles.primaryButton}>
+              Export Excel
+            </button>
+            <button onClick={exportToCSV} disabled={entries.length === 0} className={styles.primaryButton}>
+              Export CSV
+            </button>
+          </div>
+        </div>
+
+        {loading && hasApiToken ? (
+          <div className={styles.empty}>⏳ Memuat transaksi...</div>
+        ) : entries.length === 0 ? (
+          <div className={styles.empty}>Tidak ada transaksi untuk akun ini pada periode {periodLabel}</div>
+        ) : (
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Tanggal</th>
+                  <th>Nomor</th>
+                  <th>Keterangan</th>
+                  <th className={styles.right}>Jumlah</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry, index) => (
+                  <tr key={`${entry.number}-${index}`}>
+                    <td>{formatDate(entry.date)}</td>
+                    <td>
+                      <code>{entry.number}</code>
+                      {entry.transactionType && <div className={styles.meta}>{entry.transactionType}</div>}
+                    </td>
+                    <td>{entry.description || '-'}</td>
+                    <td className={`${styles.right} ${entry.amount < 0 ? styles.negative : ''}`}>
+                      Rp{formatCurrency(entry.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JournalDrilldown;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useEntity } from '../../contexts/EntityContext';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationRead,
+  markAllNotificationsRead,
+  subscribeNotifications,
+  type AppNotification,
+} from '../../lib/alerts';
+import styles from './NotificationInbox.module.css';
+
+interface NotificationInboxProps {
+  userId: string;
+}
+
+/**
+ * Inbox notifikasi alert budget dengan badge jumlah belum dibaca
+ */
+export const NotificationInbox: React.FC<NotificationInboxProps> = ({ userId }) => {
+  const navigate = useNavigate();
+  const { setActiveEntity } = useEntity();
+
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadUnreadCount = useCallback(async () => {
+    const { data } = await getUnreadNotificationCount();
+    setUnreadCount(data);
+  }, []);
+
+  const loadNotifications = useCallback(async () => {
+    const { data } = await getNotifications();
+    setNotifications(data);
+  }, []);
+
+  // Badge & real-time update
+  useEffect(() => {
+    getUnreadNotificationCount().then(({ data }) => setUnreadCount(data));
+
+    const subscription = subscribeNotifications(userId, () => {
+      loadUnreadCount();
+      loadNotifications();
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [userId, loadUnreadCount, loadNotifications]);
+
+  const handleToggle = () => {
+    if (!open) loadNotifications();
+    setOpen(!open);
+  };
+
+  const handleOpenNotification = async (notification: AppNotification) => {
+    if (!notification.is_read) {
+      await markNotificationRead(notification.id);
+      setNotifications((prev) =>
+        prev.map((item) => (item.id === notification.id ? { ...item, is_read: true } : item))
+      );
+      setUnreadCount((count) => Math.max(count - 1, 0));
+    }
+
+    setOpen(false);
+    setActiveEntity(notification.entity_id);
+
+    const params = new URLSearchParams();
+    if (notification.period) params.set('period', notification.period);
+    if (notification.budget_name) params.set('budget_name', notification.budget_name);
+    if (notification.severity === 'CRITICAL') params.set('filter', 'over_budget');
+    navigate(`/realisasi?${params.toString()}`);
+  };
+
+  const handleMarkAllRead = async () => {
+    const { error } = await markAllNotificationsRead();
+    if (error) return;
+
+    setNotifications((prev) => prev.map((item) => ({ ...item, is_read: true })));
+    setUnreadCount(0);
+  };
+
+  return (
+    <div className={styles.container}>
+      <button onClick={handleToggle} className={styles.bellButton} title="Notifikasi">
+        🔔 Notifikasi
+        {unreadCount > 0 && (
+          <span className={styles.unreadBadge}>{unreadCount > 99 ? '99+' : unreadCount}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className={styles.dropdown}>
+          <div className={styles.dropdownHeader}>
+            <span>Notifikasi</span>
+            <button
+              onClick={handleMarkAllRead}
+              disabled={unreadCount === 0}
+              className={styles.markAllButton}
+            >
+              Tandai semua dibaca
+            </button>
+          </div>
+
+          <div className={styles.list}>
+            {notifications.length === 0 ? (
+              <div className={styles.empty}>Belum ada notifikasi</div>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`${styles.item} ${!notification.is_read ? styles.unread : ''} ${
+                    notification.severity === 'CRITICAL' ? styles.critical : styles.warning
+                  }`}
+                >
+                  <div className={styles.itemTitle}>{notification.title}</div>
+                  <div className={styles.itemMessage}>{notification.message}</div>
+                  <div className={styles.itemTime}>
+                    {notification.created_at
+                      ? new Date(notification.created_at).toLocaleString('id-ID')
+                      : ''}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationInbox;
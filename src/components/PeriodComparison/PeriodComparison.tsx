@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { getAvailableRealizationPeriods } from '../../lib/accurate';
+import { getComparisonReport, type ComparisonReport } from '../../lib/comparison';
+import { addMonths, formatPeriodLabel } from '../../services/budgetPhasing';
+import {
+  formatGrowth,
+  getComparisonMonths,
+  getDefaultComparePeriod,
+  type ComparisonBasis,
+  type ComparisonMode,
+} from '../../services/comparison';
+import { ExportComparisonFile } from '../Export&Import/ExportFile';
+import styles from './PeriodComparison.module.css';
+
+interface PeriodComparisonProps {
+  entityId: string;
+  entityName: string;
+}
+
+// Helper: Format currency
+const formatCurrency = (amount: number): string => {
+  return amount.toLocaleString('id-ID');
+};
+
+const formatYAxis = (value: number) => {
+  if (Math.abs(value) >= 1000000000) return `${(value / 1000000000).toFixed(1)}M`;
+  if (Math.abs(value) >= 1000000) return `${(value / 1000000).toFixed(1)}jt`;
+  if (Math.abs(value) >= 1000) return `${(value / 1000).toFixed(0)}rb`;
+  return value.toString();
+};
+
+// Jumlah akun di grafik (realisasi terbesar)
+const CHART_ACCOUNT_LIMIT = 10;
+
+/**
+ * Perbandingan budget & realisasi dua periode (MoM / YoY) atau dua tahun fiskal
+ */
+export const PeriodComparison: React.FC<PeriodComparisonProps> = ({ entityId, entityName }) => {
+  const [mode, setMode] = useState<ComparisonMode>('MONTH');
+  const [basis, setBasis] = useState<ComparisonBasis>('LAST_YEAR');
+  const [latestPeriod, setLatestPeriod] = useState('');
+  const [currentPeriod, setCurrentPeriod] = useState('');
+  const [previousPeriod, setPreviousPeriod] = useState('');
+  const [result, setResult] = useState<{ key: string; data: ComparisonReport | null; error: string | null }>({
+    key: '',
+    data: null,
+    error: null,
+  });
+
+  // Default: periode terbaru yang punya budget
+  useEffect(() => {
+    getAvailableRealizationPeriods(entityId).then(({ data }) => setLatestPeriod(data?.[0] || ''));
+  }, [entityId]);
+
+  const defaultCurrent = mode === 'FISCAL_YEAR' && latestPeriod ? `${latestPeriod.slice(0, 4)}-01` : latestPeriod;
+  const effectiveCurrent = currentPeriod || defaultCurrent;
+  const effectivePrevious = previousPeriod || (effectiveCurrent ? getDefaultComparePeriod(mode, effectiveCurrent, basis) : '');
+
+  const requestKey = `${entityId}|${mode}|${effectiveCurrent}|${effectivePrevious}`;
+  const loading = result.key !== requestKey;
+
+  useEffect(() => {
+    if (!effectiveCurrent || !effectivePrevious) return;
+    getComparisonReport(
+      entityId,
+      getComparisonMonths(mode, effectiveCurrent),
+      getComparisonMonths(mode, effectivePrevious)
+    ).then(({ data, error }) =>
+      setResult({
+        key: `${entityId}|${mode}|${effectiveCurrent}|${effectivePrevious}`,
+        data,
+        error: error ? 'Gagal memuat perbandingan: ' + (error as Error).message : null,
+      })
+    );
+  }, [entityId, mode, effectiveCurrent, effectivePrevious]);
+
+  const periodLabel = (period: string) =>
+    mode === 'FISCAL_YEAR'
+      ? `TF ${formatPeriodLabel(period)} - ${formatPeriodLabel(addMonths(period, 11))}`
+      : formatPeriodLabel(period);
+  const currentLabel = effectiveCurrent ? periodLabel(effectiveCurrent) : '-';
+  const previousLabel = effectivePrevious ? periodLabel(effectivePrevious) : '-';
+
+  const report = result.data;
+  const lines = report?.lines || [];
+  const chartData = [...lines]
+    .sort((a, b) => Math.max(b.current_actual, b.previous_actual) - Math.max(a.current_actual, a.previous_actual))
+    .slice(0, CHART_ACCOUNT_LIMIT)
+    .map((line) => ({
+      account: line.account_code,
+      previous: line.previous_actual,
+      current: line.current_actual,
+    }));
+
+  const handleModeChange = (nextMode: ComparisonMode) => {
+    setMode(nextMode);
+    setCurrentPeriod('');
+    setPreviousPeriod('');
+  };
+
+  return (
+    <div className={styles.card}>
+      <div className={styles.header}>
+        <div>
+          <h3 className={styles.title}>Perbandingan Periode</h3>
+          <p className={styles.hint}>
+            {currentLabel} vs {previousLabel} • {entityName}
+          </p>
+        </div>
+        {report && (
+          <ExportComparisonFile
+            entityName={entityName}
+            currentLabel={currentLabel}
+            previousLabel={previousLabel}
+            lines={lines}
+            totals={report.totals}
+          />
+        )}
+      </div>
+
+      <div className={styles.filters}>
+        <div>
+          <label className={styles.label}>Mode</label>
+          <select
+            value={mode}
+            onChange={(e) => handleModeChange(e.target.value as ComparisonMode)}
+            className={styles.input}
+          >
+            <option value="MONTH">Per Bulan</option>
+            <option value="FISCAL_YEAR">Per Tahun Fiskal</option>
+          </select>
+        </div>
+
+        <div>
+          <label className={styles.label}>{mode === 'FISCAL_YEAR' ? 'Awal Tahun Fiskal' : 'Periode'}</label>
+          <input
+            type="month"
+            value={effectiveCurrent}
+            onChange={(e) => {
+              setCurrentPeriod(e.target.value);
+              setPreviousPeriod('');
+            }}
+            className={styles.input}
+          />
+        </div>
+
+        {mode === 'MONTH' && (
+          <div>
+            <label className={styles.label}>Bandingkan Dengan</label>
+            <select
+              value={basis}
+              onChange={(e) => {
+                setBasis(e.target.value as ComparisonBasis);
+                setPreviousPeriod('');
+              }}
+              className={styles.input}
+            >
+              <option value="LAST_YEAR">Bulan sama tahun lalu</option>
+              <option value="PREVIOUS">Bulan sebelumnya</option>
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label className={styles.label}>{mode === 'FISCAL_YEAR' ? 'Tahun Fiskal Pembanding' : 'Periode Pembanding'}</label>
+          <input
+            type="month"
+            value={effectivePrevious}
+            onChange={(e) => setPreviousPeriod(e.target.value)}
+            className={styles.input}
+          />
+        </div>
+      </div>
+
+      {result.error && <div className={styles.errorAlert}>{result.error}</div>}
+
+      {!effectiveCurrent ? (
+        <div className={styles.empty}>Belum ada periode budget untuk dibandingkan</div>
+      ) : loading ? (
+        <div className={styles.empty}>Memuat perbandingan...</div>
+      ) : lines.length === 0 ? (
+        <div className={styles.empty}>Tidak ada budget di kedua periode</div>
+      ) : (
+        <>
+          {report && (
+            <div className={styles.summary}>
+              <div>
+                <div className={styles.summaryLabel}>Realisasi {currentLabel}</div>
+                <div className={styles.summaryValue}>Rp{formatCurrency(report.totals.current_actual)}</div>
+              </div>
+              <div>
+                <div className={styles.summaryLabel}>Realisasi {previousLabel}</div>
+                <div className={styles.summaryValue}>Rp{formatCurrency(report.totals.previous_actual)}</div>
+              </div>
+              <div>
+                <div className={styles.summaryLabel}>Growth Realisasi</div>
+                <div className={`${styles.summaryValue} ${report.totals.actual_delta > 0 ? styles.up : styles.down}`}>
+                  {formatGrowth(report.totals.actual_growth)}
+                </div>
+              </div>
+              <div>
+                <div className={styles.summaryLabel}>Growth Budget</div>
+                <div className={styles.summaryValue}>{formatGrowth(report.totals.budget_growth)}</div>
+              </div>
+            </div>
+          )}
+
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e9ecef" />
+              <XAxis dataKey="account" tick={{ fontSize: 11 }} stroke="#495057" />
+              <YAxis tickFormatter={formatYAxis} tick={{ fontSize: 10 }} stroke="#495057" />
+              <Tooltip formatter={(value) => `Rp${formatCurrency(Number(value))}`} />
+              <Legend iconType="square" />
+              <Bar dataKey="previous" fill="#CBD5E1" name={`Realisasi ${previousLabel}`} radius={[4, 4, 0, 0]} />
+              <Bar dataKey="current" fill="#60A5FA" name={`Realisasi ${currentLabel}`} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Akun</th>
+                  <th className={styles.right}>Budget {previousLabel}</th>
+                  <th className={styles.right}>Budget {currentLabel}</th>
+                  <th className={styles.right}>Growth</th>
+                  <th className={styles.right}>Realisasi {previousLabel}</th>
+                  <th className={styles.right}>Realisasi {currentLabel}</th>
+                  <th className={styles.right}>Delta</th>
+                  <th className={styles.right}>Growth</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line) => (
+                  <tr key={line.account_code}>
+                    <td>
+                      <code>{line.account_code}</code> {line.account_name}
+                    </td>
+                    <td className={styles.right}>Rp{formatCurrency(line.previous_budget)}</td>
+                    <td className={styles.right}>Rp{formatCurrency(line.current_budget)}</td>
+                    <td className={styles.right}>{formatGrowth(line.budget_growth)}</td>
+                    <td className={styles.right}>Rp{formatCurrency(line.previous_actual)}</td>
+                    <td className={styles.right}>Rp{formatCurrency(line.current_actual)}</td>
+                    <td className={`${styles.right} ${line.actual_delta > 0 ? styles.up : styles.down}`}>
+                      Rp{formatCurrency(line.actual_delta)}
+                    </td>
+                    <td className={`${styles.right} ${line.actual_delta > 0 ? styles.up : styles.down}`}>
+                      {formatGrowth(line.actual_growth)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PeriodComparison;
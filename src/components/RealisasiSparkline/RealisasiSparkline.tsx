@@ -0,0 +1,75 @@
+import React from 'react';
+import { LineChart, Line, ReferenceLine, Tooltip, YAxis } from 'recharts';
+import type { RealisasiHistoryEntry } from '../../lib/realizationRefresh';
+import styles from './RealisasiSparkline.module.css';
+
+interface RealisasiSparklineProps {
+  history: RealisasiHistoryEntry[];
+}
+
+interface SparklineTooltipProps {
+  active?: boolean;
+  payload?: { payload: RealisasiHistoryEntry }[];
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('id-ID', { dateStyle: 'short', timeStyle: 'short' });
+
+const SparklineTooltip: React.FC<SparklineTooltipProps> = ({ active, payload }) => {
+  if (!active || !payload?.length) return null;
+  const entry = payload[0].payload;
+
+  return (
+    <div className={styles.tooltip}>
+      <div>{formatDateTime(entry.recorded_at)}</div>
+      <strong>Rp{entry.realisasi.toLocaleString('id-ID')}</strong>
+    </div>
+  );
+};
+
+/**
+ * Grafik kecil riwayat realisasi satu akun.
+ * Garis putus-putus merah = alokasi budget; caption menunjukkan
+ * kapan realisasi pertama kali melewati alokasi.
+ */
+export const RealisasiSparkline: React.FC<RealisasiSparklineProps> = ({ history }) => {
+  if (history.length === 0) {
+    return <div className={styles.empty}>Belum ada riwayat</div>;
+  }
+
+  const allocated = history[history.length - 1].allocated_amount;
+  const crossing = history.find(
+    (entry, index) =>
+      entry.realisasi > entry.allocated_amount &&
+      (index === 0 || history[index - 1].realisasi <= history[index - 1].allocated_amount)
+  );
+  const maxValue = Math.max(allocated, ...history.map((entry) => entry.realisasi));
+
+  return (
+    <div className={styles.container}>
+      <LineChart className={styles.chart} width={160} height={44} data={history}>
+        <YAxis hide domain={[0, maxValue]} />
+        <ReferenceLine y={allocated} stroke="#dc3545" strokeDasharray="3 3" />
+        <Tooltip content={<SparklineTooltip />} />
+        <Line
+          type="monotone"
+          dataKey="realisasi"
+          stroke="#0369a1"
+          strokeWidth={2}
+          dot={history.length === 1}
+          isAnimationActive={false}
+        />
+      </LineChart>
+
+      <div className={styles.caption}>
+        {crossing ? (
+          <span className={styles.crossed}>Melewati budget: {formatDateTime(crossing.recorded_at)}</span>
+        ) : (
+          <>{history.length} snapshot</>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RealisasiSparkline;
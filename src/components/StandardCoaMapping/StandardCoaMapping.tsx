@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import type { CoaAccount } from '../../lib/accurate';
+import {
+  getStandardAccounts,
+  saveStandardAccount,
+  deleteStandardAccount,
+  getStandardMappings,
+  saveStandardMappings,
+  deleteStandardMapping,
+  type StandardAccount,
+  type StandardAccountMapping,
+} from '../../lib/standardCoa';
+import { suggestStandardAccount } from '../../services/standardCoa';
+import styles from './StandardCoaMapping.module.css';
+
+interface StandardCoaMappingProps {
+  entityId: string;
+  accounts: CoaAccount[];
+}
+
+/**
+ * COA standar grup + mapping akun entitas aktif ke akun standar
+ */
+export const StandardCoaMapping: React.FC<StandardCoaMappingProps> = ({ entityId, accounts }) => {
+  const [standardAccounts, setStandardAccounts] = useState<StandardAccount[]>([]);
+  const [mappings, setMappings] = useState<StandardAccountMapping[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [unmappedOnly, setUnmappedOnly] = useState(false);
+
+  // Form akun standar baru
+  const [newCode, setNewCode] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState('');
+
+  useEffect(() => {
+    Promise.all([getStandardAccounts(), getStandardMappings([entityId])]).then(([standardResult, mappingResult]) => {
+      setStandardAccounts(standardResult.data);
+      setMappings(mappingResult.data);
+    });
+  }, [entityId]);
+
+  const postingAccounts = accounts.filter((acc) => !acc.is_parent);
+  const accountTypes = Array.from(new Set(accounts.map((acc) => acc.account_type).filter(Boolean))).sort();
+
+  const mappingByCode = new Map(mappings.map((m) => [m.account_code, m]));
+  const suggestions = new Map(
+    postingAccounts
+      .filter((acc) => !mappingByCode.has(acc.account_code))
+      .map((acc) => [acc.account_code, suggestStandardAccount(acc, standardAccounts)])
+  );
+  const mappedCount = postingAccounts.filter((acc) => mappingByCode.has(acc.account_code)).length;
+  const pendingSuggestions = postingAccounts.filter((acc) => suggestions.get(acc.account_code));
+  const visibleAccounts = unmappedOnly
+    ? postingAccounts.filter((acc) => !mappingByCode.has(acc.account_code))
+    : postingAccounts;
+
+  const reloadMappings = async () => {
+    const { data } = await getStandardMappings([entityId]);
+    setMappings(data);
+  };
+
+  // ========================================
+  // STANDARD ACCOUNTS
+  // ========================================
+
+  const handleAddStandard = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    setError(null);
+    const { data, error } = await saveStandardAccount({ code: newCode, name: newName, account_type: newType });
+    setSaving(false);
+
+    if (error || !data) {
+      setError('Gagal menyimpan akun standar: ' + (error as Error).message);
+      return;
+    }
+
+    setStandardAccounts((prev) => [...prev, data].sort((a, b) => a.code.localeCompare(b.code)));
+    setNewCode('');
+    setNewName('');
+  };
+
+  const handleDeleteStandard = async (standard: StandardAccount) => {
+    if (!confirm(`Hapus akun standar ${standard.code} - ${standard.name}? Mapping semua entitas ke akun ini ikut terhapus.`)) {
+      return;
+    }
+
+    const { error } = await deleteStandardAccount(standard.id);
+    if (error) {
+      setError('Gagal menghapus akun standar: ' + (error as Error).message);
+      return;
+    }
+
+    setStandardAccounts((prev) => prev.filter((s) => s.id !== standard.id));
+    setMappings((prev) => prev.filter((m) => m.standard_account_id !== standard.id));
+  };
+
+  // ========================================
+  // MAPPINGS
+  // ========================================
+
+  const handleMap = async (account: CoaAccount, standardAccountId: string) => {
+    setError(null);
+    const { error } = standardAccountId
+      ? await saveStandardMappings([
+          {
+            entity_id: entityId,
+            account_code: account.account_code,
+            accurate_id: account.id ? String(account.id) : null,
+            standard_account_id: standardAccountId,
+          },
+        ])
+      : await deleteStandardMapping(entityId, account.account_code);
+
+    if (error) {
+      setError('Gagal menyimpan mapping: ' + (error as Error).message);
+      return;
+    }
+    await reloadMappings();
+  };
+
+  const handleApplyAllSuggestions = async () => {
+    setSaving(true);
+    setError(null);
+    const { error } = await saveStandardMappings(
+      pendingSuggestions.map((acc) => ({
+        entity_id: entityId,
+        account_code: acc.account_code,
+        accurate_id: acc.id ? String(acc.id) : null,
+        standard_account_id: suggestions.get(acc.account_code)!.account.id,
+      }))
+    );
+    setSaving(false);
+
+    if (error) {
+      setError('Gagal menerapkan saran: ' + (error as Error).message);
+      return;
+    }
+    await reloadMappings();
+  };
+
+  return (
+    <div className={styles.card}>
+      <div className={styles.cardHeader}>
+        <div>
+          <h3 className={styles.cardTitle}>COA Standar Grup</h3>
+          <p className={styles.cardHint}>
+            Petakan akun entitas ini ke akun standar agar laporan lintas entitas bisa digabung per akun standar.
+          </p>
+        </div>
+        <span className={styles.progress}>
+          {mappedCount}/{postingAccounts.length} akun dipetakan
+        </span>
+      </div>
+
+      {error && <div className={styles.errorAlert}>{error}</div>}
+
+      <div className={styles.layout}>
+        {/* Daftar akun standar */}
+        <div className={styles.standardPanel}>
+          <h4 className={styles.sectionTitle}>Akun Standar ({standardAccounts.length})</h4>
+          <form onSubmit={handleAddStandard} className={styles.standardForm}>
+            <input
+              type="text"
+              value={newCode}
+              onChange={(e) => setNewCode(e.target.value)}
+              placeholder="Kode"
+              className={styles.input}
+            />
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Nama, contoh: Biaya Gaji"
+              className={styles.input}
+            />
+            <select value={newType} onChange={(e) => setNewType(e.target.value)} className={styles.select}>
+              <option value="">Semua tipe</option>
+              {accountTypes.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+            <button type="submit" disabled={saving} className={styles.primaryButton}>
+              + Tambah
+            </button>
+          </form>
+
+          <ul className={styles.standardList}>
+            {standardAccounts.map((standard) => (
+              <li key={standard.id} className={styles.standardItem}>
+                <span>
+                  <code>{standard.code}</code> {standard.name}
+                  {standard.account_type && <span className={styles.typeBadge}>{standard.account_type}</span>}
+                </span>
+                <button onClick={() => handleDeleteStandard(standard)} className={styles.linkButton}>
+                  Hapus
+                </button>
+              </li>
+            ))}
+            {standardAccounts.length === 0 && (
+              <li className={styles.empty}>Belum ada akun standar</li>
+            )}
+          </ul>
+        </div>
+
+        {/* Mapping akun entitas */}
+        <div className={styles.mappingPanel}>
+          <div className={styles.mappingToolbar}>
+            <label className={styles.checkboxLabel}>
+              <input type="checkbox" checked={unmappedOnly} onChange={(e) => setUnmappedOnly(e.target.checked)} />
+              Belum dipetakan saja
+            </label>
+            <button
+              onClick={handleApplyAllSuggestions}
+              disabled={saving || pendingSuggestions.length === 0}
+              className={styles.secondaryButton}
+            >
+              Terapkan Semua Saran ({pendingSuggestions.length})
+            </button>
+          </div>
+
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Akun Entitas</th>
+                  <th>Akun Standar</th>
+                  <th>Saran</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleAccounts.map((account) => {
+                  const mapping = mappingByCode.get(account.account_code);
+                  const suggestion = suggestions.get(account.account_code);
+
+                  return (
+                    <tr key={account.account_code}>
+                      <td>
+                        <code>{account.account_code}</code> {account.account_name}
+                      </td>
+                      <td>
+                        <select
+                          value={mapping?.standard_account_id || ''}
+                          onChange={(e) => handleMap(account, e.target.value)}
+                          className={styles.select}
+                        >
+                          <option value="">— Belum dipetakan —</option>
+                          {standardAccounts.map((standard) => (
+                            <option key={standard.id} value={standard.id}>
+                              {standard.code} - {standard.name}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        {suggestion && (
+                          <button
+                            onClick={() => handleMap(account, suggestion.account.id)}
+                            className={styles.suggestionButton}
+                            title="Pakai saran"
+                          >
+                            {suggestion.account.code} - {suggestion.account.name} ({Math.round(suggestion.score * 100)}%)
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {visibleAccounts.length === 0 && (
+                  <tr>
+                    <td colSpan={3} className={styles.empty}>
+                      Semua akun sudah dipetakan
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StandardCoaMapping;
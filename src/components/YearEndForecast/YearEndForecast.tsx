@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { getAccountForecasts, type AccountForecast } from '../../lib/forecast';
+import { formatPeriodLabel } from '../../services/budgetPhasing';
+import { FORECAST_METHOD_LABELS, type ForecastMethod } from '../../services/forecast';
+import styles from './YearEndForecast.module.css';
+
+interface YearEndForecastProps {
+  entityIds: string[];
+  asOfPeriod: string;
+  entityNames?: Record<string, string>; // Ditampilkan jika lebih dari satu entitas
+  compact?: boolean; // Ringkasan + 5 akun teratas (dashboard)
+}
+
+// Helper: Format currency
+const formatCurrency = (amount: number): string => {
+  return Math.round(amount).toLocaleString('id-ID');
+};
+
+const STATUS_LABELS: Record<AccountForecast['status'], string> = {
+  ON_TRACK: 'On Track',
+  PROJECTED_OVER: 'Diproyeksikan Over',
+  OVER_BUDGET: 'Sudah Over',
+};
+
+const COMPACT_LIMIT = 5;
+
+/**
+ * Proyeksi realisasi akhir tahun per akun (rolling forecast)
+ */
+export const YearEndForecast: React.FC<YearEndForecastProps> = ({
+  entityIds,
+  asOfPeriod,
+  entityNames,
+  compact = false,
+}) => {
+  const [method, setMethod] = useState<ForecastMethod>('RUN_RATE');
+  const [onlyAtRisk, setOnlyAtRisk] = useState(compact);
+  const [result, setResult] = useState<{ key: string; data: AccountForecast[]; error: string | null }>({
+    key: '',
+    data: [],
+    error: null,
+  });
+
+  const entityKey = entityIds.join(',');
+  const requestKey = `${entityKey}|${asOfPeriod}|${method}`;
+  const loading = result.key !== requestKey;
+
+  useEffect(() => {
+    if (!entityKey || !asOfPeriod) return;
+    getAccountForecasts(entityKey.split(','), asOfPeriod, method).then(({ data, error }) =>
+      setResult({
+        key: `${entityKey}|${asOfPeriod}|${method}`,
+        data,
+        error: error ? 'Gagal menghitung proyeksi: ' + (error as Error).message : null,
+      })
+    );
+  }, [entityKey, asOfPeriod, method]);
+
+  const forecasts = result.data;
+  const atRisk = forecasts.filter((f) => f.status !== 'ON_TRACK');
+  const visible = (onlyAtRisk ? atRisk : forecasts).slice(0, compact ? COMPACT_LIMIT : undefined);
+  const totalBudget = forecasts.reduce((sum, f) => sum + f.annual_budget, 0);
+  const totalProjected = forecasts.reduce((sum, f) => sum + f.projected_year_end, 0);
+  const showEntity = !!entityNames && entityIds.length > 1;
+
+  return (
+    <div className={styles.card}>
+      <div className={styles.header}>
+        <div>
+          <h3 className={styles.title}>Proyeksi Akhir Tahun</h3>
+          <p className={styles.hint}>Berdasarkan realisasi s/d {formatPeriodLabel(asOfPeriod)}</p>
+        </div>
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as ForecastMethod)}
+          className={styles.select}
+        >
+          {(Object.keys(FORECAST_METHOD_LABELS) as ForecastMethod[]).map((m) => (
+            <option key={m} value={m}>
+              {FORECAST_METHOD_LABELS[m]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {result.error && <div className={styles.errorAlert}>{result.error}</div>}
+
+      {loading ? (
+        <div className={styles.empty}>Menghitung proyeksi...</div>
+      ) : forecasts.length === 0 ? (
+        <div className={styles.empty}>Belum ada budget tahunan / bulanan untuk diproyeksikan</div>
+      ) : (
+        <>
+          <div className={styles.summary}>
+            <div>
+              <div className={styles.summaryLabel}>Budget Setahun</div>
+              <div className={styles.summaryValue}>Rp{formatCurrency(totalBudget)}</div>
+            </div>
+            <div>
+              <div className={styles.summaryLabel}>Proyeksi Realisasi</div>
+              <div className={`${styles.summaryValue} ${totalProjected > totalBudget ? styles.over : ''}`}>
+                Rp{formatCurrency(totalProjected)}
+              </div>
+            </div>
+            <div>
+              <div className={styles.summaryLabel}>Akun Berisiko</div>
+              <div className={`${styles.summaryValue} ${atRisk.length > 0 ? styles.over : ''}`}>
+                {atRisk.length} / {forecasts.length}
+              </div>
+            </div>
+          </div>
+
+          {!compact && (
+            <label className={styles.checkboxLabel}>
+              <input type="checkbox" checked={onlyAtRisk} onChange={(e) => setOnlyAtRisk(e.target.checked)} />
+              Hanya akun yang diproyeksikan over budget
+            </label>
+          )}
+
+          {visible.length === 0 ? (
+            <div className={styles.empty}>✓ Tidak ada akun yang diproyeksikan over budget</div>
+          ) : (
+            <div className={styles.tableWrapper}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>Akun</th>
+                    {!compact && <th>Budget</th>}
+                    {!compact && <th className={styles.right}>Budget Setahun</th>}
+                    {!compact && <th className={styles.right}>Realisasi YTD</th>}
+                    <th className={styles.right}>Proyeksi</th>
+                    <th className={styles.right}>Selisih</th>
+                    <th>Over Mulai</th>
+                    {!compact && <th>Status</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((forecast) => (
+                    <tr key={forecast.key}>
+                      <td>
+                        <code>{forecast.account_code}</code> {forecast.account_name}
+                        {showEntity && <div className={styles.meta}>{entityNames?.[forecast.entity_id]}</div>}
+                        {forecast.cost_center_name && <div className={styles.meta}>{forecast.cost_center_name}</div>}
+                        {forecast.applied_method !== forecast.method && (
+                          <div className={styles.meta}>
+                            Data historis kurang, memakai {FORECAST_METHOD_LABELS[forecast.applied_method]}
+                          </div>
+                        )}
+                      </td>
+                      {!compact && <td>{forecast.budget_name}</td>}
+                      {!compact && <td className={styles.right}>Rp{formatCurrency(forecast.annual_budget)}</td>}
+                      {!compact && <td className={styles.right}>Rp{formatCurrency(forecast.actual_ytd)}</td>}
+                      <td className={styles.right}>Rp{formatCurrency(forecast.projected_year_end)}</td>
+                      <td className={`${styles.right} ${forecast.projected_variance < 0 ? styles.over : styles.under}`}>
+                        {forecast.projected_variance < 0 ? '-' : ''}Rp{formatCurrency(Math.abs(forecast.projected_variance))}
+                      </td>
+                      <td>{forecast.overrun_period ? formatPeriodLabel(forecast.overrun_period) : '-'}</td>
+                      {!compact && (
+                        <td>
+                          <span className={`${styles.statusBadge} ${styles[`status${forecast.status}`]}`}>
+                            {STATUS_LABELS[forecast.status]}
+                          </span>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default YearEndForecast;
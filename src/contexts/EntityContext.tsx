@@ -1,12 +1,20 @@
 import React, { createContext, useContext, useState, useEffect } from "react";
+import { useAuth } from "./AuthContext";
+import { getEntities } from "../lib/supabase";
+import { hasPermission } from "../services/workspaceRoles";
+import type { WorkspacePermission, WorkspaceRole } from "../lib/workspaces";
+import type { EntityCredentialStatus } from "../lib/credentialVault";
 
-interface Entity {
+// Token Accurate tidak pernah dimuat ke client, hanya statusnya (credential vault)
+interface Entity extends EntityCredentialStatus {
   id: string;
   entity_name?: string;
   name?: string;
   nama?: string;
-  api_token?: string;
   accurate_database_id?: number | null; // ✅ ADDED: For webhook support
+  user_id?: string;
+  workspace_id?: string | null;
+  role?: WorkspaceRole | null; // Peran user atas entitas (dari getEntities)
 }
 
 interface EntityContextType {
@@ -16,6 +24,8 @@ interface EntityContextType {
   activeEntity: Entity | null;
   setActiveEntity: (id: string | null) => void;
   isEntityActive: (id: string) => boolean;
+  activeRole: WorkspaceRole | null;
+  can: (permission: WorkspacePermission, entityId?: string | null) => boolean;
 }
 
 const EntityContext = createContext<EntityContextType | undefined>(undefined);
@@ -23,6 +33,8 @@ const EntityContext = createContext<EntityContextType | undefined>(undefined);
 export const EntityProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [entities, setEntities] = useState<Entity[]>([]);
   const [activeEntityId, setActiveEntityId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const userId = user?.id;
 
   // Load active entity dari localStorage saat mount
   useEffect(() => {
@@ -41,8 +53,25 @@ export const EntityProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     }
   }, [activeEntityId]);
 
+  // Muat entitas (milik sendiri + workspace) beserta peran setiap kali user berganti
+  useEffect(() => {
+    if (!userId) return;
+    getEntities().then(({ data }) => {
+      setEntities((data || []) as Entity[]);
+    });
+  }, [userId]);
+
   // Get active entity object
   const activeEntity = entities.find((e) => e.id === activeEntityId) || null;
+  const activeRole = activeEntity?.role || null;
+
+  /**
+   * Cek hak akses atas entitas (default: entitas aktif)
+   */
+  const can = (permission: WorkspacePermission, entityId?: string | null) => {
+    const entity = entityId ? entities.find((e) => e.id === entityId) : activeEntity;
+    return hasPermission(entity?.role, permission);
+  };
 
   const setActiveEntity = (id: string | null) => {
     setActiveEntityId(id);
@@ -60,7 +89,9 @@ export const EntityProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         activeEntityId,
         activeEntity,
         setActiveEntity, 
-        isEntityActive 
+        isEntityActive,
+        activeRole,
+        can
       }}
     >
       {children}
@@ -1,15 +1,43 @@
 import {
-  saveTokens,
   validateAccurateApiToken,
   getAccurateDatabaseList,
   type AccurateValidationResult,
   type AccurateDatabase,
+  type AccurateCredential,
 } from './accurateMiddleware';
 import { supabase } from './supabase';
+import { assertEntityPermission, getEntityRole } from './workspaces';
+import { runBudgetAlertEvaluation } from './alerts';
+import type { AccurateOAuthSession } from './accurateOAuth';
+import {
+  budgetCoversPeriod,
+  getFiscalMonths,
+  type BudgetPeriodType,
+  type PhasingMethod,
+} from '../services/budgetPhasing';
+import { prepareCopiedItems, type CopyAmountOptions } from '../services/budgetCopy';
+import type { BudgetImportGroup } from '../services/budgetImport';
+import { rescheduleItem, type BudgetItemDiff } from '../services/budgetWorkbook';
+import {
+  summarizeRealizations,
+  toBudgetRealization,
+  type BudgetRealization,
+} from '../../supabase/functions/_shared/budgetRealization.ts';
+import { getWorkflowActionPermission } from '../services/workspaceRoles';
+import {
+  canAssignBudgetOwner,
+  canEditBudgetContent,
+  canManageBudgetEditors,
+} from '../services/budgetOwnership';
+import {
+  BUDGET_STATUS_LABELS,
+  getBudgetStatus,
+  getNextStatus,
+  isBudgetEditable,
+} from '../services/budgetWorkflow';
 
 const CLIENT_ID = import.meta.env.VITE_ACCURATE_CLIENT_ID!;
 const REDIRECT_URI = import.meta.env.VITE_ACCURATE_REDIRECT_URI!;
-const HMAC_SECRET_KEY = import.meta.env.VITE_ACCURATE_HMAC_SECRET || '';
 
 // ============================================
 // TYPES
@@ -65,6 +93,43 @@ export interface BSAccount {
   lvl: number;
   parentNo?: string;
   isParent: boolean;
+  // Diisi fetchAllAccountsByPeriod: BS = saldo per akhir periode, PL = mutasi periode
+  statement?: 'BS' | 'PL';
+}
+
+// Dimensi Accurate untuk memfilter saldo per departemen / proyek
+export type AccurateDimensionType = 'DEPARTMENT' | 'PROJECT';
+
+export interface AccurateDimensionFilter {
+  type: AccurateDimensionType;
+  id: string;
+}
+
+export interface AccurateDimensionOption {
+  id: string;
+  name: string;
+}
+
+export interface FetchDimensionsResult {
+  success: boolean;
+  items?: AccurateDimensionOption[];
+  error?: string;
+}
+
+// Satu baris jurnal / buku besar untuk drill-down realisasi
+export interface AccurateJournalEntry {
+  date: string;
+  number: string;
+  description: string;
+  amount: number;
+  transactionType?: string;
+}
+
+export interface FetchJournalEntriesResult {
+  success: boolean;
+  entries?: AccurateJournalEntry[];
+  total?: number;
+  error?: string;
 }
 
 export interface FetchBSAccountsResult {
@@ -102,26 +167,30 @@ export type { AccurateValidationResult, AccurateDatabase };
 // OAUTH FLOW
 // ============================================
 
-export const getAuthorizationUrl = () => {
+export const getAuthorizationUrl = (state?: string) => {
   const params = new URLSearchParams({
     client_id: CLIENT_ID,
     response_type: 'code',
     redirect_uri: REDIRECT_URI,
     scope: 'read write',
   });
+  if (state) params.set('state', state);
   return `https://account.accurate.id/oauth/authorize?${params.toString()}`;
 };
 
-export const exchangeCodeForToken = async (code: string) => {
+/**
+ * Tukar authorization code menjadi token untuk entitas. Access token,
+ * refresh token dan masa berlakunya disimpan edge function di server;
+ * client hanya menerima status sesi (lihat lib/accurateOAuth).
+ */
+export const exchangeCodeForToken = async (code: string, entityId: string) => {
   try {
     const { data, error } = await supabase.functions.invoke('accurate-oauth', {
-      body: { action: 'exchangeCode', code },
+      body: { action: 'exchangeCode', code, entityId },
     });
     if (error) throw error;
-    if (data?.access_token && data?.refresh_token && data?.expires_in) {
-      saveTokens(data.access_token, data.refresh_token);
-    }
-    return { data, error: null };
+    if (!data?.success) throw new Error(data?.error || 'Gagal menukar authorization code');
+    return { data: data.session as AccurateOAuthSession, error: null };
   } catch (error) {
     console.error('Error exchanging code for token:', error);
     return { data: null, error };
@@ -132,23 +201,20 @@ export const exchangeCodeForToken = async (code: string) => {
 // FETCH COA - Manual Sync
 // ============================================
 
-export async function fetchCoaFromAccurate(entityId: string, apiToken: string): Promise<FetchCoaResult> {
+export async function fetchCoaFromAccurate(entityId: string): Promise<FetchCoaResult> {
   try {
     console.log('[fetchCoaFromAccurate] Starting...');
 
-    if (!apiToken) {
-      return { success: false, error: 'API Token tidak ditemukan' };
+    if (!entityId) {
+      return { success: false, error: 'Entitas belum dipilih' };
     }
 
-    const secretKey = HMAC_SECRET_KEY;
-    if (!secretKey) {
-      return { success: false, error: 'Secret key tidak dikonfigurasi' };
-    }
+    await assertEntityPermission(entityId, 'EDIT_COA');
 
     console.log('[fetchCoaFromAccurate] Calling Edge Function...');
 
     const { data, error } = await supabase.functions.invoke('accurate-fetch-coa', {
-      body: { apiToken, secretKey, entityId },
+      body: { entityId },
     });
 
     if (error) {
@@ -292,6 +358,8 @@ export async function editAccount(
   updates: EditAccountData
 ) {
   try {
+    await assertEntityPermission(entityId, 'EDIT_COA');
+
     console.log('[editAccount] Calling edge function...');
     console.log('[editAccount] Entity ID:', entityId);
     console.log('[editAccount] Account ID:', accountId);
@@ -334,6 +402,8 @@ export async function editAccount(
 
 export async function deleteAccount(entityId: string, accountId: number) {
   try {
+    await assertEntityPermission(entityId, 'EDIT_COA');
+
     console.log('[deleteAccount] Calling edge function...');
     
     const { data, error } = await supabase.functions.invoke('accurate-delete-account', {
@@ -376,18 +446,20 @@ export async function deleteAccount(entityId: string, accountId: number) {
 // ENTITY OPERATIONS
 // ============================================
 
+/**
+ * Validasi token baru (`{ apiToken }`) atau token tersimpan milik entitas (`{ entityId }`).
+ * HMAC secret & token tersimpan di-resolve oleh edge function.
+ */
 export const validateEntitasToken = async (
-  apiToken: string,
-  secretKey: string = HMAC_SECRET_KEY
+  credential: AccurateCredential
 ): Promise<AccurateValidationResult> => {
-  return validateAccurateApiToken(apiToken, secretKey);
+  return validateAccurateApiToken(credential);
 };
 
 export const getEntitasList = async (
-  apiToken: string,
-  secretKey: string = HMAC_SECRET_KEY
+  credential: AccurateCredential
 ) => {
-  const result = await getAccurateDatabaseList(apiToken, secretKey);
+  const result = await getAccurateDatabaseList(credential);
   return {
     data: result.data,
     error: result.error,
@@ -399,17 +471,45 @@ export const getEntitasList = async (
 // BUDGET TYPES
 // ============================================
 
+export type { BudgetPeriodType, PhasingMethod } from '../services/budgetPhasing';
+
+export type BudgetStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'LOCKED';
+
+export type BudgetWorkflowAction = 'SUBMIT' | 'APPROVE' | 'REJECT' | 'LOCK' | 'REOPEN';
+
 export interface Budget {
   id: string;
   name: string;
   entity_id: string;
-  period: string; // Format: "YYYY-MM"
+  period: string; // Format: "YYYY-MM" (bulan awal untuk FISCAL_YEAR)
+  period_type?: BudgetPeriodType; // Default: MONTHLY
   total_budget: number;
   description?: string;
+  cost_center_id?: string | null; // Default cost center untuk semua item
+  approval_status?: BudgetStatus; // Default: DRAFT
+  status_comment?: string | null; // Komentar penolakan terakhir
+  submitted_at?: string | null;
+  submitted_by?: string | null; // Pengaju terakhir (four-eyes)
+  approved_at?: string | null;
+  approved_by?: string | null;
+  owner_id?: string | null; // User penanggung jawab budget
+  editor_ids?: string[] | null; // User yang didelegasikan untuk edit
   created_at?: string;
   updated_at?: string;
 }
 
+// Riwayat aksi workflow approval
+export interface BudgetApproval {
+  id: string;
+  budget_id: string;
+  action: BudgetWorkflowAction;
+  from_status: BudgetStatus;
+  to_status: BudgetStatus;
+  comment?: string | null;
+  user_id?: string | null;
+  created_at?: string;
+}
+
 export interface BudgetItem {
   id: string;
   budget_id: string;
@@ -420,6 +520,12 @@ export interface BudgetItem {
   account_type?: string | null;
   allocated_amount: number;
   realisasi_snapshot?: number;
+  realisasi_synced_at?: string | null; // Kapan realisasi_snapshot terakhir diambil dari Accurate
+  phasing_method?: PhasingMethod | null;
+  monthly_allocations?: number[] | null; // 12 bulan, hanya untuk FISCAL_YEAR
+  seasonal_weights?: number[] | null;
+  monthly_realisasi?: number[] | null;
+  cost_center_id?: string | null; // Kosong = ikut cost center budget
   description?: string | null;
   created_at?: string;
   updated_at?: string;
@@ -438,8 +544,17 @@ export interface CreateBudgetData {
   entity_id: string;
   name: string;
   period: string;
+  period_type?: BudgetPeriodType;
   total_budget: number;
   description?: string;
+  cost_center_id?: string | null;
+  owner_id?: string | null; // Default: user pembuat
+  editor_ids?: string[];
+}
+
+export interface BudgetOwnershipData {
+  owner_id: string | null;
+  editor_ids: string[];
 }
 
 export interface CreateBudgetItemData {
@@ -451,9 +566,67 @@ export interface CreateBudgetItemData {
   account_type?: string | null;
   allocated_amount: number;
   realisasi_snapshot?: number;
+  realisasi_synced_at?: string | null;
+  phasing_method?: PhasingMethod | null;
+  monthly_allocations?: number[] | null;
+  seasonal_weights?: number[] | null;
+  cost_center_id?: string | null;
   description?: string | null;
 }
 
+export type BudgetVersionType = 'ORIGINAL' | 'REVISION' | 'FORECAST';
+
+// Pilihan versi pembanding di laporan realisasi
+export type BudgetVersionSelector = 'CURRENT' | 'ORIGINAL' | 'LATEST_REVISION' | 'FORECAST';
+
+// Salinan item budget di dalam snapshot versi (tidak pernah diubah)
+export interface BudgetVersionItem {
+  account_code: string;
+  account_name: string;
+  account_type?: string | null;
+  allocated_amount: number;
+  phasing_method?: PhasingMethod | null;
+  monthly_allocations?: number[] | null;
+  seasonal_weights?: number[] | null;
+  cost_center_id?: string | null;
+  description?: string | null;
+}
+
+export interface BudgetVersion {
+  id: string;
+  budget_id: string;
+  version_type: BudgetVersionType;
+  version_number: number; // 0 untuk Original, 1..n untuk Revision/Forecast
+  name: string; // "Original", "Revision 1", "Forecast"
+  total_budget: number;
+  items: BudgetVersionItem[];
+  note?: string | null;
+  created_at?: string;
+}
+
+// Template budget: struktur akun & alokasi tanpa periode
+export interface BudgetTemplate {
+  id: string;
+  entity_id: string;
+  name: string;
+  description?: string | null;
+  period_type: BudgetPeriodType;
+  total_budget: number;
+  items: BudgetVersionItem[];
+  created_at?: string;
+}
+
+export interface CopyBudgetOptions extends CopyAmountOptions {
+  name: string;
+  period: string; // Periode tujuan "YYYY-MM"
+}
+
+export interface CopyBudgetResult {
+  budget: Budget;
+  copied_count: number;
+  skipped_accounts: BudgetVersionItem[]; // Akun suspended yang dilewati
+}
+
 // ============================================
 // BUDGET CRUD OPERATIONS
 // ============================================
@@ -555,14 +728,28 @@ export async function getBudgetById(budgetId: string): Promise<{ data: BudgetWit
  */
 export async function createBudget(budgetData: CreateBudgetData) {
   try {
+    const role = await assertEntityPermission(budgetData.entity_id, 'EDIT_BUDGET');
+    const { data: { user } } = await supabase.auth.getUser();
+
+    // Hanya admin entitas yang boleh menunjuk owner selain dirinya
+    const ownerId = budgetData.owner_id === undefined ? user?.id || null : budgetData.owner_id;
+    if (ownerId !== user?.id && !canAssignBudgetOwner(role)) {
+      throw new Error('Akses ditolak: hanya Owner atau Finance Admin yang dapat menunjuk owner budget');
+    }
+
     const { data, error } = await supabase
       .from('budgets')
       .insert({
         entity_id: budgetData.entity_id,
         name: budgetData.name,
         period: budgetData.period,
+        period_type: budgetData.period_type || 'MONTHLY',
         total_budget: budgetData.total_budget,
         description: budgetData.description,
+        cost_center_id: budgetData.cost_center_id || null,
+        approval_status: 'DRAFT',
+        owner_id: ownerId,
+        editor_ids: budgetData.editor_ids || [],
       })
       .select()
       .single();
@@ -582,6 +769,12 @@ export async function createBudget(budgetData: CreateBudgetData) {
  */
 export async function updateBudget(budgetId: string, updates: Partial<Budget>) {
   try {
+    await assertBudgetEditable(budgetId);
+
+    // Simpan angka awal sebagai versi Original sebelum ditimpa
+    const { error: versionError } = await ensureOriginalVersion(budgetId);
+    if (versionError) throw versionError;
+
     const { data, error } = await supabase
       .from('budgets')
       .update({
@@ -607,6 +800,8 @@ export async function updateBudget(budgetId: string, updates: Partial<Budget>) {
  */
 export async function deleteBudget(budgetId: string) {
   try {
+    await assertBudgetEditable(budgetId);
+
     const { error } = await supabase
       .from('budgets')
       .delete()
@@ -622,6 +817,53 @@ export async function deleteBudget(budgetId: string) {
   }
 }
 
+/**
+ * Ubah owner & editor budget. Owner hanya bisa diganti admin entitas;
+ * owner budget boleh mengatur editornya sendiri. Tidak terikat status approval.
+ */
+export async function updateBudgetOwnership(budgetId: string, ownership: BudgetOwnershipData) {
+  try {
+    const { data: budget, error: budgetError } = await supabase
+      .from('budgets')
+      .select('id, entity_id, owner_id, editor_ids')
+      .eq('id', budgetId)
+      .single();
+
+    if (budgetError) throw budgetError;
+
+    const role = await getEntityRole(budget.entity_id);
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (ownership.owner_id !== budget.owner_id && !canAssignBudgetOwner(role)) {
+      throw new Error('Akses ditolak: hanya Owner atau Finance Admin yang dapat mengganti owner budget');
+    }
+    if (!canManageBudgetEditors(budget, user?.id, role)) {
+      throw new Error('Akses ditolak: hanya owner budget atau admin entitas yang dapat mengatur editor');
+    }
+
+    const editorIds = [...new Set(ownership.editor_ids)].filter((id) => id !== ownership.owner_id);
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .update({
+        owner_id: ownership.owner_id,
+        editor_ids: editorIds,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', budgetId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    console.log('[updateBudgetOwnership] Updated:', budgetId, ownership.owner_id, editorIds.length, 'editor');
+    return { data: data as Budget, error: null };
+  } catch (error) {
+    console.error('[updateBudgetOwnership] Error:', error);
+    return { data: null, error };
+  }
+}
+
 // ============================================
 // BUDGET ITEMS OPERATIONS
 // ============================================
@@ -650,6 +892,9 @@ export async function getBudgetItems(budgetId: string) {
  */
 export async function addBudgetItem(itemData: CreateBudgetItemData) {
   try {
+    const budget = await assertBudgetEditable(itemData.budget_id);
+    const entityId = budget.entity_id;
+
     // ✅ Check duplicate dengan maybeSingle()
     const { data: existing, error: checkError } = await supabase
       .from('budget_items')
@@ -677,6 +922,11 @@ export async function addBudgetItem(itemData: CreateBudgetItemData) {
       account_type: itemData.account_type || null,
       allocated_amount: itemData.allocated_amount,
       realisasi_snapshot: itemData.realisasi_snapshot || 0,
+      realisasi_synced_at: itemData.realisasi_synced_at || null,
+      phasing_method: itemData.phasing_method || null,
+      monthly_allocations: itemData.monthly_allocations || null,
+      seasonal_weights: itemData.seasonal_weights || null,
+      cost_center_id: itemData.cost_center_id || null,
       description: itemData.description || null,
     };
 
@@ -691,6 +941,7 @@ export async function addBudgetItem(itemData: CreateBudgetItemData) {
     if (error) throw error;
 
     console.log('[addBudgetItem] ✅ Added:', data);
+    await runBudgetAlertEvaluation(entityId, [budget]);
     return { data, error: null };
   } catch (error) {
     console.error('[addBudgetItem] ❌ Error:', error);
@@ -703,6 +954,13 @@ export async function addBudgetItem(itemData: CreateBudgetItemData) {
  */
 export async function updateBudgetItem(itemId: string, updates: Partial<BudgetItem>) {
   try {
+    const budgetId = await getBudgetIdForItem(itemId);
+    const budget = await assertBudgetEditable(budgetId);
+    const entityId = budget.entity_id;
+
+    const { error: versionError } = await ensureOriginalVersion(budgetId);
+    if (versionError) throw versionError;
+
     const { data, error } = await supabase
       .from('budget_items')
       .update({
@@ -716,6 +974,7 @@ export async function updateBudgetItem(itemId: string, updates: Partial<BudgetIt
     if (error) throw error;
 
     console.log('[updateBudgetItem] Updated:', data);
+    await runBudgetAlertEvaluation(entityId, [budget]);
     return { data, error: null };
   } catch (error) {
     console.error('[updateBudgetItem] Error:', error);
@@ -728,6 +987,12 @@ export async function updateBudgetItem(itemId: string, updates: Partial<BudgetIt
  */
 export async function deleteBudgetItem(itemId: string) {
   try {
+    const budgetId = await getBudgetIdForItem(itemId);
+    await assertBudgetEditable(budgetId);
+
+    const { error: versionError } = await ensureOriginalVersion(budgetId);
+    if (versionError) throw versionError;
+
     const { error } = await supabase
       .from('budget_items')
       .delete()
@@ -743,6 +1008,687 @@ export async function deleteBudgetItem(itemId: string) {
   }
 }
 
+// ============================================
+// BUDGET APPROVAL WORKFLOW
+// ============================================
+
+const assertBudgetContentAccess = async (budget: Pick<Budget, 'entity_id' | 'owner_id' | 'editor_ids'>) => {
+  const role = await assertEntityPermission(budget.entity_id, 'EDIT_BUDGET');
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!canEditBudgetContent(budget, user?.id, role)) {
+    throw new Error('Akses ditolak: hanya owner dan editor budget yang dapat mengubah budget ini');
+  }
+};
+
+async function getBudgetIdForItem(itemId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('budget_items')
+    .select('budget_id')
+    .eq('id', itemId)
+    .single();
+
+  if (error) throw error;
+  return data.budget_id;
+}
+
+/**
+ * Tolak perubahan jika user tidak boleh mengubah budget (peran entitas
+ * atau bukan owner/editor budget), atau budget sudah diajukan/disetujui/dikunci.
+ * Mengembalikan data budget yang sudah dicek.
+ */
+async function assertBudgetEditable(budgetId: string) {
+  const { data, error } = await supabase
+    .from('budgets')
+    .select('entity_id, period, period_type, approval_status, owner_id, editor_ids')
+    .eq('id', budgetId)
+    .single();
+
+  if (error) throw error;
+
+  await assertBudgetContentAccess(data);
+
+  if (!isBudgetEditable(data)) {
+    const label = BUDGET_STATUS_LABELS[getBudgetStatus(data)];
+    throw new Error(`Budget berstatus ${label} dan tidak dapat diubah`);
+  }
+
+  return data;
+}
+
+/**
+ * Jalankan aksi workflow (submit/approve/reject/lock/reopen) dan catat riwayatnya.
+ * Status & riwayat ditulis fungsi database `transition_budget_status` dalam satu
+ * transaksi; aturan four-eyes juga ditegakkan di sana.
+ */
+export async function transitionBudgetStatus(
+  budgetId: string,
+  action: BudgetWorkflowAction,
+  comment?: string
+) {
+  try {
+    if (action === 'REJECT' && !comment?.trim()) {
+      throw new Error('Komentar penolakan harus diisi');
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { data: budget, error: budgetError } = await supabase
+      .from('budgets')
+      .select('id, entity_id, approval_status, submitted_by, owner_id, editor_ids')
+      .eq('id', budgetId)
+      .single();
+
+    if (budgetError) throw budgetError;
+
+    if (action === 'SUBMIT') {
+      await assertBudgetContentAccess(budget);
+    } else {
+      await assertEntityPermission(budget.entity_id, getWorkflowActionPermission(action));
+    }
+
+    const fromStatus = getBudgetStatus(budget);
+    const toStatus = getNextStatus(fromStatus, action);
+
+    if (!toStatus) {
+      throw new Error(`Aksi tidak valid untuk budget berstatus ${BUDGET_STATUS_LABELS[fromStatus]}`);
+    }
+
+    // Pengaju tidak boleh menyetujui pengajuannya sendiri (four-eyes)
+    if (action === 'APPROVE' && budget.submitted_by && budget.submitted_by === user?.id) {
+      throw new Error('Budget tidak bisa disetujui oleh user yang mengajukannya');
+    }
+
+    const { data, error } = await supabase.rpc('transition_budget_status', {
+      p_budget_id: budgetId,
+      p_action: action,
+      p_from_status: fromStatus,
+      p_comment: comment?.trim() || null,
+    });
+
+    if (error) throw error;
+
+    console.log(`[transitionBudgetStatus] ${fromStatus} → ${toStatus}:`, budgetId);
+    return { data: data as Budget, error: null };
+  } catch (error) {
+    console.error('[transitionBudgetStatus] Error:', error);
+    return { data: null, error };
+  }
+}
+
+export const submitBudget = (budgetId: string) => transitionBudgetStatus(budgetId, 'SUBMIT');
+
+export const approveBudget = (budgetId: string, comment?: string) =>
+  transitionBudgetStatus(budgetId, 'APPROVE', comment);
+
+export const rejectBudget = (budgetId: string, comment: string) =>
+  transitionBudgetStatus(budgetId, 'REJECT', comment);
+
+export const lockBudget = (budgetId: string) => transitionBudgetStatus(budgetId, 'LOCK');
+
+/**
+ * Get approval history for a budget (terbaru di atas)
+ */
+export async function getBudgetApprovalHistory(budgetId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('budget_approvals')
+      .select('*')
+      .eq('budget_id', budgetId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return { data: (data || []) as BudgetApproval[], error: null };
+  } catch (error) {
+    console.error('[getBudgetApprovalHistory] Error:', error);
+    return { data: null, error };
+  }
+}
+
+// ============================================
+// BUDGET VERSIONS
+// ============================================
+
+const VERSION_LABELS: Record<BudgetVersionType, string> = {
+  ORIGINAL: 'Original',
+  REVISION: 'Revision',
+  FORECAST: 'Forecast',
+};
+
+/**
+ * Salin field alokasi item ke format snapshot versi
+ */
+const toVersionItem = (item: BudgetItem): BudgetVersionItem => ({
+  account_code: item.account_code,
+  account_name: item.account_name,
+  account_type: item.account_type || null,
+  allocated_amount: item.allocated_amount || 0,
+  phasing_method: item.phasing_method || null,
+  monthly_allocations: item.monthly_allocations || null,
+  seasonal_weights: item.seasonal_weights || null,
+  cost_center_id: item.cost_center_id || null,
+  description: item.description || null,
+});
+
+/**
+ * Apakah dua snapshot memiliki alokasi yang sama
+ */
+const isSameVersionItems = (a: BudgetVersionItem[], b: BudgetVersionItem[]) => {
+  if (a.length !== b.length) return false;
+  const byCode = new Map(b.map(item => [item.account_code, item]));
+  return a.every(item => {
+    const other = byCode.get(item.account_code);
+    return (
+      !!other &&
+      other.allocated_amount === item.allocated_amount &&
+      JSON.stringify(other.monthly_allocations || null) === JSON.stringify(item.monthly_allocations || null)
+    );
+  });
+};
+
+/**
+ * Get all versions of a budget (urut dari yang paling lama)
+ */
+export async function getBudgetVersions(budgetId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('budget_versions')
+      .select('*')
+      .eq('budget_id', budgetId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data || []) as BudgetVersion[], error: null };
+  } catch (error) {
+    console.error('[getBudgetVersions] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Simpan snapshot budget_items saat ini sebagai versi baru.
+ *
+ * Original hanya dibuat sekali. Revision yang isinya sama dengan versi
+ * terakhir tidak disimpan ulang; versi terakhir yang dikembalikan.
+ */
+export async function createBudgetVersion(
+  budgetId: string,
+  versionType: BudgetVersionType,
+  note?: string
+) {
+  try {
+    const { data: budget, error: budgetError } = await getBudgetById(budgetId);
+    if (budgetError) throw budgetError;
+    if (!budget) throw new Error('Budget tidak ditemukan');
+
+    await assertEntityPermission(budget.entity_id, 'EDIT_BUDGET');
+
+    const { data: versions, error: versionsError } = await getBudgetVersions(budgetId);
+    if (versionsError) throw versionsError;
+
+    const existing = versions || [];
+    const items = budget.items.map(toVersionItem);
+
+    if (versionType === 'ORIGINAL') {
+      const original = existing.find(v => v.version_type === 'ORIGINAL');
+      if (original) return { data: original, error: null };
+    }
+
+    const latest = existing[existing.length - 1];
+    if (versionType === 'REVISION' && latest && isSameVersionItems(latest.items, items)) {
+      console.log('[createBudgetVersion] No changes since', latest.name);
+      return { data: latest, error: null };
+    }
+
+    const versionNumber = versionType === 'ORIGINAL'
+      ? 0
+      : existing.filter(v => v.version_type === versionType).length + 1;
+
+    const versionName = versionType === 'REVISION' || versionNumber > 1
+      ? `${VERSION_LABELS[versionType]} ${versionNumber}`
+      : VERSION_LABELS[versionType];
+
+    const { data, error } = await supabase
+      .from('budget_versions')
+      .insert({
+        budget_id: budgetId,
+        version_type: versionType,
+        version_number: versionNumber,
+        name: versionName,
+        total_budget: budget.total_budget,
+        items,
+        note: note || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    console.log('[createBudgetVersion] Created:', versionName);
+    return { data: data as BudgetVersion, error: null };
+  } catch (error) {
+    console.error('[createBudgetVersion] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Pastikan budget sudah punya versi Original sebelum alokasinya diubah
+ */
+export async function ensureOriginalVersion(budgetId: string) {
+  const { data, error } = await supabase
+    .from('budget_versions')
+    .select('id')
+    .eq('budget_id', budgetId)
+    .eq('version_type', 'ORIGINAL')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[ensureOriginalVersion] Error:', error);
+    return { error };
+  }
+  if (data) return { error: null };
+
+  const { error: createError } = await createBudgetVersion(budgetId, 'ORIGINAL');
+  return { error: createError };
+}
+
+
+/**
+ * Pilih versi sesuai selector; null berarti pakai alokasi saat ini
+ */
+export function pickBudgetVersion(
+  versions: BudgetVersion[],
+  selector: BudgetVersionSelector
+): BudgetVersion | null {
+  const byType = (type: BudgetVersionType) =>
+    versions
+      .filter(v => v.version_type === type)
+      .sort((a, b) => b.version_number - a.version_number)[0] || null;
+
+  switch (selector) {
+    case 'ORIGINAL':
+      return byType('ORIGINAL');
+    case 'LATEST_REVISION':
+      return byType('REVISION') || byType('ORIGINAL');
+    case 'FORECAST':
+      return byType('FORECAST');
+    default:
+      return null;
+  }
+}
+
+// ============================================
+// BUDGET TEMPLATES & COPY FORWARD
+// ============================================
+
+/**
+ * Get all budget templates for an entity
+ */
+export async function getBudgetTemplates(entityId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('budget_templates')
+      .select('*')
+      .eq('entity_id', entityId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data || []) as BudgetTemplate[], error: null };
+  } catch (error) {
+    console.error('[getBudgetTemplates] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Simpan struktur akun & alokasi budget sebagai template
+ */
+export async function saveBudgetAsTemplate(budgetId: string, name: string) {
+  try {
+    if (!name.trim()) throw new Error('Nama template harus diisi');
+
+    const { data: budget, error: budgetError } = await getBudgetById(budgetId);
+    if (budgetError) throw budgetError;
+    if (!budget) throw new Error('Budget tidak ditemukan');
+
+    await assertEntityPermission(budget.entity_id, 'EDIT_BUDGET');
+
+    const { data, error } = await supabase
+      .from('budget_templates')
+      .insert({
+        entity_id: budget.entity_id,
+        name: name.trim(),
+        description: budget.description || null,
+        period_type: budget.period_type || 'MONTHLY',
+        total_budget: budget.total_budget,
+        items: budget.items.map(toVersionItem),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    console.log('[saveBudgetAsTemplate] Created:', data);
+    return { data: data as BudgetTemplate, error: null };
+  } catch (error) {
+    console.error('[saveBudgetAsTemplate] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Delete budget template
+ */
+export async function deleteBudgetTemplate(templateId: string) {
+  try {
+    const { data: template, error: templateError } = await supabase
+      .from('budget_templates')
+      .select('entity_id')
+      .eq('id', templateId)
+      .single();
+
+    if (templateError) throw templateError;
+    await assertEntityPermission(template.entity_id, 'EDIT_BUDGET');
+
+    const { error } = await supabase
+      .from('budget_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) throw error;
+
+    console.log('[deleteBudgetTemplate] Deleted template:', templateId);
+    return { error: null };
+  } catch (error) {
+    console.error('[deleteBudgetTemplate] Error:', error);
+    return { error };
+  }
+}
+
+/**
+ * Buat budget baru di periode tujuan dari sumber (budget atau template).
+ * Akun suspended dilewati, nominal dinaikkan sesuai uplift.
+ */
+async function createBudgetFromSource(
+  source: Pick<BudgetTemplate, 'entity_id' | 'items'> & {
+    period_type?: BudgetPeriodType;
+    description?: string | null;
+    cost_center_id?: string | null;
+  },
+  options: CopyBudgetOptions
+): Promise<{ data: CopyBudgetResult | null; error: unknown }> {
+  try {
+    if (!options.name.trim()) throw new Error('Nama budget harus diisi');
+    if (!/^\d{4}-\d{2}$/.test(options.period)) throw new Error('Periode tujuan tidak valid');
+
+    const { data: existing, error: existingError } = await supabase
+      .from('budgets')
+      .select('id')
+      .eq('entity_id', source.entity_id)
+      .eq('name', options.name.trim())
+      .eq('period', options.period)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing) {
+      throw new Error(`Budget "${options.name.trim()}" periode ${options.period} sudah ada`);
+    }
+
+    const { data: accounts, error: accountsError } = await supabase
+      .from('accurate_accounts')
+      .select('id, accurate_id, account_code, suspended, is_active')
+      .eq('entity_id', source.entity_id);
+
+    if (accountsError) throw accountsError;
+
+    const accountByCode = new Map((accounts || []).map(acc => [acc.account_code, acc]));
+    const suspendedCodes = new Set(
+      (accounts || [])
+        .filter(acc => acc.suspended === true || acc.is_active === false)
+        .map(acc => acc.account_code)
+    );
+
+    const { items, skipped } = prepareCopiedItems(source.items, options, suspendedCodes);
+
+    const { data: budget, error: budgetError } = await createBudget({
+      entity_id: source.entity_id,
+      name: options.name.trim(),
+      period: options.period,
+      period_type: source.period_type || 'MONTHLY',
+      // Total mengikuti item yang benar-benar disalin (tanpa akun suspended, setelah pembulatan)
+      total_budget: items.reduce((sum, item) => sum + (item.allocated_amount || 0), 0),
+      description: source.description || undefined,
+      cost_center_id: source.cost_center_id,
+    });
+
+    if (budgetError) throw budgetError;
+    if (!budget) throw new Error('Gagal membuat budget');
+
+    if (items.length > 0) {
+      const { error: itemsError } = await supabase
+        .from('budget_items')
+        .insert(
+          items.map(item => ({
+            budget_id: budget.id,
+            account_id: accountByCode.get(item.account_code)?.id || null,
+            accurate_id: accountByCode.get(item.account_code)?.accurate_id || null,
+            account_code: item.account_code,
+            account_name: item.account_name,
+            account_type: item.account_type || null,
+            allocated_amount: item.allocated_amount,
+            realisasi_snapshot: 0,
+            phasing_method: item.phasing_method || null,
+            monthly_allocations: item.monthly_allocations || null,
+            seasonal_weights: item.seasonal_weights || null,
+            cost_center_id: item.cost_center_id || null,
+            description: item.description || null,
+          }))
+        );
+
+      if (itemsError) {
+        // Jangan tinggalkan budget kosong jika item gagal disalin
+        await supabase.from('budgets').delete().eq('id', budget.id);
+        throw itemsError;
+      }
+    }
+
+    const { error: versionError } = await createBudgetVersion(budget.id, 'ORIGINAL');
+    if (versionError) throw versionError;
+
+    console.log(
+      `[createBudgetFromSource] Created ${options.name} (${options.period}): ${items.length} akun, ${skipped.length} dilewati`
+    );
+    return {
+      data: { budget: budget as Budget, copied_count: items.length, skipped_accounts: skipped },
+      error: null,
+    };
+  } catch (error) {
+    console.error('[createBudgetFromSource] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Salin budget beserta item-nya ke periode lain
+ */
+export async function copyBudgetToPeriod(budgetId: string, options: CopyBudgetOptions) {
+  const { data: budget, error } = await getBudgetById(budgetId);
+  if (error || !budget) {
+    console.error('[copyBudgetToPeriod] Error:', error);
+    return { data: null, error: error || new Error('Budget tidak ditemukan') };
+  }
+
+  return createBudgetFromSource({ ...budget, items: budget.items.map(toVersionItem) }, options);
+}
+
+/**
+ * Buat budget baru dari template
+ */
+export async function createBudgetFromTemplate(template: BudgetTemplate, options: CopyBudgetOptions) {
+  return createBudgetFromSource(template, options);
+}
+
+// ============================================
+// BUDGET IMPORT (EXCEL / CSV)
+// ============================================
+
+/**
+ * Data pembanding untuk validasi import: semua akun COA (termasuk suspended)
+ * dan budget yang sudah ada di entitas
+ */
+export async function getBudgetImportContext(entityId: string) {
+  try {
+    const [accountsResult, budgetsResult] = await Promise.all([
+      supabase
+        .from('accurate_accounts')
+        .select('id, accurate_id, account_code, account_name, account_type, suspended, is_active')
+        .eq('entity_id', entityId),
+      supabase
+        .from('budgets')
+        .select('name, period')
+        .eq('entity_id', entityId),
+    ]);
+
+    if (accountsResult.error) throw accountsResult.error;
+    if (budgetsResult.error) throw budgetsResult.error;
+
+    return {
+      data: {
+        accounts: (accountsResult.data || []) as Account[],
+        budgets: (budgetsResult.data || []) as Pick<Budget, 'name' | 'period'>[],
+      },
+      error: null,
+    };
+  } catch (error) {
+    console.error('[getBudgetImportContext] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Buat budgets & budget_items hasil import dalam satu transaksi.
+ * Fungsi database `import_budgets` membatalkan semuanya jika satu insert gagal.
+ */
+export async function importBudgets(entityId: string, groups: BudgetImportGroup[]) {
+  try {
+    if (groups.length === 0) throw new Error('Tidak ada baris valid untuk diimport');
+
+    await assertEntityPermission(entityId, 'EDIT_BUDGET');
+
+    const { data, error } = await supabase.rpc('import_budgets', {
+      p_entity_id: entityId,
+      p_budgets: groups.map(group => ({
+        name: group.name,
+        period: group.period,
+        period_type: 'MONTHLY',
+        total_budget: group.total_budget,
+        approval_status: 'DRAFT',
+        items: group.items,
+      })),
+    });
+
+    if (error) throw error;
+
+    const itemCount = groups.reduce((sum, group) => sum + group.items.length, 0);
+    console.log(`[importBudgets] Imported ${groups.length} budgets, ${itemCount} items`);
+    await runBudgetAlertEvaluation(
+      entityId,
+      groups.map(group => ({ period: group.period, period_type: 'MONTHLY' }))
+    );
+    return { data: { budget_ids: (data || []) as string[], budget_count: groups.length, item_count: itemCount }, error: null };
+  } catch (error) {
+    console.error('[importBudgets] Error:', error);
+    return { data: null, error };
+  }
+}
+
+// ============================================
+// BUDGET WORKBOOK ROUND-TRIP
+// ============================================
+
+/**
+ * Terapkan perubahan dari workbook (tambah, ubah, hapus item) ke satu budget,
+ * lalu simpan hasilnya sebagai Revision.
+ * Fungsi database `apply_budget_item_diff` menerapkan semuanya atau tidak sama
+ * sekali, dan menyamakan total_budget dengan jumlah alokasi item.
+ */
+export async function applyBudgetItemDiff(budgetId: string, diff: BudgetItemDiff) {
+  try {
+    const budget = await assertBudgetEditable(budgetId);
+    const isFiscal = budget.period_type === 'FISCAL_YEAR';
+
+    // Akun baru harus ada di COA dan tidak suspended
+    let accountByCode = new Map<string, Account>();
+    if (diff.added.length > 0) {
+      const { data: accounts, error: accountsError } = await supabase
+        .from('accurate_accounts')
+        .select('id, accurate_id, account_code, account_name, account_type, suspended, is_active')
+        .eq('entity_id', budget.entity_id)
+        .in('account_code', diff.added.map(item => item.account_code));
+
+      if (accountsError) throw accountsError;
+      accountByCode = new Map((accounts || []).map(acc => [acc.account_code, acc as Account]));
+
+      const invalid = diff.added.filter(item => {
+        const account = accountByCode.get(item.account_code);
+        return !account || account.suspended || account.is_active === false;
+      });
+      if (invalid.length > 0) {
+        throw new Error(`Akun tidak ada di COA atau suspended: ${invalid.map(item => item.account_code).join(', ')}`);
+      }
+    }
+
+    const { error: versionError } = await ensureOriginalVersion(budgetId);
+    if (versionError) throw versionError;
+
+    // Hapus, ubah, tambah item dan hitung ulang total budget dalam satu transaksi
+    const { error: applyError } = await supabase.rpc('apply_budget_item_diff', {
+      p_budget_id: budgetId,
+      p_removed_ids: diff.removed.map(item => item.id),
+      p_changed: diff.changed.map(({ before, after }) => ({
+        id: before.id,
+        allocated_amount: after.allocated_amount,
+        description: after.description,
+        monthly_allocations: isFiscal ? rescheduleItem(before, after.allocated_amount) : before.monthly_allocations,
+      })),
+      p_added: diff.added.map(item => {
+        const account = accountByCode.get(item.account_code)!;
+        return {
+          account_id: account.id,
+          accurate_id: account.accurate_id || null,
+          account_code: item.account_code,
+          account_name: account.account_name,
+          account_type: account.account_type || null,
+          allocated_amount: item.allocated_amount,
+          phasing_method: isFiscal ? 'EVEN' : null,
+          monthly_allocations: isFiscal ? rescheduleItem(null, item.allocated_amount) : null,
+          description: item.description,
+        };
+      }),
+    });
+
+    if (applyError) throw applyError;
+
+    const { data: revision, error: revisionError } = await createBudgetVersion(
+      budgetId,
+      'REVISION',
+      'Import workbook'
+    );
+    if (revisionError) throw revisionError;
+
+    await runBudgetAlertEvaluation(budget.entity_id, [budget]);
+
+    console.log(
+      `[applyBudgetItemDiff] ${budgetId}: +${diff.added.length} ~${diff.changed.length} -${diff.removed.length}`
+    );
+    return { data: revision, error: null };
+  } catch (error) {
+    console.error('[applyBudgetItemDiff] Error:', error);
+    return { data: null, error };
+  }
+}
+
 // ============================================
 // VALIDATION & HELPERS
 // ============================================
@@ -873,32 +1819,45 @@ export function subscribeBudgets(entityId: string, onChange: () => void) {
 
 /**
  * Get budget realizations with live data from accurate_accounts
+ *
+ * Untuk budget FISCAL_YEAR, jika period diisi maka budget & realisasi
+ * dihitung year-to-date sampai periode tersebut (plus nilai month-to-date).
+ *
+ * version menentukan alokasi pembanding: CURRENT memakai budget_items,
+ * selain itu memakai snapshot versi (fallback ke alokasi saat ini jika
+ * budget belum punya versi tersebut).
  */
 export async function getBudgetRealizationsLive(
   entityId?: string,
   period?: string,
   accountType?: string,
-  budgetName?: string
+  budgetName?: string,
+  version: BudgetVersionSelector = 'CURRENT'
 ) {
   try {
     // STEP 1: Query budgets
     let budgetQuery = supabase
       .from('budgets')
-      .select('id, name, period, entity_id');
+      .select('id, name, period, period_type, entity_id, cost_center_id');
 
     if (entityId) {
       budgetQuery = budgetQuery.eq('entity_id', entityId);
     }
     if (period) {
-      budgetQuery = budgetQuery.eq('period', period);
+      // Budget tahunan dicek cakupan periodenya setelah query
+      budgetQuery = budgetQuery.or(`period.eq.${period},period_type.eq.FISCAL_YEAR`);
     }
     if (budgetName) {
       budgetQuery = budgetQuery.eq('name', budgetName);
     }
 
-    const { data: budgets, error: budgetError } = await budgetQuery;
+    const { data: budgetRows, error: budgetError } = await budgetQuery;
 
     if (budgetError) throw budgetError;
+
+    const budgets = period
+      ? (budgetRows || []).filter(b => budgetCoversPeriod(b, period))
+      : budgetRows;
     
     // PENTING: Return empty array kalau tidak ada budgets
     if (!budgets || budgets.length === 0) {
@@ -927,37 +1886,43 @@ export async function getBudgetRealizationsLive(
       return { data: [], error: null };
     }
 
-    // STEP 3: Transform
-    const realizations: BudgetRealization[] = items.map((item: any) => {
-      const budget = budgets.find(b => b.id === item.budget_id);
-      const budgetAllocated = item.allocated_amount || 0;  
-      const realisasi = item.realisasi_snapshot || 0;  
-      const variance = budgetAllocated - realisasi;
-      const variancePercentage = budgetAllocated > 0 ? (variance / budgetAllocated) * 100 : 0;
-      const status = realisasi <= budgetAllocated ? 'ON_TRACK' : 'OVER_BUDGET';
+    // STEP 3: Versi pembanding (opsional)
+    const versionByBudget = new Map<string, BudgetVersion>();
 
-      return {
-        id: item.id,
-        budget_id: item.budget_id,
-        budget_item_id: item.id,
-        entity_id: budget?.entity_id || '',
-        period: budget?.period || '',
-        account_id: item.account_id,
-        accurate_id: item.accurate_id,
-        account_code: item.account_code,
-        account_name: item.account_name,
-        account_type: item.account_type,
-        budget_allocated: budgetAllocated,
-        realisasi: realisasi,
-        variance: variance,
-        variance_percentage: variancePercentage,
-        status: status,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        budgets: {
-          name: budget?.name || '',
-        },
-      };
+    if (version !== 'CURRENT') {
+      const { data: versionRows, error: versionError } = await supabase
+        .from('budget_versions')
+        .select('*')
+        .in('budget_id', budgetIds);
+
+      if (versionError) throw versionError;
+
+      for (const budgetId of budgetIds) {
+        const picked = pickBudgetVersion(
+          ((versionRows || []) as BudgetVersion[]).filter(v => v.budget_id === budgetId),
+          version
+        );
+        if (picked) versionByBudget.set(budgetId, picked);
+      }
+    }
+
+    // STEP 4: Transform
+    const realizations: BudgetRealization[] = (items as BudgetItem[]).map((rawItem) => {
+      const budget = budgets.find(b => b.id === rawItem.budget_id);
+      const budgetVersion = versionByBudget.get(rawItem.budget_id);
+
+      // Alokasi diambil dari snapshot versi; akun yang belum ada di versi tsb dianggap 0
+      let item = rawItem;
+      if (budgetVersion) {
+        const versionItem = budgetVersion.items.find(v => v.account_code === rawItem.account_code);
+        item = {
+          ...rawItem,
+          allocated_amount: versionItem?.allocated_amount || 0,
+          monthly_allocations: versionItem?.monthly_allocations || null,
+        };
+      }
+
+      return { ...toBudgetRealization(budget, item, period), version_name: budgetVersion?.name };
     });
 
     console.log('[getBudgetRealizationsLive] ✅ Success:', realizations.length, 'items');
@@ -983,30 +1948,8 @@ export async function getRealizationSummaryLive(
     );
 
     if (error) throw error;
-    if (!realizations || realizations.length === 0) return { data: null, error: null };
-
-    // Calculate summary
-    const totalBudget = realizations.reduce((sum, item) => sum + item.budget_allocated, 0);
-    const totalRealisasi = realizations.reduce((sum, item) => sum + item.realisasi, 0);
-    const totalVariance = totalBudget - totalRealisasi;
-    const variancePercentage = totalBudget > 0 ? (totalVariance / totalBudget) * 100 : 0;
-    const overallStatus = totalRealisasi <= totalBudget ? 'ON_TRACK' : 'OVER_BUDGET';
-
-    const summary = {
-      entity_id: entityId || '',
-      entity_name: '',
-      period: period || 'all',
-      total_accounts: realizations.length,
-      total_budgets: [...new Set(realizations.map(item => item.budget_id))].length,
-      total_budget: totalBudget,
-      total_realisasi: totalRealisasi,
-      total_variance: totalVariance,
-      variance_percentage: variancePercentage,
-      overall_status: overallStatus,
-      on_track_count: realizations.filter(item => item.status === 'ON_TRACK').length,
-      over_budget_count: realizations.filter(item => item.status === 'OVER_BUDGET').length,
-      last_updated: new Date().toISOString(),
-    };
+
+    const summary = summarizeRealizations(realizations || [], entityId, period);
 
     console.log('[getRealizationSummaryLive] Calculated summary');
     return { data: summary, error: null };
@@ -1023,7 +1966,7 @@ export async function getAvailableRealizationPeriods(entityId?: string) {
   try {
     let query = supabase
       .from('budgets')
-      .select('period')
+      .select('period, period_type')
       .order('period', { ascending: false });
 
     if (entityId) {
@@ -1034,8 +1977,12 @@ export async function getAvailableRealizationPeriods(entityId?: string) {
 
     if (error) throw error;
 
-    // Get unique periods
-    const periods = [...new Set(data?.map(item => item.period) || [])];
+    // Budget tahunan menyumbang 12 periode bulanan
+    const periods = [...new Set(
+      (data || []).flatMap(item =>
+        item.period_type === 'FISCAL_YEAR' ? getFiscalMonths(item.period) : [item.period]
+      )
+    )].sort((a, b) => b.localeCompare(a));
 
     return { data: periods, error: null };
   } catch (error) {
@@ -1051,23 +1998,27 @@ export async function getAvailableAccountTypes(entityId?: string, period?: strin
   try {
     let query = supabase
       .from('budget_items')
-      .select('account_type, budgets!inner(entity_id, period)')
+      .select('account_type, budgets!inner(entity_id, period, period_type)')
       .order('account_type', { ascending: true });
 
     if (entityId) {
       query = query.eq('budgets.entity_id', entityId);
     }
 
-    if (period) {
-      query = query.eq('budgets.period', period);
-    }
-
     const { data, error } = await query;
 
     if (error) throw error;
 
+    // Filter periode di sisi client supaya budget tahunan ikut tercakup
+    const rows = period
+      ? (data || []).filter(item => {
+          const budget = Array.isArray(item.budgets) ? item.budgets[0] : item.budgets;
+          return budget && budgetCoversPeriod(budget, period);
+        })
+      : data || [];
+
     // Get unique account types
-    const types = [...new Set(data?.map(item => item.account_type).filter(Boolean) || [])];
+    const types = [...new Set(rows.map(item => item.account_type).filter(Boolean))];
 
     return { data: types, error: null };
   } catch (error) {
@@ -1152,20 +2103,20 @@ export function subscribeBudgetItems(
   return channel.subscribe();
 }
 
+/**
+ * Fetch saldo akun neraca per periode. Dengan `dimension`, saldo hanya
+ * untuk departemen / proyek tersebut.
+ */
 export async function fetchBSAccountsByPeriod(
-  apiToken: string,
-  period: string
+  entityId: string,
+  period: string,
+  dimension?: AccurateDimensionFilter
 ): Promise<FetchBSAccountsResult> {
   try {
-    console.log('[fetchBSAccountsByPeriod] Starting for period:', period);
-
-    if (!apiToken) {
-      return { success: false, error: 'API Token tidak ditemukan' };
-    }
+    console.log('[fetchBSAccountsByPeriod] Starting for period:', period, dimension || '');
 
-    const secretKey = HMAC_SECRET_KEY;
-    if (!secretKey) {
-      return { success: false, error: 'Secret key tidak dikonfigurasi' };
+    if (!entityId) {
+      return { success: false, error: 'Entitas belum dipilih' };
     }
 
     // Validate period format
@@ -1180,7 +2131,7 @@ export async function fetchBSAccountsByPeriod(
     console.log('[fetchBSAccountsByPeriod] Calling Edge Function...');
 
     const { data, error } = await supabase.functions.invoke('accurate-fetch-bs-accounts', {
-      body: { apiToken, secretKey, period },
+      body: { entityId, period, dimension },
     });
 
     if (error) {
@@ -1208,20 +2159,20 @@ export async function fetchBSAccountsByPeriod(
 }
 
 
+/**
+ * Fetch mutasi akun laba rugi per periode. Dengan `dimension`, mutasi hanya
+ * untuk departemen / proyek tersebut.
+ */
 export async function fetchPLAccountsByPeriod(
-  apiToken: string,
-  period: string
+  entityId: string,
+  period: string,
+  dimension?: AccurateDimensionFilter
 ): Promise<FetchPLAccountsResult> {
   try {
-    console.log('[fetchPLAccountsByPeriod] Starting for period:', period);
-
-    if (!apiToken) {
-      return { success: false, error: 'API Token tidak ditemukan' };
-    }
+    console.log('[fetchPLAccountsByPeriod] Starting for period:', period, dimension || '');
 
-    const secretKey = HMAC_SECRET_KEY;
-    if (!secretKey) {
-      return { success: false, error: 'Secret key tidak dikonfigurasi' };
+    if (!entityId) {
+      return { success: false, error: 'Entitas belum dipilih' };
     }
 
     const periodRegex = /^\d{4}-\d{2}$/;
@@ -1235,7 +2186,7 @@ export async function fetchPLAccountsByPeriod(
     console.log('[fetchPLAccountsByPeriod] Calling Edge Function...');
 
     const { data, error } = await supabase.functions.invoke('accurate-fetch-pl-accounts', {
-      body: { apiToken, secretKey, period },
+      body: { entityId, period, dimension },
     });
 
     if (error) {
@@ -1269,18 +2220,20 @@ export async function fetchPLAccountsByPeriod(
  * Fetch SEMUA akun (BS + PL) sekaligus untuk satu periode
  * Memanggil dua edge function paralel lalu merge hasilnya
  * Inilah fungsi yang dipakai BudgetForm — frontend tidak perlu tahu bedanya BS/PL
+ * Tanpa `dimension` saldo untuk seluruh database.
  */
 export async function fetchAllAccountsByPeriod(
-  apiToken: string,
-  period: string
+  entityId: string,
+  period: string,
+  dimension?: AccurateDimensionFilter
 ): Promise<FetchAllAccountsResult> {
   try {
-    console.log('[fetchAllAccountsByPeriod] Starting for period:', period);
+    console.log('[fetchAllAccountsByPeriod] Starting for period:', period, dimension || '');
 
     // Panggil BS dan PL secara paralel
     const [bsResult, plResult] = await Promise.all([
-      fetchBSAccountsByPeriod(apiToken, period),
-      fetchPLAccountsByPeriod(apiToken, period),
+      fetchBSAccountsByPeriod(entityId, period, dimension),
+      fetchPLAccountsByPeriod(entityId, period, dimension),
     ]);
 
     // Kumpulkan error jika ada
@@ -1297,8 +2250,8 @@ export async function fetchAllAccountsByPeriod(
     }
 
     // Merge accounts dari kedua sumber
-    const bsAccounts = bsResult.accounts || [];
-    const plAccounts = plResult.accounts || [];
+    const bsAccounts = (bsResult.accounts || []).map((account) => ({ ...account, statement: 'BS' as const }));
+    const plAccounts = (plResult.accounts || []).map((account) => ({ ...account, statement: 'PL' as const }));
     const merged = [...bsAccounts, ...plAccounts];
 
     console.log(`[fetchAllAccountsByPeriod] BS: ${bsAccounts.length} | PL: ${plAccounts.length} | Total: ${merged.length}`);
@@ -1320,49 +2273,103 @@ export async function fetchAllAccountsByPeriod(
     return { success: false, error: errorMsg };
   }
 }
-// ============================================
-// TYPE DEFINITIONS
-// ============================================
 
-export interface BudgetRealization {
-  id: string;
-  budget_id: string;
-  budget_item_id: string;
-  entity_id: string;
-  period: string;
-  account_id?: string;
-  accurate_id?: string;
-  account_code: string;
-  account_name: string;
-  account_type?: string;
-  budget_allocated: number;
-  realisasi: number;
-  variance: number;
-  variance_percentage: number;
-  status: 'ON_TRACK' | 'OVER_BUDGET';
-  notes?: string;
-  created_at: string;
-  updated_at: string;
-  budgets?: {
-    name: string;
-  };
+/**
+ * Fetch transaksi jurnal satu akun untuk rentang periode (YYYY-MM s/d YYYY-MM).
+ * Dipakai untuk drill-down baris realisasi; `dimension` mengikuti cost center.
+ */
+export async function fetchAccountJournalEntries(
+  entityId: string,
+  accountNo: string,
+  fromPeriod: string,
+  toPeriod: string,
+  dimension?: AccurateDimensionFilter
+): Promise<FetchJournalEntriesResult> {
+  try {
+    console.log('[fetchAccountJournalEntries] Starting:', accountNo, fromPeriod, toPeriod, dimension || '');
+
+    if (!entityId) {
+      return { success: false, error: 'Entitas belum dipilih' };
+    }
+
+    const periodRegex = /^\d{4}-\d{2}$/;
+    if (!periodRegex.test(fromPeriod) || !periodRegex.test(toPeriod)) {
+      return {
+        success: false,
+        error: 'Format periode tidak valid. Gunakan format YYYY-MM (contoh: 2025-09)',
+      };
+    }
+
+    const { data, error } = await supabase.functions.invoke('accurate-fetch-journal-entries', {
+      body: { entityId, accountNo, fromPeriod, toPeriod, dimension },
+    });
+
+    if (error) {
+      console.error('[fetchAccountJournalEntries] Edge error:', error);
+      return { success: false, error: data?.error || error.message };
+    }
+
+    if (!data || !data.success) {
+      return { success: false, error: data?.error || 'Fetch jurnal gagal' };
+    }
+
+    console.log(`[fetchAccountJournalEntries] Fetched ${data.total} entries for ${accountNo}`);
+    return {
+      success: true,
+      entries: data.entries || [],
+      total: data.total,
+    };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[fetchAccountJournalEntries] Error:', error);
+    return { success: false, error: errorMsg };
+  }
 }
 
-export interface BudgetRealizationSummary {
-  entity_id: string;
-  entity_name: string;
-  period: string;
-  total_accounts: number;
-  total_budgets: number;
-  total_budget: number;
-  total_realisasi: number;
-  total_variance: number;
-  variance_percentage: number;
-  overall_status: 'ON_TRACK' | 'OVER_BUDGET';
-  on_track_count: number;
-  over_budget_count: number;
-  last_updated: string;
+/**
+ * Daftar departemen / proyek di database Accurate,
+ * dipakai untuk menautkan cost center
+ */
+export async function fetchAccurateDimensions(
+  entityId: string,
+  type: AccurateDimensionType
+): Promise<FetchDimensionsResult> {
+  try {
+    console.log('[fetchAccurateDimensions] Starting for type:', type);
+
+    if (!entityId) {
+      return { success: false, error: 'Entitas belum dipilih' };
+    }
+
+    const { data, error } = await supabase.functions.invoke('accurate-fetch-dimensions', {
+      body: { entityId, type },
+    });
+
+    if (error) {
+      console.error('[fetchAccurateDimensions] Edge error:', error);
+      return { success: false, error: data?.error || error.message };
+    }
+
+    if (!data || !data.success) {
+      return { success: false, error: data?.error || 'Fetch dimensi gagal' };
+    }
+
+    console.log(`[fetchAccurateDimensions] Fetched ${data.items?.length || 0} ${type}`);
+    return { success: true, items: data.items || [] };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[fetchAccurateDimensions] Error:', error);
+    return { success: false, error: errorMsg };
+  }
 }
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+export type {
+  BudgetRealization,
+  BudgetRealizationSummary,
+} from '../../supabase/functions/_shared/budgetRealization.ts';
 
 export interface SyncRealizationResult {
   synced_count: number;
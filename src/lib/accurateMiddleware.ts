@@ -1,3 +1,5 @@
+import { supabase } from './supabase';
+
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
@@ -31,6 +33,12 @@ export interface AccurateValidationResult {
   raw?: any;
 }
 
+/**
+ * Token yang baru diketik user (belum disimpan), atau entitas yang
+ * tokennya sudah ada di credential vault. HMAC secret hanya ada di server.
+ */
+export type AccurateCredential = { apiToken: string } | { entityId: string };
+
 interface AccurateAPIResponse<T = any> {
   success: boolean;
   data?: T;
@@ -43,24 +51,23 @@ interface AccurateAPIResponse<T = any> {
  * Call Accurate API via Supabase Edge Function
  */
 async function callAccurateAPI(
-  apiToken: string,
-  secretKey: string
+  credential: AccurateCredential
 ): Promise<AccurateAPIResponse> {
   try {
     const edgeFunctionUrl = `${SUPABASE_URL}/functions/v1/accurate-validate`;
 
     console.log('[Middleware] Calling Edge Function:', edgeFunctionUrl);
 
+    // Session user dipakai edge function untuk mengecek akses ke entitas
+    const { data: { session } } = await supabase.auth.getSession();
+
     const response = await fetch(edgeFunctionUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        'Authorization': `Bearer ${session?.access_token || SUPABASE_ANON_KEY}`,
       },
-      body: JSON.stringify({
-        apiToken,
-        secretKey,
-      }),
+      body: JSON.stringify(credential),
     });
 
     const data = await response.json();
@@ -159,29 +166,28 @@ function normalizeDatabase(db: any): AccurateDatabase {
  * Edge Function akan handle timestamp, signature, dan call Accurate API
  */
 export async function validateAccurateApiToken(
-  apiToken: string,
-  secretKey: string
+  credential: AccurateCredential
 ): Promise<AccurateValidationResult> {
   try {
-    // Validasi format token
-    if (!apiToken || apiToken.trim().length < 10) {
+    // Validasi format token (token tersimpan dicek di server)
+    if ('apiToken' in credential && (!credential.apiToken || credential.apiToken.trim().length < 10)) {
       return {
         isValid: false,
         message: 'API Token terlalu pendek atau kosong',
       };
     }
 
-    if (!secretKey || secretKey.trim().length < 10) {
+    if ('entityId' in credential && !credential.entityId) {
       return {
         isValid: false,
-        message: 'Secret Key terlalu pendek atau kosong',
+        message: 'Entitas belum dipilih',
       };
     }
 
     console.log('[Middleware] Validating token via Edge Function...');
 
     // Call Edge Function
-    const result = await callAccurateAPI(apiToken, secretKey);
+    const result = await callAccurateAPI(credential);
 
     // Check jika request ke edge function gagal
     if (!result.success) {
@@ -247,11 +253,10 @@ export async function validateAccurateApiToken(
  * Get database list dari Accurate API
  */
 export async function getAccurateDatabaseList(
-  apiToken: string,
-  secretKey: string
+  credential: AccurateCredential
 ): Promise<AccurateAPIResponse<AccurateDatabase[]>> {
   try {
-    const result = await callAccurateAPI(apiToken, secretKey);
+    const result = await callAccurateAPI(credential);
 
     if (!result.success) {
       return {
@@ -291,22 +296,3 @@ export async function getAccurateDatabaseList(
     };
   }
 }
-
-/**
- * Placeholder function untuk kompatibilitas
- * Returns null karena tidak menggunakan access token system
- */
-export async function getAccessToken(): Promise<string | null> {
-  return null;
-}
-
-/**
- * Placeholder function untuk kompatibilitas
- * Tidak melakukan apa-apa karena menggunakan API Token system
- */
-export async function saveTokens(
-  _accessToken: string,
-  _refreshToken: string
-): Promise<void> {
-  // Intentionally empty - using API Token instead
-}
\ No newline at end of file
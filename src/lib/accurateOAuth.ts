@@ -0,0 +1,173 @@
+import { supabase } from './supabase';
+import { getAuthorizationUrl } from './accurate';
+import { isRevokedTokenError, needsTokenRefresh } from '../services/accurateOAuth';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AccurateOAuthStatus = 'ACTIVE' | 'EXPIRED' | 'REVOKED' | 'REFRESH_FAILED';
+
+/**
+ * Sesi OAuth Accurate per entitas. Access & refresh token disimpan oleh
+ * edge function `accurate-oauth` di tabel server-only `accurate_oauth_tokens`;
+ * client hanya membaca status sesi dari tabel `accurate_oauth_sessions`.
+ * `expires_at` dihitung server dari `expires_in` saat exchange / refresh;
+ * token yang mendekati kedaluwarsa diperpanjang edge function
+ * `refresh-accurate-oauth` yang dijadwalkan pg_cron.
+ */
+export interface AccurateOAuthSession {
+  entity_id: string;
+  status: AccurateOAuthStatus;
+  expires_at: string;
+  accurate_email?: string | null;
+  last_refreshed_at?: string | null;
+  last_error?: string | null;
+  updated_at?: string;
+}
+
+/**
+ * Flow OAuth yang sedang berjalan, disimpan per nilai `state` sehingga
+ * callback hanya menerima entitas yang terikat ke state redirect tersebut
+ */
+export interface PendingOAuthFlow {
+  entityId: string;
+  startedAt: number;
+}
+
+/**
+ * Database Accurate milik akun yang baru memberi consent
+ */
+export interface AccurateDatabase {
+  id: number;
+  name: string;
+  alias?: string;
+}
+
+const OAUTH_FUNCTION = 'accurate-oauth';
+
+// Key localStorage map state → flow (dibaca AccurateOauthCallback)
+const OAUTH_FLOWS_KEY = 'accurate_oauth_flows';
+
+// Batas waktu consent sebelum state dianggap kedaluwarsa (10 menit)
+export const OAUTH_FLOW_MAX_AGE_MS = 10 * 60 * 1000;
+
+// ============================================
+// SESSION STORE
+// ============================================
+
+export async function getOAuthSessions(entityIds: string[]) {
+  try {
+    if (entityIds.length === 0) return { data: [], error: null };
+
+    const { data, error } = await supabase
+      .from('accurate_oauth_sessions')
+      .select('entity_id, status, expires_at, accurate_email, last_refreshed_at, last_error, updated_at')
+      .in('entity_id', entityIds);
+
+    if (error) throw error;
+    return { data: (data || []) as AccurateOAuthSession[], error: null };
+  } catch (error) {
+    console.error('[getOAuthSessions] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Perpanjang access token memakai refresh token yang tersimpan di server.
+ * Edge function selalu return status 200; jika gagal, status sesi sudah
+ * ditandai server (REVOKED / REFRESH_FAILED) dan ikut dikembalikan.
+ */
+export async function refreshOAuthSession(entityId: string) {
+  try {
+    const { data, error } = await supabase.functions.invoke(OAUTH_FUNCTION, {
+      body: { action: 'refresh', entityId },
+    });
+
+    if (error) throw error;
+
+    if (!data?.success) {
+      const message = data?.error || 'Gagal memperpanjang token Accurate';
+      const revoked = isRevokedTokenError(message);
+      console.warn('[refreshOAuthSession] Refresh failed for entity:', entityId, revoked ? '(revoked)' : '', message);
+      return {
+        data: (data?.session || null) as AccurateOAuthSession | null,
+        error: new Error(revoked ? 'Akses Accurate dicabut. Hubungkan ulang Accurate.' : message),
+      };
+    }
+
+    console.log('[refreshOAuthSession] Refreshed token for entity:', entityId);
+    return { data: data.session as AccurateOAuthSession, error: null };
+  } catch (error) {
+    console.error('[refreshOAuthSession] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Pastikan token entitas masih berlaku sebelum dipakai; diperpanjang
+ * otomatis jika sudah masuk margin kedaluwarsa
+ */
+export async function ensureOAuthSession(entityId: string) {
+  const { data: sessions, error } = await getOAuthSessions([entityId]);
+  if (error) return { data: null, error };
+
+  const session = sessions[0] || null;
+  if (!session || !needsTokenRefresh(session)) return { data: session, error: null };
+
+  return refreshOAuthSession(entityId);
+}
+
+/**
+ * Daftar database Accurate untuk entitas yang baru terhubung. Dibaca edge
+ * function memakai token entitas di server; access token tidak dikirim ke browser.
+ */
+export async function getOAuthDatabases(entityId: string) {
+  try {
+    const { data, error } = await supabase.functions.invoke(OAUTH_FUNCTION, {
+      body: { action: 'listDatabases', entityId },
+    });
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Gagal mengambil daftar database Accurate');
+    return { data: (data.databases || []) as AccurateDatabase[], error: null };
+  } catch (error) {
+    console.error('[getOAuthDatabases] Error:', error);
+    return { data: [], error };
+  }
+}
+
+// ============================================
+// CONNECT (CONSENT)
+// ============================================
+
+/**
+ * Mulai consent OAuth untuk entitas. Flow lama dibuang agar entitas dari
+ * percobaan sebelumnya tidak terbawa; entitas disimpan per state lalu
+ * diverifikasi AccurateOauthCallback setelah redirect.
+ */
+export function startAccurateReconnect(entityId: string) {
+  const state = crypto.randomUUID();
+  const flows: Record<string, PendingOAuthFlow> = { [state]: { entityId, startedAt: Date.now() } };
+
+  localStorage.setItem(OAUTH_FLOWS_KEY, JSON.stringify(flows));
+
+  console.log('[startAccurateReconnect] Redirecting to Accurate for entity:', entityId);
+  window.location.assign(getAuthorizationUrl(state));
+}
+
+/**
+ * Ambil flow untuk state dari redirect lalu hapus semua flow tersimpan,
+ * sehingga state hanya bisa dipakai sekali. Return null jika state tidak dikenal.
+ */
+export function consumeOAuthFlow(state: string): PendingOAuthFlow | null {
+  let flows: Record<string, PendingOAuthFlow> = {};
+  try {
+    flows = JSON.parse(localStorage.getItem(OAUTH_FLOWS_KEY) || '{}');
+  } catch (error) {
+    console.warn('[consumeOAuthFlow] Invalid stored flows:', error);
+  }
+
+  localStorage.removeItem(OAUTH_FLOWS_KEY);
+  return Object.prototype.hasOwnProperty.call(flows, state) ? flows[state] : null;
+}
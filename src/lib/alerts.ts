@@ -0,0 +1,306 @@
+import { supabase } from './supabase';
+import type { Budget } from './accurate';
+import { assertEntityPermission } from './workspaces';
+import { getAlertPeriods, type AlertRule, type AlertSeverity } from '../services/alertRules';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type { AlertRule, AlertSeverity } from '../services/alertRules';
+
+export interface CreateAlertRuleData {
+  entity_id: string;
+  name: string;
+  threshold_percent: number;
+  severity: AlertSeverity;
+  account_type?: string | null;
+  budget_name?: string | null;
+  is_active?: boolean;
+}
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  rule_id?: string | null;
+  budget_id?: string | null;
+  budget_item_id?: string | null;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  period?: string | null;
+  budget_name?: string | null;
+  utilization_percent?: number | null;
+  dedupe_key: string;
+  is_read: boolean;
+  created_at?: string;
+}
+
+// Rule bawaan yang ditawarkan saat entitas belum punya rule
+export const DEFAULT_ALERT_RULES: Omit<CreateAlertRuleData, 'entity_id'>[] = [
+  { name: 'Pemakaian 80%', threshold_percent: 80, severity: 'WARNING' },
+  { name: 'Over Budget', threshold_percent: 100, severity: 'CRITICAL' },
+];
+
+// Rule alert termasuk pengaturan entitas (Owner & Finance Admin)
+export const ALERT_RULE_PERMISSION = 'MANAGE_ENTITY';
+
+// ============================================
+// ALERT RULES CRUD
+// ============================================
+
+/**
+ * Get alert rules for an entity
+ */
+export async function getAlertRules(entityId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .select('*')
+      .eq('entity_id', entityId)
+      .order('threshold_percent', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data || []) as AlertRule[], error: null };
+  } catch (error) {
+    console.error('[getAlertRules] Error:', error);
+    return { data: null, error };
+  }
+}
+
+async function getRuleEntityId(ruleId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select('entity_id')
+    .eq('id', ruleId)
+    .single();
+
+  if (error) throw error;
+  return data.entity_id as string;
+}
+
+/**
+ * Create alert rule
+ */
+export async function createAlertRule(ruleData: CreateAlertRuleData) {
+  try {
+    if (!(ruleData.threshold_percent > 0)) {
+      throw new Error('Threshold harus lebih dari 0%');
+    }
+
+    await assertEntityPermission(ruleData.entity_id, ALERT_RULE_PERMISSION);
+
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .insert({
+        entity_id: ruleData.entity_id,
+        name: ruleData.name,
+        threshold_percent: ruleData.threshold_percent,
+        severity: ruleData.severity,
+        account_type: ruleData.account_type || null,
+        budget_name: ruleData.budget_name || null,
+        is_active: ruleData.is_active ?? true,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    console.log('[createAlertRule] Created:', data);
+    return { data: data as AlertRule, error: null };
+  } catch (error) {
+    console.error('[createAlertRule] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Update alert rule
+ */
+export async function updateAlertRule(ruleId: string, updates: Partial<AlertRule>) {
+  try {
+    const entityId = await getRuleEntityId(ruleId);
+    await assertEntityPermission(entityId, ALERT_RULE_PERMISSION);
+
+    const { data, error } = await supabase
+      .from('alert_rules')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', ruleId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { data: data as AlertRule, error: null };
+  } catch (error) {
+    console.error('[updateAlertRule] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Delete alert rule
+ */
+export async function deleteAlertRule(ruleId: string) {
+  try {
+    const entityId = await getRuleEntityId(ruleId);
+    await assertEntityPermission(entityId, ALERT_RULE_PERMISSION);
+
+    const { error } = await supabase
+      .from('alert_rules')
+      .delete()
+      .eq('id', ruleId);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error('[deleteAlertRule] Error:', error);
+    return { error };
+  }
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/**
+ * Evaluasi semua rule aktif entitas terhadap realisasi periode tertentu.
+ * Dijalankan edge function evaluate-alerts (service role), yang membuat
+ * notifikasi untuk owner & editor budget serta anggota workspace yang boleh
+ * menyetujui budget; client tidak menulis notifikasi user lain.
+ *
+ * Notifikasi yang sama (rule + item + periode + user) hanya dibuat sekali.
+ */
+export async function runAlertEvaluation(entityId: string, periods: string[]) {
+  try {
+    if (periods.length === 0) return { data: 0, error: null };
+
+    const { data, error } = await supabase.functions.invoke('evaluate-alerts', {
+      body: { entityId, periods },
+    });
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Gagal mengevaluasi alert');
+
+    console.log('[runAlertEvaluation] New notifications:', data.created || 0);
+    return { data: (data.created || 0) as number, error: null };
+  } catch (error) {
+    console.error('[runAlertEvaluation] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Evaluasi ulang alert setelah alokasi budget berubah (tambah/ubah item,
+ * import, workbook), karena pemakaian budget juga bergantung pada alokasi.
+ * Kegagalan hanya dicatat, tidak membatalkan perubahan budget.
+ */
+export async function runBudgetAlertEvaluation(
+  entityId: string,
+  budgets: Pick<Budget, 'period' | 'period_type'>[]
+) {
+  const periods = [...new Set(budgets.flatMap((budget) => getAlertPeriods(budget)))];
+  if (periods.length === 0) return { data: 0, error: null };
+  return runAlertEvaluation(entityId, periods);
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+/**
+ * Get notifications for current user (terbaru di atas)
+ */
+export async function getNotifications(limit: number = 30) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { data: [], error: 'User not authenticated' };
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return { data: (data || []) as AppNotification[], error: null };
+  } catch (error) {
+    console.error('[getNotifications] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Count unread notifications for current user
+ */
+export async function getUnreadNotificationCount() {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { data: 0, error: null };
+
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .eq('is_read', false);
+
+    if (error) throw error;
+    return { data: count || 0, error: null };
+  } catch (error) {
+    console.error('[getUnreadNotificationCount] Error:', error);
+    return { data: 0, error };
+  }
+}
+
+/**
+ * Mark one notification as read
+ */
+export async function markNotificationRead(notificationId: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true })
+    .eq('id', notificationId);
+
+  if (error) console.error('[markNotificationRead] Error:', error);
+  return { error };
+}
+
+/**
+ * Mark all notifications of current user as read
+ */
+export async function markAllNotificationsRead() {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { error: 'User not authenticated' };
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ is_read: true })
+    .eq('user_id', user.id)
+    .eq('is_read', false);
+
+  if (error) console.error('[markAllNotificationsRead] Error:', error);
+  return { error };
+}
+
+/**
+ * Subscribe to new/updated notifications of a user
+ */
+export function subscribeNotifications(userId: string, onChange: () => void) {
+  return supabase
+    .channel(`notifications_${userId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'notifications',
+        filter: `user_id=eq.${userId}`,
+      },
+      () => onChange()
+    )
+    .subscribe();
+}
@@ -0,0 +1,101 @@
+import { supabase } from './supabase';
+
+// ============================================
+// TYPES
+// ============================================
+
+// IMPORT hanya ada di baris lama yang dulu ditulis client
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'IMPORT';
+
+// Tabel yang perubahannya dicatat
+export type AuditTable =
+  | 'entity'
+  | 'budgets'
+  | 'budget_items'
+  | 'budget_versions'
+  | 'budget_templates'
+  | 'accurate_accounts'
+  | 'realisasi'
+  | 'workspace_members'
+  | 'alert_rules'
+  | 'cost_centers'
+  | 'report_definitions';
+
+export type AuditValues = Record<string, unknown>;
+
+/**
+ * Satu baris audit log. Baris ditulis trigger database pada tabel yang
+ * diaudit (migration audit_log_triggers): actor diambil dari auth.uid()
+ * dan before/after dari baris lama/baru, kredensial disembunyikan.
+ * Client hanya membaca; RLS tidak mengizinkan insert/update/delete.
+ * `entity_id` sengaja tanpa foreign key agar riwayat tetap ada setelah
+ * entitas dihapus.
+ */
+export interface AuditLog {
+  id: string;
+  entity_id: string | null;
+  workspace_id: string | null; // Hanya untuk log anggota workspace
+  table_name: AuditTable;
+  record_id: string | null;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_email: string | null;
+  before_data: AuditValues | null;
+  after_data: AuditValues | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  entity_ids: string[];
+  workspace_ids?: string[]; // Log anggota workspace
+  include_personal?: boolean; // Log tanpa entitas & workspace (definisi laporan milik user)
+  actor_id?: string | null;
+  table_name?: AuditTable | null;
+  date_from?: string | null; // YYYY-MM-DD
+  date_to?: string | null; // YYYY-MM-DD
+  limit?: number;
+}
+
+const DEFAULT_AUDIT_LIMIT = 1000;
+
+// ============================================
+// QUERY
+// ============================================
+
+/**
+ * Get audit log entitas, terbaru dulu
+ */
+export async function getAuditLogs(filters: AuditLogFilters) {
+  try {
+    if (filters.entity_ids.length === 0) return { data: [] as AuditLog[], error: null };
+
+    const scopes = [`entity_id.in.(${filters.entity_ids.join(',')})`];
+    if (filters.workspace_ids?.length) scopes.push(`workspace_id.in.(${filters.workspace_ids.join(',')})`);
+    if (filters.include_personal) scopes.push('and(entity_id.is.null,workspace_id.is.null)');
+
+    let query = supabase
+      .from('audit_logs')
+      .select('*')
+      .or(scopes.join(','));
+
+    if (filters.actor_id) query = query.eq('actor_id', filters.actor_id);
+    if (filters.table_name) query = query.eq('table_name', filters.table_name);
+    // Batas tanggal mengikuti zona waktu lokal user
+    if (filters.date_from) {
+      query = query.gte('created_at', new Date(`${filters.date_from}T00:00:00`).toISOString());
+    }
+    if (filters.date_to) {
+      query = query.lte('created_at', new Date(`${filters.date_to}T23:59:59.999`).toISOString());
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || DEFAULT_AUDIT_LIMIT);
+
+    if (error) throw error;
+    return { data: (data || []) as AuditLog[], error: null };
+  } catch (error) {
+    console.error('[getAuditLogs] Error:', error);
+    return { data: null, error };
+  }
+}
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+import {
+  buildComparisonLines,
+  collectAccountAmounts,
+  summarizeComparison,
+  type ComparisonLine,
+  type ComparisonTotals,
+} from '../services/comparison';
+
+export interface ComparisonReport {
+  lines: ComparisonLine[];
+  totals: ComparisonTotals;
+}
+
+/**
+ * Laporan perbandingan dua kumpulan bulan (periode atau tahun fiskal)
+ * untuk satu entitas, digabung per account_code.
+ */
+export async function getComparisonReport(
+  entityId: string,
+  currentMonths: string[],
+  previousMonths: string[]
+): Promise<{ data: ComparisonReport | null; error: unknown }> {
+  try {
+    const { data: budgets, error: budgetError } = await supabase
+      .from('budgets')
+      .select('id, period, period_type')
+      .eq('entity_id', entityId);
+
+    if (budgetError) throw budgetError;
+
+    if (!budgets || budgets.length === 0) {
+      return { data: { lines: [], totals: summarizeComparison([]) }, error: null };
+    }
+
+    const { data: items, error: itemError } = await supabase
+      .from('budget_items')
+      .select('budget_id, account_code, account_name, account_type, allocated_amount, monthly_allocations, monthly_realisasi, realisasi_snapshot')
+      .in('budget_id', budgets.map((b) => b.id));
+
+    if (itemError) throw itemError;
+
+    const lines = buildComparisonLines(
+      collectAccountAmounts(budgets, items || [], currentMonths),
+      collectAccountAmounts(budgets, items || [], previousMonths)
+    );
+
+    console.log('[getComparisonReport] ✅', lines.length, 'accounts');
+    return { data: { lines, totals: summarizeComparison(lines) }, error: null };
+  } catch (error) {
+    console.error('[getComparisonReport] Error:', error);
+    return { data: null, error };
+  }
+}
@@ -0,0 +1,235 @@
+import { supabase } from './supabase';
+import { getBudgetRealizationsLive, type BudgetRealization } from './accurate';
+import { consolidateRealizations, type ConsolidatedLine } from '../services/consolidation';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Grup entitas: satu holding + anak usaha
+export interface EntityGroup {
+  id: string;
+  user_id: string;
+  name: string;
+  holding_entity_id: string;
+  entity_ids: string[]; // Semua anggota, termasuk holding
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SaveEntityGroupData {
+  name: string;
+  holding_entity_id: string;
+  entity_ids: string[];
+}
+
+// Mapping akun entitas anggota ke akun holding, sekaligus penanda intercompany
+export interface ConsolidationAccountMapping {
+  id: string;
+  group_id: string;
+  entity_id: string;
+  account_code: string;
+  target_account_code: string;
+  is_intercompany: boolean;
+  created_at?: string;
+}
+
+export interface SaveConsolidationMappingData {
+  group_id: string;
+  entity_id: string;
+  account_code: string;
+  target_account_code: string;
+  is_intercompany: boolean;
+}
+
+export interface ConsolidatedReport {
+  group: EntityGroup;
+  period: string;
+  lines: ConsolidatedLine[];
+  realizations: BudgetRealization[]; // Data mentah per entitas
+}
+
+// ============================================
+// ENTITY GROUPS
+// ============================================
+
+/**
+ * Get entity groups of current user
+ */
+export async function getEntityGroups() {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { data: [], error: 'User not authenticated' };
+
+    const { data, error } = await supabase
+      .from('entity_groups')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data || []) as EntityGroup[], error: null };
+  } catch (error) {
+    console.error('[getEntityGroups] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Create (tanpa groupId) atau update entity group
+ */
+export async function saveEntityGroup(groupData: SaveEntityGroupData, groupId?: string) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    if (!groupData.name.trim()) throw new Error('Nama grup harus diisi');
+    if (!groupData.holding_entity_id) throw new Error('Pilih entitas holding');
+
+    // Holding selalu ikut menjadi anggota
+    const entityIds = Array.from(new Set([groupData.holding_entity_id, ...groupData.entity_ids]));
+    if (entityIds.length < 2) throw new Error('Grup minimal berisi holding dan satu anak usaha');
+
+    const payload = {
+      user_id: user.id,
+      name: groupData.name.trim(),
+      holding_entity_id: groupData.holding_entity_id,
+      entity_ids: entityIds,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = groupId
+      ? await supabase.from('entity_groups').update(payload).eq('id', groupId).select().single()
+      : await supabase.from('entity_groups').insert(payload).select().single();
+
+    if (error) throw error;
+
+    console.log('[saveEntityGroup] Saved:', data);
+    return { data: data as EntityGroup, error: null };
+  } catch (error) {
+    console.error('[saveEntityGroup] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Delete entity group (mapping ikut terhapus via cascade)
+ */
+export async function deleteEntityGroup(groupId: string) {
+  try {
+    const { error } = await supabase
+      .from('entity_groups')
+      .delete()
+      .eq('id', groupId);
+
+    if (error) throw error;
+
+    console.log('[deleteEntityGroup] Deleted group:', groupId);
+    return { error: null };
+  } catch (error) {
+    console.error('[deleteEntityGroup] Error:', error);
+    return { error };
+  }
+}
+
+// ============================================
+// ACCOUNT MAPPINGS & INTERCOMPANY
+// ============================================
+
+/**
+ * Get mapping akun untuk satu grup
+ */
+export async function getConsolidationMappings(groupId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('consolidation_account_mappings')
+      .select('*')
+      .eq('group_id', groupId);
+
+    if (error) throw error;
+    return { data: (data || []) as ConsolidationAccountMapping[], error: null };
+  } catch (error) {
+    console.error('[getConsolidationMappings] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Simpan mapping satu akun (insert atau update)
+ */
+export async function saveConsolidationMapping(mappingData: SaveConsolidationMappingData) {
+  try {
+    const { data, error } = await supabase
+      .from('consolidation_account_mappings')
+      .upsert(mappingData, { onConflict: 'group_id,entity_id,account_code' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    console.log('[saveConsolidationMapping] Saved:', data);
+    return { data: data as ConsolidationAccountMapping, error: null };
+  } catch (error) {
+    console.error('[saveConsolidationMapping] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Hapus mapping (akun kembali dipetakan ke kode yang sama)
+ */
+export async function deleteConsolidationMapping(mappingId: string) {
+  try {
+    const { error } = await supabase
+      .from('consolidation_account_mappings')
+      .delete()
+      .eq('id', mappingId);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error('[deleteConsolidationMapping] Error:', error);
+    return { error };
+  }
+}
+
+// ============================================
+// CONSOLIDATED REPORT
+// ============================================
+
+/**
+ * Laporan realisasi konsolidasi satu grup untuk satu periode
+ */
+export async function getConsolidatedReport(
+  group: EntityGroup,
+  period: string
+): Promise<{ data: ConsolidatedReport | null; error: unknown }> {
+  try {
+    const [realizationResults, mappingsResult, holdingAccountsResult] = await Promise.all([
+      Promise.all(group.entity_ids.map(entityId => getBudgetRealizationsLive(entityId, period))),
+      getConsolidationMappings(group.id),
+      supabase
+        .from('accurate_accounts')
+        .select('account_code, account_name')
+        .eq('entity_id', group.holding_entity_id),
+    ]);
+
+    const failed = realizationResults.find(result => result.error);
+    if (failed) throw failed.error;
+    if (mappingsResult.error) throw mappingsResult.error;
+    if (holdingAccountsResult.error) throw holdingAccountsResult.error;
+
+    const realizations = realizationResults.flatMap(result => result.data || []);
+    const holdingAccountNames = new Map(
+      (holdingAccountsResult.data || []).map(acc => [acc.account_code as string, acc.account_name as string])
+    );
+
+    const lines = consolidateRealizations(realizations, mappingsResult.data, holdingAccountNames);
+
+    console.log(`[getConsolidatedReport] ${group.name} ${period}: ${realizations.length} rows → ${lines.length} akun`);
+    return { data: { group, period, lines, realizations }, error: null };
+  } catch (error) {
+    console.error('[getConsolidatedReport] Error:', error);
+    return { data: null, error };
+  }
+}
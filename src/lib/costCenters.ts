@@ -0,0 +1,148 @@
+import { supabase } from './supabase';
+import { assertEntityPermission } from './workspaces';
+import type { AccurateDimensionType } from './accurate';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Cost center / departemen milik satu entitas
+export interface CostCenter {
+  id: string;
+  entity_id: string;
+  code: string;
+  name: string;
+  is_active: boolean;
+  // Tautan ke departemen / proyek Accurate untuk fetch realisasi
+  accurate_dimension?: AccurateDimensionType | null;
+  accurate_dimension_id?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SaveCostCenterData {
+  entity_id: string;
+  code: string;
+  name: string;
+  is_active?: boolean;
+  accurate_dimension?: AccurateDimensionType | null;
+  accurate_dimension_id?: string | null;
+}
+
+// ============================================
+// COST CENTER CRUD
+// ============================================
+
+/**
+ * Get cost center satu entitas
+ */
+export async function getCostCenters(entityId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('cost_centers')
+      .select('*')
+      .eq('entity_id', entityId)
+      .order('code', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data || []) as CostCenter[], error: null };
+  } catch (error) {
+    console.error('[getCostCenters] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Get cost center beberapa entitas sekaligus (dashboard semua entitas)
+ */
+export async function getCostCentersByEntities(entityIds: string[]) {
+  try {
+    if (entityIds.length === 0) return { data: [], error: null };
+
+    const { data, error } = await supabase
+      .from('cost_centers')
+      .select('*')
+      .in('entity_id', entityIds)
+      .order('code', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data || []) as CostCenter[], error: null };
+  } catch (error) {
+    console.error('[getCostCentersByEntities] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Create (tanpa costCenterId) atau update cost center
+ */
+export async function saveCostCenter(costCenterData: SaveCostCenterData, costCenterId?: string) {
+  try {
+    const code = costCenterData.code.trim();
+    const name = costCenterData.name.trim();
+    if (!code) throw new Error('Kode cost center harus diisi');
+    if (!name) throw new Error('Nama cost center harus diisi');
+
+    const dimensionId = costCenterData.accurate_dimension_id?.trim() || null;
+    if (costCenterData.accurate_dimension && !dimensionId) {
+      throw new Error('ID departemen / proyek Accurate harus diisi');
+    }
+
+    await assertEntityPermission(costCenterData.entity_id, 'EDIT_COA');
+
+    const payload = {
+      entity_id: costCenterData.entity_id,
+      code,
+      name,
+      is_active: costCenterData.is_active ?? true,
+      accurate_dimension: dimensionId ? costCenterData.accurate_dimension || null : null,
+      accurate_dimension_id: costCenterData.accurate_dimension ? dimensionId : null,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = costCenterId
+      ? await supabase.from('cost_centers').update(payload).eq('id', costCenterId).select().single()
+      : await supabase.from('cost_centers').insert(payload).select().single();
+
+    if (error) {
+      if (error.code === '23505') throw new Error(`Kode cost center ${code} sudah ada`);
+      throw error;
+    }
+
+    console.log('[saveCostCenter] Saved:', data);
+    return { data: data as CostCenter, error: null };
+  } catch (error) {
+    console.error('[saveCostCenter] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Delete cost center. Budget & item yang memakainya kembali tanpa cost center
+ * (FK on delete set null).
+ */
+export async function deleteCostCenter(costCenterId: string) {
+  try {
+    const { data: costCenter, error: costCenterError } = await supabase
+      .from('cost_centers')
+      .select('entity_id')
+      .eq('id', costCenterId)
+      .single();
+
+    if (costCenterError) throw costCenterError;
+    await assertEntityPermission(costCenter.entity_id, 'EDIT_COA');
+
+    const { error } = await supabase
+      .from('cost_centers')
+      .delete()
+      .eq('id', costCenterId);
+
+    if (error) throw error;
+
+    console.log('[deleteCostCenter] Deleted:', costCenterId);
+    return { error: null };
+  } catch (error) {
+    console.error('[deleteCostCenter] Error:', error);
+    return { error };
+  }
+}
@@ -0,0 +1,102 @@
+import { supabase } from './supabase';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Token Accurate disimpan oleh edge function `accurate-credential-vault` di
+ * Supabase Vault, direferensikan dari tabel `entity_credentials` (tanpa akses
+ * select dari client). Kolom lama `entity.api_token` sudah dipindahkan ke vault
+ * dan dihapus oleh migration. Client hanya melihat status di tabel `entity`:
+ * `has_api_token` dan 4 karakter terakhir token.
+ */
+export interface EntityCredentialStatus {
+  has_api_token?: boolean;
+  api_token_hint?: string | null;
+}
+
+export interface CredentialOwner {
+  entity_id: string;
+  entity_name: string;
+}
+
+type VaultAction = 'store' | 'delete' | 'find-owner';
+
+const VAULT_FUNCTION = 'accurate-credential-vault';
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function invokeVault<T>(action: VaultAction, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(VAULT_FUNCTION, {
+    body: { action, ...body },
+  });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Gagal mengakses credential vault');
+  return data.data as T;
+}
+
+export const formatTokenHint = (entity: EntityCredentialStatus): string => {
+  if (!entity.has_api_token) return 'Belum ada token';
+  return entity.api_token_hint ? `••••${entity.api_token_hint}` : 'Token tersimpan';
+};
+
+// ============================================
+// VAULT OPERATIONS
+// ============================================
+
+/**
+ * Simpan / ganti API token entitas. Token hanya dikirim sekali ke vault,
+ * tidak pernah dibaca kembali oleh client.
+ */
+export async function storeEntityCredential(entityId: string, apiToken: string) {
+  try {
+    if (!apiToken.trim()) throw new Error('API Token tidak boleh kosong');
+
+    const data = await invokeVault<EntityCredentialStatus>('store', {
+      entityId,
+      apiToken: apiToken.trim(),
+    });
+
+    console.log('[storeEntityCredential] Stored token for entity:', entityId);
+    return { data, error: null };
+  } catch (error) {
+    console.error('[storeEntityCredential] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Hapus API token entitas dari vault (mis. entitas diubah ke input manual)
+ */
+export async function deleteEntityCredential(entityId: string) {
+  try {
+    await invokeVault<null>('delete', { entityId });
+
+    console.log('[deleteEntityCredential] Deleted token for entity:', entityId);
+    return { error: null };
+  } catch (error) {
+    console.error('[deleteEntityCredential] Error:', error);
+    return { error };
+  }
+}
+
+/**
+ * Cari entitas lain yang sudah memakai token ini. Perbandingan dilakukan
+ * vault lewat hash token, jadi client tidak perlu memegang token entitas lain.
+ */
+export async function findCredentialOwner(apiToken: string, excludeEntityId?: string) {
+  try {
+    const data = await invokeVault<CredentialOwner | null>('find-owner', {
+      apiToken: apiToken.trim(),
+      excludeEntityId: excludeEntityId || null,
+    });
+    return { data, error: null };
+  } catch (error) {
+    console.error('[findCredentialOwner] Error:', error);
+    return { data: null, error };
+  }
+}
@@ -0,0 +1,151 @@
+import { supabase } from './supabase';
+import { getBudgetRealizationsLive, getRealizationSummaryLive } from './accurate';
+import { getMailTransport, type MailSendResult, type MailTransport } from './mailTransport';
+import { buildDigestEmail, getDigestPeriod, type DigestFrequency } from '../services/budgetDigest';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type { DigestFrequency } from '../services/budgetDigest';
+export { getDigestPeriod } from '../services/budgetDigest';
+
+export interface DigestSubscription {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  frequency: DigestFrequency;
+  email: string;
+  is_active: boolean;
+  last_sent_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SaveDigestSubscriptionData {
+  entity_id: string;
+  frequency: DigestFrequency;
+  email: string;
+  is_active: boolean;
+}
+
+// ============================================
+// SUBSCRIPTIONS
+// ============================================
+
+/**
+ * Get digest subscriptions of current user
+ */
+export async function getDigestSubscriptions() {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { data: [], error: 'User not authenticated' };
+
+    const { data, error } = await supabase
+      .from('digest_subscriptions')
+      .select('*')
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+    return { data: (data || []) as DigestSubscription[], error: null };
+  } catch (error) {
+    console.error('[getDigestSubscriptions] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Simpan pengaturan digest user untuk satu entitas (insert atau update)
+ */
+export async function saveDigestSubscription(subscriptionData: SaveDigestSubscriptionData) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    if (!subscriptionData.email.includes('@')) {
+      throw new Error('Alamat email tidak valid');
+    }
+
+    const { data, error } = await supabase
+      .from('digest_subscriptions')
+      .upsert(
+        {
+          user_id: user.id,
+          entity_id: subscriptionData.entity_id,
+          frequency: subscriptionData.frequency,
+          email: subscriptionData.email.trim(),
+          is_active: subscriptionData.is_active,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,entity_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    console.log('[saveDigestSubscription] Saved:', data);
+    return { data: data as DigestSubscription, error: null };
+  } catch (error) {
+    console.error('[saveDigestSubscription] Error:', error);
+    return { data: null, error };
+  }
+}
+
+// ============================================
+// SEND
+// ============================================
+
+/**
+ * Susun dan kirim digest untuk satu subscription (tombol "kirim sekarang").
+ * Digest terjadwal dikirim server oleh edge function `send-digests` via pg_cron.
+ */
+export async function sendDigest(
+  subscription: DigestSubscription,
+  transport: MailTransport = getMailTransport()
+): Promise<{ data: MailSendResult | null; error: unknown }> {
+  try {
+    const period = getDigestPeriod(subscription.frequency);
+
+    const { data: entity, error: entityError } = await supabase
+      .from('entity')
+      .select('entity_name')
+      .eq('id', subscription.entity_id)
+      .single();
+
+    if (entityError) throw entityError;
+
+    const [summaryResult, realizationsResult] = await Promise.all([
+      getRealizationSummaryLive(subscription.entity_id, period),
+      getBudgetRealizationsLive(subscription.entity_id, period),
+    ]);
+
+    if (summaryResult.error) throw summaryResult.error;
+    if (realizationsResult.error) throw realizationsResult.error;
+
+    const message = buildDigestEmail(subscription.email, subscription.frequency, [
+      {
+        entityName: entity.entity_name || 'Entitas',
+        period,
+        summary: summaryResult.data,
+        realizations: realizationsResult.data,
+      },
+    ]);
+
+    const result = await transport.send(message);
+    if (!result.success) throw new Error(result.error || 'Gagal mengirim digest');
+
+    const { error: updateError } = await supabase
+      .from('digest_subscriptions')
+      .update({ last_sent_at: new Date().toISOString() })
+      .eq('id', subscription.id);
+
+    if (updateError) throw updateError;
+
+    console.log(`[sendDigest] Sent via ${result.transport} to`, subscription.email);
+    return { data: result, error: null };
+  } catch (error) {
+    console.error('[sendDigest] Error:', error);
+    return { data: null, error };
+  }
+}
@@ -0,0 +1,290 @@
+import { supabase } from './supabase';
+import type { Budget, BudgetItem } from './accurate';
+import {
+  addMonths,
+  budgetCoversPeriod,
+  formatPeriodLabel,
+  getFiscalMonths,
+  getItemSchedule,
+  MONTHS_IN_FISCAL_YEAR,
+} from '../services/budgetPhasing';
+import { isBalanceSheetAccount } from '../services/comparison';
+import { resolveCostCenterId } from '../services/costCenters';
+import {
+  buildForecast,
+  sortByOverrun,
+  type ForecastMethod,
+  type ForecastResult,
+  type MonthlyActuals,
+} from '../services/forecast';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Proyeksi akhir tahun untuk satu akun dalam satu tahun anggaran
+export interface AccountForecast extends ForecastResult {
+  key: string;
+  entity_id: string;
+  budget_id: string | null; // null untuk gabungan budget bulanan
+  budget_name: string;
+  cost_center_id: string | null;
+  cost_center_name: string | null;
+  account_code: string;
+  account_name: string;
+  account_type?: string | null;
+  start_period: string;
+  annual_budget: number;
+}
+
+type ForecastBudget = Pick<Budget, 'id' | 'entity_id' | 'name' | 'period' | 'period_type' | 'cost_center_id'>;
+
+type ForecastItem = Pick<
+  BudgetItem,
+  | 'budget_id'
+  | 'cost_center_id'
+  | 'account_code'
+  | 'account_name'
+  | 'account_type'
+  | 'allocated_amount'
+  | 'monthly_allocations'
+  | 'monthly_realisasi'
+  | 'realisasi_snapshot'
+>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Kunci riwayat & grup budget bulanan: entitas + cost center efektif + akun
+ */
+const getForecastKey = (budget: ForecastBudget, item: ForecastItem): string =>
+  `${budget.entity_id}:${resolveCostCenterId(item.cost_center_id, budget.cost_center_id) || ''}:${item.account_code}`;
+
+/**
+ * Riwayat mutasi bulanan per entitas + cost center + akun dari semua budget.
+ * Budget FISCAL_YEAR menyumbang monthly_realisasi (mutasi), budget bulanan
+ * menyumbang realisasi_snapshot di periodenya: mutasi untuk akun PL, saldo
+ * akhir untuk akun BS yang diubah menjadi selisih terhadap saldo bulan
+ * sebelumnya (tanpa saldo bulan sebelumnya, bulan tsb tidak punya mutasi).
+ * Periode yang sama dari beberapa budget tidak dijumlahkan (saldo akun yang sama).
+ */
+const buildActualsHistory = (budgets: ForecastBudget[], items: ForecastItem[]) => {
+  const history = new Map<string, MonthlyActuals>();
+  const balances = new Map<string, Map<string, number>>();
+
+  for (const item of items) {
+    const budget = budgets.find((b) => b.id === item.budget_id);
+    if (!budget) continue;
+
+    const key = getForecastKey(budget, item);
+    const actuals = history.get(key) || new Map<string, number>();
+
+    if (budget.period_type === 'FISCAL_YEAR') {
+      (item.monthly_realisasi || []).forEach((amount, index) => {
+        const month = getFiscalMonths(budget.period)[index];
+        if (month && !actuals.has(month)) actuals.set(month, Number(amount) || 0);
+      });
+    } else if (isBalanceSheetAccount(item.account_type)) {
+      const closing = balances.get(key) || new Map<string, number>();
+      if (!closing.has(budget.period)) closing.set(budget.period, item.realisasi_snapshot || 0);
+      balances.set(key, closing);
+    } else if (!actuals.has(budget.period)) {
+      actuals.set(budget.period, item.realisasi_snapshot || 0);
+    }
+
+    history.set(key, actuals);
+  }
+
+  for (const [key, closing] of balances) {
+    const actuals = history.get(key) || new Map<string, number>();
+    for (const [month, balance] of closing) {
+      const previous = closing.get(addMonths(month, -1));
+      if (previous !== undefined && !actuals.has(month)) actuals.set(month, balance - previous);
+    }
+    history.set(key, actuals);
+  }
+
+  return history;
+};
+
+/**
+ * Bulan awal tahun anggaran entitas yang mencakup `asOfPeriod`.
+ * Mengikuti bulan awal budget FISCAL_YEAR entitas (yang terakhir dimulai
+ * sebelum `asOfPeriod`), default Januari jika entitas belum punya.
+ */
+const getEntityYearStart = (budgets: ForecastBudget[], entityId: string, asOfPeriod: string): string => {
+  const fiscalStarts = budgets
+    .filter((b) => b.entity_id === entityId && b.period_type === 'FISCAL_YEAR')
+    .map((b) => b.period)
+    .sort();
+  const reference = fiscalStarts.filter((period) => period <= asOfPeriod).pop() || fiscalStarts[0];
+  const startMonth = reference ? reference.slice(5, 7) : '01';
+  const yearStart = `${asOfPeriod.slice(0, 4)}-${startMonth}`;
+  return yearStart <= asOfPeriod ? yearStart : addMonths(yearStart, -12);
+};
+
+// ============================================
+// ROLLING FORECAST
+// ============================================
+
+/**
+ * Proyeksi akhir tahun semua akun ber-budget per periode `asOfPeriod`.
+ *
+ * - Budget FISCAL_YEAR yang mencakup periode: satu proyeksi per item
+ * - Budget bulanan: digabung per akun & cost center untuk tahun anggaran
+ *   entitas yang mencakup periode tsb; budget tahunan = jumlah budget
+ *   bulanan dan proyeksi hanya untuk bulan yang ber-budget
+ */
+export async function getAccountForecasts(
+  entityIds: string[],
+  asOfPeriod: string,
+  method: ForecastMethod
+): Promise<{ data: AccountForecast[]; error: unknown }> {
+  try {
+    if (entityIds.length === 0 || !asOfPeriod) return { data: [], error: null };
+
+    const { data: budgetRows, error: budgetError } = await supabase
+      .from('budgets')
+      .select('id, entity_id, name, period, period_type, cost_center_id')
+      .in('entity_id', entityIds);
+
+    if (budgetError) throw budgetError;
+
+    const budgets = (budgetRows || []) as ForecastBudget[];
+    if (budgets.length === 0) return { data: [], error: null };
+
+    const { data: itemRows, error: itemError } = await supabase
+      .from('budget_items')
+      .select('budget_id, cost_center_id, account_code, account_name, account_type, allocated_amount, monthly_allocations, monthly_realisasi, realisasi_snapshot')
+      .in('budget_id', budgets.map((b) => b.id));
+
+    if (itemError) throw itemError;
+
+    const { data: costCenterRows, error: costCenterError } = await supabase
+      .from('cost_centers')
+      .select('id, code, name')
+      .in('entity_id', entityIds);
+
+    if (costCenterError) throw costCenterError;
+
+    const costCenterNames = new Map(
+      (costCenterRows || []).map((cc) => [cc.id as string, `${cc.code} - ${cc.name}`])
+    );
+
+    const items = (itemRows || []) as ForecastItem[];
+    const history = buildActualsHistory(budgets, items);
+    const forecasts: AccountForecast[] = [];
+
+    // Budget tahun fiskal
+    for (const budget of budgets) {
+      if (budget.period_type !== 'FISCAL_YEAR' || !budgetCoversPeriod(budget, asOfPeriod)) continue;
+
+      for (const item of items.filter((i) => i.budget_id === budget.id)) {
+        const key = getForecastKey(budget, item);
+        const costCenterId = resolveCostCenterId(item.cost_center_id, budget.cost_center_id);
+        const result = buildForecast(
+          {
+            annualBudget: item.allocated_amount || 0,
+            startPeriod: budget.period,
+            asOfPeriod,
+            actuals: history.get(key) || new Map(),
+            budgetSchedule: getItemSchedule(item),
+          },
+          method
+        );
+
+        forecasts.push({
+          ...result,
+          key: `${budget.id}:${key}`,
+          entity_id: budget.entity_id,
+          budget_id: budget.id,
+          budget_name: budget.name,
+          cost_center_id: costCenterId,
+          cost_center_name: costCenterId ? costCenterNames.get(costCenterId) || null : null,
+          account_code: item.account_code,
+          account_name: item.account_name,
+          account_type: item.account_type,
+          start_period: budget.period,
+          annual_budget: item.allocated_amount || 0,
+        });
+      }
+    }
+
+    // Budget bulanan, digabung per akun untuk tahun anggaran entitas
+    const yearStarts = new Map(entityIds.map((id) => [id, getEntityYearStart(budgets, id, asOfPeriod)]));
+    const monthlyGroups = new Map<
+      string,
+      {
+        entityId: string;
+        costCenterId: string | null;
+        yearStart: string;
+        item: ForecastItem;
+        schedule: number[];
+        budgeted: boolean[];
+      }
+    >();
+
+    for (const budget of budgets) {
+      if (budget.period_type === 'FISCAL_YEAR') continue;
+      const yearStart = yearStarts.get(budget.entity_id);
+      if (!yearStart) continue;
+      const monthIndex = getFiscalMonths(yearStart).indexOf(budget.period);
+      if (monthIndex === -1) continue;
+
+      for (const item of items.filter((i) => i.budget_id === budget.id)) {
+        const key = getForecastKey(budget, item);
+        const group = monthlyGroups.get(key) || {
+          entityId: budget.entity_id,
+          costCenterId: resolveCostCenterId(item.cost_center_id, budget.cost_center_id),
+          yearStart,
+          item,
+          schedule: Array(MONTHS_IN_FISCAL_YEAR).fill(0),
+          budgeted: Array(MONTHS_IN_FISCAL_YEAR).fill(false),
+        };
+        group.schedule[monthIndex] += item.allocated_amount || 0;
+        group.budgeted[monthIndex] = true;
+        monthlyGroups.set(key, group);
+      }
+    }
+
+    for (const [key, group] of monthlyGroups) {
+      const annualBudget = group.schedule.reduce((sum, amount) => sum + amount, 0);
+      const result = buildForecast(
+        {
+          annualBudget,
+          startPeriod: group.yearStart,
+          asOfPeriod,
+          actuals: history.get(key) || new Map(),
+          budgetSchedule: group.schedule,
+          budgetedMonths: group.budgeted,
+        },
+        method
+      );
+
+      forecasts.push({
+        ...result,
+        key: `monthly:${key}`,
+        entity_id: group.entityId,
+        budget_id: null,
+        budget_name: `Budget bulanan ${formatPeriodLabel(group.yearStart)} – ${formatPeriodLabel(
+          addMonths(group.yearStart, MONTHS_IN_FISCAL_YEAR - 1)
+        )}`,
+        cost_center_id: group.costCenterId,
+        cost_center_name: group.costCenterId ? costCenterNames.get(group.costCenterId) || null : null,
+        account_code: group.item.account_code,
+        account_name: group.item.account_name,
+        account_type: group.item.account_type,
+        start_period: group.yearStart,
+        annual_budget: annualBudget,
+      });
+    }
+
+    console.log('[getAccountForecasts] ✅', forecasts.length, 'forecasts for', asOfPeriod, method);
+    return { data: sortByOverrun(forecasts), error: null };
+  } catch (error) {
+    console.error('[getAccountForecasts] Error:', error);
+    return { data: [], error };
+  }
+}
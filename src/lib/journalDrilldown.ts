@@ -0,0 +1,94 @@
+import { supabase } from './supabase';
+import {
+  fetchAccountJournalEntries,
+  type AccurateDimensionFilter,
+  type AccurateJournalEntry,
+} from './accurate';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface JournalDrilldownRequest {
+  entityId: string;
+  accountCode: string;
+  fromPeriod: string;
+  toPeriod: string;
+  dimension?: AccurateDimensionFilter | null;
+}
+
+export interface JournalDrilldownResult {
+  entries: AccurateJournalEntry[];
+  fetched_at: string;
+  from_cache: boolean;
+}
+
+// Cache jurnal dianggap basi setelah 6 jam
+export const JOURNAL_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const toDimensionKey = (dimension?: AccurateDimensionFilter | null): string =>
+  dimension ? `${dimension.type}:${dimension.id}` : '';
+
+// ============================================
+// DRILL-DOWN
+// ============================================
+
+/**
+ * Transaksi jurnal di balik satu baris realisasi.
+ * Dibaca dari accurate_journal_cache selama belum lewat TTL,
+ * selain itu (atau dengan forceRefresh) diambil ulang dari Accurate
+ * oleh edge function yang sekaligus memperbarui cache.
+ */
+export async function getAccountJournalEntries(
+  request: JournalDrilldownRequest,
+  forceRefresh = false
+): Promise<{ data: JournalDrilldownResult | null; error: unknown }> {
+  const dimensionKey = toDimensionKey(request.dimension);
+
+  try {
+    if (!forceRefresh) {
+      const { data: cached, error: cacheError } = await supabase
+        .from('accurate_journal_cache')
+        .select('entries, fetched_at')
+        .eq('entity_id', request.entityId)
+        .eq('account_code', request.accountCode)
+        .eq('from_period', request.fromPeriod)
+        .eq('to_period', request.toPeriod)
+        .eq('dimension_key', dimensionKey)
+        .maybeSingle();
+
+      if (cacheError) console.warn('[getAccountJournalEntries] Cache read failed:', cacheError);
+
+      if (cached && Date.now() - new Date(cached.fetched_at).getTime() < JOURNAL_CACHE_TTL_MS) {
+        console.log('[getAccountJournalEntries] Cache hit:', request.accountCode, request.toPeriod);
+        return {
+          data: { entries: cached.entries || [], fetched_at: cached.fetched_at, from_cache: true },
+          error: null,
+        };
+      }
+    }
+
+    const result = await fetchAccountJournalEntries(
+      request.entityId,
+      request.accountCode,
+      request.fromPeriod,
+      request.toPeriod,
+      request.dimension || undefined
+    );
+
+    if (!result.success) throw new Error(result.error || 'Gagal mengambil jurnal dari Accurate');
+
+    // Cache ditulis edge function accurate-fetch-journal-entries
+    const entries = result.entries || [];
+    const fetchedAt = new Date().toISOString();
+
+    return { data: { entries, fetched_at: fetchedAt, from_cache: false }, error: null };
+  } catch (error) {
+    console.error('[getAccountJournalEntries] Error:', error);
+    return { data: null, error };
+  }
+}
@@ -0,0 +1,109 @@
+import { saveAs } from 'file-saver';
+import { supabase } from './supabase';
+import type { MailTransport } from '../../supabase/functions/_shared/mail.ts';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type { MailMessage, MailSendResult, MailTransport } from '../../supabase/functions/_shared/mail.ts';
+
+export type MailTransportKind = 'smtp' | 'console' | 'file';
+
+// ============================================
+// ADAPTERS
+// ============================================
+
+/**
+ * SMTP via edge function `send-smtp-mail`.
+ * Host, port dan kredensial SMTP disimpan sebagai secret edge function,
+ * bukan di frontend.
+ */
+export function createSmtpTransport(functionName: string = 'send-smtp-mail'): MailTransport {
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      try {
+        const { data, error } = await supabase.functions.invoke(functionName, {
+          body: message,
+        });
+
+        if (error) {
+          console.error('[smtpTransport] Edge error:', error);
+          return { success: false, transport: 'smtp', error: data?.error || error.message };
+        }
+
+        if (!data?.success) {
+          return { success: false, transport: 'smtp', error: data?.error || 'Gagal mengirim email' };
+        }
+
+        return { success: true, transport: 'smtp' };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+        console.error('[smtpTransport] Error:', error);
+        return { success: false, transport: 'smtp', error: errorMsg };
+      }
+    },
+  };
+}
+
+/**
+ * Tulis email ke console browser (untuk development/testing)
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    send: async (message) => {
+      console.log(`[consoleTransport] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+      return { success: true, transport: 'console' };
+    },
+  };
+}
+
+/**
+ * Simpan email sebagai file .eml yang bisa dibuka di email client (untuk testing)
+ */
+export function createFileTransport(): MailTransport {
+  return {
+    name: 'file',
+    send: async (message) => {
+      const boundary = `digest-${Date.now()}`;
+      const eml = [
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text,
+        `--${boundary}`,
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        message.html,
+        `--${boundary}--`,
+      ].join('\r\n');
+
+      const fileName = `${message.subject.replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'email'}.eml`;
+      saveAs(new Blob([eml], { type: 'message/rfc822' }), fileName);
+      return { success: true, transport: 'file' };
+    },
+  };
+}
+
+/**
+ * Transport sesuai konfigurasi VITE_MAIL_TRANSPORT (default: console)
+ */
+export function getMailTransport(
+  kind: MailTransportKind = (import.meta.env.VITE_MAIL_TRANSPORT as MailTransportKind) || 'console'
+): MailTransport {
+  switch (kind) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport();
+    default:
+      return createConsoleTransport();
+  }
+}
@@ -0,0 +1,115 @@
+import { supabase } from './supabase';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RefreshTrigger = 'MANUAL' | 'SCHEDULED';
+
+export type RefreshStatus = 'RUNNING' | 'SUCCESS' | 'PARTIAL' | 'FAILED';
+
+export interface RealizationRefreshRun {
+  id: string;
+  entity_id: string;
+  periods: string[];
+  trigger: RefreshTrigger;
+  status: RefreshStatus;
+  updated_items: number;
+  error_message?: string | null;
+  started_at: string;
+  finished_at?: string | null;
+}
+
+// Satu nilai realisasi hasil refresh, disimpan per budget item
+export interface RealisasiHistoryEntry {
+  id: string;
+  budget_item_id: string;
+  budget_id: string;
+  realisasi: number;
+  allocated_amount: number;
+  trigger: RefreshTrigger;
+  recorded_at: string;
+}
+
+export interface RefreshRealizationResult {
+  status: RefreshStatus;
+  updated_items: number;
+  fetched_periods: string[];
+  failed_periods: string[];
+  refreshed_at: string;
+}
+
+// ============================================
+// REFRESH REALISASI
+// ============================================
+
+/**
+ * Refresh realisasi entitas dari Accurate lewat edge function
+ * refresh-realizations (yang juga dijalankan pg_cron setiap jam).
+ * Server menulis budget_items, riwayat realisasi & log refresh lalu
+ * mengevaluasi alert rule; refresh kedua untuk entitas yang sama ditolak
+ * selama refresh sebelumnya masih berjalan.
+ */
+export async function refreshBudgetRealizations(
+  entityId: string,
+  periods: string[]
+): Promise<{ data: RefreshRealizationResult | null; error: unknown }> {
+  try {
+    console.log('[refreshBudgetRealizations] Starting:', entityId, periods);
+
+    const { data, error } = await supabase.functions.invoke('refresh-realizations', {
+      body: { entityId, periods },
+    });
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Gagal refresh realisasi dari Accurate');
+
+    console.log('[refreshBudgetRealizations] ✅ Updated', data.updated_items, 'items');
+    return { data: data as RefreshRealizationResult, error: null };
+  } catch (error) {
+    console.error('[refreshBudgetRealizations] ❌ Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get last refresh run for an entity
+ */
+export async function getLastRealizationRefresh(entityId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('realization_refresh_runs')
+      .select('*')
+      .eq('entity_id', entityId)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return { data: data as RealizationRefreshRun | null, error: null };
+  } catch (error) {
+    console.error('[getLastRealizationRefresh] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Get realization history for budget items (urut dari yang paling lama)
+ */
+export async function getRealisasiHistory(budgetItemIds: string[]) {
+  try {
+    if (budgetItemIds.length === 0) return { data: [], error: null };
+
+    const { data, error } = await supabase
+      .from('budget_item_realisasi_history')
+      .select('*')
+      .in('budget_item_id', budgetItemIds)
+      .order('recorded_at', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data || []) as RealisasiHistoryEntry[], error: null };
+  } catch (error) {
+    console.error('[getRealisasiHistory] Error:', error);
+    return { data: [], error };
+  }
+}
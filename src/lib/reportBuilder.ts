@@ -0,0 +1,202 @@
+import { supabase } from './supabase';
+import type { Budget, BudgetItem } from './accurate';
+import { getFiscalMonths, getItemSchedule } from '../services/budgetPhasing';
+import type { ReportConfig, ReportFact } from '../services/reportBuilder';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReportDefinition {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  config: ReportConfig;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SaveReportDefinitionData {
+  name: string;
+  description?: string | null;
+  config: ReportConfig;
+}
+
+type ReportBudget = Pick<Budget, 'id' | 'entity_id' | 'name' | 'period' | 'period_type'>;
+
+type ReportItem = Pick<
+  BudgetItem,
+  | 'budget_id'
+  | 'account_code'
+  | 'account_name'
+  | 'account_type'
+  | 'allocated_amount'
+  | 'monthly_allocations'
+  | 'monthly_realisasi'
+  | 'realisasi_snapshot'
+>;
+
+// ============================================
+// REPORT DEFINITIONS CRUD
+// ============================================
+
+/**
+ * Get saved report definitions milik user
+ */
+export async function getReportDefinitions() {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('report_definitions')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data || []) as ReportDefinition[], error: null };
+  } catch (error) {
+    console.error('[getReportDefinitions] Error:', error);
+    return { data: [] as ReportDefinition[], error };
+  }
+}
+
+/**
+ * Simpan definisi laporan baru, atau update jika `definitionId` diisi
+ */
+export async function saveReportDefinition(definitionData: SaveReportDefinitionData, definitionId?: string) {
+  try {
+    if (!definitionData.name.trim()) {
+      throw new Error('Nama laporan harus diisi');
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const payload = {
+      name: definitionData.name.trim(),
+      description: definitionData.description?.trim() || null,
+      config: definitionData.config,
+    };
+
+    const query = definitionId
+      ? supabase
+          .from('report_definitions')
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq('id', definitionId)
+      : supabase
+          .from('report_definitions')
+          .insert({ ...payload, user_id: user.id });
+
+    const { data, error } = await query.select().single();
+
+    if (error) throw error;
+
+    console.log('[saveReportDefinition] Saved:', data.id);
+    return { data: data as ReportDefinition, error: null };
+  } catch (error) {
+    console.error('[saveReportDefinition] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Delete report definition
+ */
+export async function deleteReportDefinition(definitionId: string) {
+  try {
+    const { error } = await supabase
+      .from('report_definitions')
+      .delete()
+      .eq('id', definitionId);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error('[deleteReportDefinition] Error:', error);
+    return { error };
+  }
+}
+
+// ============================================
+// REPORT DATA
+// ============================================
+
+/**
+ * Fakta laporan per bulan untuk entitas & rentang periode.
+ * Budget FISCAL_YEAR dipecah per bulan dari jadwal alokasi dan
+ * monthly_realisasi; budget bulanan memakai realisasi_snapshot.
+ */
+export async function getReportFacts(
+  entityIds: string[],
+  periodFrom: string,
+  periodTo: string
+): Promise<{ data: ReportFact[]; error: unknown }> {
+  try {
+    if (entityIds.length === 0) return { data: [], error: null };
+
+    const [{ data: entityRows, error: entityError }, { data: budgetRows, error: budgetError }] = await Promise.all([
+      supabase.from('entity').select('id, entity_name').in('id', entityIds),
+      supabase.from('budgets').select('id, entity_id, name, period, period_type').in('entity_id', entityIds),
+    ]);
+
+    if (entityError) throw entityError;
+    if (budgetError) throw budgetError;
+
+    const budgets = (budgetRows || []) as ReportBudget[];
+    if (budgets.length === 0) return { data: [], error: null };
+
+    const { data: itemRows, error: itemError } = await supabase
+      .from('budget_items')
+      .select('budget_id, account_code, account_name, account_type, allocated_amount, monthly_allocations, monthly_realisasi, realisasi_snapshot')
+      .in('budget_id', budgets.map((b) => b.id));
+
+    if (itemError) throw itemError;
+
+    const entityNames = new Map((entityRows || []).map((entity) => [entity.id, entity.entity_name as string]));
+    const inRange = (period: string) => period >= periodFrom && period <= periodTo;
+    const facts: ReportFact[] = [];
+
+    for (const item of (itemRows || []) as ReportItem[]) {
+      const budget = budgets.find((b) => b.id === item.budget_id);
+      if (!budget) continue;
+
+      const base = {
+        entity_id: budget.entity_id,
+        entity_name: entityNames.get(budget.entity_id) || '-',
+        budget_name: budget.name,
+        account_code: item.account_code,
+        account_name: item.account_name,
+        account_type: item.account_type || null,
+      };
+
+      if (budget.period_type === 'FISCAL_YEAR') {
+        const schedule = getItemSchedule(item);
+        getFiscalMonths(budget.period).forEach((month, index) => {
+          if (!inRange(month)) return;
+          facts.push({
+            ...base,
+            period: month,
+            budget: schedule[index] || 0,
+            actual: Number(item.monthly_realisasi?.[index]) || 0,
+          });
+        });
+      } else if (inRange(budget.period)) {
+        facts.push({
+          ...base,
+          period: budget.period,
+          budget: item.allocated_amount || 0,
+          actual: item.realisasi_snapshot || 0,
+        });
+      }
+    }
+
+    console.log('[getReportFacts] ✅', facts.length, 'facts', periodFrom, '-', periodTo);
+    return { data: facts, error: null };
+  } catch (error) {
+    console.error('[getReportFacts] Error:', error);
+    return { data: [], error };
+  }
+}
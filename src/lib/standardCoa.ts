@@ -0,0 +1,198 @@
+import { supabase } from './supabase';
+import { assertEntityPermission } from './workspaces';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Akun COA standar grup, dipakai bersama oleh semua entitas milik user
+export interface StandardAccount {
+  id: string;
+  user_id: string;
+  code: string;
+  name: string;
+  account_type: string | null;
+  created_at?: string;
+}
+
+export interface SaveStandardAccountData {
+  code: string;
+  name: string;
+  account_type?: string | null;
+}
+
+// Mapping akun entitas (accurate_accounts) ke akun standar
+export interface StandardAccountMapping {
+  id: string;
+  entity_id: string;
+  account_code: string;
+  accurate_id: string | null;
+  standard_account_id: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SaveStandardMappingData {
+  entity_id: string;
+  account_code: string;
+  accurate_id?: string | null;
+  standard_account_id: string;
+}
+
+// ============================================
+// STANDARD ACCOUNTS
+// ============================================
+
+/**
+ * Get COA standar milik user
+ */
+export async function getStandardAccounts() {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { data: [], error: 'User not authenticated' };
+
+    const { data, error } = await supabase
+      .from('standard_accounts')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('code', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data || []) as StandardAccount[], error: null };
+  } catch (error) {
+    console.error('[getStandardAccounts] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Create (tanpa accountId) atau update akun standar
+ */
+export async function saveStandardAccount(accountData: SaveStandardAccountData, accountId?: string) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const code = accountData.code.trim();
+    const name = accountData.name.trim();
+    if (!code) throw new Error('Kode akun standar harus diisi');
+    if (!name) throw new Error('Nama akun standar harus diisi');
+
+    const payload = {
+      user_id: user.id,
+      code,
+      name,
+      account_type: accountData.account_type || null,
+    };
+
+    const { data, error } = accountId
+      ? await supabase.from('standard_accounts').update(payload).eq('id', accountId).select().single()
+      : await supabase.from('standard_accounts').insert(payload).select().single();
+
+    if (error) {
+      if (error.code === '23505') throw new Error(`Kode akun standar ${code} sudah ada`);
+      throw error;
+    }
+
+    console.log('[saveStandardAccount] Saved:', data);
+    return { data: data as StandardAccount, error: null };
+  } catch (error) {
+    console.error('[saveStandardAccount] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Delete akun standar (mapping ikut terhapus via cascade)
+ */
+export async function deleteStandardAccount(accountId: string) {
+  try {
+    const { error } = await supabase
+      .from('standard_accounts')
+      .delete()
+      .eq('id', accountId);
+
+    if (error) throw error;
+
+    console.log('[deleteStandardAccount] Deleted:', accountId);
+    return { error: null };
+  } catch (error) {
+    console.error('[deleteStandardAccount] Error:', error);
+    return { error };
+  }
+}
+
+// ============================================
+// ENTITY → STANDARD MAPPINGS
+// ============================================
+
+/**
+ * Get mapping akun standar untuk satu atau beberapa entitas
+ */
+export async function getStandardMappings(entityIds: string[]) {
+  try {
+    if (entityIds.length === 0) return { data: [], error: null };
+
+    const { data, error } = await supabase
+      .from('standard_account_mappings')
+      .select('*')
+      .in('entity_id', entityIds);
+
+    if (error) throw error;
+    return { data: (data || []) as StandardAccountMapping[], error: null };
+  } catch (error) {
+    console.error('[getStandardMappings] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Simpan mapping banyak akun sekaligus (insert atau update)
+ */
+export async function saveStandardMappings(mappings: SaveStandardMappingData[]) {
+  try {
+    if (mappings.length === 0) return { data: [], error: null };
+
+    for (const entityId of new Set(mappings.map((m) => m.entity_id))) {
+      await assertEntityPermission(entityId, 'EDIT_COA');
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('standard_account_mappings')
+      .upsert(
+        mappings.map((m) => ({ ...m, accurate_id: m.accurate_id || null, updated_at: now })),
+        { onConflict: 'entity_id,account_code' }
+      )
+      .select();
+
+    if (error) throw error;
+
+    console.log(`[saveStandardMappings] Saved ${data?.length || 0} mappings`);
+    return { data: (data || []) as StandardAccountMapping[], error: null };
+  } catch (error) {
+    console.error('[saveStandardMappings] Error:', error);
+    return { data: [], error };
+  }
+}
+
+/**
+ * Hapus mapping satu akun entitas
+ */
+export async function deleteStandardMapping(entityId: string, accountCode: string) {
+  try {
+    await assertEntityPermission(entityId, 'EDIT_COA');
+
+    const { error } = await supabase
+      .from('standard_account_mappings')
+      .delete()
+      .eq('entity_id', entityId)
+      .eq('account_code', accountCode);
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error('[deleteStandardMapping] Error:', error);
+    return { error };
+  }
+}
@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
+import { assertEntityPermission, getEntityRole, type WorkspaceRole } from './workspaces';
+import { resolveEntityRole } from '../services/workspaceRoles';
+import { deleteEntityCredential, storeEntityCredential } from './credentialVault';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -17,9 +20,18 @@ export const supabase = createClient(supabaseUrl, supabaseKey, {
 });
 
 // ============================================
-// ENTITY FUNCTIONS (UPDATED WITH user_id)
+// ENTITY FUNCTIONS (UPDATED WITH user_id & WORKSPACE)
 // ============================================
 
+// Kolom entity yang dibaca client; API token hanya ada di credential vault
+const ENTITY_COLUMNS =
+  'id, entity_name, method, description, accurate_database_id, user_id, workspace_id, is_public, has_api_token, api_token_hint, created_at';
+
+/**
+ * Entitas pribadi milik user ditambah entitas di workspace yang ia ikuti.
+ * Setiap baris diberi `role` sesuai peran user atas entitas tersebut;
+ * akses yang sama ditegakkan RLS tabel entity.
+ */
 export const getEntities = async () => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
@@ -28,13 +40,31 @@ export const getEntities = async () => {
       return { data: null, error: 'User not authenticated' };
     }
 
+    const { data: memberships, error: memberError } = await supabase
+      .from('workspace_members')
+      .select('workspace_id, role')
+      .eq('user_id', user.id);
+
+    if (memberError) return { data: null, error: memberError };
+
+    const workspaceIds = (memberships || []).map((m) => m.workspace_id);
+    const ownFilter = `and(user_id.eq.${user.id},workspace_id.is.null)`;
+    const filter = workspaceIds.length > 0
+      ? `${ownFilter},workspace_id.in.(${workspaceIds.join(',')})`
+      : ownFilter;
+
     const { data, error } = await supabase
       .from('entity')
-      .select('*')
-      .eq('user_id', user.id)
+      .select(ENTITY_COLUMNS)
+      .or(filter)
       .order('entity_name');
+
+    const rows = (data || []).map((entity) => ({
+      ...entity,
+      role: resolveEntityRole(entity, user.id, (memberships || []) as { workspace_id: string; role: WorkspaceRole }[]),
+    }));
     
-    return { data, error };
+    return { data: data ? rows : null, error };
   } catch (err) {
     return { data: null, error: err };
   }
@@ -48,19 +78,27 @@ export const getEntityById = async (entityId: string) => {
       return { data: null, error: 'User not authenticated' };
     }
 
+    const role = await getEntityRole(entityId);
+    if (!role) {
+      return { data: null, error: 'Akses ditolak: entitas tidak ditemukan di workspace Anda' };
+    }
+
     const { data, error } = await supabase
       .from('entity')
-      .select('*')
+      .select(ENTITY_COLUMNS)
       .eq('id', entityId)
-      .eq('user_id', user.id)
       .single();
     
-    return { data, error };
+    return { data: data ? { ...data, role } : null, error };
   } catch (err) {
     return { data: null, error: err };
   }
 };
 
+/**
+ * `api_token` tidak pernah ditulis ke tabel entity; token diteruskan ke
+ * credential vault setelah baris entitas tersimpan.
+ */
 export const insertEntity = async (entityData: {
   entity_name: string;
   method?: string;
@@ -75,15 +113,26 @@ export const insertEntity = async (entityData: {
       return { data: null, error: 'User not authenticated' };
     }
 
+    const { api_token: apiToken, ...entityFields } = entityData;
+
     const { data, error } = await supabase
       .from('entity')
       .insert([{
-        ...entityData,
+        ...entityFields,
         user_id: user.id, // Automatically set user_id
       }])
-      .select();
+      .select(ENTITY_COLUMNS);
     
     if (error) throw error;
+
+    if (apiToken && data?.[0]) {
+      const { error: vaultError } = await storeEntityCredential(data[0].id, apiToken);
+      if (vaultError) {
+        // Jangan tinggalkan entitas Accurate tanpa token
+        await supabase.from('entity').delete().eq('id', data[0].id);
+        throw vaultError;
+      }
+    }
     
     return { data, error: null };
   } catch (err) {
@@ -109,12 +158,23 @@ export const updateEntity = async (
       return { data: null, error: 'User not authenticated' };
     }
 
+    await assertEntityPermission(entityId, 'MANAGE_ENTITY');
+
+    // undefined = token tidak diubah, null = hapus token dari vault
+    const { api_token: apiToken, ...entityFields } = entityData;
+    if (apiToken) {
+      const { error: vaultError } = await storeEntityCredential(entityId, apiToken);
+      if (vaultError) throw vaultError;
+    } else if (apiToken === null) {
+      const { error: vaultError } = await deleteEntityCredential(entityId);
+      if (vaultError) throw vaultError;
+    }
+
     const { data, error } = await supabase
       .from('entity')
-      .update(entityData)
+      .update(entityFields)
       .eq('id', entityId)
-      .eq('user_id', user.id) // Ensure user can only update their own entities
-      .select();
+      .select(ENTITY_COLUMNS);
     
     if (error) throw error;
     
@@ -133,11 +193,12 @@ export const deleteEntity = async (id: string) => {
       return { error: 'User not authenticated' };
     }
 
+    await assertEntityPermission(id, 'DELETE_ENTITY');
+
     const { error } = await supabase
       .from('entity')
       .delete()
-      .eq('id', id)
-      .eq('user_id', user.id); // Ensure ownership
+      .eq('id', id);
     
     if (error) throw error;
     
@@ -156,7 +217,7 @@ export const deleteEntity = async (id: string) => {
 export const getEntityByAccurateDatabaseId = async (databaseId: number) => {
   const { data, error } = await supabase
     .from('entity')
-    .select('*')
+    .select(ENTITY_COLUMNS)
     .eq('accurate_database_id', databaseId)
     .single();
   
@@ -320,6 +381,10 @@ export const importCoaFromExcel = async (accounts: any[]) => {
     const entityIds = [...new Set(accounts.map(a => a.entity_id))];
     const accountCodes = accounts.map(a => a.account_code);
 
+    for (const entityId of entityIds) {
+      await assertEntityPermission(entityId, 'EDIT_COA');
+    }
+
     console.log('[importCoaFromExcel] Checking duplicates for:', {
       entityIds,
       accountCodes: accountCodes.slice(0, 5)
@@ -517,6 +582,20 @@ export const getCoaByEntity = async (entityId: string) => {
   }
 };
 
+/**
+ * Tolak perubahan akun COA jika peran user atas entitasnya tidak boleh edit COA
+ */
+const assertAccountPermission = async (accountId: string) => {
+  const { data, error } = await supabase
+    .from('accurate_accounts')
+    .select('entity_id')
+    .eq('id', accountId)
+    .single();
+
+  if (error) throw error;
+  await assertEntityPermission(data.entity_id, 'EDIT_COA');
+};
+
 /**
  * Update COA account
  */
@@ -528,6 +607,8 @@ export const updateCoaAccount = async (id: string, updates: any) => {
       return { data: null, error: 'User not authenticated' };
     }
 
+    await assertAccountPermission(id);
+
     const { data, error } = await supabase
       .from('accurate_accounts')
       .update(updates)
@@ -562,6 +643,8 @@ export const deleteCoaAccount = async (id: string) => {
       return { error: 'User not authenticated' };
     }
 
+    await assertAccountPermission(id);
+
     console.log('[deleteCoaAccount] Deleting account:', id);
 
     // Delete langsung dari Supabase
@@ -586,6 +669,32 @@ export const deleteCoaAccount = async (id: string) => {
   }
 };
 
+/**
+ * Delete semua akun COA milik entitas
+ */
+export const deleteAllCoaByEntity = async (entityId: string) => {
+  try {
+    await assertEntityPermission(entityId, 'EDIT_COA');
+
+    const { error } = await supabase
+      .from('accurate_accounts')
+      .delete()
+      .eq('entity_id', entityId);
+
+    if (error) {
+      console.error('[deleteAllCoaByEntity] Delete error:', error);
+      return { error: error.message || 'Gagal delete semua account' };
+    }
+
+    console.log('[deleteAllCoaByEntity] Deleted all accounts for entity:', entityId);
+    return { error: null };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : 'Gagal delete semua account';
+    console.error('[deleteAllCoaByEntity] Error:', error);
+    return { error };
+  }
+};
+
 // ============================================
 // PUBLIC PROFILES FUNCTIONS
 // ============================================
@@ -664,12 +773,13 @@ export const updateEntityPrivacy = async (entityId: string, isPublic: boolean) =
       return { data: null, error: 'User not authenticated' };
     }
 
+    await assertEntityPermission(entityId, 'MANAGE_ENTITY');
+
     const { data, error } = await supabase
       .from('entity')
       .update({ is_public: isPublic })
       .eq('id', entityId)
-      .eq('user_id', user.id) // Ensure ownership
-      .select();
+      .select(ENTITY_COLUMNS);
 
     if (error) throw error;
 
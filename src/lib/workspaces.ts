@@ -0,0 +1,464 @@
+import { supabase } from './supabase';
+import { getMailTransport } from './mailTransport';
+import {
+  WORKSPACE_PERMISSION_LABELS,
+  WORKSPACE_ROLE_LABELS,
+  buildWorkspaceInviteEmail,
+  hasPermission,
+  isInviteExpired,
+  resolveEntityRole,
+} from '../services/workspaceRoles';
+import type { WorkspaceRole, WorkspacePermission } from '../../supabase/functions/_shared/workspaceRoles.ts';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type { WorkspaceRole, WorkspacePermission } from '../../supabase/functions/_shared/workspaceRoles.ts';
+
+export type WorkspaceInviteStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at?: string;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  email: string;
+  role: WorkspaceRole;
+  created_at?: string;
+}
+
+export interface WorkspaceMembership {
+  workspace_id: string;
+  role: WorkspaceRole;
+  workspace: Workspace | null;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  token: string;
+  status: WorkspaceInviteStatus;
+  invited_by: string;
+  expires_at: string;
+  accepted_at?: string | null;
+  created_at?: string;
+  workspace?: Pick<Workspace, 'id' | 'name'> | null;
+}
+
+const INVITE_VALID_DAYS = 7;
+
+// ============================================
+// MEMBERSHIP & AKSES
+// ============================================
+
+/**
+ * Workspace yang diikuti user beserta perannya
+ */
+export async function getMyMemberships() {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('workspace_id, role, workspace:workspace_id (id, name, created_by, created_at)')
+      .eq('user_id', user.id);
+
+    if (error) throw error;
+    return { data: (data || []) as unknown as WorkspaceMembership[], error: null };
+  } catch (error) {
+    console.error('[getMyMemberships] Error:', error);
+    return { data: [] as WorkspaceMembership[], error };
+  }
+}
+
+/**
+ * Peran user atas entitas, null jika tidak punya akses
+ */
+export async function getEntityRole(entityId: string): Promise<WorkspaceRole | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data: entity, error } = await supabase
+    .from('entity')
+    .select('id, user_id, workspace_id')
+    .eq('id', entityId)
+    .single();
+
+  if (error) throw error;
+
+  if (!entity.workspace_id) {
+    return resolveEntityRole(entity, user.id, []);
+  }
+
+  const { data: member, error: memberError } = await supabase
+    .from('workspace_members')
+    .select('workspace_id, role')
+    .eq('workspace_id', entity.workspace_id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (memberError) throw memberError;
+  return resolveEntityRole(entity, user.id, member ? [member as { workspace_id: string; role: WorkspaceRole }] : []);
+}
+
+const deniedMessage = (role: WorkspaceRole | null, permission: WorkspacePermission) => {
+  const roleLabel = role ? `peran ${WORKSPACE_ROLE_LABELS[role]}` : 'Anda bukan anggota workspace dan';
+  return `Akses ditolak: ${roleLabel} tidak dapat ${WORKSPACE_PERMISSION_LABELS[permission]}`;
+};
+
+/**
+ * Tolak mutasi jika peran user atas entitas tidak punya hak akses.
+ * Mengembalikan peran user untuk pengecekan lanjutan.
+ */
+export async function assertEntityPermission(entityId: string, permission: WorkspacePermission) {
+  const role = await getEntityRole(entityId);
+  if (!hasPermission(role, permission)) {
+    throw new Error(deniedMessage(role, permission));
+  }
+  return role;
+}
+
+async function getWorkspaceRole(workspaceId: string): Promise<WorkspaceRole | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.role as WorkspaceRole) || null;
+}
+
+async function assertWorkspacePermission(workspaceId: string, permission: WorkspacePermission) {
+  const role = await getWorkspaceRole(workspaceId);
+  if (!hasPermission(role, permission)) {
+    throw new Error(deniedMessage(role, permission));
+  }
+}
+
+// ============================================
+// WORKSPACE CRUD
+// ============================================
+
+/**
+ * Buat workspace baru; pembuatnya otomatis jadi Owner.
+ * Workspace & keanggotaan Owner dibuat RPC `create_workspace` dalam satu transaksi.
+ */
+export async function createWorkspace(name: string) {
+  try {
+    if (!name.trim()) throw new Error('Nama workspace harus diisi');
+
+    const { data, error } = await supabase.rpc('create_workspace', { p_name: name.trim() });
+
+    if (error) throw error;
+
+    console.log('[createWorkspace] Created:', data.id);
+    return { data: data as Workspace, error: null };
+  } catch (error) {
+    console.error('[createWorkspace] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Pindahkan entitas ke workspace (atau keluarkan dengan workspaceId null).
+ * Hanya pembuat entitas, dan ia harus punya hak ubah entitas di workspace tujuan.
+ */
+export async function assignEntityToWorkspace(entityId: string, workspaceId: string | null) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    if (workspaceId) {
+      await assertWorkspacePermission(workspaceId, 'MANAGE_ENTITY');
+    }
+
+    const { data, error } = await supabase
+      .from('entity')
+      .update({ workspace_id: workspaceId })
+      .eq('id', entityId)
+      .eq('user_id', user.id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new Error('Hanya pembuat entitas yang dapat memindahkan entitas');
+
+    console.log('[assignEntityToWorkspace]', entityId, '→', workspaceId);
+    return { data, error: null };
+  } catch (error) {
+    console.error('[assignEntityToWorkspace] Error:', error);
+    return { data: null, error };
+  }
+}
+
+// ============================================
+// MEMBERS
+// ============================================
+
+export async function getWorkspaceMembers(workspaceId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('email', { ascending: true });
+
+    if (error) throw error;
+    return { data: (data || []) as WorkspaceMember[], error: null };
+  } catch (error) {
+    console.error('[getWorkspaceMembers] Error:', error);
+    return { data: [] as WorkspaceMember[], error };
+  }
+}
+
+/**
+ * User yang punya akses ke entitas (untuk pilihan owner/editor budget).
+ * Entitas di workspace = anggota workspace; entitas pribadi hanya pembuatnya.
+ */
+export async function getEntityMembers(entityId: string) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: entity, error: entityError } = await supabase
+      .from('entity')
+      .select('user_id, workspace_id')
+      .eq('id', entityId)
+      .single();
+
+    if (entityError) throw entityError;
+
+    const members: Pick<WorkspaceMember, 'user_id' | 'email' | 'role'>[] = [];
+
+    if (entity.workspace_id) {
+      const { data, error } = await getWorkspaceMembers(entity.workspace_id);
+      if (error) throw error;
+      members.push(...data);
+    } else {
+      members.push({
+        user_id: entity.user_id,
+        email: entity.user_id === user.id ? user.email || 'Anda' : 'Pembuat entitas',
+        role: 'OWNER',
+      });
+    }
+
+    return { data: members, error: null };
+  } catch (error) {
+    console.error('[getEntityMembers] Error:', error);
+    return { data: [] as Pick<WorkspaceMember, 'user_id' | 'email' | 'role'>[], error };
+  }
+}
+
+/**
+ * Ubah peran anggota (khusus Owner); Owner terakhir tidak bisa diturunkan.
+ * Hak akses & jumlah Owner dicek RPC `update_workspace_member_role`.
+ */
+export async function updateMemberRole(member: WorkspaceMember, role: WorkspaceRole) {
+  try {
+    const { data, error } = await supabase.rpc('update_workspace_member_role', {
+      p_member_id: member.id,
+      p_role: role,
+    });
+
+    if (error) throw error;
+
+    console.log('[updateMemberRole]', member.email, '→', role);
+    return { data: data as WorkspaceMember, error: null };
+  } catch (error) {
+    console.error('[updateMemberRole] Error:', error);
+    return { data: null, error };
+  }
+}
+
+/**
+ * Keluarkan anggota (khusus Owner); Owner terakhir tidak bisa dikeluarkan.
+ * Hak akses & jumlah Owner dicek RPC `remove_workspace_member`.
+ */
+export async function removeMember(member: WorkspaceMember) {
+  try {
+    const { error } = await supabase.rpc('remove_workspace_member', { p_member_id: member.id });
+
+    if (error) throw error;
+
+    console.log('[removeMember] Removed:', member.email);
+    return { error: null };
+  } catch (error) {
+    console.error('[removeMember] Error:', error);
+    return { error };
+  }
+}
+
+// ============================================
+// INVITES
+// ============================================
+
+export const getInviteUrl = (token: string) => `${window.location.origin}/workspace?invite=${token}`;
+
+/**
+ * Undang email ke workspace dan kirim tautan undangan.
+ * Undangan tetap tersimpan walau email gagal terkirim; tautannya bisa disalin manual.
+ */
+export async function inviteMember(workspace: Workspace, email: string, role: WorkspaceRole) {
+  try {
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+      throw new Error('Format email tidak valid');
+    }
+
+    await assertWorkspacePermission(workspace.id, 'MANAGE_MEMBERS');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: existing, error: existingError } = await supabase
+      .from('workspace_members')
+      .select('id')
+      .eq('workspace_id', workspace.id)
+      .ilike('email', normalizedEmail)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    if (existing) throw new Error(`${normalizedEmail} sudah menjadi anggota workspace`);
+
+    // Undangan lama yang masih pending untuk email yang sama digantikan
+    const { error: revokeError } = await supabase
+      .from('workspace_invites')
+      .update({ status: 'REVOKED' })
+      .eq('workspace_id', workspace.id)
+      .eq('email', normalizedEmail)
+      .eq('status', 'PENDING');
+
+    if (revokeError) throw revokeError;
+
+    const expiresAt = new Date(Date.now() + INVITE_VALID_DAYS * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+      .from('workspace_invites')
+      .insert({
+        workspace_id: workspace.id,
+        email: normalizedEmail,
+        role,
+        token: crypto.randomUUID(),
+        status: 'PENDING',
+        invited_by: user.id,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const invite = data as WorkspaceInvite;
+    const message = buildWorkspaceInviteEmail(
+      normalizedEmail,
+      workspace.name,
+      role,
+      getInviteUrl(invite.token),
+      user.email || 'Owner workspace'
+    );
+    const mailResult = await getMailTransport().send(message);
+
+    console.log('[inviteMember] Invited', normalizedEmail, 'as', role, '- mail sent:', mailResult.success);
+    return { data: invite, mailResult, error: null };
+  } catch (error) {
+    console.error('[inviteMember] Error:', error);
+    return { data: null, mailResult: null, error };
+  }
+}
+
+/**
+ * Undangan pending sebuah workspace
+ */
+export async function getWorkspaceInvites(workspaceId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('workspace_invites')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('status', 'PENDING')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return { data: (data || []) as WorkspaceInvite[], error: null };
+  } catch (error) {
+    console.error('[getWorkspaceInvites] Error:', error);
+    return { data: [] as WorkspaceInvite[], error };
+  }
+}
+
+/**
+ * Undangan pending yang ditujukan ke email user yang login
+ */
+export async function getMyPendingInvites() {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user?.email) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('workspace_invites')
+      .select('*, workspace:workspace_id (id, name)')
+      .ilike('email', user.email)
+      .eq('status', 'PENDING')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    const invites = ((data || []) as WorkspaceInvite[]).filter((invite) => !isInviteExpired(invite));
+    return { data: invites, error: null };
+  } catch (error) {
+    console.error('[getMyPendingInvites] Error:', error);
+    return { data: [] as WorkspaceInvite[], error };
+  }
+}
+
+export async function revokeInvite(invite: WorkspaceInvite) {
+  try {
+    await assertWorkspacePermission(invite.workspace_id, 'MANAGE_MEMBERS');
+
+    const { error } = await supabase
+      .from('workspace_invites')
+      .update({ status: 'REVOKED' })
+      .eq('id', invite.id)
+      .eq('status', 'PENDING');
+
+    if (error) throw error;
+    return { error: null };
+  } catch (error) {
+    console.error('[revokeInvite] Error:', error);
+    return { error };
+  }
+}
+
+/**
+ * Terima undangan dengan token. Token, masa berlaku, kecocokan email dan
+ * peran divalidasi RPC `accept_workspace_invite` (SECURITY DEFINER).
+ */
+export async function acceptInvite(token: string) {
+  try {
+    const { data, error } = await supabase.rpc('accept_workspace_invite', { p_token: token });
+
+    if (error) throw error;
+
+    const invite = data as WorkspaceInvite;
+    console.log('[acceptInvite] Joined workspace', invite.workspace_id, 'as', invite.role);
+    return { data: invite, error: null };
+  } catch (error) {
+    console.error('[acceptInvite] Error:', error);
+    return { data: null, error };
+  }
+}
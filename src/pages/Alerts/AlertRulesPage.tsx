@@ -0,0 +1,507 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useEntity } from '../../contexts/EntityContext';
+import {
+  getAlertRules,
+  createAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  DEFAULT_ALERT_RULES,
+  ALERT_RULE_PERMISSION,
+  type AlertRule,
+  type AlertSeverity,
+} from '../../lib/alerts';
+import { getAvailableAccountTypes, getBudgets } from '../../lib/accurate';
+import {
+  getDigestSubscriptions,
+  saveDigestSubscription,
+  sendDigest,
+  type DigestFrequency,
+  type DigestSubscription,
+} from '../../lib/digest';
+import { SEVERITY_LABELS } from '../../services/alertRules';
+import { DIGEST_FREQUENCY_LABELS } from '../../services/budgetDigest';
+import styles from './AlertRulesPage.module.css';
+
+const AlertRulesPage: React.FC = () => {
+  const { user } = useAuth();
+  const { activeEntity, can } = useEntity();
+  const canManageRules = can(ALERT_RULE_PERMISSION);
+
+  // State
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [accountTypes, setAccountTypes] = useState<string[]>([]);
+  const [budgetNames, setBudgetNames] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [threshold, setThreshold] = useState<number | ''>(80);
+  const [severity, setSeverity] = useState<AlertSeverity>('WARNING');
+  const [accountType, setAccountType] = useState('');
+  const [budgetName, setBudgetName] = useState('');
+
+  // Digest state
+  const [digest, setDigest] = useState<DigestSubscription | null>(null);
+  const [digestActive, setDigestActive] = useState(false);
+  const [digestFrequency, setDigestFrequency] = useState<DigestFrequency>('WEEKLY');
+  const [digestEmail, setDigestEmail] = useState('');
+  const [digestMessage, setDigestMessage] = useState<string | null>(null);
+
+  /**
+   * Load rules & filter options
+   */
+  const loadRules = async (entityId: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [rulesResult, typesResult, budgetsResult] = await Promise.all([
+        getAlertRules(entityId),
+        getAvailableAccountTypes(entityId),
+        getBudgets(entityId),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+
+      setRules(rulesResult.data || []);
+      setAccountTypes(typesResult.data || []);
+      setBudgetNames([...new Set((budgetsResult.data || []).map((b) => b.name as string))].sort());
+    } catch (err) {
+      console.error('[AlertRulesPage] Error loading rules:', err);
+      setError('Gagal memuat alert rule: ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (activeEntity?.id) {
+      loadRules(activeEntity.id);
+    } else {
+      setRules([]);
+    }
+  }, [activeEntity?.id]);
+
+  /**
+   * Load pengaturan digest user untuk entitas aktif
+   */
+  useEffect(() => {
+    if (!activeEntity?.id) return;
+
+    getDigestSubscriptions().then(({ data }) => {
+      const subscription = data.find((s) => s.entity_id === activeEntity.id) || null;
+      setDigest(subscription);
+      setDigestActive(subscription?.is_active ?? false);
+      setDigestFrequency(subscription?.frequency || 'WEEKLY');
+      setDigestEmail(subscription?.email || user?.email || '');
+      setDigestMessage(null);
+    });
+  }, [activeEntity?.id, user?.email]);
+
+  const resetForm = () => {
+    setName('');
+    setThreshold(80);
+    setSeverity('WARNING');
+    setAccountType('');
+    setBudgetName('');
+  };
+
+  /**
+   * Handle create rule
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeEntity) return;
+
+    if (!name.trim()) {
+      setError('Nama rule harus diisi');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { error } = await createAlertRule({
+        entity_id: activeEntity.id,
+        name: name.trim(),
+        threshold_percent: Number(threshold),
+        severity,
+        account_type: accountType || null,
+        budget_name: budgetName || null,
+      });
+      if (error) throw error;
+
+      resetForm();
+      await loadRules(activeEntity.id);
+    } catch (err) {
+      setError('Gagal menyimpan rule: ' + (err as Error).message);
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Buat rule bawaan 80% peringatan & 100% kritis
+   */
+  const handleCreateDefaults = async () => {
+    if (!activeEntity) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      for (const rule of DEFAULT_ALERT_RULES) {
+        const { error } = await createAlertRule({ ...rule, entity_id: activeEntity.id });
+        if (error) throw error;
+      }
+      await loadRules(activeEntity.id);
+    } catch (err) {
+      setError('Gagal membuat rule bawaan: ' + (err as Error).message);
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: AlertRule) => {
+    if (!activeEntity) return;
+    const { error } = await updateAlertRule(rule.id, { is_active: !rule.is_active });
+    if (error) {
+      setError('Gagal mengubah rule: ' + (error as Error).message);
+      return;
+    }
+    await loadRules(activeEntity.id);
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!activeEntity) return;
+    if (!confirm(`Hapus rule "${rule.name}"?`)) return;
+
+    const { error } = await deleteAlertRule(rule.id);
+    if (error) {
+      setError('Gagal menghapus rule: ' + (error as Error).message);
+      return;
+    }
+    await loadRules(activeEntity.id);
+  };
+
+  /**
+   * Simpan pengaturan digest
+   */
+  const handleSaveDigest = async () => {
+    if (!activeEntity) return;
+
+    setLoading(true);
+    setError(null);
+    setDigestMessage(null);
+    try {
+      const { data, error } = await saveDigestSubscription({
+        entity_id: activeEntity.id,
+        frequency: digestFrequency,
+        email: digestEmail,
+        is_active: digestActive,
+      });
+      if (error) throw error;
+
+      setDigest(data);
+      setDigestMessage('Pengaturan digest tersimpan');
+    } catch (err) {
+      setError('Gagal menyimpan pengaturan digest: ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Kirim digest sekarang untuk mengecek isi email
+   */
+  const handleSendDigestNow = async () => {
+    if (!digest) return;
+
+    setLoading(true);
+    setError(null);
+    setDigestMessage(null);
+    try {
+      const { data, error } = await sendDigest(digest);
+      if (error) throw error;
+
+      setDigestMessage(`Digest terkirim ke ${digest.email} (via ${data?.transport})`);
+    } catch (err) {
+      setError('Gagal mengirim digest: ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className={styles.pageContainer}>
+      {/* Header */}
+      <div className={styles.header}>
+        <div className={styles.headerContent}>
+          <h2>Aturan Alert Budget</h2>
+          <p>Notifikasi otomatis saat realisasi mencapai persentase tertentu dari budget</p>
+          {activeEntity && (
+            <p>
+              Entitas: <strong>{activeEntity.entity_name || activeEntity.name}</strong>
+            </p>
+          )}
+        </div>
+      </div>
+
+      {!activeEntity && (
+        <div className={styles.noEntityWarning}>
+          Silakan pilih entitas terlebih dahulu di halaman <strong>Manajemen Entitas</strong>
+        </div>
+      )}
+
+      {error && (
+        <div className={styles.errorAlert}>
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      {activeEntity && (
+        <>
+          {/* Form */}
+          {canManageRules && (
+            <form onSubmit={handleCreate} className={styles.card}>
+              <h3 className={styles.cardTitle}>Tambah Rule</h3>
+
+              <div className={styles.formGrid}>
+                <div>
+                  <label className={styles.label}>Nama Rule</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    maxLength={100}
+                    placeholder="Contoh: Beban operasional 90%"
+                    disabled={loading}
+                    className={styles.input}
+                  />
+                </div>
+
+                <div>
+                  <label className={styles.label}>Threshold (%)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value === '' ? '' : Number(e.target.value))}
+                    disabled={loading}
+                    className={styles.input}
+                  />
+                </div>
+
+                <div>
+                  <label className={styles.label}>Tingkat</label>
+                  <select
+                    value={severity}
+                    onChange={(e) => setSeverity(e.target.value as AlertSeverity)}
+                    disabled={loading}
+                    className={styles.select}
+                  >
+                    <option value="WARNING">{SEVERITY_LABELS.WARNING}</option>
+                    <option value="CRITICAL">{SEVERITY_LABELS.CRITICAL}</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className={styles.label}>Tipe Akun</label>
+                  <select
+                    value={accountType}
+                    onChange={(e) => setAccountType(e.target.value)}
+                    disabled={loading}
+                    className={styles.select}
+                  >
+                    <option value="">Semua Tipe</option>
+                    {accountTypes.map((type) => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className={styles.label}>Budget</label>
+                  <select
+                    value={budgetName}
+                    onChange={(e) => setBudgetName(e.target.value)}
+                    disabled={loading}
+                    className={styles.select}
+                  >
+                    <option value="">Semua Budget</option>
+                    {budgetNames.map((budget) => (
+                      <option key={budget} value={budget}>{budget}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className={styles.formActions}>
+                <button
+                  type="submit"
+                  disabled={loading || !name.trim() || !threshold || threshold <= 0}
+                  className={styles.primaryButton}
+                >
+                  Simpan Rule
+                </button>
+                {rules.length === 0 && (
+                  <button
+                    type="button"
+                    onClick={handleCreateDefaults}
+                    disabled={loading}
+                    className={styles.secondaryButton}
+                  >
+                    Pakai Rule Bawaan (80% & 100%)
+                  </button>
+                )}
+              </div>
+            </form>
+          )}
+
+          {/* Rules List */}
+          <div className={styles.card}>
+            <h3 className={styles.cardTitle}>Daftar Rule ({rules.length})</h3>
+            {!canManageRules && (
+              <p className={styles.cardHint}>Hanya Owner dan Finance Admin yang dapat mengubah alert rule.</p>
+            )}
+
+            {rules.length === 0 ? (
+              <div className={styles.emptyState}>
+                {loading
+                  ? '⏳ Memuat...'
+                  : canManageRules
+                  ? 'Belum ada rule. Tambahkan rule atau pakai rule bawaan.'
+                  : 'Belum ada rule.'}
+              </div>
+            ) : (
+              <div className={styles.tableWrapper}>
+                <table className={styles.table}>
+                  <thead>
+                    <tr>
+                      <th>Nama</th>
+                      <th>Threshold</th>
+                      <th>Tingkat</th>
+                      <th>Tipe Akun</th>
+                      <th>Budget</th>
+                      {canManageRules && <th>Aksi</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rules.map((rule) => (
+                      <tr key={rule.id} className={rule.is_active ? '' : styles.inactive}>
+                        <td>{rule.name}</td>
+                        <td>≥ {rule.threshold_percent}%</td>
+                        <td>
+                          <span className={`${styles.severityBadge} ${
+                            rule.severity === 'CRITICAL' ? styles.critical : styles.warning
+                          }`}>
+                            {SEVERITY_LABELS[rule.severity]}
+                          </span>
+                        </td>
+                        <td>{rule.account_type || 'Semua'}</td>
+                        <td>{rule.budget_name || 'Semua'}</td>
+                        {canManageRules && (
+                          <td>
+                            <div className={styles.rowActions}>
+                              <button
+                                onClick={() => handleToggleActive(rule)}
+                                disabled={loading}
+                                className={styles.secondaryButton}
+                              >
+                                {rule.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                              </button>
+                              <button
+                                onClick={() => handleDelete(rule)}
+                                disabled={loading}
+                                className={styles.deleteButton}
+                              >
+                                Hapus
+                              </button>
+                            </div>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Email Digest */}
+          <div className={styles.card}>
+            <h3 className={styles.cardTitle}>Email Digest</h3>
+            <p className={styles.cardHint}>
+              Ringkasan budget vs realisasi dan akun over budget teratas entitas ini, dikirim ke email Anda.
+              Mingguan merangkum bulan berjalan, bulanan merangkum bulan sebelumnya.
+            </p>
+
+            <div className={styles.formGrid}>
+              <div>
+                <label className={styles.label}>Email</label>
+                <input
+                  type="email"
+                  value={digestEmail}
+                  onChange={(e) => setDigestEmail(e.target.value)}
+                  disabled={loading}
+                  className={styles.input}
+                />
+              </div>
+
+              <div>
+                <label className={styles.label}>Frekuensi</label>
+                <select
+                  value={digestFrequency}
+                  onChange={(e) => setDigestFrequency(e.target.value as DigestFrequency)}
+                  disabled={loading}
+                  className={styles.select}
+                >
+                  <option value="WEEKLY">{DIGEST_FREQUENCY_LABELS.WEEKLY}</option>
+                  <option value="MONTHLY">{DIGEST_FREQUENCY_LABELS.MONTHLY}</option>
+                </select>
+              </div>
+
+              <div>
+                <label className={styles.label}>Status</label>
+                <select
+                  value={digestActive ? 'on' : 'off'}
+                  onChange={(e) => setDigestActive(e.target.value === 'on')}
+                  disabled={loading}
+                  className={styles.select}
+                >
+                  <option value="on">Aktif</option>
+                  <option value="off">Nonaktif</option>
+                </select>
+              </div>
+            </div>
+
+            {digest?.last_sent_at && (
+              <p className={styles.cardHint}>
+                Terakhir dikirim: {new Date(digest.last_sent_at).toLocaleString('id-ID')}
+              </p>
+            )}
+            {digestMessage && <p className={styles.successText}>{digestMessage}</p>}
+
+            <div className={styles.formActions}>
+              <button
+                onClick={handleSaveDigest}
+                disabled={loading || !digestEmail.trim()}
+                className={styles.primaryButton}
+              >
+                Simpan Pengaturan
+              </button>
+              <button
+                onClick={handleSendDigestNow}
+                disabled={loading || !digest}
+                className={styles.secondaryButton}
+              >
+                Kirim Sekarang
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AlertRulesPage;
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import { saveAs } from 'file-saver';
+import { useEntity } from '../../contexts/EntityContext';
+import { getAuditLogs, type AuditLog, type AuditTable } from '../../lib/auditLog';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_TABLE_LABELS,
+  buildAuditCsvRows,
+  formatAuditValue,
+  getAuditChanges,
+  toCsvString,
+} from '../../services/auditLog';
+import styles from './AuditPage.module.css';
+
+const ALL = 'ALL';
+const AUDIT_TABLES = Object.keys(AUDIT_TABLE_LABELS) as AuditTable[];
+
+const AuditPage: React.FC = () => {
+  const { entities, activeEntity } = useEntity();
+
+  // Filter state
+  const [selectedEntityId, setSelectedEntityId] = useState<string>('');
+  const [selectedActorId, setSelectedActorId] = useState<string>(ALL);
+  const [selectedTable, setSelectedTable] = useState<AuditTable | typeof ALL>(ALL);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  const [result, setResult] = useState<{ key: string; logs: AuditLog[]; error: string | null }>({
+    key: '',
+    logs: [],
+    error: null,
+  });
+  // Daftar user yang pernah muncul, agar pilihan tidak hilang saat filter user aktif
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const entityId = selectedEntityId || activeEntity?.id || ALL;
+  const entityIds = entityId === ALL ? entities.map((e) => e.id) : [entityId];
+  const entityNames = Object.fromEntries(entities.map((e) => [e.id, e.entity_name]));
+  const entityIdsKey = entityIds.join(',');
+  // Log anggota workspace ikut tampil untuk workspace dari entitas yang dipilih
+  const workspaceIdsKey = [
+    ...new Set(entities.filter((e) => entityIds.includes(e.id) && e.workspace_id).map((e) => e.workspace_id)),
+  ].join(',');
+  const includePersonal = entityId === ALL;
+  const requestKey = [entityIdsKey, workspaceIdsKey, selectedActorId, selectedTable, dateFrom, dateTo].join('|');
+  const loading = entityIds.length > 0 && result.key !== requestKey;
+
+  useEffect(() => {
+    const ids = entityIdsKey.split(',').filter(Boolean);
+    if (ids.length === 0) return;
+
+    getAuditLogs({
+      entity_ids: ids,
+      workspace_ids: workspaceIdsKey.split(',').filter(Boolean),
+      include_personal: includePersonal,
+      actor_id: selectedActorId === ALL ? null : selectedActorId,
+      table_name: selectedTable === ALL ? null : selectedTable,
+      date_from: dateFrom || null,
+      date_to: dateTo || null,
+    }).then(({ data, error }) => {
+      setResult({
+        key: requestKey,
+        logs: data || [],
+        error: error ? 'Gagal memuat audit log: ' + (error as Error).message : null,
+      });
+      setActors((prev) => {
+        const next = { ...prev };
+        (data || []).forEach((log) => {
+          if (log.actor_id) next[log.actor_id] = log.actor_email || log.actor_id;
+        });
+        return next;
+      });
+    });
+  }, [requestKey, entityIdsKey, workspaceIdsKey, includePersonal, selectedActorId, selectedTable, dateFrom, dateTo]);
+
+  const logs = loading ? [] : result.logs;
+
+  /**
+   * Export log yang sedang tampil ke CSV
+   */
+  const exportToCSV = () => {
+    const csvString = toCsvString(buildAuditCsvRows(logs, entityNames));
+    const fileBaseName = `Audit_Log_${new Date().getTime()}`;
+    const blob = new Blob(['\uFEFF' + csvString], { type: 'text/csv;charset=utf-8;' });
+    saveAs(blob, `${fileBaseName}.csv`);
+    console.log('[AuditPage] CSV exported:', fileBaseName, logs.length, 'baris');
+  };
+
+  const resetFilters = () => {
+    setSelectedActorId(ALL);
+    setSelectedTable(ALL);
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  return (
+    <div className={styles.pageContainer}>
+      {/* Header */}
+      <div className={styles.header}>
+        <div className={styles.headerContent}>
+          <h2>Audit Log</h2>
+          <p>Riwayat perubahan entitas, COA, budget dan item budget: siapa, kapan, dan nilai sebelum/sesudah.</p>
+        </div>
+        <button onClick={exportToCSV} disabled={loading || logs.length === 0} className={styles.primaryButton}>
+          Export CSV
+        </button>
+      </div>
+
+      {result.error && <div className={styles.errorAlert}>{result.error}</div>}
+
+      {/* Filters */}
+      <div className={styles.card}>
+        <div className={styles.filterGrid}>
+          <div>
+            <label className={styles.filterLabel}>Entitas</label>
+            <select
+              value={entityId}
+              onChange={(e) => setSelectedEntityId(e.target.value)}
+              className={styles.filterSelect}
+            >
+              <option value={ALL}>Semua Entitas</option>
+              {entities.map((entity) => (
+                <option key={entity.id} value={entity.id}>
+                  {entity.entity_name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={styles.filterLabel}>User</label>
+            <select
+              value={selectedActorId}
+              onChange={(e) => setSelectedActorId(e.target.value)}
+              className={styles.filterSelect}
+            >
+              <option value={ALL}>Semua User</option>
+              {Object.entries(actors).map(([actorId, email]) => (
+                <option key={actorId} value={actorId}>
+                  {email}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={styles.filterLabel}>Tabel</label>
+            <select
+              value={selectedTable}
+              onChange={(e) => setSelectedTable(e.target.value as AuditTable | typeof ALL)}
+              className={styles.filterSelect}
+            >
+              <option value={ALL}>Semua Tabel</option>
+              {AUDIT_TABLES.map((table) => (
+                <option key={table} value={table}>
+                  {AUDIT_TABLE_LABELS[table]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={styles.filterLabel}>Dari Tanggal</label>
+            <input
+              type="date"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className={styles.filterSelect}
+            />
+          </div>
+
+          <div>
+            <label className={styles.filterLabel}>Sampai Tanggal</label>
+            <input
+              type="date"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+              className={styles.filterSelect}
+            />
+          </div>
+        </div>
+
+        <div className={styles.filterFooter}>
+          <span className={styles.cardHint}>
+            {loading ? 'Memuat...' : `${logs.length} perubahan`}
+          </span>
+          <button onClick={resetFilters} className={styles.secondaryButton}>
+            Reset Filter
+          </button>
+        </div>
+      </div>
+
+      {/* Log table */}
+      <div className={styles.card}>
+        {entityIds.length === 0 ? (
+          <p className={styles.emptyText}>Belum ada entitas.</p>
+        ) : loading ? (
+          <p className={styles.emptyText}>Memuat audit log...</p>
+        ) : logs.length === 0 ? (
+          <p className={styles.emptyText}>Tidak ada perubahan yang cocok dengan filter.</p>
+        ) : (
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Waktu</th>
+                  <th>Entitas</th>
+                  <th>User</th>
+                  <th>Tabel</th>
+                  <th>Aksi</th>
+                  <th>Perubahan</th>
+                </tr>
+              </thead>
+              <tbody>
+                {logs.map((log) => {
+                  const changes = getAuditChanges(log);
+                  const expanded = expandedId === log.id;
+
+                  return (
+                    <React.Fragment key={log.id}>
+                      <tr>
+                        <td className={styles.nowrap}>{new Date(log.created_at).toLocaleString('id-ID')}</td>
+                        <td>{(log.entity_id && entityNames[log.entity_id]) || '-'}</td>
+                        <td>{log.actor_email || '-'}</td>
+                        <td>{AUDIT_TABLE_LABELS[log.table_name] || log.table_name}</td>
+                        <td>
+                          <span className={`${styles.actionBadge} ${styles[`action${log.action}`]}`}>
+                            {AUDIT_ACTION_LABELS[log.action] || log.action}
+                          </span>
+                        </td>
+                        <td>
+                          <button
+                            onClick={() => setExpandedId(expanded ? null : log.id)}
+                            disabled={changes.length === 0}
+                            className={styles.linkButton}
+                          >
+                            {changes.length === 0 ? '-' : `${changes.length} kolom ${expanded ? '▲' : '▼'}`}
+                          </button>
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr className={styles.detailRow}>
+                          <td colSpan={6}>
+                            <table className={styles.changeTable}>
+                              <thead>
+                                <tr>
+                                  <th>Kolom</th>
+                                  <th>Sebelum</th>
+                                  <th>Sesudah</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {changes.map((change) => (
+                                  <tr key={change.field}>
+                                    <td>{change.field}</td>
+                                    <td className={styles.beforeValue}>{formatAuditValue(change.before)}</td>
+                                    <td className={styles.afterValue}>{formatAuditValue(change.after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditPage;
@@ -1,43 +1,46 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '../../lib/supabase';
+import { supabase, getEntityById, updateEntity } from '../../lib/supabase';
+import { exchangeCodeForToken } from '../../lib/accurate';
+import {
+  OAUTH_FLOW_MAX_AGE_MS,
+  consumeOAuthFlow,
+  getOAuthDatabases,
+  type AccurateDatabase,
+} from '../../lib/accurateOAuth';
 import { Loader2 } from 'lucide-react';
 import styles from './AccurateOauthCallbak.module.css';
 
-interface Database {
-  id: number;
-  name: string;
-  alias?: string;
-}
-
-interface TokenData {
-  access_token: string;
-  refresh_token: string;
-  expires_in: number;
-  scope: string;
-  user: {
-    email: string;
-    name: string;
-  };
-}
-
+/**
+ * Redirect consent Accurate. Code ditukar edge function `accurate-oauth`
+ * untuk entitas yang terikat ke state; token disimpan server dan client
+ * hanya menerima status sesi.
+ */
 export default function AccurateOAuthCallback() {
   const navigate = useNavigate();
   const [status, setStatus] = useState('Menghubungkan dengan Accurate...');
   const [error, setError] = useState('');
   
-  // Database selection
-  const [databases, setDatabases] = useState<Database[]>([]);
+  // Database selection (entitas belum punya database Accurate)
+  const [databases, setDatabases] = useState<AccurateDatabase[]>([]);
   const [selectedDbId, setSelectedDbId] = useState<number | null>(null);
   const [showDbSelection, setShowDbSelection] = useState(false);
   
-  // Token & user data
-  const [tokenData, setTokenData] = useState<TokenData | null>(null);
+  // Entitas & akun Accurate dari sesi OAuth
+  const [entityId, setEntityId] = useState<string | null>(null);
+  const [accurateEmail, setAccurateEmail] = useState<string | null>(null);
+
+  // Koneksi entitas selesai, kembali ke halaman Entitas
+  const [connected, setConnected] = useState(false);
 
   useEffect(() => {
     handleCallback();
   }, []);
 
+  useEffect(() => {
+    if (connected) navigate('/entitas');
+  }, [connected, navigate]);
+
   const handleCallback = async () => {
     try {
       // ========================================
@@ -49,10 +52,13 @@ export default function AccurateOAuthCallback() {
       const errorParam = params.get('error');
       const errorDescription = params.get('error_description');
 
+      // State hanya berlaku sekali, termasuk saat consent dibatalkan
+      const flow = state ? consumeOAuthFlow(state) : null;
+
       // Handle user cancelled/denied access
       if (errorParam) {
         if (errorParam === 'access_denied') {
-          setError('Login dibatalkan. Anda harus memberikan izin untuk melanjutkan.');
+          setError('Koneksi dibatalkan. Anda harus memberikan izin untuk melanjutkan.');
           console.log('[Callback] User denied access');
           return;
         }
@@ -63,99 +69,78 @@ export default function AccurateOAuthCallback() {
         throw new Error('Invalid callback - missing code or state');
       }
 
-      // Verify CSRF state
-      const savedState = localStorage.getItem('accurate_oauth_state');
-      const savedTimestamp = localStorage.getItem('accurate_oauth_timestamp');
-
-      if (!savedState || savedState !== state) {
+      // Verify CSRF state: harus flow yang dimulai dari aplikasi ini
+      if (!flow) {
         throw new Error('Invalid state - possible CSRF attack detected');
       }
 
-      // Check timestamp (max 10 minutes)
-      if (savedTimestamp) {
-        const elapsed = Date.now() - parseInt(savedTimestamp);
-        if (elapsed > 10 * 60 * 1000) {
-          throw new Error('OAuth session expired - please try again');
-        }
+      if (Date.now() - flow.startedAt > OAUTH_FLOW_MAX_AGE_MS) {
+        throw new Error('OAuth session expired - please try again');
       }
 
-      console.log('[Callback] ✅ State verified');
+      console.log('[Callback] ✅ State verified for entity:', flow.entityId);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('Silakan login terlebih dahulu, lalu hubungkan Accurate dari halaman Entitas.');
+      }
+
+      setEntityId(flow.entityId);
 
       // ========================================
-      // 2. EXCHANGE CODE FOR TOKEN
+      // 2. EXCHANGE CODE (SERVER-SIDE)
       // ========================================
       setStatus('Menukar authorization code...');
 
-      const { data: tokenResponse, error: tokenError } = await supabase.functions.invoke(
-        'accurate-oauth',
-        { 
-          body: { code } 
-        }
-      );
-
-      if (tokenError) {
-        console.error('[Callback] Token error:', tokenError);
-        throw new Error(tokenError.message || 'Failed to exchange code for token');
-      }
-
-      if (!tokenResponse?.access_token) {
-        throw new Error('No access token received from Accurate');
+      const { data: session, error: exchangeError } = await exchangeCodeForToken(code, flow.entityId);
+      if (exchangeError || !session) {
+        throw exchangeError instanceof Error ? exchangeError : new Error('Gagal menghubungkan Accurate');
       }
 
-      console.log('[Callback] ✅ Token received');
-      console.log('[Callback] User:', tokenResponse.user?.email);
-
-      // Simpan token data
-      setTokenData(tokenResponse);
+      console.log('[Callback] ✅ Connected entity:', flow.entityId, session.status);
+      setAccurateEmail(session.accurate_email || null);
 
       // ========================================
-      // 3. GET DATABASE LIST
+      // 3. DATABASE ENTITAS
       // ========================================
-      setStatus('Mengambil daftar database...');
+      const { data: entity, error: entityError } = await getEntityById(flow.entityId);
+      if (entityError || !entity) {
+        throw entityError instanceof Error ? entityError : new Error(String(entityError || 'Entitas tidak ditemukan'));
+      }
 
-      const { data: dbResponse, error: dbError } = await supabase.functions.invoke(
-        'accurate-oauth',
-        { 
-          body: { 
-            accessToken: tokenResponse.access_token 
-          } 
-        }
-      );
+      if (entity.accurate_database_id) {
+        setConnected(true);
+        return;
+      }
+
+      setStatus('Mengambil daftar database...');
 
+      const { data: databaseList, error: dbError } = await getOAuthDatabases(flow.entityId);
       if (dbError) {
-        console.error('[Callback] Database list error:', dbError);
-        throw new Error(dbError.message || 'Failed to get database list');
+        throw dbError instanceof Error ? dbError : new Error('Gagal mengambil daftar database Accurate');
       }
 
-      if (!dbResponse?.databases || dbResponse.databases.length === 0) {
+      if (databaseList.length === 0) {
         throw new Error('Tidak ada database ditemukan di akun Accurate Anda');
       }
 
-      console.log('[Callback] ✅ Found', dbResponse.databases.length, 'databases');
+      console.log('[Callback] ✅ Found', databaseList.length, 'databases');
 
       // ========================================
       // 4. SHOW DATABASE SELECTION
       // ========================================
-      setDatabases(dbResponse.databases);
+      setDatabases(databaseList);
       setShowDbSelection(true);
       setStatus('Pilih database Accurate Anda');
 
-      // Clean up localStorage
-      localStorage.removeItem('accurate_oauth_state');
-      localStorage.removeItem('accurate_oauth_timestamp');
-
-    } catch (err: any) {
+    } catch (err) {
       console.error('[Callback] Error:', err);
-      setError(err.message || 'Login dengan Accurate gagal');
-      
-      // Clean up localStorage on error
-      localStorage.removeItem('accurate_oauth_state');
-      localStorage.removeItem('accurate_oauth_timestamp');
+      setError(err instanceof Error ? err.message : 'Koneksi Accurate gagal');
     }
   };
 
   const handleDatabaseSelect = async () => {
-    if (!selectedDbId || !tokenData) {
+    if (!selectedDbId || !entityId) {
       setError('Silakan pilih database');
       return;
     }
@@ -172,135 +157,35 @@ export default function AccurateOAuthCallback() {
       console.log('[Callback] Selected database:', selectedDb.name);
 
       // ========================================
-      // 5. CHECK EXISTING USER SESSION
-      // ========================================
-      const { data: { user: existingUser } } = await supabase.auth.getUser();
-
-      let userId: string;
-      let isNewUser = false;
-
-      if (existingUser) {
-        // User sudah login
-        userId = existingUser.id;
-        console.log('[Callback] ✅ User already logged in:', existingUser.email);
-      } else {
-        // ========================================
-        // 6. CREATE NEW USER
-        // ========================================
-        setStatus('Membuat akun...');
-
-        // Generate random password (user tidak perlu tahu)
-        const randomPassword = crypto.randomUUID();
-
-        const { data: signUpData, error: signUpError } = await supabase.auth.signUp({
-          email: tokenData.user.email,
-          password: randomPassword,
-          options: {
-            data: {
-              full_name: tokenData.user.name,
-              auth_method: 'accurate_oauth',
-            },
-            emailRedirectTo: `${window.location.origin}/dashboard`
-          }
-        });
-
-        if (signUpError) {
-          if (signUpError.message.includes('already registered')) {
-            // Email sudah ada tapi user belum login
-            console.log('[Callback] Email exists, sending magic link...');
-            
-            await supabase.auth.signInWithOtp({
-              email: tokenData.user.email,
-              options: { 
-                shouldCreateUser: false,
-                emailRedirectTo: `${window.location.origin}/dashboard`
-              }
-            });
-
-            alert(
-              `Email ${tokenData.user.email} sudah terdaftar.\n\n` +
-              `Link login telah dikirim ke email Anda.\n` +
-              `Setelah login, Anda dapat menghubungkan Accurate di pengaturan.`
-            );
-            
-            navigate('/login');
-            return;
-          }
-          throw signUpError;
-        }
-
-        if (!signUpData.user) {
-          throw new Error('Failed to create user account');
-        }
-
-        userId = signUpData.user.id;
-        isNewUser = true;
-        console.log('[Callback] ✅ New user created:', tokenData.user.email);
-      }
-
-      // ========================================
-      // 7. SAVE OAUTH TOKENS TO DATABASE
+      // 5. SIMPAN DATABASE KE ENTITAS
       // ========================================
-      setStatus('Menyimpan token OAuth...');
-
-      const expiresAt = new Date(
-        Date.now() + (tokenData.expires_in || 1296000) * 1000
-      );
-
-      const { error: tokenSaveError } = await supabase
-        .from('accurate_oauth_tokens')
-        .upsert({
-          user_id: userId,
-          access_token: tokenData.access_token,
-          refresh_token: tokenData.refresh_token,
-          expires_at: expiresAt.toISOString(),
-          scope: tokenData.scope || '',
-          accurate_email: tokenData.user.email,
-          accurate_name: tokenData.user.name,
-          database_id: selectedDb.id,
-          database_name: selectedDb.name,
-          database_alias: selectedDb.alias || null
-        }, { 
-          onConflict: 'user_id' 
-        });
-
-      if (tokenSaveError) {
-        console.error('[Callback] Error saving token:', tokenSaveError);
-        throw new Error(`Failed to save OAuth token: ${tokenSaveError.message}`);
+      const { error: updateError } = await updateEntity(entityId, { accurate_database_id: selectedDb.id });
+      if (updateError) {
+        throw new Error(updateError);
       }
 
-      console.log('[Callback] ✅ OAuth tokens saved to database');
-
-      // ========================================
-      // 8. REDIRECT TO DASHBOARD
-      // ========================================
-      setStatus('Berhasil! Mengalihkan ke dashboard...');
-      
-      setTimeout(() => {
-        if (isNewUser) {
-          navigate('/mode-selection'); // New users choose mode
-        } else {
-          navigate('/dashboard'); // Existing users go to dashboard
-        }
-      }, 1000);
+      console.log('[Callback] ✅ Database saved for entity:', entityId);
+      setConnected(true);
 
-    } catch (err: any) {
+    } catch (err) {
       console.error('[Callback] Error saving config:', err);
-      setError(err.message || 'Gagal menyimpan konfigurasi Accurate');
+      setError(err instanceof Error ? err.message : 'Gagal menyimpan konfigurasi Accurate');
     }
   };
 
   // ========================================
   // RENDER: DATABASE SELECTION
   // ========================================
-  if (showDbSelection && tokenData) {
+  if (showDbSelection) {
     return (
       <div className={styles.container}>
         <div className={styles.card}>
           <h2 className={styles.title}>Pilih Database Accurate</h2>
-          <p className={styles.subtitle}>
-            Akun: <strong>{tokenData.user.email}</strong>
-          </p>
+          {accurateEmail && (
+            <p className={styles.subtitle}>
+              Akun: <strong>{accurateEmail}</strong>
+            </p>
+          )}
 
           <div className={styles.databaseList}>
             {databases.map((db) => (
@@ -332,7 +217,7 @@ export default function AccurateOAuthCallback() {
           </button>
 
           <button
-            onClick={() => navigate('/login')}
+            onClick={() => navigate('/entitas')}
             className={styles.cancelButton}
           >
             Batal
@@ -352,15 +237,15 @@ export default function AccurateOAuthCallback() {
           <>
             <div className={styles.errorIcon}>⚠️</div>
             <h2 className={styles.errorTitle}>
-              {error.includes('dibatalkan') ? 'Login Dibatalkan' : 'Login Gagal'}
+              {error.includes('dibatalkan') ? 'Koneksi Dibatalkan' : 'Koneksi Gagal'}
             </h2>
             <p className={styles.errorMessage}>{error}</p>
             
             <button 
-              onClick={() => navigate('/login')} 
+              onClick={() => navigate('/entitas')} 
               className={styles.backButton}
             >
-              {error.includes('dibatalkan') ? 'Coba Lagi' : 'Kembali ke Login'}
+              Kembali ke Entitas
             </button>
           </>
         ) : (
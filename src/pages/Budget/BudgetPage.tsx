@@ -1,38 +1,113 @@
 import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
 import { useEntity } from '../../contexts/EntityContext';
 import { BudgetForm } from '../../components/BudgetForm/BudgetForm';
+import { CopyBudgetModal } from '../../components/CopyBudgetModal/CopyBudgetModal';
+import { ImportBudgetExcel } from '../../components/Export&Import/ImportBudgetExcel';
+import { ImportBudgetWorkbook } from '../../components/Export&Import/ImportBudgetWorkbook';
+import { CostCenterManager } from '../../components/CostCenterManager/CostCenterManager';
 import {
   getBudgets,
   getBudgetById,
   deleteBudget,
   subscribeBudgets,
+  getBudgetVersions,
+  createBudgetVersion,
+  transitionBudgetStatus,
+  getBudgetApprovalHistory,
+  saveBudgetAsTemplate,
   type Budget,
+  type BudgetApproval,
+  type BudgetItem,
+  type BudgetStatus,
+  type BudgetWorkflowAction,
+  type BudgetVersion,
   type BudgetWithItems,
+  type CopyBudgetResult,
 } from '../../lib/accurate';
+import { getCostCenters, type CostCenter } from '../../lib/costCenters';
 import {
   getAdaptiveFontSize,
   formatCurrency,
 } from '../../services/budgetHelpers';
+import { getBudgetEndPeriod } from '../../services/budgetPhasing';
+import { downloadBudgetWorkbook } from '../../services/budgetWorkbook';
+import { formatCostCenter, resolveCostCenterId } from '../../services/costCenters';
+import {
+  BUDGET_STATUS_LABELS,
+  WORKFLOW_ACTION_LABELS,
+  getAvailableActions,
+  getBudgetStatus,
+  isBudgetEditable,
+} from '../../services/budgetWorkflow';
+import { getWorkflowActionPermission } from '../../services/workspaceRoles';
+import {
+  BUDGET_SCOPE_LABELS,
+  canEditBudgetContent,
+  filterBudgetsByOwner,
+  formatBudgetOwner,
+} from '../../services/budgetOwnership';
+import { getEntityMembers, type WorkspaceMember } from '../../lib/workspaces';
 import styles from './BudgetPage.module.css';
 
+const APPROVAL_BADGE_CLASS: Record<BudgetStatus, string> = {
+  DRAFT: styles.approvalDraft,
+  SUBMITTED: styles.approvalSubmitted,
+  APPROVED: styles.approvalApproved,
+  LOCKED: styles.approvalLocked,
+};
+
+// Baris tabel item, bisa dari budget_items (live) atau snapshot versi
+type DisplayItem = Pick<
+  BudgetItem,
+  | 'id'
+  | 'account_code'
+  | 'account_name'
+  | 'account_type'
+  | 'allocated_amount'
+  | 'realisasi_snapshot'
+  | 'cost_center_id'
+  | 'description'
+>;
+
+const CURRENT_VERSION = 'current';
+
 const BudgetPage: React.FC = () => {
-  const { activeEntity } = useEntity();
+  const { user } = useAuth();
+  const { activeEntity, activeRole, can } = useEntity();
+  const canEditBudget = can('EDIT_BUDGET');
 
   // State
   const [budgets, setBudgets] = useState<Budget[]>([]);
   const [allBudgets, setAllBudgets] = useState<Budget[]>([]);
   const [expandedBudgets, setExpandedBudgets] = useState<Map<string, BudgetWithItems>>(new Map());
+  const [budgetVersions, setBudgetVersions] = useState<Map<string, BudgetVersion[]>>(new Map());
+  const [selectedVersions, setSelectedVersions] = useState<Map<string, string>>(new Map());
+  const [approvalHistory, setApprovalHistory] = useState<Map<string, BudgetApproval[]>>(new Map());
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
 
   // Filters
   const [selectedYear, setSelectedYear] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const [ownerScope, setOwnerScope] = useState<'ALL' | 'MINE'>('ALL');
 
   // Form state
   const [showForm, setShowForm] = useState(false);
   const [editingBudget, setEditingBudget] = useState<BudgetWithItems | null>(null);
 
+  // Copy / template modal state
+  const [showCopyModal, setShowCopyModal] = useState(false);
+  const [copySource, setCopySource] = useState<Budget | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showWorkbookImport, setShowWorkbookImport] = useState(false);
+
+  // Cost center entitas aktif
+  const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
+  const [entityMembers, setEntityMembers] = useState<Pick<WorkspaceMember, 'user_id' | 'email'>[]>([]);
+  const [showCostCenters, setShowCostCenters] = useState(false);
+
   // Available years from ALL budgets (not filtered)
   const availableYears = Array.from(
     new Set(allBudgets.map((b) => b.period.split('-')[0]))
@@ -89,6 +164,9 @@ const BudgetPage: React.FC = () => {
         const newExpanded = new Map(expandedBudgets);
         newExpanded.set(budgetId, data!);
         setExpandedBudgets(newExpanded);
+
+        await loadVersions(budgetId);
+        await loadApprovalHistory(budgetId);
       } catch (err: any) {
         console.error('[BudgetPage] Error loading budget items:', err);
         setError('Gagal memuat detail budget: ' + err.message);
@@ -96,6 +174,192 @@ const BudgetPage: React.FC = () => {
     }
   };
 
+  /**
+   * Load versi budget (Original, Revision, Forecast)
+   */
+  const loadVersions = async (budgetId: string) => {
+    const { data, error } = await getBudgetVersions(budgetId);
+    if (error) {
+      console.error('[BudgetPage] Error loading versions:', error);
+      return;
+    }
+
+    setBudgetVersions((prev) => new Map(prev).set(budgetId, data || []));
+  };
+
+  /**
+   * Load riwayat approval budget
+   */
+  const loadApprovalHistory = async (budgetId: string) => {
+    const { data, error } = await getBudgetApprovalHistory(budgetId);
+    if (error) {
+      console.error('[BudgetPage] Error loading approval history:', error);
+      return;
+    }
+
+    setApprovalHistory((prev) => new Map(prev).set(budgetId, data || []));
+  };
+
+  /**
+   * Handle workflow action (ajukan, setujui, tolak, kunci, buka kembali)
+   */
+  const handleWorkflowAction = async (budget: Budget, action: BudgetWorkflowAction) => {
+    let comment: string | undefined;
+
+    if (action === 'REJECT') {
+      const input = prompt(`Alasan penolakan budget "${budget.name}":`);
+      if (input === null) return;
+      if (!input.trim()) {
+        setError('Komentar penolakan harus diisi');
+        return;
+      }
+      comment = input;
+    } else if (!confirm(`${WORKFLOW_ACTION_LABELS[action]} budget "${budget.name}"?`)) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { error } = await transitionBudgetStatus(budget.id, action, comment);
+      if (error) throw error;
+
+      await loadBudgets();
+      await loadApprovalHistory(budget.id);
+    } catch (err) {
+      console.error('[BudgetPage] Error workflow action:', err);
+      setError(`Gagal ${WORKFLOW_ACTION_LABELS[action].toLowerCase()} budget: ` + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Handle version switch
+   */
+  const handleSelectVersion = (budgetId: string, versionId: string) => {
+    setSelectedVersions((prev) => new Map(prev).set(budgetId, versionId));
+  };
+
+  /**
+   * Simpan alokasi saat ini sebagai versi Forecast
+   */
+  const handleCreateForecast = async (budgetId: string) => {
+    const note = prompt('Catatan forecast (opsional):');
+    if (note === null) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await createBudgetVersion(budgetId, 'FORECAST', note.trim());
+      if (error) throw error;
+
+      await loadVersions(budgetId);
+      if (data) handleSelectVersion(budgetId, data.id);
+    } catch (err) {
+      console.error('[BudgetPage] Error creating forecast:', err);
+      setError('Gagal menyimpan forecast: ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Simpan struktur akun budget sebagai template
+   */
+  const handleSaveAsTemplate = async (budget: Budget) => {
+    const name = prompt('Nama template:', budget.name);
+    if (name === null) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { error } = await saveBudgetAsTemplate(budget.id, name);
+      if (error) throw error;
+
+      setNotice(`Template "${name.trim()}" tersimpan`);
+    } catch (err) {
+      console.error('[BudgetPage] Error saving template:', err);
+      setError('Gagal menyimpan template: ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Buka modal salin budget (dengan sumber) atau buat dari template (tanpa sumber)
+   */
+  const handleOpenCopy = (budget: Budget | null) => {
+    setCopySource(budget);
+    setShowCopyModal(true);
+  };
+
+  const handleCloseCopy = () => {
+    setShowCopyModal(false);
+    setCopySource(null);
+  };
+
+  const handleCopySuccess = (result: CopyBudgetResult) => {
+    handleCloseCopy();
+
+    const skipped = result.skipped_accounts;
+    setNotice(
+      `Budget "${result.budget.name}" periode ${result.budget.period} dibuat dengan ${result.copied_count} akun` +
+        (skipped.length > 0
+          ? `. ${skipped.length} akun suspended dilewati: ${skipped.map((item) => item.account_code).join(', ')}`
+          : '')
+    );
+    loadBudgets();
+  };
+
+  const handleImportSuccess = (message: string) => {
+    setShowImport(false);
+    setShowWorkbookImport(false);
+    setNotice(message);
+    setExpandedBudgets(new Map());
+    loadBudgets();
+  };
+
+  /**
+   * Export budget yang tampil ke workbook yang bisa diedit & diupload ulang
+   */
+  const handleExportWorkbook = async () => {
+    if (filteredBudgets.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const details: BudgetWithItems[] = [];
+      for (const budget of filteredBudgets) {
+        const { data, error } = await getBudgetById(budget.id);
+        if (error) throw error;
+        if (data) details.push(data);
+      }
+
+      const entityName = (activeEntity?.entity_name || activeEntity?.name || 'Entitas').replace(/[^a-zA-Z0-9-_]/g, '_');
+      downloadBudgetWorkbook(details, `Budget_Workbook_${entityName}_${new Date().toISOString().slice(0, 10)}.xlsx`);
+    } catch (err) {
+      console.error('[BudgetPage] Error exporting workbook:', err);
+      setError('Gagal export workbook: ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Item yang ditampilkan sesuai versi terpilih.
+   * Realisasi selalu dari data live karena snapshot hanya menyimpan alokasi.
+   */
+  const getDisplayItems = (details: BudgetWithItems, version: BudgetVersion | undefined): DisplayItem[] => {
+    if (!version) return details.items;
+
+    return version.items.map((versionItem) => ({
+      ...versionItem,
+      id: versionItem.account_code,
+      realisasi_snapshot:
+        details.items.find((item) => item.account_code === versionItem.account_code)?.realisasi_snapshot || 0,
+    }));
+  };
+
   /**
    * Handle delete budget
    */
@@ -145,6 +409,9 @@ const BudgetPage: React.FC = () => {
    * Handle form success
    */
   const handleFormSuccess = () => {
+    if (editingBudget && budgetVersions.has(editingBudget.id)) {
+      loadVersions(editingBudget.id);
+    }
     setShowForm(false);
     setEditingBudget(null);
     loadBudgets();
@@ -172,6 +439,12 @@ const BudgetPage: React.FC = () => {
   /**
    * Setup real-time subscription
    */
+  useEffect(() => {
+    if (!activeEntity?.id) return;
+    getCostCenters(activeEntity.id).then(({ data }) => setCostCenters(data));
+    getEntityMembers(activeEntity.id).then(({ data }) => setEntityMembers(data));
+  }, [activeEntity?.id]);
+
   useEffect(() => {
     if (!activeEntity?.id) return;
 
@@ -189,9 +462,9 @@ const BudgetPage: React.FC = () => {
   }, [activeEntity?.id]);
 
   /**
-   * Filter budgets by search
+   * Filter budgets by owner scope & search
    */
-  const filteredBudgets = budgets.filter((budget) => {
+  const filteredBudgets = filterBudgetsByOwner(budgets, ownerScope, user?.id).filter((budget) => {
     if (!searchQuery) return true;
     const query = searchQuery.toLowerCase();
     return (
@@ -218,18 +491,55 @@ const BudgetPage: React.FC = () => {
           )}
         </div>
 
-        <button
-          onClick={() => {
-            setEditingBudget(null);
-            setShowForm(true);
-          }}
-          disabled={!activeEntity || loading}
-          className={`${styles.addButton} ${
-            activeEntity && !loading ? styles.active : styles.disabled
-          }`}
-        >
-          + Tambah Budget
-        </button>
+        <div className={styles.headerActions}>
+          <button
+            onClick={() => setShowCostCenters(true)}
+            disabled={!activeEntity || loading}
+            className={styles.versionButton}
+          >
+            Cost Center
+          </button>
+          <button
+            onClick={() => handleOpenCopy(null)}
+            disabled={!activeEntity || loading || !canEditBudget}
+            className={styles.versionButton}
+          >
+            Dari Template
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            disabled={!activeEntity || loading || !canEditBudget}
+            className={styles.versionButton}
+          >
+            Import Excel/CSV
+          </button>
+          <button
+            onClick={handleExportWorkbook}
+            disabled={!activeEntity || loading || filteredBudgets.length === 0}
+            className={styles.versionButton}
+          >
+            Export Workbook
+          </button>
+          <button
+            onClick={() => setShowWorkbookImport(true)}
+            disabled={!activeEntity || loading || !canEditBudget}
+            className={styles.versionButton}
+          >
+            Upload Workbook
+          </button>
+          <button
+            onClick={() => {
+              setEditingBudget(null);
+              setShowForm(true);
+            }}
+            disabled={!activeEntity || loading || !canEditBudget}
+            className={`${styles.addButton} ${
+              activeEntity && !loading && canEditBudget ? styles.active : styles.disabled
+            }`}
+          >
+            + Tambah Budget
+          </button>
+        </div>
       </div>
 
       {/* No Active Entity Warning */}
@@ -252,6 +562,54 @@ const BudgetPage: React.FC = () => {
         </div>
       )}
 
+      {/* Notice */}
+      {notice && (
+        <div className={styles.noticeAlert}>
+          {notice}
+          <button onClick={() => setNotice(null)} className={styles.noticeClose}>
+            ✕
+          </button>
+        </div>
+      )}
+
+      {/* Copy Budget / Template Modal */}
+      {showCopyModal && activeEntity && (
+        <CopyBudgetModal
+          entityId={activeEntity.id}
+          budget={copySource || undefined}
+          onSuccess={handleCopySuccess}
+          onClose={handleCloseCopy}
+        />
+      )}
+
+      {/* Import Budget Modal */}
+      {showImport && activeEntity && (
+        <ImportBudgetExcel
+          entityId={activeEntity.id}
+          onSuccess={handleImportSuccess}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {/* Workbook Round-trip Modal */}
+      {showWorkbookImport && (
+        <ImportBudgetWorkbook
+          onSuccess={handleImportSuccess}
+          onClose={() => setShowWorkbookImport(false)}
+        />
+      )}
+
+      {/* Cost Center Modal */}
+      {showCostCenters && activeEntity && (
+        <CostCenterManager
+          entityId={activeEntity.id}
+          entityName={activeEntity.entity_name || activeEntity.name || ''}
+          hasApiToken={activeEntity.has_api_token}
+          onChange={setCostCenters}
+          onClose={() => setShowCostCenters(false)}
+        />
+      )}
+
       {/* Budget Form */}
       {showForm && activeEntity && (
         <div className={styles.formContainer}>
@@ -288,6 +646,21 @@ const BudgetPage: React.FC = () => {
               </select>
             </div>
 
+            <div>
+              <label className={styles.filterLabel}>
+                Tampilkan
+              </label>
+              <select
+                value={ownerScope}
+                onChange={(e) => setOwnerScope(e.target.value as 'ALL' | 'MINE')}
+                disabled={loading}
+                className={styles.filterSelect}
+              >
+                <option value="ALL">{BUDGET_SCOPE_LABELS.ALL}</option>
+                <option value="MINE">{BUDGET_SCOPE_LABELS.MINE}</option>
+              </select>
+            </div>
+
             <div className={styles.searchColumn}>
               <label className={styles.filterLabel}>
                 Cari Budget
@@ -333,6 +706,17 @@ const BudgetPage: React.FC = () => {
               {filteredBudgets.map((budget) => {
                 const isExpanded = expandedBudgets.has(budget.id);
                 const budgetDetails = expandedBudgets.get(budget.id);
+                const versions = budgetVersions.get(budget.id) || [];
+                const selectedVersionId = selectedVersions.get(budget.id) || CURRENT_VERSION;
+                const activeVersion = versions.find((v) => v.id === selectedVersionId);
+                const displayItems = budgetDetails ? getDisplayItems(budgetDetails, activeVersion) : [];
+                const approvalStatus = getBudgetStatus(budget);
+                const canEditContent = canEditBudgetContent(budget, user?.id, activeRole);
+                const editable = canEditContent && isBudgetEditable(budget);
+                const history = approvalHistory.get(budget.id) || [];
+                const displayTotal = activeVersion
+                  ? displayItems.reduce((sum, item) => sum + (item.allocated_amount || 0), 0)
+                  : budgetDetails?.total_allocated || 0;
 
                 return (
                  <div key={budget.id} className={styles.budgetCard}>
@@ -348,7 +732,20 @@ const BudgetPage: React.FC = () => {
           {budget.name}
         </h3>
         <span className={styles.budgetPeriodBadge}>
-          {budget.period}
+          {budget.period_type === 'FISCAL_YEAR'
+            ? `FY ${budget.period} s/d ${getBudgetEndPeriod(budget)}`
+            : budget.period}
+        </span>
+        <span className={`${styles.approvalBadge} ${APPROVAL_BADGE_CLASS[approvalStatus]}`}>
+          {BUDGET_STATUS_LABELS[approvalStatus]}
+        </span>
+        {budget.cost_center_id && (
+          <span className={styles.costCenterBadge}>
+            {formatCostCenter(budget.cost_center_id, costCenters)}
+          </span>
+        )}
+        <span className={styles.ownerBadge}>
+          Owner: {formatBudgetOwner(budget.owner_id, entityMembers)}
         </span>
       </div>
 
@@ -370,8 +767,51 @@ const BudgetPage: React.FC = () => {
   {/* Budget Details (Expanded) */}
   {isExpanded && budgetDetails && (
     <div className={styles.budgetDetails}>
+      {/* Catatan penolakan terakhir */}
+      {approvalStatus === 'DRAFT' && budget.status_comment && (
+        <div className={styles.rejectionNote}>
+          <strong>Ditolak:</strong> {budget.status_comment}
+        </div>
+      )}
+
+      {/* Version Switcher */}
+      <div className={styles.versionBar}>
+        <div className={styles.versionSelect}>
+          <label className={styles.filterLabel}>Versi Budget</label>
+          <select
+            value={selectedVersionId}
+            onChange={(e) => handleSelectVersion(budget.id, e.target.value)}
+            className={styles.filterSelect}
+          >
+            <option value={CURRENT_VERSION}>Saat Ini (live)</option>
+            {versions.map((version) => (
+              <option key={version.id} value={version.id}>
+                {version.name}
+                {version.created_at ? ` - ${new Date(version.created_at).toLocaleDateString('id-ID')}` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className={styles.versionNote}>
+          {activeVersion
+            ? `Snapshot ${activeVersion.name} (read-only)${activeVersion.note ? ` • ${activeVersion.note}` : ''}`
+            : versions.length === 0
+            ? 'Belum ada versi tersimpan. Original dibuat otomatis saat budget pertama kali diubah.'
+            : `${versions.length} versi tersimpan`}
+        </div>
+
+        <button
+          onClick={() => handleCreateForecast(budget.id)}
+          disabled={loading || !canEditBudget}
+          className={styles.versionButton}
+        >
+          Simpan sebagai Forecast
+        </button>
+      </div>
+
       {/* Items Table LANGSUNG DI ATAS */}
-      {budgetDetails.items.length === 0 ? (
+      {displayItems.length === 0 ? (
         <div className={styles.emptyItems}>
           Belum ada alokasi akun. Klik "Edit" untuk menambahkan.
         </div>
@@ -385,11 +825,12 @@ const BudgetPage: React.FC = () => {
                 <th>Tipe</th>
                 <th>Budget</th>
                 <th>Realisasi</th>
+                <th>Cost Center</th>
                 <th>Catatan</th>
               </tr>
             </thead>
             <tbody>
-              {budgetDetails.items.map((item) => (
+              {displayItems.map((item) => (
                 <tr key={item.id}>
                   <td>
                     <code className={styles.accountCode}>
@@ -425,6 +866,12 @@ const BudgetPage: React.FC = () => {
                       Rp {formatCurrency(item.realisasi_snapshot || 0)}
                     </span>
                   </td>
+                  <td>
+                    {formatCostCenter(
+                      resolveCostCenterId(item.cost_center_id, budget.cost_center_id),
+                      costCenters
+                    )}
+                  </td>
                   <td>
                     <div className={styles.itemDescription}>
                       {item.description || '-'}
@@ -452,9 +899,9 @@ const BudgetPage: React.FC = () => {
             </div>
             <div
               className={styles.summaryValue}
-              style={{ fontSize: `${getAdaptiveFontSize(budgetDetails.total_allocated)}px` }}
+              style={{ fontSize: `${getAdaptiveFontSize(displayTotal)}px` }}
             >
-              Rp {formatCurrency(budgetDetails.total_allocated)}
+              Rp {formatCurrency(displayTotal)}
             </div>
           </div>
 
@@ -478,7 +925,7 @@ const BudgetPage: React.FC = () => {
               Jumlah Akun
             </div>
             <div className={styles.summaryValue} style={{ fontSize: '20px' }}>
-              {budgetDetails.items.length} akun
+              {displayItems.length} akun
             </div>
           </div>
 
@@ -522,19 +969,68 @@ const BudgetPage: React.FC = () => {
             loading ? styles.disabled : styles.active
           }`}
         >
-          Edit
+          {editable ? 'Edit' : 'Lihat'}
         </button>
 
-        <button
-          onClick={() => handleDeleteBudget(budget.id, budget.name)}
-          disabled={loading}
-          className={`${styles.deleteButton} ${
-            loading ? styles.disabled : styles.active
-          }`}
-        >
-          Hapus
-        </button>
+        {editable && (
+          <button
+            onClick={() => handleDeleteBudget(budget.id, budget.name)}
+            disabled={loading}
+            className={`${styles.deleteButton} ${
+              loading ? styles.disabled : styles.active
+            }`}
+          >
+            Hapus
+          </button>
+        )}
+
+        {canEditBudget && (
+          <button
+            onClick={() => handleOpenCopy(budget)}
+            disabled={loading}
+            className={styles.versionButton}
+          >
+            Salin ke Periode…
+          </button>
+        )}
+
+        {canEditBudget && (
+          <button
+            onClick={() => handleSaveAsTemplate(budget)}
+            disabled={loading}
+            className={styles.versionButton}
+          >
+            Simpan sebagai Template
+          </button>
+        )}
+
+        {getAvailableActions(approvalStatus)
+          .filter((action) => (action === 'SUBMIT' ? canEditContent : can(getWorkflowActionPermission(action))))
+          .map((action) => (
+            <button
+              key={action}
+              onClick={() => handleWorkflowAction(budget, action)}
+              disabled={loading}
+              className={`${styles.workflowButton} ${action === 'REJECT' ? styles.reject : ''}`}
+            >
+              {WORKFLOW_ACTION_LABELS[action]}
+            </button>
+          ))}
       </div>
+
+      {/* Riwayat Approval */}
+      {history.length > 0 && (
+        <div className={styles.approvalHistory}>
+          {history.map((entry) => (
+            <div key={entry.id}>
+              {entry.created_at ? new Date(entry.created_at).toLocaleString('id-ID') : '-'} •{' '}
+              {WORKFLOW_ACTION_LABELS[entry.action]}: {BUDGET_STATUS_LABELS[entry.from_status]} →{' '}
+              {BUDGET_STATUS_LABELS[entry.to_status]}
+              {entry.comment && <> • "{entry.comment}"</>}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   )}
 </div>
@@ -3,6 +3,7 @@ import { useCoaForm } from '../../components/CoaForm';
 import { ImportExcel } from '../../components/Export&Import/ImportExcel';
 import styles from './CoaPage.module.css';
 import { CoaGuide } from '../../components/CoaGuide/CoaGuide';
+import { StandardCoaMapping } from '../../components/StandardCoaMapping/StandardCoaMapping';
 
 const CoaPage: React.FC = () => {
   const {
@@ -12,6 +13,7 @@ const CoaPage: React.FC = () => {
     error,
     syncStatus,
     activeEntity,
+    canEditCoa,
     editModalOpen,
     editForm,
     editLoading,
@@ -153,7 +155,7 @@ const CoaPage: React.FC = () => {
             <div className={styles.dropdownContainer} ref={dropdownRef}>
               <button
                 onClick={() => setDropdownOpen(!dropdownOpen)}
-                disabled={!activeEntity || syncing}
+                disabled={!activeEntity || syncing || !canEditCoa}
                 className={styles.dropdownButton}
               >
                 <span>Import Data</span>
@@ -260,22 +262,26 @@ const CoaPage: React.FC = () => {
                     </td>
 
                     <td className="table-cell-center">
-                      <div className="table-actions">
-                        <button
-                          onClick={() => handleEdit(acc)}
-                          className={styles.editButton}
-                          title="Edit"
-                        >
-                          Edit
-                        </button>
-                        <button
-                          onClick={() => handleDelete(acc)}
-                          className={styles.deleteButton}
-                          title="Delete"
-                        >
-                          Hapus
-                        </button>
-                      </div>
+                      {canEditCoa ? (
+                        <div className="table-actions">
+                          <button
+                            onClick={() => handleEdit(acc)}
+                            className={styles.editButton}
+                            title="Edit"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(acc)}
+                            className={styles.deleteButton}
+                            title="Delete"
+                          >
+                            Hapus
+                          </button>
+                        </div>
+                      ) : (
+                        '-'
+                      )}
                     </td>
                   </tr>
                 ))
@@ -290,16 +296,23 @@ const CoaPage: React.FC = () => {
             <div>
               {accounts.filter((a) => !a.suspended).length} aktif
             </div>
-            <button
-              onClick={() => setShowDeleteAllModal(true)}
-              className={styles.deleteAllButton}
-            >
-              Delete All COA
-            </button>
+            {canEditCoa && (
+              <button
+                onClick={() => setShowDeleteAllModal(true)}
+                className={styles.deleteAllButton}
+              >
+                Delete All COA
+              </button>
+            )}
           </div>
         )}
       </div>
 
+      {/* Standard COA Mapping */}
+      {activeEntity && accounts.length > 0 && (
+        <StandardCoaMapping entityId={activeEntity.id} accounts={accounts} />
+      )}
+
       {/* Import Excel Modal */}
       {showImportExcel && activeEntity && (
         <ImportExcel
@@ -0,0 +1,587 @@
+import React, { useEffect, useState } from 'react';
+import { getEntities } from '../../lib/supabase';
+import { getAvailableRealizationPeriods, getLocalAccounts, type Account } from '../../lib/accurate';
+import {
+  getEntityGroups,
+  saveEntityGroup,
+  deleteEntityGroup,
+  getConsolidatedReport,
+  getConsolidationMappings,
+  saveConsolidationMapping,
+  deleteConsolidationMapping,
+  type ConsolidatedReport,
+  type ConsolidationAccountMapping,
+  type EntityGroup,
+} from '../../lib/consolidation';
+import {
+  getStandardAccounts,
+  getStandardMappings,
+  type StandardAccount,
+  type StandardAccountMapping,
+} from '../../lib/standardCoa';
+import { summarizeByEntity, toConsolidatedRealizations } from '../../services/consolidation';
+import { consolidateByStandardAccount } from '../../services/standardCoa';
+import { ExportFile } from '../../components/Export&Import/ExportFile';
+import styles from './ConsolidationPage.module.css';
+
+interface GroupEntity {
+  id: string;
+  entity_name?: string;
+}
+
+const formatCurrency = (amount: number): string => amount.toLocaleString('id-ID');
+
+const NEW_GROUP = 'new';
+
+// Dasar penggabungan baris laporan
+type AggregationMode = 'holding' | 'standard';
+
+const ConsolidationPage: React.FC = () => {
+  // State
+  const [entities, setEntities] = useState<GroupEntity[]>([]);
+  const [groups, setGroups] = useState<EntityGroup[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState('');
+  const [periods, setPeriods] = useState<string[]>([]);
+  const [selectedPeriod, setSelectedPeriod] = useState('');
+  const [report, setReport] = useState<ConsolidatedReport | null>(null);
+  const [mappings, setMappings] = useState<ConsolidationAccountMapping[]>([]);
+  const [holdingAccounts, setHoldingAccounts] = useState<Account[]>([]);
+  const [aggregation, setAggregation] = useState<AggregationMode>('holding');
+  const [standardAccounts, setStandardAccounts] = useState<StandardAccount[]>([]);
+  const [standardMappings, setStandardMappings] = useState<StandardAccountMapping[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Group form state
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  const [groupName, setGroupName] = useState('');
+  const [holdingId, setHoldingId] = useState('');
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+
+  const selectedGroup = groups.find((g) => g.id === selectedGroupId) || null;
+  const entityName = (id: string) => entities.find((e) => e.id === id)?.entity_name || 'Unknown';
+
+  /**
+   * Initial load: entitas & grup milik user
+   */
+  useEffect(() => {
+    Promise.all([getEntities(), getEntityGroups()]).then(([entitiesResult, groupsResult]) => {
+      setEntities((entitiesResult.data || []) as GroupEntity[]);
+      setGroups(groupsResult.data);
+      if (groupsResult.data.length > 0) setSelectedGroupId(groupsResult.data[0].id);
+    });
+  }, []);
+
+  /**
+   * Periode tersedia, akun holding, mapping & COA standar saat grup berganti
+   */
+  useEffect(() => {
+    if (!selectedGroup) return;
+
+    Promise.all([
+      Promise.all(selectedGroup.entity_ids.map((id) => getAvailableRealizationPeriods(id))),
+      getLocalAccounts(selectedGroup.holding_entity_id),
+      getConsolidationMappings(selectedGroup.id),
+      getStandardAccounts(),
+      getStandardMappings(selectedGroup.entity_ids),
+    ]).then(([periodResults, accountsResult, mappingsResult, standardResult, standardMappingsResult]) => {
+      const available = Array.from(new Set(periodResults.flatMap((r) => r.data || []))).sort();
+      setPeriods(available);
+      setSelectedPeriod((current) =>
+        current && available.includes(current) ? current : available[available.length - 1] || ''
+      );
+      setHoldingAccounts((accountsResult.data || []) as Account[]);
+      setMappings(mappingsResult.data);
+      setStandardAccounts(standardResult.data);
+      setStandardMappings(standardMappingsResult.data);
+    });
+  }, [selectedGroup]);
+
+  /**
+   * Laporan konsolidasi untuk grup & periode terpilih
+   */
+  useEffect(() => {
+    if (!selectedGroup || !selectedPeriod) return;
+
+    getConsolidatedReport(selectedGroup, selectedPeriod).then(({ data, error }) => {
+      if (error) {
+        setError('Gagal memuat laporan konsolidasi: ' + (error as Error).message);
+        return;
+      }
+      setError(null);
+      setReport(data);
+    });
+  }, [selectedGroup, selectedPeriod, mappings]);
+
+  // ========================================
+  // GROUP FORM
+  // ========================================
+
+  const openGroupForm = (group: EntityGroup | null) => {
+    setEditingGroupId(group?.id || NEW_GROUP);
+    setGroupName(group?.name || '');
+    setHoldingId(group?.holding_entity_id || entities[0]?.id || '');
+    setMemberIds(group?.entity_ids || []);
+  };
+
+  const toggleMember = (entityId: string) => {
+    setMemberIds((prev) =>
+      prev.includes(entityId) ? prev.filter((id) => id !== entityId) : [...prev, entityId]
+    );
+  };
+
+  const handleSaveGroup = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await saveEntityGroup(
+        { name: groupName, holding_entity_id: holdingId, entity_ids: memberIds },
+        editingGroupId === NEW_GROUP ? undefined : editingGroupId || undefined
+      );
+      if (error) throw error;
+
+      const { data: refreshed } = await getEntityGroups();
+      setGroups(refreshed);
+      if (data) setSelectedGroupId(data.id);
+      setEditingGroupId(null);
+    } catch (err) {
+      setError('Gagal menyimpan grup: ' + (err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteGroup = async () => {
+    if (!selectedGroup) return;
+    if (!confirm(`Hapus grup "${selectedGroup.name}" beserta mapping akunnya?`)) return;
+
+    const { error } = await deleteEntityGroup(selectedGroup.id);
+    if (error) {
+      setError('Gagal menghapus grup: ' + (error as Error).message);
+      return;
+    }
+
+    const remaining = groups.filter((g) => g.id !== selectedGroup.id);
+    setGroups(remaining);
+    setSelectedGroupId(remaining[0]?.id || '');
+    setReport(null);
+  };
+
+  // ========================================
+  // MAPPING & INTERCOMPANY
+  // ========================================
+
+  const getMapping = (entityId: string, accountCode: string) =>
+    mappings.find((m) => m.entity_id === entityId && m.account_code === accountCode);
+
+  /**
+   * Simpan mapping; tanpa target khusus & bukan intercompany berarti mapping dihapus
+   */
+  const handleMappingChange = async (
+    entityId: string,
+    accountCode: string,
+    changes: { target_account_code?: string; is_intercompany?: boolean }
+  ) => {
+    if (!selectedGroup) return;
+
+    const existing = getMapping(entityId, accountCode);
+    const target = changes.target_account_code ?? existing?.target_account_code ?? accountCode;
+    const isIntercompany = changes.is_intercompany ?? existing?.is_intercompany ?? false;
+
+    const { error } =
+      target === accountCode && !isIntercompany
+        ? existing
+          ? await deleteConsolidationMapping(existing.id)
+          : { error: null }
+        : await saveConsolidationMapping({
+            group_id: selectedGroup.id,
+            entity_id: entityId,
+            account_code: accountCode,
+            target_account_code: target,
+            is_intercompany: isIntercompany,
+          });
+
+    if (error) {
+      setError('Gagal menyimpan mapping: ' + (error as Error).message);
+      return;
+    }
+
+    const { data } = await getConsolidationMappings(selectedGroup.id);
+    setMappings(data);
+  };
+
+  // Akun ber-budget per entitas (sumber baris mapping)
+  const sourceAccounts = report
+    ? Array.from(
+        new Map(
+          report.realizations.map((r) => [`${r.entity_id}|${r.account_code}`, r])
+        ).values()
+      ).sort((a, b) =>
+        entityName(a.entity_id).localeCompare(entityName(b.entity_id)) || a.account_code.localeCompare(b.account_code)
+      )
+    : [];
+
+  // ========================================
+  // REPORT
+  // ========================================
+
+  const lines = !report
+    ? []
+    : aggregation === 'standard'
+      ? consolidateByStandardAccount(report.realizations, standardMappings, standardAccounts, mappings)
+      : report.lines;
+  const entityTotals = summarizeByEntity(lines);
+  const totals = lines.reduce(
+    (sum, line) => ({
+      gross_budget: sum.gross_budget + line.gross_budget,
+      gross_realisasi: sum.gross_realisasi + line.gross_realisasi,
+      eliminated_realisasi: sum.eliminated_realisasi + line.eliminated_realisasi,
+      budget: sum.budget + line.budget_allocated,
+      realisasi: sum.realisasi + line.realisasi,
+    }),
+    { gross_budget: 0, gross_realisasi: 0, eliminated_realisasi: 0, budget: 0, realisasi: 0 }
+  );
+  const totalVariance = totals.budget - totals.realisasi;
+
+  return (
+    <div className={styles.pageContainer}>
+      {/* Header */}
+      <div className={styles.header}>
+        <div className={styles.headerContent}>
+          <h2>Konsolidasi</h2>
+          <p>Budget vs realisasi gabungan holding dan anak usaha, setelah eliminasi akun intercompany</p>
+        </div>
+        <button onClick={() => openGroupForm(null)} disabled={loading} className={styles.primaryButton}>
+          + Grup Baru
+        </button>
+      </div>
+
+      {error && (
+        <div className={styles.errorAlert}>
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      {/* Group Form */}
+      {editingGroupId && (
+        <form onSubmit={handleSaveGroup} className={styles.card}>
+          <h3 className={styles.cardTitle}>{editingGroupId === NEW_GROUP ? 'Grup Baru' : 'Edit Grup'}</h3>
+          <div className={styles.formGrid}>
+            <div>
+              <label className={styles.label}>Nama Grup</label>
+              <input
+                type="text"
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+                placeholder="contoh: Grup ABC"
+                className={styles.input}
+              />
+            </div>
+            <div>
+              <label className={styles.label}>Entitas Holding</label>
+              <select value={holdingId} onChange={(e) => setHoldingId(e.target.value)} className={styles.select}>
+                {entities.map((entity) => (
+                  <option key={entity.id} value={entity.id}>
+                    {entity.entity_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className={styles.label}>Anak Usaha</label>
+          <div className={styles.memberList}>
+            {entities
+              .filter((entity) => entity.id !== holdingId)
+              .map((entity) => (
+                <label key={entity.id} className={styles.memberItem}>
+                  <input
+                    type="checkbox"
+                    checked={memberIds.includes(entity.id)}
+                    onChange={() => toggleMember(entity.id)}
+                  />
+                  {entity.entity_name}
+                </label>
+              ))}
+          </div>
+
+          <div className={styles.formActions}>
+            <button type="submit" disabled={loading} className={styles.primaryButton}>
+              Simpan Grup
+            </button>
+            <button type="button" onClick={() => setEditingGroupId(null)} className={styles.secondaryButton}>
+              Batal
+            </button>
+          </div>
+        </form>
+      )}
+
+      {groups.length === 0 && !editingGroupId && (
+        <div className={styles.noEntityWarning}>
+          Belum ada grup entitas. Klik <strong>+ Grup Baru</strong> untuk menggabungkan holding dan anak usaha.
+        </div>
+      )}
+
+      {/* Filters */}
+      {selectedGroup && (
+        <div className={styles.card}>
+          <div className={styles.filterRow}>
+            <div>
+              <label className={styles.label}>Grup</label>
+              <select
+                value={selectedGroupId}
+                onChange={(e) => setSelectedGroupId(e.target.value)}
+                className={styles.select}
+              >
+                {groups.map((group) => (
+                  <option key={group.id} value={group.id}>
+                    {group.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={styles.label}>Periode</label>
+              <select
+                value={selectedPeriod}
+                onChange={(e) => setSelectedPeriod(e.target.value)}
+                disabled={periods.length === 0}
+                className={styles.select}
+              >
+                {periods.length === 0 && <option value="">Belum ada periode</option>}
+                {periods.map((period) => (
+                  <option key={period} value={period}>
+                    {period}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={styles.label}>Gabungkan per</label>
+              <select
+                value={aggregation}
+                onChange={(e) => setAggregation(e.target.value as AggregationMode)}
+                className={styles.select}
+              >
+                <option value="holding">Akun Holding</option>
+                <option value="standard">Akun Standar</option>
+              </select>
+            </div>
+            <div className={styles.rowActions}>
+              <button onClick={() => openGroupForm(selectedGroup)} className={styles.secondaryButton}>
+                Edit Grup
+              </button>
+              <button onClick={handleDeleteGroup} className={styles.deleteButton}>
+                Hapus
+              </button>
+            </div>
+          </div>
+          <p className={styles.cardHint}>
+            Holding: <strong>{entityName(selectedGroup.holding_entity_id)}</strong> • Anak usaha:{' '}
+            {selectedGroup.entity_ids
+              .filter((id) => id !== selectedGroup.holding_entity_id)
+              .map(entityName)
+              .join(', ')}
+          </p>
+        </div>
+      )}
+
+      {/* Consolidated Report */}
+      {selectedGroup && report && (
+        <div className={styles.card}>
+          <div className={styles.cardHeader}>
+            <h3 className={styles.cardTitle}>
+              Laporan Konsolidasi {selectedGroup.name} — {report.period}
+              {aggregation === 'standard' && ' (per Akun Standar)'}
+            </h3>
+            <ExportFile
+              group={{
+                budget_name: `Konsolidasi ${selectedGroup.name}`,
+                period: report.period,
+                accounts: toConsolidatedRealizations(
+                  lines,
+                  selectedGroup.holding_entity_id,
+                  selectedGroup.name,
+                  report.period
+                ),
+                total_budget: totals.budget,
+                total_realisasi: totals.realisasi,
+                total_variance: totalVariance,
+                variance_percentage: totals.budget > 0 ? (totalVariance / totals.budget) * 100 : 0,
+                overall_status: totals.realisasi <= totals.budget ? 'ON_TRACK' : 'OVER_BUDGET',
+              }}
+              entityName={selectedGroup.name}
+            />
+          </div>
+
+          {aggregation === 'standard' && (
+            <p className={styles.cardHint}>
+              Akun dipetakan lewat COA Standar di halaman Chart of Accounts masing-masing entitas.
+              {standardAccounts.length === 0 && ' Belum ada akun standar yang dibuat.'}
+            </p>
+          )}
+
+          {/* Kontribusi per entitas */}
+          <div className={styles.entityTotals}>
+            {entityTotals.map((total) => (
+              <div key={total.entity_id} className={styles.entityTotal}>
+                <div className={styles.entityTotalName}>{entityName(total.entity_id)}</div>
+                <div>Budget: Rp{formatCurrency(total.budget)}</div>
+                <div>Realisasi: Rp{formatCurrency(total.realisasi)}</div>
+                {total.eliminated_realisasi !== 0 && (
+                  <div className={styles.eliminated}>
+                    Eliminasi: Rp{formatCurrency(total.eliminated_realisasi)}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {lines.length === 0 ? (
+            <div className={styles.emptyState}>Belum ada data budget untuk periode ini</div>
+          ) : (
+            <div className={styles.tableWrapper}>
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>Akun</th>
+                    <th className={styles.amount}>Budget Gabungan</th>
+                    <th className={styles.amount}>Realisasi Gabungan</th>
+                    <th className={styles.amount}>Eliminasi</th>
+                    <th className={styles.amount}>Budget Konsolidasi</th>
+                    <th className={styles.amount}>Realisasi Konsolidasi</th>
+                    <th className={styles.amount}>Variance</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line) => (
+                    <tr key={line.account_code}>
+                      <td>
+                        <code>{line.account_code}</code> {line.account_name}
+                        <div className={styles.contributions}>
+                          {line.contributions
+                            .map((c) => `${entityName(c.entity_id)}${c.source_account_code !== line.account_code ? ` (${c.source_account_code})` : ''}`)
+                            .join(', ')}
+                        </div>
+                      </td>
+                      <td className={styles.amount}>{formatCurrency(line.gross_budget)}</td>
+                      <td className={styles.amount}>{formatCurrency(line.gross_realisasi)}</td>
+                      <td className={`${styles.amount} ${styles.eliminated}`}>
+                        {line.eliminated_realisasi !== 0 || line.eliminated_budget !== 0
+                          ? `-${formatCurrency(line.eliminated_realisasi)}`
+                          : '-'}
+                      </td>
+                      <td className={styles.amount}>{formatCurrency(line.budget_allocated)}</td>
+                      <td className={styles.amount}>{formatCurrency(line.realisasi)}</td>
+                      <td className={styles.amount}>{formatCurrency(line.variance)}</td>
+                      <td>
+                        <span
+                          className={`${styles.statusBadge} ${
+                            line.status === 'OVER_BUDGET' ? styles.over : styles.onTrack
+                          }`}
+                        >
+                          {line.status === 'OVER_BUDGET' ? 'Over Budget' : 'On Track'}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className={styles.totalRow}>
+                    <td>TOTAL</td>
+                    <td className={styles.amount}>{formatCurrency(totals.gross_budget)}</td>
+                    <td className={styles.amount}>{formatCurrency(totals.gross_realisasi)}</td>
+                    <td className={`${styles.amount} ${styles.eliminated}`}>
+                      -{formatCurrency(totals.eliminated_realisasi)}
+                    </td>
+                    <td className={styles.amount}>{formatCurrency(totals.budget)}</td>
+                    <td className={styles.amount}>{formatCurrency(totals.realisasi)}</td>
+                    <td className={styles.amount}>{formatCurrency(totalVariance)}</td>
+                    <td />
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Mapping & Intercompany */}
+      {selectedGroup && report && sourceAccounts.length > 0 && (
+        <div className={styles.card}>
+          <h3 className={styles.cardTitle}>Mapping Akun & Intercompany</h3>
+          <p className={styles.cardHint}>
+            Petakan akun tiap entitas ke akun COA holding. Akun tanpa mapping digabung berdasarkan kode yang sama.
+            Tandai akun transaksi antar entitas grup sebagai intercompany agar dieliminasi dari total konsolidasi.
+          </p>
+
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Entitas</th>
+                  <th>Akun Entitas</th>
+                  <th>Akun Holding</th>
+                  <th>Intercompany</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sourceAccounts.map((account) => {
+                  const mapping = getMapping(account.entity_id, account.account_code);
+                  const isHolding = account.entity_id === selectedGroup.holding_entity_id;
+
+                  return (
+                    <tr key={`${account.entity_id}|${account.account_code}`}>
+                      <td>{entityName(account.entity_id)}</td>
+                      <td>
+                        <code>{account.account_code}</code> {account.account_name}
+                      </td>
+                      <td>
+                        {isHolding ? (
+                          <span className={styles.cardHint}>Akun holding</span>
+                        ) : (
+                          <select
+                            value={mapping?.target_account_code || account.account_code}
+                            onChange={(e) =>
+                              handleMappingChange(account.entity_id, account.account_code, {
+                                target_account_code: e.target.value,
+                              })
+                            }
+                            className={styles.select}
+                          >
+                            <option value={account.account_code}>Kode sama ({account.account_code})</option>
+                            {holdingAccounts
+                              .filter((acc) => acc.account_code !== account.account_code)
+                              .map((acc) => (
+                                <option key={acc.account_code} value={acc.account_code}>
+                                  {acc.account_code} - {acc.account_name}
+                                </option>
+                              ))}
+                          </select>
+                        )}
+                      </td>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={!!mapping?.is_intercompany}
+                          onChange={(e) =>
+                            handleMappingChange(account.entity_id, account.account_code, {
+                              is_intercompany: e.target.checked,
+                            })
+                          }
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConsolidationPage;
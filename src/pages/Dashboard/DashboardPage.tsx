@@ -12,10 +12,23 @@ import {
 } from 'recharts';
 import {
   getBudgetRealizationsLive,
+  getAvailableRealizationPeriods,
   getLocalAccounts,
   type BudgetRealization,
 } from '../../lib/accurate';
 import { getEntities } from '../../lib/supabase';
+import { getEntityGroups, getConsolidatedReport, type EntityGroup } from '../../lib/consolidation';
+import { summarizeByEntity, toConsolidatedRealizations } from '../../services/consolidation';
+import { getCostCentersByEntities, type CostCenter } from '../../lib/costCenters';
+import { YearEndForecast } from '../../components/YearEndForecast/YearEndForecast';
+import { PeriodComparison } from '../../components/PeriodComparison/PeriodComparison';
+import {
+  ALL_COST_CENTERS,
+  NO_COST_CENTER,
+  NO_COST_CENTER_LABEL,
+  filterByCostCenter,
+  summarizeByCostCenter,
+} from '../../services/costCenters';
 import styles from './DashboardPage.module.css';
 
 const formatCurrency = (amount: number): string => {
@@ -39,7 +52,7 @@ interface OverBudgetItem {
   variance_percentage: number;
 }
 
-type ViewMode = 'single' | 'all';
+type ViewMode = 'single' | 'all' | 'group';
 
 const DashboardPage: React.FC = () => {
   const navigate = useNavigate();
@@ -50,6 +63,10 @@ const DashboardPage: React.FC = () => {
   const [selectedPeriod, setSelectedPeriod] = useState<string>('');
   const [availablePeriods, setAvailablePeriods] = useState<string[]>([]);
   const [userEntities, setUserEntities] = useState<any[]>([]);
+  const [entityGroups, setEntityGroups] = useState<EntityGroup[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<string>('');
+  const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
+  const [selectedCostCenter, setSelectedCostCenter] = useState<string>(ALL_COST_CENTERS);
 
   const [realizations, setRealizations] = useState<BudgetRealization[]>([]);
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
@@ -71,6 +88,10 @@ const DashboardPage: React.FC = () => {
 
   useEffect(() => {
     loadUserEntities();
+    getEntityGroups().then(({ data }) => {
+      setEntityGroups(data);
+      if (data.length > 0) setSelectedGroupId(data[0].id);
+    });
   }, []);
 
   useEffect(() => {
@@ -78,8 +99,16 @@ const DashboardPage: React.FC = () => {
       loadSingleEntityData(selectedEntityId);
     } else if (viewMode === 'all' && selectedPeriod) {
       loadAllEntitiesDataByPeriod(selectedPeriod);
+    } else if (viewMode === 'group' && selectedGroupId && selectedPeriod) {
+      loadConsolidatedDataByPeriod(selectedGroupId, selectedPeriod);
     }
-  }, [viewMode, selectedEntityId, selectedPeriod]);
+  }, [viewMode, selectedEntityId, selectedPeriod, selectedGroupId, selectedCostCenter]);
+
+  // Cost center semua entitas user (untuk filter & subtotal)
+  useEffect(() => {
+    if (userEntities.length === 0) return;
+    getCostCentersByEntities(userEntities.map(entity => entity.id)).then(({ data }) => setCostCenters(data));
+  }, [userEntities]);
 
   const loadUserEntities = async () => {
     try {
@@ -98,17 +127,18 @@ const DashboardPage: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
-      const { data: realizationsData, error: realizationsError } =
+      const { data: allRealizations, error: realizationsError } =
         await getBudgetRealizationsLive(entityId);
       if (realizationsError) throw realizationsError;
-      setRealizations(realizationsData || []);
+      const realizationsData = filterByCostCenter(allRealizations || [], selectedCostCenter);
+      setRealizations(realizationsData);
 
       const { data: accountsData, error: accountsError } =
         await getLocalAccounts(entityId);
       if (accountsError) throw accountsError;
       setTotalAccounts(accountsData?.length || 0);
 
-      if (realizationsData && realizationsData.length > 0) {
+      if (realizationsData.length > 0) {
         processChartData(realizationsData);
         processOverBudgetItems(realizationsData);
         calculateBetterStatistics(realizationsData);
@@ -128,15 +158,15 @@ const DashboardPage: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
+      // Budget tahun fiskal ikut tercakup (dihitung YTD sampai periode ini)
       const allRealizationsPromises = userEntities.map(entity =>
-        getBudgetRealizationsLive(entity.id)
+        getBudgetRealizationsLive(entity.id, period)
       );
       const allResults = await Promise.all(allRealizationsPromises);
       const combinedRealizations: BudgetRealization[] = [];
       allResults.forEach((result) => {
         if (result.data) {
-          const filteredData = result.data.filter(item => item.period === period);
-          combinedRealizations.push(...filteredData);
+          combinedRealizations.push(...filterByCostCenter(result.data, selectedCostCenter));
         }
       });
       setRealizations(combinedRealizations);
@@ -164,8 +194,49 @@ const DashboardPage: React.FC = () => {
     }
   };
 
+  /**
+   * Mode konsolidasi: gabungan grup setelah mapping akun & eliminasi intercompany
+   */
+  const loadConsolidatedDataByPeriod = async (groupId: string, period: string) => {
+    const group = entityGroups.find(g => g.id === groupId);
+    if (!group) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data: report, error: reportError } = await getConsolidatedReport(group, period);
+      if (reportError) throw reportError;
+
+      const consolidated = toConsolidatedRealizations(report?.lines || [], group.holding_entity_id, group.name, period);
+      setRealizations(consolidated);
+
+      const { data: accountsData } = await getLocalAccounts(group.holding_entity_id);
+      setTotalAccounts(accountsData?.length || 0);
+
+      if (consolidated.length > 0) {
+        setChartData(
+          summarizeByEntity(report?.lines || []).map(total => ({
+            period: userEntities.find(e => e.id === total.entity_id)?.entity_name || 'Unknown',
+            budget: total.budget,
+            realisasi: total.realisasi,
+          }))
+        );
+        processOverBudgetItems(consolidated);
+        calculateBetterStatistics(consolidated);
+      } else {
+        resetData();
+      }
+    } catch (err) {
+      console.error('[DashboardPage] Error:', err);
+      setError('Gagal memuat data konsolidasi: ' + (err as Error).message);
+      resetData();
+    } finally {
+      setLoading(false);
+    }
+  };
+
   useEffect(() => {
-    if (viewMode === 'all' && userEntities.length > 0) {
+    if (viewMode !== 'single' && userEntities.length > 0) {
       loadAvailablePeriods();
     }
   }, [viewMode, userEntities]);
@@ -174,9 +245,9 @@ const DashboardPage: React.FC = () => {
     try {
       const periodsSet = new Set<string>();
       for (const entity of userEntities) {
-        const { data } = await getBudgetRealizationsLive(entity.id);
+        const { data } = await getAvailableRealizationPeriods(entity.id);
         if (data) {
-          data.forEach(item => periodsSet.add(item.period));
+          data.forEach(period => periodsSet.add(period));
         }
       }
       const periods = Array.from(periodsSet).sort();
@@ -315,11 +386,30 @@ const DashboardPage: React.FC = () => {
     return value.toString();
   };
 
+  // Mode single hanya menampilkan cost center entitas yang dipilih
+  const visibleCostCenters = viewMode === 'single'
+    ? costCenters.filter(cc => cc.entity_id === selectedEntityId)
+    : costCenters;
+  const costCenterSubtotals = summarizeByCostCenter(realizations, visibleCostCenters);
+
+  // Proyeksi: mode single memakai bulan berjalan, mode all periode yang dipilih
+  const now = new Date();
+  const forecastPeriod = viewMode === 'single'
+    ? `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+    : selectedPeriod;
+  const forecastEntityIds = viewMode === 'single'
+    ? [selectedEntityId].filter(Boolean)
+    : userEntities.map(entity => entity.id);
+
   const getChartTitle = () => {
     if (viewMode === 'single') {
       const entity = userEntities.find(e => e.id === selectedEntityId);
       return `Budget vs Realisasi - ${entity?.entity_name || 'Unknown'}`;
     }
+    if (viewMode === 'group') {
+      const group = entityGroups.find(g => g.id === selectedGroupId);
+      return `Konsolidasi ${group?.name || ''} per Entitas, setelah eliminasi (${selectedPeriod})`;
+    }
     return `Budget vs Realisasi - Semua Entitas (${selectedPeriod})`;
   };
 
@@ -378,14 +468,42 @@ const DashboardPage: React.FC = () => {
               >
                 All Entities
               </button>
+              <button
+                onClick={() => setViewMode('group')}
+                disabled={entityGroups.length === 0}
+                title={entityGroups.length === 0 ? 'Buat grup entitas di halaman Konsolidasi' : undefined}
+                className={`${styles.modeTab} ${viewMode === 'group' ? styles.modeTabActive : ''}`}
+              >
+                Konsolidasi
+              </button>
             </div>
 
+            {viewMode === 'group' && (
+              <div className={styles.filterGroup}>
+                <label className={styles.filterLabel}>Pilih Grup:</label>
+                <select
+                  value={selectedGroupId}
+                  onChange={(e) => setSelectedGroupId(e.target.value)}
+                  className={styles.filterSelect}
+                >
+                  {entityGroups.map(group => (
+                    <option key={group.id} value={group.id}>
+                      {group.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {viewMode === 'single' ? (
               <div className={styles.filterGroup}>
                 <label className={styles.filterLabel}>Pilih Entitas:</label>
                 <select
                   value={selectedEntityId}
-                  onChange={(e) => setSelectedEntityId(e.target.value)}
+                  onChange={(e) => {
+                    setSelectedEntityId(e.target.value);
+                    setSelectedCostCenter(ALL_COST_CENTERS);
+                  }}
                   className={styles.filterSelect}
                 >
                   {userEntities.map(entity => (
@@ -415,9 +533,31 @@ const DashboardPage: React.FC = () => {
               </div>
             )}
 
+            {viewMode !== 'group' && visibleCostCenters.length > 0 && (
+              <div className={styles.filterGroup}>
+                <label className={styles.filterLabel}>Cost Center:</label>
+                <select
+                  value={selectedCostCenter}
+                  onChange={(e) => setSelectedCostCenter(e.target.value)}
+                  className={styles.filterSelect}
+                >
+                  <option value={ALL_COST_CENTERS}>Semua</option>
+                  <option value={NO_COST_CENTER}>{NO_COST_CENTER_LABEL}</option>
+                  {visibleCostCenters.map(cc => (
+                    <option key={cc.id} value={cc.id}>
+                      {cc.code} - {cc.name}
+                      {viewMode === 'all' && ` (${userEntities.find(e => e.id === cc.entity_id)?.entity_name || '-'})`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <span className={styles.filterHint}>
               {viewMode === 'single'
                 ? 'Menampilkan semua periode dari entitas yang dipilih'
+                : viewMode === 'group'
+                ? 'Akun dipetakan ke COA holding, akun intercompany dieliminasi'
                 : 'Menampilkan semua entitas pada periode yang dipilih'}
             </span>
           </div>
@@ -589,8 +729,52 @@ const DashboardPage: React.FC = () => {
                   </div>
                 )}
               </div>
+
+              {/* YEAR-END FORECAST */}
+              {viewMode !== 'group' && forecastPeriod && forecastEntityIds.length > 0 && (
+                <YearEndForecast
+                  entityIds={forecastEntityIds}
+                  asOfPeriod={forecastPeriod}
+                  entityNames={Object.fromEntries(userEntities.map(entity => [entity.id, entity.entity_name]))}
+                  compact
+                />
+              )}
+
+              {/* COST CENTER SUBTOTAL */}
+              {viewMode !== 'group' && visibleCostCenters.length > 0 && !loading && costCenterSubtotals.length > 0 && (
+                <div className={styles.insightsCard}>
+                  <h3 className={styles.insightsTitle}>Per Cost Center</h3>
+                  <div className={styles.costCenterList}>
+                    {costCenterSubtotals.map(subtotal => (
+                      <div key={subtotal.cost_center_id || NO_COST_CENTER} className={styles.costCenterRow}>
+                        <div>
+                          <div className={styles.costCenterName}>
+                            {subtotal.cost_center_id ? `${subtotal.code} - ${subtotal.name}` : subtotal.name}
+                          </div>
+                          <div className={styles.costCenterMeta}>
+                            Rp{formatCurrency(subtotal.realisasi)} / Rp{formatCurrency(subtotal.budget)}
+                          </div>
+                        </div>
+                        <span className={
+                          subtotal.status === 'OVER_BUDGET' ? styles.costCenterOver : styles.costCenterOnTrack
+                        }>
+                          {subtotal.budget > 0 ? ((subtotal.realisasi / subtotal.budget) * 100).toFixed(1) : '0.0'}%
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
+
+          {/* PERIOD COMPARISON */}
+          {viewMode === 'single' && selectedEntityId && (
+            <PeriodComparison
+              entityId={selectedEntityId}
+              entityName={userEntities.find(e => e.id === selectedEntityId)?.entity_name || '-'}
+            />
+          )}
         </>
       )}
     </div>
@@ -5,6 +5,11 @@ import { AccurateGuide } from '../../components/AccurateGuide/AccurateGuide';
 import { useEntity } from '../../contexts/EntityContext';
 import { validateEntitasToken } from '../../lib/accurate';
 import type { AccurateValidationResult } from '../../lib/accurate';
+import type { WorkspaceRole } from '../../lib/workspaces';
+import { formatTokenHint } from '../../lib/credentialVault';
+import { getOAuthSessions, startAccurateReconnect, type AccurateOAuthSession } from '../../lib/accurateOAuth';
+import { OAUTH_STATUS_LABELS, needsReconnect } from '../../services/accurateOAuth';
+import { WORKSPACE_ROLE_LABELS, hasPermission } from '../../services/workspaceRoles';
 import styles from './EntitasModule.module.css';
 
 export const EntitasPage: React.FC = () => {
@@ -20,6 +25,7 @@ export const EntitasPage: React.FC = () => {
 
   // Entity status states
   const [entityStatus, setEntityStatus] = useState<Record<string, AccurateValidationResult>>({});
+  const [oauthSessions, setOauthSessions] = useState<Record<string, AccurateOAuthSession>>({});
 
   const { setActiveEntity, isEntityActive, setEntities: setContextEntities } = useEntity();
 
@@ -57,7 +63,7 @@ export const EntitasPage: React.FC = () => {
    * Check status koneksi setiap entitas
    */
   const checkEntityStatus = async (entity: any) => {
-    if (!entity.api_token) {
+    if (!entity.has_api_token) {
       setEntityStatus((prev) => ({
         ...prev,
         [entity.id]: {
@@ -69,7 +75,7 @@ export const EntitasPage: React.FC = () => {
     }
 
     try {
-      const result = await validateEntitasToken(entity.api_token);
+      const result = await validateEntitasToken({ entityId: entity.id });
       setEntityStatus((prev) => ({
         ...prev,
         [entity.id]: result,
@@ -161,6 +167,15 @@ export const EntitasPage: React.FC = () => {
     }
   }, [entities]);
 
+  // Status sesi OAuth Accurate, untuk prompt hubungkan ulang
+  useEffect(() => {
+    getOAuthSessions(entities.map((entity) => entity.id)).then(({ data }) => {
+      setOauthSessions(Object.fromEntries(data.map((session) => [session.entity_id, session])));
+    });
+  }, [entities]);
+
+  const reconnectEntities = entities.filter((entity) => needsReconnect(oauthSessions[entity.id]));
+
   return (
     <div className="app-container fade-in">
       {/* HEADER */}
@@ -183,6 +198,31 @@ export const EntitasPage: React.FC = () => {
         </div>
       )}
 
+      {/* RECONNECT ACCURATE */}
+      {reconnectEntities.length > 0 && (
+        <div className={styles.reconnectAlert}>
+          <strong>Koneksi Accurate perlu dihubungkan ulang</strong>
+          {reconnectEntities.map((entity) => {
+            const session = oauthSessions[entity.id];
+            return (
+              <div key={entity.id} className={styles.reconnectRow}>
+                <span>
+                  {entity.entity_name}: {OAUTH_STATUS_LABELS[session.status]}
+                  {session.last_error && <span className={styles.reconnectError}> ({session.last_error})</span>}
+                </span>
+                <button
+                  className="btn btn-primary btn-sm"
+                  onClick={() => startAccurateReconnect(entity.id)}
+                  disabled={loading || !hasPermission(entity.role, 'MANAGE_ENTITY')}
+                >
+                  Hubungkan Ulang Accurate
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* CARD */}
       <div className="card fade-in">
         <div className={styles.cardHeader}>
@@ -214,6 +254,7 @@ export const EntitasPage: React.FC = () => {
               <tr>
                 <th className={styles.colActive}>Aktif</th>
                 <th>Nama Entitas</th>
+                <th>Peran</th>
                 <th>Koneksi Accurate</th>
                 <th>Data Usaha Accurate</th>
                 <th className={styles.colPrivacy}>Tampilan</th>
@@ -223,13 +264,13 @@ export const EntitasPage: React.FC = () => {
             <tbody>
               {loading && entities.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="table-loading">
+                  <td colSpan={7} className="table-loading">
                     Memuat data...
                   </td>
                 </tr>
               ) : entities.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="table-empty">
+                  <td colSpan={7} className="table-empty">
                     Belum ada entitas. Silakan tambahkan entitas baru untuk memulai.
                   </td>
                 </tr>
@@ -238,6 +279,8 @@ export const EntitasPage: React.FC = () => {
                   const status = entityStatus[e.id];
                   const isConnected = status?.isValid;
                   const statusText = isConnected ? 'Terhubung' : 'Tidak Terhubung';
+                  const canManage = hasPermission(e.role, 'MANAGE_ENTITY');
+                  const canDelete = hasPermission(e.role, 'DELETE_ENTITY');
 
                   return (
                     <tr key={e.id}>
@@ -256,6 +299,9 @@ export const EntitasPage: React.FC = () => {
                       {/* NAMA ENTITAS */}
                       <td className={styles.cellEntityName}>{e.entity_name}</td>
 
+                      {/* PERAN */}
+                      <td>{e.role ? WORKSPACE_ROLE_LABELS[e.role as WorkspaceRole] : '-'}</td>
+
                       {/* STATUS KONEKSI */}
                       <td>
                         <span
@@ -265,6 +311,7 @@ export const EntitasPage: React.FC = () => {
                         >
                           {statusText}
                         </span>
+                        <div className={styles.tokenHint}>{formatTokenHint(e)}</div>
                       </td>
  
                       {/* DATABASE */}
@@ -294,7 +341,7 @@ export const EntitasPage: React.FC = () => {
                             type="checkbox"
                             checked={e.is_public || false}
                             onChange={() => handleTogglePrivacy(e.id, e.is_public || false)}
-                            disabled={loading}
+                            disabled={loading || !canManage}
                             className={styles.privacyCheckbox}
                           />
                           <span className={styles.privacyLabel}>
@@ -312,14 +359,14 @@ export const EntitasPage: React.FC = () => {
                               setSelectedEntity(e);
                               setShowEdit(true);
                             }}
-                            disabled={loading}
+                            disabled={loading || !canManage}
                           >
                             Edit
                           </button>
                           <button
                             className="btn btn-danger btn-sm"
                             onClick={() => handleDeleteEntity(e.id, e.entity_name)}
-                            disabled={loading}
+                            disabled={loading || !canDelete}
                           >
                             Hapus
                           </button>
@@ -352,6 +399,9 @@ export const EntitasPage: React.FC = () => {
             <div className={styles.legendItem}>
               <span className={styles.legendImportant}>Private</span> - Data realisasi tidak dibagikan ke user lain.
             </div>
+            <div className={styles.legendItem}>
+              <span className={styles.legendImportant}>Peran</span> - Hak akses Anda atas entitas. Entitas tim dikelola di halaman "Workspace Tim".
+            </div>
             
           </div>
         </div>
@@ -1,15 +1,46 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
 import { useEntity } from '../../contexts/EntityContext';
 import {
+  getBudgets,
   getBudgetRealizationsLive,
   getAvailableRealizationPeriods,
   getAvailableAccountTypes,
   subscribeBudgetItems,
   type BudgetRealization,
   type BudgetRealizationSummary,
+  type BudgetVersionSelector,
+  type AccurateDimensionFilter,
 } from '../../lib/accurate';
-import { ExportFile } from '../../components/Export&Import/ExportFile';
+import {
+  refreshBudgetRealizations,
+  getLastRealizationRefresh,
+  getRealisasiHistory,
+  type RealisasiHistoryEntry,
+  type RealizationRefreshRun,
+} from '../../lib/realizationRefresh';
+import { getCostCenters, type CostCenter } from '../../lib/costCenters';
+import { getEntityMembers, type WorkspaceMember } from '../../lib/workspaces';
+import {
+  ALL_COST_CENTERS,
+  NO_COST_CENTER,
+  NO_COST_CENTER_LABEL,
+  filterByCostCenter,
+  formatCostCenter,
+  summarizeByCostCenter,
+  toAccurateDimension,
+  type CostCenterSubtotal,
+} from '../../services/costCenters';
+import {
+  BUDGET_SCOPE_LABELS,
+  filterRealizationsByOwner,
+  type BudgetOwnerFilter,
+} from '../../services/budgetOwnership';
+import { ExportFile, ExportEntityFile } from '../../components/Export&Import/ExportFile';
+import { RealisasiSparkline } from '../../components/RealisasiSparkline/RealisasiSparkline';
+import { JournalDrilldown } from '../../components/JournalDrilldown/JournalDrilldown';
+import { YearEndForecast } from '../../components/YearEndForecast/YearEndForecast';
 import styles from './BudgetRealisasiPage.module.css';
 
 // Helper: Format currency
@@ -17,6 +48,11 @@ const formatCurrency = (amount: number): string => {
   return amount.toLocaleString('id-ID');
 };
 
+// Helper: Format timestamp snapshot
+const formatDateTime = (value?: string | null): string => {
+  return value ? new Date(value).toLocaleString('id-ID') : '-';
+};
+
 // Helper: Get adaptive font size
 const getAdaptiveFontSize = (amount: number): number => {
   if (amount >= 1_000_000_000_000) return 14;
@@ -24,6 +60,13 @@ const getAdaptiveFontSize = (amount: number): number => {
   return 16;
 };
 
+const VERSION_OPTIONS: { value: BudgetVersionSelector; label: string }[] = [
+  { value: 'CURRENT', label: 'Saat Ini' },
+  { value: 'ORIGINAL', label: 'Original' },
+  { value: 'LATEST_REVISION', label: 'Revisi Terakhir' },
+  { value: 'FORECAST', label: 'Forecast' },
+];
+
 // Interface untuk grouped data
 interface GroupedBudgetRealization {
   budget_group_name: string;
@@ -37,6 +80,7 @@ interface GroupedBudgetRealization {
 }
 
 const BudgetRealizationPage: React.FC = () => {
+  const { user } = useAuth();
   const { activeEntity } = useEntity();
   const [searchParams] = useSearchParams();
 
@@ -47,9 +91,22 @@ const BudgetRealizationPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Refresh realisasi dari Accurate
+  const [refreshing, setRefreshing] = useState(false);
+  const [lastRefresh, setLastRefresh] = useState<RealizationRefreshRun | null>(null);
+
   // Modal state
   const [selectedGroup, setSelectedGroup] = useState<GroupedBudgetRealization | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
+  const [historyByItem, setHistoryByItem] = useState<Map<string, RealisasiHistoryEntry[]>>(new Map());
+  // Group yang terakhir dibuka; respons riwayat group lain diabaikan
+  const detailRequestRef = useRef<GroupedBudgetRealization | null>(null);
+
+  // Drill-down jurnal Accurate untuk satu baris akun
+  const [drilldown, setDrilldown] = useState<{
+    realization: BudgetRealization;
+    dimension: AccurateDimensionFilter | null;
+  } | null>(null);
 
   // Track if auto-open from dashboard has been triggered
   const [autoOpenTriggered, setAutoOpenTriggered] = useState(false);
@@ -57,8 +114,16 @@ const BudgetRealizationPage: React.FC = () => {
   // Filters
   const [selectedPeriod, setSelectedPeriod] = useState<string>('');
   const [selectedAccountType, setSelectedAccountType] = useState<string>('all');
+  const [selectedVersion, setSelectedVersion] = useState<BudgetVersionSelector>('CURRENT');
+  const [selectedCostCenter, setSelectedCostCenter] = useState<string>(ALL_COST_CENTERS);
+  const [selectedOwner, setSelectedOwner] = useState<BudgetOwnerFilter>('ALL');
   const [searchQuery, setSearchQuery] = useState('');
 
+  // Cost center
+  const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
+  const [costCenterSubtotals, setCostCenterSubtotals] = useState<CostCenterSubtotal[]>([]);
+  const [entityMembers, setEntityMembers] = useState<Pick<WorkspaceMember, 'user_id' | 'email'>[]>([]);
+
   // Available options
   const [availablePeriods, setAvailablePeriods] = useState<string[]>([]);
   const [availableTypes, setAvailableTypes] = useState<string[]>([]);
@@ -85,6 +150,16 @@ const BudgetRealizationPage: React.FC = () => {
     }
   }, [periodParam, availablePeriods]);
 
+  // Load waktu refresh terakhir
+  useEffect(() => {
+    if (!activeEntity?.id) {
+      setLastRefresh(null);
+      return;
+    }
+    getLastRealizationRefresh(activeEntity.id).then(({ data }) => setLastRefresh(data));
+    getEntityMembers(activeEntity.id).then(({ data }) => setEntityMembers(data));
+  }, [activeEntity?.id]);
+
   const loadAvailablePeriods = async () => {
     if (!activeEntity) return;
     const { data: periods } = await getAvailableRealizationPeriods(activeEntity.id);
@@ -113,9 +188,10 @@ const BudgetRealizationPage: React.FC = () => {
       setRealizations([]);
       setGroupedData([]);
       setSummary(null);
+      setCostCenterSubtotals([]);
       setHasSelectedPeriod(false);
     }
-  }, [activeEntity?.id, selectedPeriod, selectedAccountType]);
+  }, [activeEntity?.id, selectedPeriod, selectedAccountType, selectedVersion, selectedCostCenter, selectedOwner]);
 
   const loadData = async () => {
     if (!activeEntity || !selectedPeriod) return;
@@ -123,17 +199,34 @@ const BudgetRealizationPage: React.FC = () => {
     setError(null);
     try {
       const accountType = selectedAccountType === 'all' ? undefined : selectedAccountType;
-      const { data: realizationsData, error: realizationsError } = await getBudgetRealizationsLive(
-        activeEntity.id,
-        selectedPeriod,
-        accountType,
-        undefined
-      );
+      const [
+        { data: realizationsData, error: realizationsError },
+        { data: costCenterData },
+        { data: budgetsData },
+      ] = await Promise.all([
+        getBudgetRealizationsLive(
+          activeEntity.id,
+          selectedPeriod,
+          accountType,
+          undefined,
+          selectedVersion
+        ),
+        getCostCenters(activeEntity.id),
+        getBudgets(activeEntity.id),
+      ]);
       if (realizationsError) throw realizationsError;
-      setRealizations(realizationsData || []);
-      const grouped = groupRealizationsByBudgetGroup(realizationsData || []);
+      const filteredRealizations = filterRealizationsByOwner(
+        filterByCostCenter(realizationsData || [], selectedCostCenter),
+        budgetsData || [],
+        selectedOwner,
+        user?.id
+      );
+      setCostCenters(costCenterData);
+      setCostCenterSubtotals(summarizeByCostCenter(filteredRealizations, costCenterData));
+      setRealizations(filteredRealizations);
+      const grouped = groupRealizationsByBudgetGroup(filteredRealizations);
       setGroupedData(grouped);
-      const summaryData = calculateSummary(realizationsData || [], activeEntity, selectedPeriod);
+      const summaryData = calculateSummary(filteredRealizations, activeEntity, selectedPeriod);
       setSummary(summaryData);
     } catch (err: any) {
       console.error('[BudgetRealizationPage] Error loading data:', err);
@@ -248,16 +341,74 @@ const BudgetRealizationPage: React.FC = () => {
     return item.budget_group_name.toLowerCase().includes(searchQuery.toLowerCase());
   });
 
-  const handleOpenDetail = (group: GroupedBudgetRealization) => {
+  const handleRefreshFromAccurate = async () => {
+    if (!activeEntity || !selectedPeriod) return;
+
+    if (!activeEntity.has_api_token) {
+      setError('Entitas belum memiliki API Token Accurate');
+      return;
+    }
+
+    setRefreshing(true);
+    setError(null);
+    try {
+      const { data, error: refreshError } = await refreshBudgetRealizations(activeEntity.id, [selectedPeriod]);
+      if (refreshError) throw refreshError;
+
+      if (data?.failed_periods.length) {
+        setError(`Sebagian periode gagal diambil dari Accurate: ${data.failed_periods.join(', ')}`);
+      }
+
+      await loadData();
+
+      const { data: lastRun } = await getLastRealizationRefresh(activeEntity.id);
+      setLastRefresh(lastRun);
+    } catch (err) {
+      console.error('[BudgetRealizationPage] Error refreshing realisasi:', err);
+      setError('Gagal refresh realisasi dari Accurate: ' + (err as Error).message);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleOpenDetail = async (group: GroupedBudgetRealization) => {
+    detailRequestRef.current = group;
     setSelectedGroup(group);
     setShowDetailModal(true);
+    setHistoryByItem(new Map());
+
+    const { data: history } = await getRealisasiHistory(group.accounts.map(acc => acc.budget_item_id));
+    if (detailRequestRef.current !== group) return;
+
+    const grouped = new Map<string, RealisasiHistoryEntry[]>();
+    for (const entry of history) {
+      grouped.set(entry.budget_item_id, [...(grouped.get(entry.budget_item_id) || []), entry]);
+    }
+    setHistoryByItem(grouped);
   };
 
   const handleCloseDetail = () => {
+    detailRequestRef.current = null;
     setShowDetailModal(false);
     setSelectedGroup(null);
+    setHistoryByItem(new Map());
   };
 
+  // Data export untuk satu budget group
+  const toExportGroup = (group: GroupedBudgetRealization) => ({
+    budget_name: group.budget_group_name,
+    period: group.period,
+    accounts: group.accounts,
+    total_budget: group.total_budget,
+    total_realisasi: group.total_realisasi,
+    total_variance: group.total_variance,
+    variance_percentage: group.variance_percentage,
+    overall_status: group.status,
+    cost_center_subtotals: costCenters.length > 0
+      ? summarizeByCostCenter(group.accounts, costCenters)
+      : undefined,
+  });
+
   return (
     <div className={styles.pageContainer}>
       {/* Header */}
@@ -270,17 +421,45 @@ const BudgetRealizationPage: React.FC = () => {
               Entitas: <strong>{activeEntity.entity_name || activeEntity.name}</strong>
             </p>
           )}
+          {lastRefresh && (
+            <p>
+              Realisasi terakhir diperbarui: <strong>{formatDateTime(lastRefresh.finished_at || lastRefresh.started_at)}</strong>
+              {' '}({lastRefresh.trigger === 'SCHEDULED' ? 'otomatis' : 'manual'}
+              {lastRefresh.status !== 'SUCCESS' && `, ${lastRefresh.status === 'FAILED' ? 'gagal' : lastRefresh.status === 'RUNNING' ? 'sedang berjalan' : 'sebagian'}`})
+            </p>
+          )}
         </div>
 
-        <button
-          onClick={loadData}
-          disabled={!activeEntity || !selectedPeriod || loading}
-          className={`${styles.refreshButton} ${
-            activeEntity && selectedPeriod && !loading ? styles.active : styles.disabled
-          }`}
-        >
-          {loading ? 'Memuat...' : 'Refresh Data'}
-        </button>
+        <div className={styles.headerActions}>
+          <button
+            onClick={handleRefreshFromAccurate}
+            disabled={!activeEntity?.has_api_token || !selectedPeriod || loading || refreshing}
+            className={`${styles.refreshButton} ${
+              activeEntity?.has_api_token && selectedPeriod && !loading && !refreshing ? styles.active : styles.disabled
+            }`}
+            title="Ambil ulang saldo akun dari Accurate untuk periode terpilih"
+          >
+            {refreshing ? 'Mengambil dari Accurate...' : 'Refresh dari Accurate'}
+          </button>
+
+          <button
+            onClick={loadData}
+            disabled={!activeEntity || !selectedPeriod || loading}
+            className={`${styles.refreshButton} ${
+              activeEntity && selectedPeriod && !loading ? styles.active : styles.disabled
+            }`}
+          >
+            {loading ? 'Memuat...' : 'Refresh Data'}
+          </button>
+
+          {activeEntity && groupedData.length > 0 && !loading && (
+            <ExportEntityFile
+              groups={groupedData.map(toExportGroup)}
+              entityName={activeEntity.entity_name || activeEntity.name || 'Unknown'}
+              period={selectedPeriod}
+            />
+          )}
+        </div>
       </div>
 
       {/* No Active Entity Warning */}
@@ -348,6 +527,60 @@ const BudgetRealizationPage: React.FC = () => {
               </select>
             </div>
 
+            {/* Versi Budget */}
+            <div>
+              <label className={styles.filterLabel}>Bandingkan Dengan</label>
+              <select
+                value={selectedVersion}
+                onChange={(e) => setSelectedVersion(e.target.value as BudgetVersionSelector)}
+                disabled={loading || !selectedPeriod}
+                className={styles.filterSelect}
+              >
+                {VERSION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Cost Center */}
+            <div>
+              <label className={styles.filterLabel}>Cost Center</label>
+              <select
+                value={selectedCostCenter}
+                onChange={(e) => setSelectedCostCenter(e.target.value)}
+                disabled={loading || !selectedPeriod}
+                className={styles.filterSelect}
+              >
+                <option value={ALL_COST_CENTERS}>Semua Cost Center</option>
+                <option value={NO_COST_CENTER}>{NO_COST_CENTER_LABEL}</option>
+                {costCenters.map((cc) => (
+                  <option key={cc.id} value={cc.id}>
+                    {cc.code} - {cc.name}{cc.is_active ? '' : ' (nonaktif)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Owner Budget */}
+            <div>
+              <label className={styles.filterLabel}>Owner Budget</label>
+              <select
+                value={selectedOwner}
+                onChange={(e) => setSelectedOwner(e.target.value)}
+                disabled={loading || !selectedPeriod}
+                className={styles.filterSelect}
+              >
+                <option value="ALL">{BUDGET_SCOPE_LABELS.ALL}</option>
+                <option value="MINE">{BUDGET_SCOPE_LABELS.MINE}</option>
+                <option value="UNASSIGNED">Belum ada owner</option>
+                {entityMembers.map((member) => (
+                  <option key={member.user_id} value={member.user_id}>
+                    {member.email}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Search */}
             <div>
               <label className={styles.filterLabel}>Cari Budget Group</label>
@@ -420,6 +653,67 @@ const BudgetRealizationPage: React.FC = () => {
         </div>
       )}
 
+      {/* Proyeksi Akhir Tahun */}
+      {activeEntity && hasSelectedPeriod && (
+        <YearEndForecast entityIds={[activeEntity.id]} asOfPeriod={selectedPeriod} />
+      )}
+
+      {/* Subtotal per Cost Center */}
+      {activeEntity && selectedPeriod && costCenters.length > 0 && costCenterSubtotals.length > 0 && (
+        <div className={`${styles.dataTableContainer} ${styles.costCenterContainer}`}>
+          <div className={styles.costCenterTitle}>Subtotal per Cost Center</div>
+          <div className={styles.tableWrapper}>
+            <table className={styles.dataTable}>
+              <thead>
+                <tr>
+                  <th>Cost Center</th>
+                  <th>Jumlah Akun</th>
+                  <th>Total Budget</th>
+                  <th>Total Realisasi</th>
+                  <th>Variance</th>
+                  <th>Variance %</th>
+                  <th className={styles.center}>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {costCenterSubtotals.map((subtotal) => (
+                  <tr key={subtotal.cost_center_id || NO_COST_CENTER}>
+                    <td>
+                      {subtotal.cost_center_id && <code className={styles.periodBadge}>{subtotal.code}</code>}{' '}
+                      {subtotal.name}
+                    </td>
+                    <td>{subtotal.account_count}</td>
+                    <td>
+                      <strong>Rp{formatCurrency(subtotal.budget)}</strong>
+                    </td>
+                    <td>
+                      <strong style={{ color: '#28a745' }}>Rp{formatCurrency(subtotal.realisasi)}</strong>
+                    </td>
+                    <td>
+                      <strong style={{ color: subtotal.variance >= 0 ? '#28a745' : '#dc3545' }}>
+                        Rp{formatCurrency(Math.abs(subtotal.variance))}
+                      </strong>
+                    </td>
+                    <td>
+                      <strong style={{ color: subtotal.variance >= 0 ? '#28a745' : '#dc3545' }}>
+                        {Math.abs(subtotal.variance_percentage).toFixed(2)}%
+                      </strong>
+                    </td>
+                    <td className={styles.center}>
+                      <span className={`${styles.statusBadge} ${
+                        subtotal.status === 'ON_TRACK' ? styles.onTrack : styles.overBudget
+                      }`}>
+                        {subtotal.status === 'ON_TRACK' ? '✓ On Track' : '⚠ Over Budget'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Grouped Data Table */}
       {activeEntity && selectedPeriod && (
         <div className={styles.dataTableContainer}>
@@ -538,21 +832,24 @@ const BudgetRealizationPage: React.FC = () => {
                 <h3>Detail Akun - {selectedGroup.budget_group_name}</h3>
                 <p>
                   Periode: {selectedGroup.period} • {selectedGroup.accounts.length} akun
+                  {' '}• Snapshot realisasi: {formatDateTime(
+                    selectedGroup.accounts
+                      .map(acc => acc.realisasi_synced_at)
+                      .filter((value): value is string => !!value)
+                      .sort()[0]
+                  )}
+                  {selectedGroup.accounts[0]?.version_name && (
+                    <> • Versi {selectedGroup.accounts[0].version_name}</>
+                  )}
+                  {selectedGroup.accounts.some(acc => acc.period_type === 'FISCAL_YEAR') && (
+                    <> • Tahun fiskal mulai {selectedGroup.accounts[0].fiscal_start_period} (nilai YTD)</>
+                  )}
                 </p>
               </div>
 
               <div className={styles.modalHeaderActions}>
                 <ExportFile
-                  group={{
-                    budget_name: selectedGroup.budget_group_name,
-                    period: selectedGroup.period,
-                    accounts: selectedGroup.accounts,
-                    total_budget: selectedGroup.total_budget,
-                    total_realisasi: selectedGroup.total_realisasi,
-                    total_variance: selectedGroup.total_variance,
-                    variance_percentage: selectedGroup.variance_percentage,
-                    overall_status: selectedGroup.status,
-                  }}
+                  group={toExportGroup(selectedGroup)}
                   entityName={activeEntity?.entity_name || activeEntity?.name || 'Unknown'}
                 />
 
@@ -604,11 +901,14 @@ const BudgetRealizationPage: React.FC = () => {
                       <th>Kode Akun</th>
                       <th>Nama Akun</th>
                       <th>Tipe</th>
+                      <th>Cost Center</th>
                       <th>Budget</th>
                       <th>Realisasi</th>
                       <th>Variance</th>
                       <th>Variance %</th>
                       <th className={styles.center}>Status</th>
+                      <th>Riwayat Realisasi</th>
+                      <th className={styles.center}>Transaksi</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -625,6 +925,7 @@ const BudgetRealizationPage: React.FC = () => {
                             {account.account_type || '-'}
                           </span>
                         </td>
+                        <td>{formatCostCenter(account.cost_center_id, costCenters)}</td>
                         <td>
                           <strong style={{ fontSize: `${getAdaptiveFontSize(account.budget_allocated)}px` }}>
                             Rp{formatCurrency(account.budget_allocated)}
@@ -661,11 +962,80 @@ const BudgetRealizationPage: React.FC = () => {
                             {account.status === 'ON_TRACK' ? '✓ On Track' : '⚠ Over Budget'}
                           </span>
                         </td>
+                        <td>
+                          <RealisasiSparkline history={historyByItem.get(account.budget_item_id) || []} />
+                        </td>
+                        <td className={styles.center}>
+                          <button
+                            onClick={() => setDrilldown({
+                              realization: account,
+                              dimension: toAccurateDimension(
+                                costCenters.find((cc) => cc.id === account.cost_center_id)
+                              ),
+                            })}
+                            className={`${styles.journalButton} ${
+                              account.status === 'OVER_BUDGET' ? styles.journalButtonAlert : ''
+                            }`}
+                            title="Lihat jurnal Accurate untuk akun ini"
+                          >
+                            Jurnal
+                          </button>
+                        </td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
               </div>
+
+              {/* Phasing MTD / YTD untuk budget tahun fiskal */}
+              {selectedGroup.accounts.some(acc => acc.period_type === 'FISCAL_YEAR') && (
+                <div className={styles.modalTableWrapper} style={{ marginTop: '24px' }}>
+                  <table className={styles.modalTable}>
+                    <thead>
+                      <tr>
+                        <th>Kode Akun</th>
+                        <th>Budget Tahunan</th>
+                        <th>Budget MTD</th>
+                        <th>Realisasi MTD</th>
+                        <th>Variance MTD</th>
+                        <th>Budget YTD</th>
+                        <th>Realisasi YTD</th>
+                        <th>Variance YTD</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selectedGroup.accounts.map((account) => (
+                        <tr key={`phasing-${account.id}`}>
+                          <td>
+                            <code className={styles.accountCode}>{account.account_code}</code>
+                          </td>
+                          <td>Rp{formatCurrency(account.annual_allocated || 0)}</td>
+                          <td>Rp{formatCurrency(account.budget_mtd || 0)}</td>
+                          <td>
+                            {account.realisasi_mtd === null || account.realisasi_mtd === undefined
+                              ? '-'
+                              : `Rp${formatCurrency(account.realisasi_mtd)}`}
+                          </td>
+                          <td>
+                            {account.variance_mtd === undefined ? '-' : (
+                              <strong style={{ color: account.variance_mtd >= 0 ? '#28a745' : '#dc3545' }}>
+                                Rp{formatCurrency(Math.abs(account.variance_mtd))}
+                              </strong>
+                            )}
+                          </td>
+                          <td>Rp{formatCurrency(account.budget_ytd || 0)}</td>
+                          <td>Rp{formatCurrency(account.realisasi_ytd || 0)}</td>
+                          <td>
+                            <strong style={{ color: (account.variance_ytd || 0) >= 0 ? '#28a745' : '#dc3545' }}>
+                              Rp{formatCurrency(Math.abs(account.variance_ytd || 0))}
+                            </strong>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
 
             <div className={styles.modalFooter}>
@@ -676,6 +1046,18 @@ const BudgetRealizationPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Drill-down Jurnal */}
+      {drilldown && activeEntity && (
+        <JournalDrilldown
+          entityId={activeEntity.id}
+          entityName={activeEntity.entity_name || activeEntity.name || 'Unknown'}
+          hasApiToken={activeEntity.has_api_token}
+          realization={drilldown.realization}
+          dimension={drilldown.dimension}
+          onClose={() => setDrilldown(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,505 @@
+import React, { useEffect, useState } from 'react';
+import { getEntities } from '../../lib/supabase';
+import {
+  getReportDefinitions,
+  saveReportDefinition,
+  deleteReportDefinition,
+  getReportFacts,
+  type ReportDefinition,
+} from '../../lib/reportBuilder';
+import {
+  REPORT_DIMENSIONS,
+  REPORT_DIMENSION_LABELS,
+  REPORT_MEASURES,
+  REPORT_MEASURE_LABELS,
+  buildPivot,
+  createDefaultReportConfig,
+  formatMeasureValue,
+  toReportTable,
+  validateReportConfig,
+  type ReportConfig,
+  type ReportDimension,
+  type ReportFact,
+  type ReportFilters,
+  type ReportMeasure,
+} from '../../services/reportBuilder';
+import { ExportReportFile } from '../../components/Export&Import/ExportFile';
+import styles from './ReportBuilderPage.module.css';
+
+type DimensionPlacement = 'NONE' | 'ROW' | 'COLUMN';
+
+// Batas baris yang ditampilkan di layar (export tetap lengkap)
+const MAX_VISIBLE_ROWS = 500;
+
+const getCurrentPeriod = () => new Date().toISOString().slice(0, 7);
+
+// Helper: Toggle nilai di array (multi-select)
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+const ReportBuilderPage: React.FC = () => {
+  const [entities, setEntities] = useState<{ id: string; entity_name: string }[]>([]);
+  const [definitions, setDefinitions] = useState<ReportDefinition[]>([]);
+  const [definitionId, setDefinitionId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [config, setConfig] = useState<ReportConfig>(() => createDefaultReportConfig([], getCurrentPeriod()));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [result, setResult] = useState<{ key: string; facts: ReportFact[]; error: string | null }>({
+    key: '',
+    facts: [],
+    error: null,
+  });
+
+  // Entitas user, default semua dipilih
+  useEffect(() => {
+    getEntities().then(({ data }) => {
+      const rows = (data || []) as { id: string; entity_name: string }[];
+      setEntities(rows);
+      setConfig((prev) =>
+        prev.filters.entity_ids.length > 0
+          ? prev
+          : { ...prev, filters: { ...prev.filters, entity_ids: rows.map((entity) => entity.id) } }
+      );
+    });
+  }, []);
+
+  useEffect(() => {
+    getReportDefinitions().then(({ data }) => setDefinitions(data));
+  }, []);
+
+  // Data mentah dimuat ulang hanya saat entitas / rentang periode berubah;
+  // filter lain & pivot dihitung di client
+  const { entity_ids: entityIds, period_from: periodFrom, period_to: periodTo } = config.filters;
+  const entityKey = entityIds.join(',');
+  const requestKey = `${reloadCount}|${entityKey}|${periodFrom}|${periodTo}`;
+  const loading = result.key !== requestKey;
+
+  useEffect(() => {
+    const key = `${reloadCount}|${entityKey}|${periodFrom}|${periodTo}`;
+    if (!entityKey || !periodFrom || !periodTo || periodFrom > periodTo) {
+      Promise.resolve().then(() => setResult({ key, facts: [], error: null }));
+      return;
+    }
+    getReportFacts(entityKey.split(','), periodFrom, periodTo).then(({ data, error }) =>
+      setResult({
+        key,
+        facts: data,
+        error: error ? 'Gagal memuat data laporan: ' + (error as Error).message : null,
+      })
+    );
+  }, [reloadCount, entityKey, periodFrom, periodTo]);
+
+  const validationError = validateReportConfig(config);
+  const table = validationError ? null : toReportTable(buildPivot(result.facts, config), config);
+  const periodLabel = periodFrom === periodTo ? periodFrom : `${periodFrom} s/d ${periodTo}`;
+
+  // Pilihan filter dari data yang dimuat (+ nilai terpilih yang sudah tidak ada)
+  const budgetOptions = [...new Set([...result.facts.map((fact) => fact.budget_name), ...config.filters.budget_names])].sort();
+  const accountTypeOptions = [
+    ...new Set([...result.facts.map((fact) => fact.account_type || ''), ...config.filters.account_types]),
+  ].sort();
+
+  // ========================================
+  // CONFIG HANDLERS
+  // ========================================
+
+  const updateFilters = (updates: Partial<ReportFilters>) => {
+    setConfig((prev) => ({ ...prev, filters: { ...prev.filters, ...updates } }));
+  };
+
+  const getPlacement = (dimension: ReportDimension): DimensionPlacement => {
+    if (config.rows.includes(dimension)) return 'ROW';
+    if (config.columns.includes(dimension)) return 'COLUMN';
+    return 'NONE';
+  };
+
+  const setPlacement = (dimension: ReportDimension, placement: DimensionPlacement) => {
+    setConfig((prev) => ({
+      ...prev,
+      rows: placement === 'ROW'
+        ? [...prev.rows.filter((d) => d !== dimension), dimension]
+        : prev.rows.filter((d) => d !== dimension),
+      columns: placement === 'COLUMN'
+        ? [...prev.columns.filter((d) => d !== dimension), dimension]
+        : prev.columns.filter((d) => d !== dimension),
+    }));
+  };
+
+  const toggleMeasure = (measure: ReportMeasure) => {
+    // Urutan ukuran selalu mengikuti REPORT_MEASURES
+    setConfig((prev) => {
+      const measures = toggleValue(prev.measures, measure);
+      return { ...prev, measures: REPORT_MEASURES.filter((m) => measures.includes(m)) };
+    });
+  };
+
+  // ========================================
+  // DEFINITION HANDLERS
+  // ========================================
+
+  const handleNew = () => {
+    setDefinitionId(null);
+    setName('');
+    setDescription('');
+    setConfig(createDefaultReportConfig(entities.map((entity) => entity.id), getCurrentPeriod()));
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleOpen = (definition: ReportDefinition) => {
+    setDefinitionId(definition.id);
+    setName(definition.name);
+    setDescription(definition.description || '');
+    // Lengkapi field yang belum ada di definisi lama
+    const defaults = createDefaultReportConfig([], getCurrentPeriod());
+    setConfig({
+      ...defaults,
+      ...definition.config,
+      filters: { ...defaults.filters, ...definition.config.filters },
+    });
+    setError(null);
+    setMessage(null);
+  };
+
+  const handleSave = async (asNew: boolean) => {
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const { data, error } = await saveReportDefinition(
+        { name, description, config },
+        asNew ? undefined : definitionId || undefined
+      );
+      if (error) throw error;
+
+      setDefinitionId(data!.id);
+      setMessage(`Laporan "${data!.name}" tersimpan`);
+      const { data: refreshed } = await getReportDefinitions();
+      setDefinitions(refreshed);
+    } catch (err) {
+      setError('Gagal menyimpan laporan: ' + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (definition: ReportDefinition) => {
+    if (!confirm(`Hapus laporan "${definition.name}"?`)) return;
+
+    const { error } = await deleteReportDefinition(definition.id);
+    if (error) {
+      setError('Gagal menghapus laporan: ' + (error as Error).message);
+      return;
+    }
+
+    if (definition.id === definitionId) handleNew();
+    setDefinitions((prev) => prev.filter((d) => d.id !== definition.id));
+  };
+
+  return (
+    <div className={styles.pageContainer}>
+      {/* Header */}
+      <div className={styles.header}>
+        <div className={styles.headerContent}>
+          <h2>Laporan Custom</h2>
+          <p>Susun laporan budget vs realisasi sendiri: pilih dimensi, ukuran dan layout pivot, lalu simpan untuk dipakai lagi</p>
+        </div>
+      </div>
+
+      {error && <div className={styles.errorAlert}>{error}</div>}
+      {message && <div className={styles.successText}>{message}</div>}
+
+      <div className={styles.layout}>
+        {/* Saved definitions */}
+        <div className={styles.card}>
+          <div className={styles.cardHeader}>
+            <h3 className={styles.cardTitle}>Laporan Tersimpan</h3>
+            <button onClick={handleNew} className={styles.secondaryButton}>
+              + Baru
+            </button>
+          </div>
+
+          {definitions.length === 0 ? (
+            <p className={styles.cardHint}>Belum ada laporan tersimpan</p>
+          ) : (
+            <ul className={styles.definitionList}>
+              {definitions.map((definition) => (
+                <li
+                  key={definition.id}
+                  className={`${styles.definitionItem} ${definition.id === definitionId ? styles.definitionActive : ''}`}
+                >
+                  <button onClick={() => handleOpen(definition)} className={styles.definitionOpen}>
+                    <strong>{definition.name}</strong>
+                    {definition.description && <span>{definition.description}</span>}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(definition)}
+                    className={styles.deleteButton}
+                    title="Hapus laporan"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Builder */}
+        <div className={styles.card}>
+          <div className={styles.formGrid}>
+            <div>
+              <label className={styles.label}>Nama Laporan</label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="contoh: Beban operasional per entitas"
+                className={styles.input}
+              />
+            </div>
+            <div>
+              <label className={styles.label}>Keterangan</label>
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className={styles.input}
+              />
+            </div>
+          </div>
+
+          {/* Filters */}
+          <h4 className={styles.sectionTitle}>Filter</h4>
+          <div className={styles.formGrid}>
+            <div>
+              <label className={styles.label}>Periode Awal</label>
+              <input
+                type="month"
+                value={periodFrom}
+                onChange={(e) => updateFilters({ period_from: e.target.value })}
+                className={styles.input}
+              />
+            </div>
+            <div>
+              <label className={styles.label}>Periode Akhir</label>
+              <input
+                type="month"
+                value={periodTo}
+                onChange={(e) => updateFilters({ period_to: e.target.value })}
+                className={styles.input}
+              />
+            </div>
+            <div>
+              <label className={styles.label}>Kode Akun Dari</label>
+              <input
+                value={config.filters.account_code_from}
+                onChange={(e) => updateFilters({ account_code_from: e.target.value.trim() })}
+                placeholder="contoh: 6-1000"
+                className={styles.input}
+              />
+            </div>
+            <div>
+              <label className={styles.label}>Kode Akun Sampai</label>
+              <input
+                value={config.filters.account_code_to}
+                onChange={(e) => updateFilters({ account_code_to: e.target.value.trim() })}
+                placeholder="contoh: 6-9999"
+                className={styles.input}
+              />
+            </div>
+          </div>
+
+          <div className={styles.optionGroups}>
+            <div>
+              <label className={styles.label}>Entitas</label>
+              <div className={styles.optionList}>
+                {entities.map((entity) => (
+                  <label key={entity.id} className={styles.checkboxLabel}>
+                    <input
+                      type="checkbox"
+                      checked={entityIds.includes(entity.id)}
+                      onChange={() => updateFilters({ entity_ids: toggleValue(entityIds, entity.id) })}
+                    />
+                    {entity.entity_name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={styles.label}>Nama Budget {config.filters.budget_names.length === 0 && '(semua)'}</label>
+              <div className={styles.optionList}>
+                {budgetOptions.map((budgetName) => (
+                  <label key={budgetName} className={styles.checkboxLabel}>
+                    <input
+                      type="checkbox"
+                      checked={config.filters.budget_names.includes(budgetName)}
+                      onChange={() => updateFilters({ budget_names: toggleValue(config.filters.budget_names, budgetName) })}
+                    />
+                    {budgetName}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={styles.label}>Tipe Akun {config.filters.account_types.length === 0 && '(semua)'}</label>
+              <div className={styles.optionList}>
+                {accountTypeOptions.map((accountType) => (
+                  <label key={accountType} className={styles.checkboxLabel}>
+                    <input
+                      type="checkbox"
+                      checked={config.filters.account_types.includes(accountType)}
+                      onChange={() => updateFilters({ account_types: toggleValue(config.filters.account_types, accountType) })}
+                    />
+                    {accountType || '-'}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Layout */}
+          <h4 className={styles.sectionTitle}>Layout & Ukuran</h4>
+          <div className={styles.optionGroups}>
+            <div>
+              <label className={styles.label}>Dimensi</label>
+              {REPORT_DIMENSIONS.map((dimension) => (
+                <div key={dimension} className={styles.dimensionRow}>
+                  <span>{REPORT_DIMENSION_LABELS[dimension]}</span>
+                  <select
+                    value={getPlacement(dimension)}
+                    onChange={(e) => setPlacement(dimension, e.target.value as DimensionPlacement)}
+                    className={styles.smallSelect}
+                  >
+                    <option value="NONE">-</option>
+                    <option value="ROW">Baris</option>
+                    <option value="COLUMN">Kolom</option>
+                  </select>
+                </div>
+              ))}
+              <p className={styles.cardHint}>
+                Baris: {config.rows.map((d) => REPORT_DIMENSION_LABELS[d]).join(' › ') || '-'}
+                {' • '}Kolom: {config.columns.map((d) => REPORT_DIMENSION_LABELS[d]).join(' › ') || '-'}
+              </p>
+            </div>
+
+            <div>
+              <label className={styles.label}>Ukuran</label>
+              {REPORT_MEASURES.map((measure) => (
+                <label key={measure} className={styles.checkboxLabel}>
+                  <input
+                    type="checkbox"
+                    checked={config.measures.includes(measure)}
+                    onChange={() => toggleMeasure(measure)}
+                  />
+                  {REPORT_MEASURE_LABELS[measure]}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className={styles.formActions}>
+            <button
+              onClick={() => handleSave(false)}
+              disabled={saving || !name.trim()}
+              className={styles.primaryButton}
+            >
+              {saving ? 'Menyimpan...' : definitionId ? 'Simpan Perubahan' : 'Simpan Laporan'}
+            </button>
+            {definitionId && (
+              <button onClick={() => handleSave(true)} disabled={saving || !name.trim()} className={styles.secondaryButton}>
+                Simpan Sebagai Baru
+              </button>
+            )}
+            <button
+              onClick={() => setReloadCount((count) => count + 1)}
+              disabled={loading}
+              className={styles.secondaryButton}
+            >
+              {loading ? 'Memuat...' : 'Muat Ulang Data'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Result */}
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <div>
+            <h3 className={styles.cardTitle}>{name || 'Hasil Laporan'}</h3>
+            <p className={styles.cardHint}>
+              Periode {periodLabel} • {table ? `${table.rows.length} baris` : '-'}
+            </p>
+          </div>
+          {table && <ExportReportFile reportName={name} periodLabel={periodLabel} table={table} />}
+        </div>
+
+        {result.error && <div className={styles.errorAlert}>{result.error}</div>}
+
+        {validationError ? (
+          <div className={styles.emptyState}>{validationError}</div>
+        ) : loading ? (
+          <div className={styles.emptyState}>Memuat data...</div>
+        ) : !table || table.rows.length === 0 ? (
+          <div className={styles.emptyState}>Tidak ada data untuk filter ini</div>
+        ) : (
+          <div className={styles.tableWrapper}>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  {table.header.map((label, index) => (
+                    <th key={index} className={table.column_measures[index] ? styles.right : ''}>
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, MAX_VISIBLE_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((value, index) => {
+                      const measure = table.column_measures[index];
+                      return (
+                        <td key={index} className={measure ? styles.right : ''}>
+                          {measure && typeof value !== 'string' ? formatMeasureValue(value, measure) : value}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  {table.total.map((value, index) => {
+                    const measure = table.column_measures[index];
+                    return (
+                      <td key={index} className={measure ? styles.right : ''}>
+                        {measure && typeof value !== 'string' ? formatMeasureValue(value, measure) : value}
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tfoot>
+            </table>
+            {table.rows.length > MAX_VISIBLE_ROWS && (
+              <p className={styles.cardHint}>
+                Menampilkan {MAX_VISIBLE_ROWS} dari {table.rows.length} baris. Export untuk data lengkap.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportBuilderPage;
@@ -0,0 +1,443 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { useEntity } from '../../contexts/EntityContext';
+import { getEntities } from '../../lib/supabase';
+import {
+  acceptInvite,
+  assignEntityToWorkspace,
+  createWorkspace,
+  getInviteUrl,
+  getMyMemberships,
+  getMyPendingInvites,
+  getWorkspaceInvites,
+  getWorkspaceMembers,
+  inviteMember,
+  removeMember,
+  revokeInvite,
+  updateMemberRole,
+  type WorkspaceInvite,
+  type WorkspaceMember,
+  type WorkspaceMembership,
+  type WorkspaceRole,
+} from '../../lib/workspaces';
+import { WORKSPACE_ROLES, WORKSPACE_ROLE_LABELS, hasPermission } from '../../services/workspaceRoles';
+import styles from './WorkspacePage.module.css';
+
+const errorMessage = (err: unknown) => (err as Error)?.message || String(err);
+
+const WorkspacePage: React.FC = () => {
+  const { user } = useAuth();
+  const { entities, setEntities } = useEntity();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+
+  const [memberships, setMemberships] = useState<WorkspaceMembership[]>([]);
+  const [myInvites, setMyInvites] = useState<WorkspaceInvite[]>([]);
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState('');
+  const [reloadCount, setReloadCount] = useState(0);
+  const [detail, setDetail] = useState<{ key: string; members: WorkspaceMember[]; invites: WorkspaceInvite[] }>({
+    key: '',
+    members: [],
+    invites: [],
+  });
+
+  // Form state
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('VIEWER');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getMyMemberships(), getMyPendingInvites()]).then(([membershipResult, inviteResult]) => {
+      setMemberships(membershipResult.data);
+      setMyInvites(inviteResult.data);
+      if (membershipResult.error) {
+        setError('Gagal memuat workspace: ' + errorMessage(membershipResult.error));
+      }
+    });
+  }, [reloadCount]);
+
+  const workspaceId = selectedWorkspaceId || memberships[0]?.workspace_id || '';
+  const activeMembership = memberships.find((m) => m.workspace_id === workspaceId) || null;
+  const canManageMembers = hasPermission(activeMembership?.role, 'MANAGE_MEMBERS');
+  const requestKey = `${reloadCount}|${workspaceId}`;
+  const loadingDetail = !!workspaceId && detail.key !== requestKey;
+
+  useEffect(() => {
+    const key = `${reloadCount}|${workspaceId}`;
+    if (!workspaceId) return;
+    Promise.all([getWorkspaceMembers(workspaceId), getWorkspaceInvites(workspaceId)]).then(
+      ([memberResult, inviteResult]) => setDetail({ key, members: memberResult.data, invites: inviteResult.data })
+    );
+  }, [reloadCount, workspaceId]);
+
+  const ownEntities = entities.filter((entity) => entity.user_id === user?.id);
+  const assignableWorkspaces = memberships.filter((m) => hasPermission(m.role, 'MANAGE_ENTITY'));
+  const workspaceEntities = entities.filter((entity) => workspaceId && entity.workspace_id === workspaceId);
+
+  /**
+   * Jalankan aksi lalu muat ulang workspace & daftar entitas (peran bisa berubah)
+   */
+  const runAction = async (action: () => Promise<string | null>) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const successMessage = await action();
+      setMessage(successMessage);
+      setReloadCount((count) => count + 1);
+      const { data } = await getEntities();
+      setEntities(data || []);
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // ========================================
+  // HANDLERS
+  // ========================================
+
+  const handleCreateWorkspace = () =>
+    runAction(async () => {
+      const { data, error: createError } = await createWorkspace(workspaceName);
+      if (createError || !data) throw createError;
+      setWorkspaceName('');
+      setSelectedWorkspaceId(data.id);
+      return `Workspace "${data.name}" dibuat`;
+    });
+
+  const handleAcceptInvite = (token: string) =>
+    runAction(async () => {
+      const { data, error: acceptError } = await acceptInvite(token);
+      if (acceptError || !data) throw acceptError;
+      if (token === inviteToken) setSearchParams({});
+      setSelectedWorkspaceId(data.workspace_id);
+      return `Bergabung sebagai ${WORKSPACE_ROLE_LABELS[data.role]}`;
+    });
+
+  const handleInvite = () => {
+    if (!activeMembership?.workspace) return;
+    const workspace = activeMembership.workspace;
+    setInviteLink(null);
+    return runAction(async () => {
+      const { data, mailResult, error: inviteError } = await inviteMember(workspace, inviteEmail, inviteRole);
+      if (inviteError || !data) throw inviteError;
+      setInviteEmail('');
+      if (!mailResult?.success) {
+        setInviteLink(getInviteUrl(data.token));
+        return `Undangan untuk ${data.email} tersimpan, tetapi email gagal terkirim. Bagikan tautan di bawah secara manual.`;
+      }
+      return `Undangan terkirim ke ${data.email}`;
+    });
+  };
+
+  const handleRoleChange = (member: WorkspaceMember, role: WorkspaceRole) =>
+    runAction(async () => {
+      const { error: roleError } = await updateMemberRole(member, role);
+      if (roleError) throw roleError;
+      return `Peran ${member.email} diubah menjadi ${WORKSPACE_ROLE_LABELS[role]}`;
+    });
+
+  const handleRemoveMember = (member: WorkspaceMember) => {
+    if (!confirm(`Keluarkan ${member.email} dari workspace?`)) return;
+    return runAction(async () => {
+      const { error: removeError } = await removeMember(member);
+      if (removeError) throw removeError;
+      return `${member.email} dikeluarkan dari workspace`;
+    });
+  };
+
+  const handleRevokeInvite = (invite: WorkspaceInvite) =>
+    runAction(async () => {
+      const { error: revokeError } = await revokeInvite(invite);
+      if (revokeError) throw revokeError;
+      return `Undangan ${invite.email} dibatalkan`;
+    });
+
+  const handleAssignEntity = (entityId: string, targetWorkspaceId: string) =>
+    runAction(async () => {
+      const { error: assignError } = await assignEntityToWorkspace(entityId, targetWorkspaceId || null);
+      if (assignError) throw assignError;
+      return targetWorkspaceId ? 'Entitas dipindahkan ke workspace' : 'Entitas dikeluarkan dari workspace';
+    });
+
+  // ========================================
+  // RENDER
+  // ========================================
+
+  return (
+    <div className={styles.pageContainer}>
+      <div className={styles.header}>
+        <div className={styles.headerContent}>
+          <h2>Workspace Tim</h2>
+          <p>Bagikan entitas ke anggota tim dengan peran Owner, Finance Admin, Budget Editor atau Viewer.</p>
+        </div>
+      </div>
+
+      {error && <div className={styles.errorAlert}>{error}</div>}
+      {message && <p className={styles.successText}>{message}</p>}
+
+      {/* Undangan dari tautan email */}
+      {inviteToken && (
+        <div className={styles.card}>
+          <h3 className={styles.cardTitle}>Undangan Workspace</h3>
+          <p className={styles.cardHint}>Anda membuka tautan undangan. Terima untuk bergabung ke workspace tim.</p>
+          <div className={styles.formActions}>
+            <button className={styles.primaryButton} onClick={() => handleAcceptInvite(inviteToken)} disabled={saving}>
+              Terima Undangan
+            </button>
+            <button className={styles.secondaryButton} onClick={() => setSearchParams({})} disabled={saving}>
+              Abaikan
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Undangan pending untuk email user */}
+      {myInvites.length > 0 && (
+        <div className={styles.card}>
+          <h3 className={styles.cardTitle}>Undangan untuk Anda</h3>
+          <ul className={styles.list}>
+            {myInvites.map((invite) => (
+              <li key={invite.id} className={styles.listItem}>
+                <span>
+                  <strong>{invite.workspace?.name || 'Workspace'}</strong> sebagai {WORKSPACE_ROLE_LABELS[invite.role]}
+                </span>
+                <button className={styles.primaryButton} onClick={() => handleAcceptInvite(invite.token)} disabled={saving}>
+                  Terima
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className={styles.layout}>
+        {/* Daftar workspace */}
+        <div className={styles.card}>
+          <h3 className={styles.cardTitle}>Workspace Saya</h3>
+          {memberships.length === 0 ? (
+            <p className={styles.cardHint}>Belum ada workspace.</p>
+          ) : (
+            <ul className={styles.list}>
+              {memberships.map((membership) => (
+                <li
+                  key={membership.workspace_id}
+                  className={`${styles.workspaceItem} ${membership.workspace_id === workspaceId ? styles.workspaceActive : ''}`}
+                >
+                  <button className={styles.workspaceOpen} onClick={() => setSelectedWorkspaceId(membership.workspace_id)}>
+                    {membership.workspace?.name || membership.workspace_id}
+                    <span>{WORKSPACE_ROLE_LABELS[membership.role]}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h4 className={styles.sectionTitle}>Buat Workspace</h4>
+          <input
+            className={styles.input}
+            value={workspaceName}
+            onChange={(e) => setWorkspaceName(e.target.value)}
+            placeholder="Nama workspace"
+          />
+          <div className={styles.formActions}>
+            <button
+              className={styles.primaryButton}
+              onClick={handleCreateWorkspace}
+              disabled={saving || !workspaceName.trim()}
+            >
+              Buat
+            </button>
+          </div>
+        </div>
+
+        <div>
+          {/* Anggota */}
+          {activeMembership && (
+            <div className={styles.card}>
+              <div className={styles.cardHeader}>
+                <div>
+                  <h3 className={styles.cardTitle}>Anggota {activeMembership.workspace?.name}</h3>
+                  <p className={styles.cardHint}>
+                    Peran Anda: {WORKSPACE_ROLE_LABELS[activeMembership.role]}
+                    {!canManageMembers && ' — hanya Owner yang dapat mengelola anggota.'}
+                  </p>
+                </div>
+              </div>
+
+              <div className={styles.tableWrapper}>
+                <table className={styles.table}>
+                  <thead>
+                    <tr>
+                      <th>Email</th>
+                      <th>Peran</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {loadingDetail ? (
+                      <tr>
+                        <td colSpan={3} className={styles.emptyState}>Memuat anggota...</td>
+                      </tr>
+                    ) : (
+                      detail.members.map((member) => (
+                        <tr key={member.id}>
+                          <td>
+                            {member.email}
+                            {member.user_id === user?.id && ' (Anda)'}
+                          </td>
+                          <td>
+                            <select
+                              className={styles.smallSelect}
+                              value={member.role}
+                              onChange={(e) => handleRoleChange(member, e.target.value as WorkspaceRole)}
+                              disabled={saving || !canManageMembers}
+                            >
+                              {WORKSPACE_ROLES.map((role) => (
+                                <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className={styles.right}>
+                            {canManageMembers && (
+                              <button
+                                className={styles.deleteButton}
+                                onClick={() => handleRemoveMember(member)}
+                                disabled={saving}
+                              >
+                                Keluarkan
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {canManageMembers && (
+                <>
+                  <h4 className={styles.sectionTitle}>Undang Anggota</h4>
+                  <div className={styles.formGrid}>
+                    <div>
+                      <label className={styles.label}>Email</label>
+                      <input
+                        type="email"
+                        className={styles.input}
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        placeholder="nama@perusahaan.com"
+                      />
+                    </div>
+                    <div>
+                      <label className={styles.label}>Peran</label>
+                      <select
+                        className={styles.input}
+                        value={inviteRole}
+                        onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                      >
+                        {WORKSPACE_ROLES.map((role) => (
+                          <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <button
+                        className={styles.primaryButton}
+                        onClick={handleInvite}
+                        disabled={saving || !inviteEmail.trim()}
+                      >
+                        Kirim Undangan
+                      </button>
+                    </div>
+                  </div>
+
+                  {inviteLink && <code className={styles.inviteLink}>{inviteLink}</code>}
+
+                  {detail.invites.length > 0 && (
+                    <>
+                      <h4 className={styles.sectionTitle}>Undangan Pending</h4>
+                      <ul className={styles.list}>
+                        {detail.invites.map((invite) => (
+                          <li key={invite.id} className={styles.listItem}>
+                            <span>
+                              {invite.email} — {WORKSPACE_ROLE_LABELS[invite.role]}, berlaku sampai{' '}
+                              {new Date(invite.expires_at).toLocaleDateString('id-ID')}
+                            </span>
+                            <button
+                              className={styles.deleteButton}
+                              onClick={() => handleRevokeInvite(invite)}
+                              disabled={saving}
+                            >
+                              Batalkan
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </>
+              )}
+
+              <h4 className={styles.sectionTitle}>Entitas di Workspace</h4>
+              {workspaceEntities.length === 0 ? (
+                <p className={styles.cardHint}>Belum ada entitas di workspace ini.</p>
+              ) : (
+                <ul className={styles.list}>
+                  {workspaceEntities.map((entity) => (
+                    <li key={entity.id} className={styles.listItem}>
+                      <span>{entity.entity_name}</span>
+                      <span className={styles.cardHint}>{entity.role ? WORKSPACE_ROLE_LABELS[entity.role] : '-'}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Entitas milik user */}
+          <div className={styles.card}>
+            <h3 className={styles.cardTitle}>Bagikan Entitas Saya</h3>
+            <p className={styles.cardHint}>
+              Entitas yang Anda buat bisa dipindahkan ke workspace tempat Anda Owner atau Finance Admin.
+            </p>
+            {ownEntities.length === 0 ? (
+              <p className={styles.emptyState}>Belum ada entitas.</p>
+            ) : (
+              <ul className={styles.list}>
+                {ownEntities.map((entity) => (
+                  <li key={entity.id} className={styles.listItem}>
+                    <span>{entity.entity_name}</span>
+                    <select
+                      className={styles.smallSelect}
+                      value={entity.workspace_id || ''}
+                      onChange={(e) => handleAssignEntity(entity.id, e.target.value)}
+                      disabled={saving}
+                    >
+                      <option value="">Pribadi (tanpa workspace)</option>
+                      {assignableWorkspaces.map((membership) => (
+                        <option key={membership.workspace_id} value={membership.workspace_id}>
+                          {membership.workspace?.name || membership.workspace_id}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspacePage;
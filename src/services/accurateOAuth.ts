@@ -0,0 +1,43 @@
+import type { AccurateOAuthSession, AccurateOAuthStatus } from '../lib/accurateOAuth';
+
+export const OAUTH_STATUS_LABELS: Record<AccurateOAuthStatus, string> = {
+  ACTIVE: 'Terhubung',
+  EXPIRED: 'Token kedaluwarsa',
+  REVOKED: 'Akses dicabut',
+  REFRESH_FAILED: 'Gagal perpanjang token',
+};
+
+// Token diperpanjang 1 hari sebelum kedaluwarsa (token Accurate berlaku ±15 hari)
+export const OAUTH_REFRESH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+// Respons Accurate / edge function yang menandakan refresh token tidak berlaku lagi
+const REVOKED_ERROR_PATTERNS = ['invalid_grant', 'invalid_token', 'revoked', 'unauthorized'];
+
+/**
+ * Token perlu diperpanjang: masih aktif tapi sudah masuk margin kedaluwarsa
+ */
+export const needsTokenRefresh = (
+  session: Pick<AccurateOAuthSession, 'status' | 'expires_at'>,
+  now: Date = new Date()
+): boolean => {
+  if (session.status !== 'ACTIVE') return false;
+  return new Date(session.expires_at).getTime() - now.getTime() < OAUTH_REFRESH_MARGIN_MS;
+};
+
+/**
+ * User harus menghubungkan ulang Accurate (consent ulang):
+ * akses dicabut, refresh gagal, atau token sudah lewat masa berlaku
+ */
+export const needsReconnect = (
+  session: Pick<AccurateOAuthSession, 'status' | 'expires_at'> | null | undefined,
+  now: Date = new Date()
+): boolean => {
+  if (!session) return false;
+  if (session.status !== 'ACTIVE') return true;
+  return new Date(session.expires_at).getTime() <= now.getTime();
+};
+
+export const isRevokedTokenError = (error: unknown): boolean => {
+  const message = (error instanceof Error ? error.message : String(error || '')).toLowerCase();
+  return REVOKED_ERROR_PATTERNS.some((pattern) => message.includes(pattern));
+};
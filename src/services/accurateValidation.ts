@@ -4,20 +4,18 @@ import {
   type AccurateValidationResult,
 } from '../lib/accurate';
 
-const HMAC_SECRET_KEY = import.meta. env.VITE_ACCURATE_HMAC_SECRET || '';
-
 /**
- * Wrapper untuk validasi entitas token
+ * Wrapper untuk validasi token yang baru diinput (belum tersimpan di vault)
  */
 export const validateAccurateApiToken = async (
   apiToken: string
 ): Promise<AccurateValidationResult> => {
-  return validateEntitasToken(apiToken, HMAC_SECRET_KEY);
+  return validateEntitasToken({ apiToken });
 };
 
 /**
  * Wrapper untuk get database list
  */
 export const getAccurateDatabaseList = async (apiToken: string) => {
-  return getEntitasList(apiToken, HMAC_SECRET_KEY);
-};
\ No newline at end of file
+  return getEntitasList({ apiToken });
+};
@@ -0,0 +1,2 @@
+// Evaluasi alert dipakai bersama edge function evaluate-alerts
+export * from '../../supabase/functions/_shared/alertRules.ts';
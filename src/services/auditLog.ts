@@ -0,0 +1,101 @@
+import type { AuditAction, AuditLog, AuditTable } from '../lib/auditLog';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Tambah',
+  UPDATE: 'Ubah',
+  DELETE: 'Hapus',
+  IMPORT: 'Import / Sync',
+};
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  entity: 'Entitas',
+  budgets: 'Budget',
+  budget_items: 'Item Budget',
+  budget_versions: 'Versi Budget',
+  budget_templates: 'Template Budget',
+  accurate_accounts: 'Akun COA',
+  realisasi: 'Realisasi',
+  workspace_members: 'Anggota Workspace',
+  alert_rules: 'Rule Alert',
+  cost_centers: 'Cost Center',
+  report_definitions: 'Definisi Laporan',
+};
+
+// Kolom teknis yang selalu berubah dan tidak perlu ditampilkan sebagai perubahan
+const IGNORED_DIFF_FIELDS = ['updated_at'];
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Daftar kolom yang berbeda antara nilai sebelum dan sesudah.
+ * Untuk tambah/hapus, semua kolom yang terisi dianggap berubah.
+ */
+export const getAuditChanges = (log: Pick<AuditLog, 'before_data' | 'after_data'>): AuditFieldChange[] => {
+  const before = log.before_data || {};
+  const after = log.after_data || {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .filter((field) => !IGNORED_DIFF_FIELDS.includes(field))
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+/**
+ * Ringkasan perubahan satu baris: "kolom: lama → baru; ..."
+ */
+export const summarizeAuditChanges = (log: Pick<AuditLog, 'before_data' | 'after_data'>): string => {
+  return getAuditChanges(log)
+    .map((change) => `${change.field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`)
+    .join('; ');
+};
+
+/**
+ * Baris CSV audit log (header + data)
+ */
+export const buildAuditCsvRows = (logs: AuditLog[], entityNames: Record<string, string | undefined>): string[][] => [
+  ['Waktu', 'Entitas', 'User', 'Tabel', 'Aksi', 'ID Data', 'Perubahan', 'Sebelum (JSON)', 'Sesudah (JSON)'],
+  ...logs.map((log) => [
+    new Date(log.created_at).toLocaleString('id-ID'),
+    (log.entity_id && entityNames[log.entity_id]) || log.entity_id || '-',
+    log.actor_email || log.actor_id || '-',
+    AUDIT_TABLE_LABELS[log.table_name] || log.table_name,
+    AUDIT_ACTION_LABELS[log.action] || log.action,
+    log.record_id || '-',
+    summarizeAuditChanges(log),
+    log.before_data ? JSON.stringify(log.before_data) : '',
+    log.after_data ? JSON.stringify(log.after_data) : '',
+  ]),
+];
+
+// Sel yang diawali karakter ini dibaca spreadsheet sebagai formula (CSV injection);
+// angka biasa & "-" sebagai penanda kosong tetap apa adanya
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+([.,]\d+)*$/;
+
+const guardFormula = (cell: string): string =>
+  FORMULA_PREFIX.test(cell) && cell !== '-' && !PLAIN_NUMBER.test(cell) ? `'${cell}` : cell;
+
+export const toCsvString = (rows: string[][]): string => {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const cell = guardFormula(value);
+          const escaped = cell.replace(/"/g, '""');
+          return cell.includes(',') || cell.includes('"') || cell.includes('\n') ? `"${escaped}"` : escaped;
+        })
+        .join(',')
+    )
+    .join('\n');
+};
@@ -0,0 +1,77 @@
+import type { BudgetVersionItem } from '../lib/accurate';
+import { MONTHS_IN_FISCAL_YEAR, buildSchedule } from './budgetPhasing';
+
+export interface CopyAmountOptions {
+  upliftPercent: number; // contoh: 5 = naik 5%, -10 = turun 10%
+  roundToThousand: boolean;
+}
+
+export interface PreparedCopyItems {
+  items: BudgetVersionItem[];
+  skipped: BudgetVersionItem[]; // Akun suspended yang tidak ikut disalin
+}
+
+/**
+ * Bulatkan ke kelipatan 1.000 terdekat
+ */
+export const roundToThousand = (amount: number): number => Math.round(amount / 1000) * 1000;
+
+/**
+ * Terapkan kenaikan persentase (dan pembulatan ribuan) ke satu nominal
+ */
+export const applyUplift = (amount: number, options: CopyAmountOptions): number => {
+  const uplifted = (amount || 0) * (1 + (options.upliftPercent || 0) / 100);
+  return options.roundToThousand ? roundToThousand(uplifted) : Math.round(uplifted);
+};
+
+/**
+ * Salin item dengan uplift. Jadwal bulanan ikut disesuaikan:
+ * MANUAL diskalakan per bulan, EVEN/SEASONAL dibangun ulang dari total baru.
+ */
+const upliftItem = (item: BudgetVersionItem, options: CopyAmountOptions): BudgetVersionItem => {
+  const allocated = applyUplift(item.allocated_amount, options);
+  const schedule = item.monthly_allocations;
+
+  if (!schedule || schedule.length !== MONTHS_IN_FISCAL_YEAR) {
+    return { ...item, allocated_amount: allocated };
+  }
+
+  if (item.phasing_method === 'MANUAL') {
+    const monthly = schedule.map((amount) => applyUplift(Number(amount) || 0, options));
+    return {
+      ...item,
+      allocated_amount: monthly.reduce((sum, amount) => sum + amount, 0),
+      monthly_allocations: monthly,
+    };
+  }
+
+  return {
+    ...item,
+    allocated_amount: allocated,
+    monthly_allocations: buildSchedule(item.phasing_method || 'EVEN', allocated, {
+      weights: item.seasonal_weights,
+    }),
+  };
+};
+
+/**
+ * Siapkan item untuk budget hasil salinan, lewati akun yang suspended
+ */
+export const prepareCopiedItems = (
+  items: BudgetVersionItem[],
+  options: CopyAmountOptions,
+  suspendedCodes: Set<string>
+): PreparedCopyItems => {
+  const copied: BudgetVersionItem[] = [];
+  const skipped: BudgetVersionItem[] = [];
+
+  for (const item of items) {
+    if (suspendedCodes.has(item.account_code)) {
+      skipped.push(item);
+      continue;
+    }
+    copied.push(upliftItem(item, options));
+  }
+
+  return { items: copied, skipped };
+};
@@ -0,0 +1,213 @@
+import type { Account, Budget } from '../lib/accurate';
+
+// Satu baris spreadsheet import budget setelah divalidasi
+export interface BudgetImportRow {
+  row_number: number; // Nomor baris di spreadsheet (1-based, termasuk header)
+  budget_name: string;
+  period: string;
+  account_code: string;
+  account_name: string;
+  account_type: string | null;
+  account_id: string | null;
+  accurate_id: string | null;
+  allocated_amount: number;
+  description: string | null;
+  errors: string[];
+}
+
+// Budget yang akan dibuat dari baris-baris valid
+export interface BudgetImportGroup {
+  name: string;
+  period: string;
+  total_budget: number;
+  items: Pick<
+    BudgetImportRow,
+    'account_code' | 'account_name' | 'account_type' | 'account_id' | 'accurate_id' | 'allocated_amount' | 'description'
+  >[];
+}
+
+export const BUDGET_IMPORT_COLUMNS = {
+  budget_name: ['budget_name', 'nama budget', 'budget name', 'budget'],
+  period: ['period', 'periode', 'bulan'],
+  account_code: ['account_code', 'kode akun', 'account no', 'account code', 'kode', 'no akun'],
+  allocated_amount: ['allocated_amount', 'jumlah', 'amount', 'nominal', 'alokasi', 'budget amount'],
+  description: ['description', 'keterangan', 'catatan', 'deskripsi'],
+};
+
+const normalizeKey = (key: string): string =>
+  key.toLowerCase().trim().replace(/[_\-/]/g, ' ').replace(/\s+/g, ' ');
+
+/**
+ * Ambil nilai asli sel (angka, tanggal atau teks) berdasarkan daftar alias header
+ */
+const getRawColumnValue = (row: Record<string, unknown>, aliases: string[]): unknown => {
+  const normalized = new Map(Object.keys(row).map((key) => [normalizeKey(key), row[key]]));
+  for (const alias of aliases) {
+    const value = normalized.get(normalizeKey(alias));
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return value;
+    }
+  }
+  return '';
+};
+
+/**
+ * Ambil nilai kolom sebagai teks; sel tanggal menjadi "YYYY-MM"
+ */
+const getColumnValue = (row: Record<string, unknown>, aliases: string[]): string => {
+  const value = getRawColumnValue(row, aliases);
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}`;
+  }
+  return String(value).trim();
+};
+
+/**
+ * Apakah header spreadsheet memuat kolom wajib import budget
+ */
+export const hasBudgetImportColumns = (headers: string[]): boolean => {
+  const normalized = new Set(headers.map(normalizeKey));
+  return (['budget_name', 'period', 'account_code', 'allocated_amount'] as const).every((column) =>
+    BUDGET_IMPORT_COLUMNS[column].some((alias) => normalized.has(normalizeKey(alias)))
+  );
+};
+
+/**
+ * Normalisasi periode ke "YYYY-MM".
+ * Menerima YYYY-MM, YYYY/MM, MM-YYYY dan MM/YYYY; selain itu null.
+ */
+export const normalizeImportPeriod = (value: string): string | null => {
+  const yearFirst = value.match(/^(\d{4})[-/](\d{1,2})$/);
+  const monthFirst = value.match(/^(\d{1,2})[-/](\d{4})$/);
+  const [year, month] = yearFirst
+    ? [yearFirst[1], yearFirst[2]]
+    : monthFirst
+    ? [monthFirst[2], monthFirst[1]]
+    : [null, null];
+
+  if (!year || !month || Number(month) < 1 || Number(month) > 12) return null;
+  return `${year}-${month.padStart(2, '0')}`;
+};
+
+// 5600000 / 5.600.000 / 5,600,000 (hanya ribuan, satu jenis pemisah)
+const INTEGER_PATTERN = /^-?(\d+|\d{1,3}(\.\d{3})+|\d{1,3}(,\d{3})+)$/;
+// 5.600.000,50 (Indonesia) dan 5,600,000.50 (US); desimal maksimal 2 digit
+const ID_DECIMAL_PATTERN = /^-?(\d+|\d{1,3}(\.\d{3})+),\d{1,2}$/;
+const US_DECIMAL_PATTERN = /^-?(\d+|\d{1,3}(,\d{3})+)\.\d{1,2}$/;
+
+/**
+ * Parse nominal dari sel spreadsheet. Sel angka dipakai apa adanya; teks
+ * diterima jika formatnya tidak ambigu: pemisah ribuan berulang (titik atau
+ * koma) dianggap bilangan bulat, desimal maksimal 2 digit di belakang.
+ * NaN untuk format lain (mis. "1.2345" atau "1,234,56") agar baris ditolak.
+ */
+export const parseImportAmount = (value: unknown): number => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : NaN;
+
+  const cleaned = String(value ?? '').replace(/rp/gi, '').replace(/\s/g, '');
+  if (!cleaned) return NaN;
+
+  if (INTEGER_PATTERN.test(cleaned)) return parseInt(cleaned.replace(/[.,]/g, ''), 10);
+  if (ID_DECIMAL_PATTERN.test(cleaned)) return parseFloat(cleaned.replace(/\./g, '').replace(',', '.'));
+  if (US_DECIMAL_PATTERN.test(cleaned)) return parseFloat(cleaned.replace(/,/g, ''));
+  return NaN;
+};
+
+/**
+ * Validasi baris spreadsheet terhadap COA (accurate_accounts) dan budget yang sudah ada
+ */
+export const validateBudgetImportRows = (
+  rawRows: Record<string, unknown>[],
+  accounts: Pick<Account, 'id' | 'accurate_id' | 'account_code' | 'account_name' | 'account_type' | 'suspended' | 'is_active'>[],
+  existingBudgets: Pick<Budget, 'name' | 'period'>[],
+  headerRowNumber: number = 1
+): BudgetImportRow[] => {
+  const accountByCode = new Map(accounts.map((acc) => [acc.account_code, acc]));
+  const existingKeys = new Set(existingBudgets.map((b) => `${b.name}|${b.period}`));
+  const seenKeys = new Set<string>();
+
+  return rawRows.map((raw, index) => {
+    const errors: string[] = [];
+    const budgetName = getColumnValue(raw, BUDGET_IMPORT_COLUMNS.budget_name);
+    const rawPeriod = getColumnValue(raw, BUDGET_IMPORT_COLUMNS.period);
+    const accountCode = getColumnValue(raw, BUDGET_IMPORT_COLUMNS.account_code);
+    const rawAmount = getRawColumnValue(raw, BUDGET_IMPORT_COLUMNS.allocated_amount);
+    const description = getColumnValue(raw, BUDGET_IMPORT_COLUMNS.description);
+
+    const period = normalizeImportPeriod(rawPeriod);
+    const amount = parseImportAmount(rawAmount);
+    const account = accountByCode.get(accountCode);
+
+    if (!budgetName) errors.push('Nama budget kosong');
+    if (!period) errors.push(`Periode "${rawPeriod}" tidak valid (gunakan YYYY-MM)`);
+
+    if (!accountCode) {
+      errors.push('Kode akun kosong');
+    } else if (!account) {
+      errors.push(`Akun ${accountCode} tidak ada di COA`);
+    } else if (account.suspended || account.is_active === false) {
+      errors.push(`Akun ${accountCode} sudah suspended`);
+    }
+
+    if (isNaN(amount)) {
+      errors.push(`Jumlah "${String(rawAmount)}" tidak dikenali (contoh: 5600000 atau 5.600.000)`);
+    } else if (amount <= 0) {
+      errors.push('Jumlah budget harus lebih dari 0');
+    }
+
+    if (budgetName && period) {
+      if (existingKeys.has(`${budgetName}|${period}`)) {
+        errors.push(`Budget "${budgetName}" periode ${period} sudah ada`);
+      }
+
+      const rowKey = `${budgetName}|${period}|${accountCode}`;
+      if (accountCode && seenKeys.has(rowKey)) {
+        errors.push(`Akun ${accountCode} duplikat di budget yang sama`);
+      }
+      seenKeys.add(rowKey);
+    }
+
+    return {
+      row_number: headerRowNumber + index + 1,
+      budget_name: budgetName,
+      period: period || rawPeriod,
+      account_code: accountCode,
+      account_name: account?.account_name || '',
+      account_type: account?.account_type || null,
+      account_id: account?.id || null,
+      accurate_id: account?.accurate_id || null,
+      allocated_amount: isNaN(amount) ? 0 : amount,
+      description: description || null,
+      errors,
+    };
+  });
+};
+
+/**
+ * Kelompokkan baris valid per budget (nama + periode).
+ * Total budget = jumlah alokasi item.
+ */
+export const groupBudgetImportRows = (rows: BudgetImportRow[]): BudgetImportGroup[] => {
+  const groups = new Map<string, BudgetImportGroup>();
+
+  for (const row of rows) {
+    if (row.errors.length > 0) continue;
+
+    const key = `${row.budget_name}|${row.period}`;
+    const group = groups.get(key) || { name: row.budget_name, period: row.period, total_budget: 0, items: [] };
+
+    group.items.push({
+      account_code: row.account_code,
+      account_name: row.account_name,
+      account_type: row.account_type,
+      account_id: row.account_id,
+      accurate_id: row.accurate_id,
+      allocated_amount: row.allocated_amount,
+      description: row.description,
+    });
+    group.total_budget += row.allocated_amount;
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values());
+};
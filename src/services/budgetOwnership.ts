@@ -0,0 +1,100 @@
+import type { Budget } from '../lib/accurate';
+import type { WorkspaceRole } from '../lib/workspaces';
+import { hasPermission } from './workspaceRoles';
+
+type BudgetOwnership = Pick<Budget, 'owner_id' | 'editor_ids'>;
+
+// Filter daftar budget: semua, budget saya, tanpa owner, atau user_id owner tertentu
+export type BudgetOwnerFilter = 'ALL' | 'MINE' | 'UNASSIGNED' | string;
+
+export const BUDGET_SCOPE_LABELS: Record<'ALL' | 'MINE', string> = {
+  ALL: 'Semua Budget',
+  MINE: 'Budget Saya',
+};
+
+export const isBudgetOwner = (budget: BudgetOwnership, userId: string | undefined): boolean => {
+  return !!userId && budget.owner_id === userId;
+};
+
+/**
+ * Owner atau editor yang didelegasikan
+ */
+export const isBudgetMember = (budget: BudgetOwnership, userId: string | undefined): boolean => {
+  return isBudgetOwner(budget, userId) || (!!userId && (budget.editor_ids || []).includes(userId));
+};
+
+/**
+ * Boleh mengubah isi budget:
+ * Owner/Finance Admin entitas selalu boleh, Budget Editor hanya untuk
+ * budget yang ia miliki / didelegasikan, atau budget yang belum punya owner.
+ */
+export const canEditBudgetContent = (
+  budget: BudgetOwnership,
+  userId: string | undefined,
+  role: WorkspaceRole | null | undefined
+): boolean => {
+  if (!hasPermission(role, 'EDIT_BUDGET')) return false;
+  if (hasPermission(role, 'APPROVE_BUDGET')) return true;
+  if (!budget.owner_id) return true;
+  return isBudgetMember(budget, userId);
+};
+
+/**
+ * Owner budget hanya bisa ditentukan Owner/Finance Admin entitas
+ */
+export const canAssignBudgetOwner = (role: WorkspaceRole | null | undefined): boolean => {
+  return hasPermission(role, 'APPROVE_BUDGET');
+};
+
+/**
+ * Editor budget bisa diatur admin entitas atau owner budget itu sendiri
+ */
+export const canManageBudgetEditors = (
+  budget: BudgetOwnership,
+  userId: string | undefined,
+  role: WorkspaceRole | null | undefined
+): boolean => {
+  return canAssignBudgetOwner(role) || (hasPermission(role, 'EDIT_BUDGET') && isBudgetOwner(budget, userId));
+};
+
+export const filterBudgetsByOwner = <T extends BudgetOwnership>(
+  budgets: T[],
+  filter: BudgetOwnerFilter,
+  userId: string | undefined
+): T[] => {
+  switch (filter) {
+    case 'ALL':
+      return budgets;
+    case 'MINE':
+      return budgets.filter((budget) => isBudgetMember(budget, userId));
+    case 'UNASSIGNED':
+      return budgets.filter((budget) => !budget.owner_id);
+    default:
+      return budgets.filter((budget) => budget.owner_id === filter);
+  }
+};
+
+/**
+ * Baris realisasi dari budget yang lolos filter owner
+ */
+export const filterRealizationsByOwner = <T extends { budget_id: string }>(
+  realizations: T[],
+  budgets: (BudgetOwnership & { id: string })[],
+  filter: BudgetOwnerFilter,
+  userId: string | undefined
+): T[] => {
+  if (filter === 'ALL') return realizations;
+  const budgetIds = new Set(filterBudgetsByOwner(budgets, filter, userId).map((budget) => budget.id));
+  return realizations.filter((realization) => budgetIds.has(realization.budget_id));
+};
+
+/**
+ * Label owner dari daftar anggota entitas
+ */
+export const formatBudgetOwner = (
+  ownerId: string | null | undefined,
+  members: { user_id: string; email: string }[]
+): string => {
+  if (!ownerId) return 'Belum ada owner';
+  return members.find((member) => member.user_id === ownerId)?.email || 'User lain';
+};
@@ -0,0 +1,2 @@
+// Phasing dipakai bersama edge function (realisasi, alert, digest)
+export * from '../../supabase/functions/_shared/budgetPhasing.ts';
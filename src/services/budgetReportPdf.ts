@@ -0,0 +1,443 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { BudgetRealization } from '../lib/accurate';
+import type { CostCenterSubtotal } from './costCenters';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PdfPaperSize = 'A4' | 'F4';
+
+export type PdfOrientation = 'portrait' | 'landscape';
+
+export interface PdfExportOptions {
+  paperSize: PdfPaperSize;
+  orientation: PdfOrientation;
+  signatures?: string[]; // label kolom tanda tangan, default DEFAULT_SIGNATURE_ROLES
+}
+
+// Laporan budget vs realisasi satu budget (sama dengan data ExportFile)
+export interface BudgetReportGroup {
+  budget_name: string;
+  period: string;
+  accounts: BudgetRealization[];
+  total_budget: number;
+  total_realisasi: number;
+  total_variance: number;
+  variance_percentage: number;
+  overall_status: 'ON_TRACK' | 'OVER_BUDGET';
+  // Opsional: ditambahkan sebagai bagian terpisah setelah baris total
+  cost_center_subtotals?: CostCenterSubtotal[];
+}
+
+export const PDF_PAPER_SIZE_LABELS: Record<PdfPaperSize, string> = {
+  A4: 'A4',
+  F4: 'F4 / Folio',
+};
+
+export const PDF_ORIENTATION_LABELS: Record<PdfOrientation, string> = {
+  portrait: 'Portrait',
+  landscape: 'Landscape',
+};
+
+export const DEFAULT_SIGNATURE_ROLES = ['Dibuat oleh', 'Diperiksa oleh', 'Disetujui oleh'];
+
+// Ukuran kertas dalam mm
+const PAPER_SIZES: Record<PdfPaperSize, [number, number]> = {
+  A4: [210, 297],
+  F4: [215, 330],
+};
+
+const MARGIN = 12.7; // 0.5 inch, sama dengan margin Word
+const FOOTER_HEIGHT = 10;
+const SIGNATURE_HEIGHT = 38;
+
+// Warna mengikuti export Word/Excel
+const HEADER_FILL: [number, number, number] = [217, 217, 217]; // D9D9D9
+const TOTAL_FILL: [number, number, number] = [242, 242, 242]; // F2F2F2
+const BORDER_COLOR: [number, number, number] = [128, 128, 128];
+const ON_TRACK_COLOR: [number, number, number] = [4, 120, 87];
+const OVER_BUDGET_COLOR: [number, number, number] = [185, 28, 28];
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatCurrency = (amount: number): string => amount.toLocaleString('id-ID');
+
+const formatDate = (date: Date): string =>
+  date.toLocaleDateString('id-ID', {
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatStatus = (status: 'ON_TRACK' | 'OVER_BUDGET'): string =>
+  status === 'ON_TRACK' ? 'On Track' : 'Over Budget';
+
+const statusColor = (status: 'ON_TRACK' | 'OVER_BUDGET') =>
+  status === 'ON_TRACK' ? ON_TRACK_COLOR : OVER_BUDGET_COLOR;
+
+// Posisi Y setelah tabel terakhir (tidak ada di tipe jsPDF)
+const getLastTableY = (doc: jsPDF): number =>
+  (doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY || MARGIN;
+
+const pageHeight = (doc: jsPDF) => doc.internal.pageSize.getHeight();
+const pageWidth = (doc: jsPDF) => doc.internal.pageSize.getWidth();
+
+/**
+ * Pindah ke halaman baru jika sisa ruang kurang dari `height`
+ */
+const ensureSpace = (doc: jsPDF, y: number, height: number): number => {
+  if (y + height <= pageHeight(doc) - MARGIN - FOOTER_HEIGHT) return y;
+  doc.addPage();
+  return MARGIN;
+};
+
+// ============================================
+// DOCUMENT
+// ============================================
+
+/**
+ * Dokumen PDF kosong sesuai ukuran kertas & orientasi
+ */
+export const createReportPdf = (options: PdfExportOptions): jsPDF =>
+  new jsPDF({
+    orientation: options.orientation,
+    unit: 'mm',
+    format: PAPER_SIZES[options.paperSize],
+  });
+
+/**
+ * Tulis laporan satu budget mulai dari `startY`: judul, info header,
+ * ringkasan, tabel akun, subtotal cost center. Mengembalikan posisi Y akhir.
+ */
+export const renderBudgetGroupPdf = (
+  doc: jsPDF,
+  group: BudgetReportGroup,
+  entityName: string,
+  startY = MARGIN
+): number => {
+  const width = pageWidth(doc);
+  let y = startY;
+
+  // Judul
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.text('LAPORAN BUDGET VS REALISASI', width / 2, y + 5, { align: 'center' });
+  y += 12;
+
+  // Info header + ringkasan
+  autoTable(doc, {
+    startY: y,
+    margin: { left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT },
+    theme: 'plain',
+    styles: { fontSize: 9, cellPadding: 1 },
+    columnStyles: {
+      0: { fontStyle: 'bold', cellWidth: 35 },
+      2: { fontStyle: 'bold', cellWidth: 35 },
+    },
+    body: [
+      ['Entitas:', entityName, 'Total Budget:', `Rp${formatCurrency(group.total_budget)}`],
+      ['Nama Budget:', group.budget_name, 'Total Realisasi:', `Rp${formatCurrency(group.total_realisasi)}`],
+      [
+        'Periode:',
+        group.period,
+        'Variance:',
+        `Rp${formatCurrency(Math.abs(group.total_variance))} (${Math.abs(group.variance_percentage).toFixed(2)}%)`,
+      ],
+      ['Tanggal Export:', formatDate(new Date()), 'Status:', formatStatus(group.overall_status)],
+    ],
+    didParseCell: (data) => {
+      if (data.section === 'body' && data.row.index === 3 && data.column.index === 3) {
+        data.cell.styles.fontStyle = 'bold';
+        data.cell.styles.textColor = statusColor(group.overall_status);
+      }
+    },
+  });
+
+  // Tabel akun
+  autoTable(doc, {
+    startY: getLastTableY(doc) + 6,
+    margin: { left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT },
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5, lineColor: BORDER_COLOR, lineWidth: 0.1 },
+    headStyles: { fillColor: HEADER_FILL, textColor: 0, fontStyle: 'bold', halign: 'center', valign: 'middle' },
+    footStyles: { fillColor: TOTAL_FILL, textColor: 0, fontStyle: 'bold' },
+    showFoot: 'lastPage',
+    columnStyles: {
+      0: { halign: 'center', cellWidth: 9 },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'right' },
+      8: { halign: 'center' },
+    },
+    head: [['No', 'Kode Akun', 'Nama Akun', 'Tipe', 'Budget (Rp)', 'Realisasi (Rp)', 'Variance (Rp)', 'Variance (%)', 'Status']],
+    body: group.accounts.map((account, index) => [
+      (index + 1).toString(),
+      account.account_code,
+      account.account_name,
+      account.account_type || '-',
+      formatCurrency(account.budget_allocated),
+      formatCurrency(account.realisasi),
+      formatCurrency(Math.abs(account.variance)),
+      `${Math.abs(account.variance_percentage).toFixed(2)}%`,
+      formatStatus(account.status),
+    ]),
+    foot: [
+      [
+        { content: 'TOTAL', colSpan: 4, styles: { halign: 'right' } },
+        { content: formatCurrency(group.total_budget), styles: { halign: 'right' } },
+        { content: formatCurrency(group.total_realisasi), styles: { halign: 'right' } },
+        { content: formatCurrency(Math.abs(group.total_variance)), styles: { halign: 'right' } },
+        { content: `${Math.abs(group.variance_percentage).toFixed(2)}%`, styles: { halign: 'right' } },
+        {
+          content: formatStatus(group.overall_status),
+          styles: { halign: 'center', textColor: statusColor(group.overall_status) },
+        },
+      ],
+    ],
+    didParseCell: (data) => {
+      if (data.section === 'body' && data.column.index === 8) {
+        data.cell.styles.textColor = statusColor(group.accounts[data.row.index].status);
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  y = getLastTableY(doc);
+
+  // Subtotal per cost center
+  const subtotals = group.cost_center_subtotals || [];
+  if (subtotals.length > 0) {
+    y = ensureSpace(doc, y + 8, 20);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(0, 0, 0);
+    doc.text('Subtotal per Cost Center', MARGIN, y + 4);
+
+    autoTable(doc, {
+      startY: y + 7,
+      margin: { left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT },
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 1.5, lineColor: BORDER_COLOR, lineWidth: 0.1 },
+      headStyles: { fillColor: HEADER_FILL, textColor: 0, fontStyle: 'bold', halign: 'center' },
+      columnStyles: {
+        1: { halign: 'center' },
+        2: { halign: 'right' },
+        3: { halign: 'right' },
+        4: { halign: 'right' },
+        5: { halign: 'right' },
+        6: { halign: 'center' },
+      },
+      head: [['Cost Center', 'Jumlah Akun', 'Budget (Rp)', 'Realisasi (Rp)', 'Variance (Rp)', 'Variance (%)', 'Status']],
+      body: subtotals.map((subtotal) => [
+        subtotal.cost_center_id ? `${subtotal.code} - ${subtotal.name}` : subtotal.name,
+        subtotal.account_count.toString(),
+        formatCurrency(subtotal.budget),
+        formatCurrency(subtotal.realisasi),
+        formatCurrency(Math.abs(subtotal.variance)),
+        `${Math.abs(subtotal.variance_percentage).toFixed(2)}%`,
+        formatStatus(subtotal.status),
+      ]),
+      didParseCell: (data) => {
+        if (data.section === 'body' && data.column.index === 6) {
+          data.cell.styles.textColor = statusColor(subtotals[data.row.index].status);
+          data.cell.styles.fontStyle = 'bold';
+        }
+      },
+    });
+
+    y = getLastTableY(doc);
+  }
+
+  return y;
+};
+
+/**
+ * Kolom tanda tangan di bawah laporan (pindah halaman jika tidak muat)
+ */
+export const addSignatureBlock = (doc: jsPDF, startY: number, roles: string[] = DEFAULT_SIGNATURE_ROLES): number => {
+  if (roles.length === 0) return startY;
+
+  const y = ensureSpace(doc, startY + 10, SIGNATURE_HEIGHT);
+  const columnWidth = (pageWidth(doc) - MARGIN * 2) / roles.length;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(0, 0, 0);
+
+  roles.forEach((role, index) => {
+    const centerX = MARGIN + columnWidth * index + columnWidth / 2;
+    doc.text(role, centerX, y + 4, { align: 'center' });
+    doc.line(centerX - columnWidth * 0.35, y + 28, centerX + columnWidth * 0.35, y + 28);
+    doc.text('Nama & Tanggal', centerX, y + 33, { align: 'center' });
+  });
+
+  return y + SIGNATURE_HEIGHT;
+};
+
+/**
+ * Footer semua halaman: nama entitas & "Halaman x dari y".
+ * Dipanggil terakhir, setelah semua halaman terbentuk.
+ */
+export const addPageFooters = (doc: jsPDF, entityName: string) => {
+  const totalPages = doc.getNumberOfPages();
+  const width = pageWidth(doc);
+  const y = pageHeight(doc) - MARGIN / 2 - 2;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(100, 100, 100);
+
+  for (let page = 1; page <= totalPages; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(...BORDER_COLOR);
+    doc.line(MARGIN, y - 4, width - MARGIN, y - 4);
+    doc.text(entityName, MARGIN, y);
+    doc.text(`Halaman ${page} dari ${totalPages}`, width - MARGIN, y, { align: 'right' });
+  }
+};
+
+/**
+ * PDF lengkap untuk satu budget
+ */
+export const buildBudgetReportPdf = (
+  group: BudgetReportGroup,
+  entityName: string,
+  options: PdfExportOptions
+): jsPDF => {
+  const doc = createReportPdf(options);
+  const endY = renderBudgetGroupPdf(doc, group, entityName);
+  addSignatureBlock(doc, endY, options.signatures);
+  addPageFooters(doc, entityName);
+  return doc;
+};
+
+/**
+ * Total seluruh budget group untuk ringkasan entitas
+ */
+export const summarizeReportGroups = (
+  groups: BudgetReportGroup[]
+): Pick<BudgetReportGroup, 'total_budget' | 'total_realisasi' | 'total_variance' | 'variance_percentage' | 'overall_status'> => {
+  const totalBudget = groups.reduce((sum, group) => sum + group.total_budget, 0);
+  const totalRealisasi = groups.reduce((sum, group) => sum + group.total_realisasi, 0);
+  const totalVariance = totalBudget - totalRealisasi;
+
+  return {
+    total_budget: totalBudget,
+    total_realisasi: totalRealisasi,
+    total_variance: totalVariance,
+    variance_percentage: totalBudget > 0 ? (totalVariance / totalBudget) * 100 : 0,
+    overall_status: totalRealisasi <= totalBudget ? 'ON_TRACK' : 'OVER_BUDGET',
+  };
+};
+
+/**
+ * Halaman ringkasan entitas: satu baris per budget group + total
+ */
+export const renderEntitySummaryPdf = (
+  doc: jsPDF,
+  groups: BudgetReportGroup[],
+  entityName: string,
+  period: string,
+  startY = MARGIN
+): number => {
+  const totals = summarizeReportGroups(groups);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.text('RINGKASAN BUDGET VS REALISASI', pageWidth(doc) / 2, startY + 5, { align: 'center' });
+
+  autoTable(doc, {
+    startY: startY + 12,
+    margin: { left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT },
+    theme: 'plain',
+    styles: { fontSize: 9, cellPadding: 1 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 35 } },
+    body: [
+      ['Entitas:', entityName],
+      ['Periode:', period],
+      ['Jumlah Budget:', groups.length.toString()],
+      ['Tanggal Export:', formatDate(new Date())],
+    ],
+  });
+
+  autoTable(doc, {
+    startY: getLastTableY(doc) + 6,
+    margin: { left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_HEIGHT },
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5, lineColor: BORDER_COLOR, lineWidth: 0.1 },
+    headStyles: { fillColor: HEADER_FILL, textColor: 0, fontStyle: 'bold', halign: 'center', valign: 'middle' },
+    footStyles: { fillColor: TOTAL_FILL, textColor: 0, fontStyle: 'bold' },
+    showFoot: 'lastPage',
+    columnStyles: {
+      0: { halign: 'center', cellWidth: 9 },
+      3: { halign: 'center' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'right' },
+      8: { halign: 'center' },
+    },
+    head: [['No', 'Nama Budget', 'Periode', 'Jumlah Akun', 'Budget (Rp)', 'Realisasi (Rp)', 'Variance (Rp)', 'Variance (%)', 'Status']],
+    body: groups.map((group, index) => [
+      (index + 1).toString(),
+      group.budget_name,
+      group.period,
+      group.accounts.length.toString(),
+      formatCurrency(group.total_budget),
+      formatCurrency(group.total_realisasi),
+      formatCurrency(Math.abs(group.total_variance)),
+      `${Math.abs(group.variance_percentage).toFixed(2)}%`,
+      formatStatus(group.overall_status),
+    ]),
+    foot: [
+      [
+        { content: 'TOTAL', colSpan: 4, styles: { halign: 'right' } },
+        { content: formatCurrency(totals.total_budget), styles: { halign: 'right' } },
+        { content: formatCurrency(totals.total_realisasi), styles: { halign: 'right' } },
+        { content: formatCurrency(Math.abs(totals.total_variance)), styles: { halign: 'right' } },
+        { content: `${Math.abs(totals.variance_percentage).toFixed(2)}%`, styles: { halign: 'right' } },
+        { content: formatStatus(totals.overall_status), styles: { halign: 'center', textColor: statusColor(totals.overall_status) } },
+      ],
+    ],
+    didParseCell: (data) => {
+      if (data.section === 'body' && data.column.index === 8) {
+        data.cell.styles.textColor = statusColor(groups[data.row.index].overall_status);
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  return getLastTableY(doc);
+};
+
+/**
+ * PDF seluruh entitas: halaman ringkasan lalu satu bagian per budget
+ * group (masing-masing mulai di halaman baru), tanda tangan di akhir
+ */
+export const buildEntityReportPdf = (
+  groups: BudgetReportGroup[],
+  entityName: string,
+  period: string,
+  options: PdfExportOptions
+): jsPDF => {
+  const doc = createReportPdf(options);
+  let endY = renderEntitySummaryPdf(doc, groups, entityName, period);
+
+  for (const group of groups) {
+    doc.addPage();
+    endY = renderBudgetGroupPdf(doc, group, entityName);
+  }
+
+  addSignatureBlock(doc, endY, options.signatures);
+  addPageFooters(doc, entityName);
+  return doc;
+};
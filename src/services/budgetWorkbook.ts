@@ -0,0 +1,224 @@
+import * as XLSX from 'xlsx';
+import type { Budget, BudgetItem, BudgetPeriodType, BudgetWithItems } from '../lib/accurate';
+import { MONTHS_IN_FISCAL_YEAR, buildEvenSchedule, buildWeightedSchedule, buildSchedule } from './budgetPhasing';
+import { parseImportAmount } from './budgetImport';
+
+// Versi format workbook, dinaikkan jika kolom berubah
+export const WORKBOOK_FORMAT_VERSION = 1;
+
+export const METADATA_SHEET = '_metadata';
+
+const ITEM_COLUMNS = ['account_code', 'account_name', 'account_type', 'allocated_amount', 'description'];
+
+const METADATA_COLUMNS = [
+  'format_version',
+  'sheet_name',
+  'budget_id',
+  'budget_name',
+  'period',
+  'period_type',
+  'updated_at',
+];
+
+// Baris item pada sheet budget
+export interface WorkbookItem {
+  account_code: string;
+  account_name: string;
+  account_type: string | null;
+  allocated_amount: number;
+  description: string | null;
+}
+
+// Metadata per sheet, disimpan di sheet tersembunyi
+export interface WorkbookBudgetMeta {
+  sheet_name: string;
+  budget_id: string;
+  budget_name: string;
+  period: string;
+  period_type: BudgetPeriodType;
+  updated_at: string | null;
+}
+
+export interface WorkbookBudget {
+  meta: WorkbookBudgetMeta;
+  items: WorkbookItem[];
+  row_errors: string[]; // Baris tidak valid; sheet tidak boleh diterapkan selama ada error
+}
+
+export interface BudgetItemChange {
+  before: BudgetItem;
+  after: WorkbookItem;
+}
+
+export interface BudgetItemDiff {
+  added: WorkbookItem[];
+  changed: BudgetItemChange[];
+  removed: BudgetItem[];
+  unchanged_count: number;
+}
+
+/**
+ * Nama sheet Excel: maks 31 karakter, tanpa karakter terlarang, unik
+ */
+export const toSheetName = (budget: Pick<Budget, 'name' | 'period'>, used: Set<string>): string => {
+  const base = `${budget.name} ${budget.period}`.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Budget';
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    name = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+/**
+ * Workbook siap-edit: satu sheet per budget + sheet metadata tersembunyi
+ * berisi ID budget, periode dan versi format.
+ */
+export const buildBudgetWorkbook = (budgets: BudgetWithItems[]): XLSX.WorkBook => {
+  const wb = XLSX.utils.book_new();
+  const usedNames = new Set<string>([METADATA_SHEET]);
+  const metadata: (string | number)[][] = [METADATA_COLUMNS];
+
+  for (const budget of budgets) {
+    const sheetName = toSheetName(budget, usedNames);
+    const ws = XLSX.utils.aoa_to_sheet([
+      ITEM_COLUMNS,
+      ...budget.items.map((item) => [
+        item.account_code,
+        item.account_name,
+        item.account_type || '',
+        item.allocated_amount,
+        item.description || '',
+      ]),
+    ]);
+    ws['!cols'] = [{ wch: 15 }, { wch: 35 }, { wch: 15 }, { wch: 18 }, { wch: 30 }];
+    XLSX.utils.book_append_sheet(wb, ws, sheetName);
+
+    metadata.push([
+      WORKBOOK_FORMAT_VERSION,
+      sheetName,
+      budget.id,
+      budget.name,
+      budget.period,
+      budget.period_type || 'MONTHLY',
+      budget.updated_at || '',
+    ]);
+  }
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(metadata), METADATA_SHEET);
+  wb.Workbook = {
+    Sheets: wb.SheetNames.map((name) => ({ name, Hidden: name === METADATA_SHEET ? 1 : 0 })),
+  };
+
+  return wb;
+};
+
+/**
+ * Baca kembali workbook hasil buildBudgetWorkbook
+ */
+export const parseBudgetWorkbook = (wb: XLSX.WorkBook): WorkbookBudget[] => {
+  const metaSheet = wb.Sheets[METADATA_SHEET];
+  if (!metaSheet) {
+    throw new Error('Sheet metadata tidak ditemukan. Gunakan file hasil "Export Workbook".');
+  }
+
+  const metaRows = XLSX.utils.sheet_to_json<Record<string, string | number>>(metaSheet, { defval: '' });
+
+  return metaRows.map((row) => {
+    if (Number(row.format_version) !== WORKBOOK_FORMAT_VERSION) {
+      throw new Error(`Versi format workbook ${row.format_version} tidak didukung`);
+    }
+
+    const meta: WorkbookBudgetMeta = {
+      sheet_name: String(row.sheet_name),
+      budget_id: String(row.budget_id),
+      budget_name: String(row.budget_name),
+      period: String(row.period),
+      period_type: row.period_type === 'FISCAL_YEAR' ? 'FISCAL_YEAR' : 'MONTHLY',
+      updated_at: row.updated_at ? String(row.updated_at) : null,
+    };
+
+    const sheet = wb.Sheets[meta.sheet_name];
+    if (!sheet) throw new Error(`Sheet "${meta.sheet_name}" tidak ditemukan`);
+
+    const items: WorkbookItem[] = [];
+    const rowErrors: string[] = [];
+
+    XLSX.utils.sheet_to_json<Record<string, string | number>>(sheet, { defval: '' }).forEach((item, index) => {
+      const accountCode = String(item.account_code).trim();
+      if (!accountCode) return;
+
+      // Jumlah kosong / tidak terbaca ditolak, bukan dianggap 0
+      const amount = parseImportAmount(item.allocated_amount);
+      if (isNaN(amount) || amount < 0) {
+        rowErrors.push(`Baris ${index + 2} (${accountCode}): jumlah "${item.allocated_amount}" tidak valid`);
+        return;
+      }
+
+      items.push({
+        account_code: accountCode,
+        account_name: String(item.account_name).trim(),
+        account_type: String(item.account_type).trim() || null,
+        allocated_amount: amount,
+        description: String(item.description).trim() || null,
+      });
+    });
+
+    return { meta, items, row_errors: rowErrors };
+  });
+};
+
+/**
+ * Bandingkan item budget saat ini dengan isi workbook
+ */
+export const diffBudgetItems = (current: BudgetItem[], incoming: WorkbookItem[]): BudgetItemDiff => {
+  const currentByCode = new Map(current.map((item) => [item.account_code, item]));
+  const incomingCodes = new Set(incoming.map((item) => item.account_code));
+
+  const diff: BudgetItemDiff = { added: [], changed: [], removed: [], unchanged_count: 0 };
+
+  for (const item of incoming) {
+    const before = currentByCode.get(item.account_code);
+    if (!before) {
+      diff.added.push(item);
+    } else if (
+      before.allocated_amount !== item.allocated_amount ||
+      (before.description || null) !== item.description
+    ) {
+      diff.changed.push({ before, after: item });
+    } else {
+      diff.unchanged_count++;
+    }
+  }
+
+  diff.removed = current.filter((item) => !incomingCodes.has(item.account_code));
+  return diff;
+};
+
+export const hasBudgetItemChanges = (diff: BudgetItemDiff): boolean =>
+  diff.added.length + diff.changed.length + diff.removed.length > 0;
+
+/**
+ * Jadwal bulanan baru saat total item fiskal berubah.
+ * MANUAL diskalakan mengikuti proporsi jadwal lama.
+ */
+export const rescheduleItem = (
+  item: Pick<BudgetItem, 'phasing_method' | 'monthly_allocations' | 'seasonal_weights'> | null,
+  total: number
+): number[] => {
+  if (!item) return buildEvenSchedule(total);
+
+  const previous = item.monthly_allocations;
+  if (item.phasing_method === 'MANUAL' && previous && previous.length === MONTHS_IN_FISCAL_YEAR) {
+    return buildWeightedSchedule(total, previous);
+  }
+  return buildSchedule(item.phasing_method || 'EVEN', total, { weights: item.seasonal_weights });
+};
+
+/**
+ * Download workbook budget sebagai .xlsx
+ */
+export const downloadBudgetWorkbook = (budgets: BudgetWithItems[], fileName: string) => {
+  XLSX.writeFile(buildBudgetWorkbook(budgets), fileName);
+};
@@ -0,0 +1,60 @@
+import type { Budget, BudgetStatus, BudgetWorkflowAction } from '../lib/accurate';
+
+/**
+ * Transisi status budget yang diizinkan:
+ * DRAFT → SUBMITTED → APPROVED → LOCKED
+ * Reject mengembalikan SUBMITTED ke DRAFT, Reopen mengembalikan APPROVED ke DRAFT.
+ */
+const TRANSITIONS: Record<BudgetWorkflowAction, { from: BudgetStatus[]; to: BudgetStatus }> = {
+  SUBMIT: { from: ['DRAFT'], to: 'SUBMITTED' },
+  APPROVE: { from: ['SUBMITTED'], to: 'APPROVED' },
+  REJECT: { from: ['SUBMITTED'], to: 'DRAFT' },
+  LOCK: { from: ['APPROVED'], to: 'LOCKED' },
+  REOPEN: { from: ['APPROVED'], to: 'DRAFT' },
+};
+
+export const BUDGET_STATUS_LABELS: Record<BudgetStatus, string> = {
+  DRAFT: 'Draft',
+  SUBMITTED: 'Diajukan',
+  APPROVED: 'Disetujui',
+  LOCKED: 'Terkunci',
+};
+
+export const WORKFLOW_ACTION_LABELS: Record<BudgetWorkflowAction, string> = {
+  SUBMIT: 'Ajukan',
+  APPROVE: 'Setujui',
+  REJECT: 'Tolak',
+  LOCK: 'Kunci',
+  REOPEN: 'Buka Kembali',
+};
+
+/**
+ * Status budget; budget lama tanpa status dianggap DRAFT
+ */
+export const getBudgetStatus = (budget: Pick<Budget, 'approval_status'>): BudgetStatus => {
+  return budget.approval_status || 'DRAFT';
+};
+
+/**
+ * Status tujuan dari sebuah aksi, null jika aksi tidak valid untuk status sekarang
+ */
+export const getNextStatus = (current: BudgetStatus, action: BudgetWorkflowAction): BudgetStatus | null => {
+  const transition = TRANSITIONS[action];
+  return transition.from.includes(current) ? transition.to : null;
+};
+
+/**
+ * Aksi yang tersedia untuk status tertentu
+ */
+export const getAvailableActions = (current: BudgetStatus): BudgetWorkflowAction[] => {
+  return (Object.keys(TRANSITIONS) as BudgetWorkflowAction[]).filter(
+    (action) => getNextStatus(current, action) !== null
+  );
+};
+
+/**
+ * Budget hanya boleh diubah/dihapus selama masih DRAFT
+ */
+export const isBudgetEditable = (budget: Pick<Budget, 'approval_status'>): boolean => {
+  return getBudgetStatus(budget) === 'DRAFT';
+};
@@ -0,0 +1,255 @@
+import type { Budget, BudgetItem } from '../lib/accurate';
+import { addMonths, getFiscalMonthIndex, getFiscalMonths, getItemSchedule } from './budgetPhasing';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ComparisonMode = 'MONTH' | 'FISCAL_YEAR';
+
+// Pembanding default: bulan sebelumnya atau periode sama tahun lalu
+export type ComparisonBasis = 'PREVIOUS' | 'LAST_YEAR';
+
+export interface AccountAmounts {
+  account_code: string;
+  account_name: string;
+  account_type?: string | null;
+  budget: number;
+  actual: number;
+}
+
+export interface ComparisonLine {
+  account_code: string;
+  account_name: string;
+  account_type?: string | null;
+  current_budget: number;
+  current_actual: number;
+  previous_budget: number;
+  previous_actual: number;
+  budget_delta: number;
+  actual_delta: number;
+  budget_growth: number | null; // null jika periode pembanding 0
+  actual_growth: number | null;
+}
+
+export interface ComparisonTotals {
+  current_budget: number;
+  current_actual: number;
+  previous_budget: number;
+  previous_actual: number;
+  budget_delta: number;
+  actual_delta: number;
+  budget_growth: number | null;
+  actual_growth: number | null;
+}
+
+type ComparisonBudget = Pick<Budget, 'id' | 'period' | 'period_type'>;
+
+type ComparisonItem = Pick<
+  BudgetItem,
+  | 'budget_id'
+  | 'account_code'
+  | 'account_name'
+  | 'account_type'
+  | 'allocated_amount'
+  | 'monthly_allocations'
+  | 'monthly_realisasi'
+  | 'realisasi_snapshot'
+>;
+
+// ============================================
+// PERIODS
+// ============================================
+
+/**
+ * Bulan-bulan yang tercakup: satu bulan, atau 12 bulan tahun fiskal
+ */
+export const getComparisonMonths = (mode: ComparisonMode, period: string): string[] =>
+  mode === 'FISCAL_YEAR' ? getFiscalMonths(period) : [period];
+
+/**
+ * Periode pembanding default untuk periode yang dipilih
+ */
+export const getDefaultComparePeriod = (mode: ComparisonMode, period: string, basis: ComparisonBasis): string => {
+  if (mode === 'FISCAL_YEAR' || basis === 'LAST_YEAR') return addMonths(period, -12);
+  return addMonths(period, -1);
+};
+
+// ============================================
+// CALCULATION
+// ============================================
+
+/**
+ * Pertumbuhan dalam persen, null jika nilai pembanding 0
+ */
+export const calculateGrowth = (current: number, previous: number): number | null =>
+  previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+// Tipe akun laba rugi (Accurate & import Excel); tipe lain termasuk neraca
+const PROFIT_LOSS_ACCOUNT_TYPES = new Set(['REVENUE', 'COGS', 'EXPENSE', 'OTHER_INCOME', 'OTHER_EXPENSE']);
+
+/**
+ * Akun neraca (BS): realisasinya saldo, bukan mutasi.
+ * Tanpa account_type dianggap akun laba rugi.
+ */
+export const isBalanceSheetAccount = (accountType?: string | null): boolean =>
+  !!accountType && !PROFIT_LOSS_ACCOUNT_TYPES.has(accountType.toUpperCase());
+
+// Nilai satu bulan dari satu budget sumber
+interface MonthAmounts {
+  budgetId: string;
+  periodType: Budget['period_type'];
+  budget: number;
+  actual: number; // Mutasi (PL) atau saldo akhir bulan (BS)
+}
+
+/**
+ * Budget & realisasi satu item untuk satu bulan, null jika di luar budget.
+ * Budget FISCAL_YEAR menyimpan mutasi bulanan di monthly_realisasi dan saldo
+ * terakhir di realisasi_snapshot, jadi saldo akhir bulan BS = snapshot
+ * dikurangi mutasi bulan-bulan sesudahnya.
+ */
+const getItemMonthAmounts = (
+  budget: ComparisonBudget,
+  item: ComparisonItem,
+  month: string,
+  isBalanceSheet: boolean
+): Omit<MonthAmounts, 'budgetId' | 'periodType'> | null => {
+  if (budget.period_type !== 'FISCAL_YEAR') {
+    if (budget.period !== month) return null;
+    return { budget: item.allocated_amount || 0, actual: item.realisasi_snapshot || 0 };
+  }
+
+  const index = getFiscalMonthIndex(budget.period, month);
+  if (index === -1) return null;
+
+  const monthly = (item.monthly_realisasi || []).map((amount) => Number(amount) || 0);
+  const actual = isBalanceSheet
+    ? (item.realisasi_snapshot || 0) - monthly.slice(index + 1).reduce((sum, amount) => sum + amount, 0)
+    : monthly[index] || 0;
+
+  return { budget: getItemSchedule(item)[index], actual };
+};
+
+/**
+ * Budget & realisasi per akun untuk sekumpulan bulan.
+ * Tiap bulan per akun diambil dari satu budget saja: budget bulanan
+ * didahulukan dari jadwal budget FISCAL_YEAR yang mencakup bulan yang sama.
+ * Realisasi akun PL = jumlah mutasi, akun BS = saldo akhir bulan terakhir.
+ */
+export const collectAccountAmounts = (
+  budgets: ComparisonBudget[],
+  items: ComparisonItem[],
+  months: string[]
+): Map<string, AccountAmounts> => {
+  const sources = new Map<string, Map<string, MonthAmounts>>();
+  const accounts = new Map<string, ComparisonItem>();
+
+  for (const item of items) {
+    const budget = budgets.find((b) => b.id === item.budget_id);
+    if (!budget) continue;
+
+    const isBalanceSheet = isBalanceSheetAccount(item.account_type);
+    const byMonth = sources.get(item.account_code) || new Map<string, MonthAmounts>();
+
+    for (const month of months) {
+      const amounts = getItemMonthAmounts(budget, item, month, isBalanceSheet);
+      if (!amounts) continue;
+
+      const existing = byMonth.get(month);
+      if (existing?.budgetId === budget.id) {
+        // Item lain (cost center lain) dari budget yang sama dijumlahkan
+        existing.budget += amounts.budget;
+        existing.actual += amounts.actual;
+      } else if (!existing || (existing.periodType === 'FISCAL_YEAR' && budget.period_type !== 'FISCAL_YEAR')) {
+        byMonth.set(month, { budgetId: budget.id, periodType: budget.period_type, ...amounts });
+      }
+    }
+
+    if (byMonth.size === 0) continue;
+    sources.set(item.account_code, byMonth);
+    if (!accounts.has(item.account_code)) accounts.set(item.account_code, item);
+  }
+
+  const amounts = new Map<string, AccountAmounts>();
+
+  for (const [code, byMonth] of sources) {
+    const item = accounts.get(code);
+    if (!item) continue;
+
+    const covered = months.flatMap((month) => byMonth.get(month) ?? []);
+    const actual = isBalanceSheetAccount(item.account_type)
+      ? covered[covered.length - 1].actual
+      : covered.reduce((sum, month) => sum + month.actual, 0);
+
+    amounts.set(code, {
+      account_code: code,
+      account_name: item.account_name,
+      account_type: item.account_type,
+      budget: covered.reduce((sum, month) => sum + month.budget, 0),
+      actual,
+    });
+  }
+
+  return amounts;
+};
+
+/**
+ * Gabungkan dua periode per account_code
+ */
+export const buildComparisonLines = (
+  current: Map<string, AccountAmounts>,
+  previous: Map<string, AccountAmounts>
+): ComparisonLine[] => {
+  const codes = [...new Set([...current.keys(), ...previous.keys()])].sort();
+
+  return codes.map((code) => {
+    const a = current.get(code);
+    const b = previous.get(code);
+    const currentBudget = a?.budget || 0;
+    const currentActual = a?.actual || 0;
+    const previousBudget = b?.budget || 0;
+    const previousActual = b?.actual || 0;
+
+    return {
+      account_code: code,
+      account_name: a?.account_name || b?.account_name || '',
+      account_type: a?.account_type || b?.account_type,
+      current_budget: currentBudget,
+      current_actual: currentActual,
+      previous_budget: previousBudget,
+      previous_actual: previousActual,
+      budget_delta: currentBudget - previousBudget,
+      actual_delta: currentActual - previousActual,
+      budget_growth: calculateGrowth(currentBudget, previousBudget),
+      actual_growth: calculateGrowth(currentActual, previousActual),
+    };
+  });
+};
+
+export const summarizeComparison = (lines: ComparisonLine[]): ComparisonTotals => {
+  const total = (key: 'current_budget' | 'current_actual' | 'previous_budget' | 'previous_actual') =>
+    lines.reduce((sum, line) => sum + line[key], 0);
+
+  const currentBudget = total('current_budget');
+  const currentActual = total('current_actual');
+  const previousBudget = total('previous_budget');
+  const previousActual = total('previous_actual');
+
+  return {
+    current_budget: currentBudget,
+    current_actual: currentActual,
+    previous_budget: previousBudget,
+    previous_actual: previousActual,
+    budget_delta: currentBudget - previousBudget,
+    actual_delta: currentActual - previousActual,
+    budget_growth: calculateGrowth(currentBudget, previousBudget),
+    actual_growth: calculateGrowth(currentActual, previousActual),
+  };
+};
+
+/**
+ * Label growth untuk tabel & export, contoh: "+12.50%" atau "-"
+ */
+export const formatGrowth = (growth: number | null): string =>
+  growth === null ? '-' : `${growth > 0 ? '+' : ''}${growth.toFixed(2)}%`;
@@ -0,0 +1,171 @@
+import type { BudgetRealization } from '../lib/accurate';
+import type { ConsolidationAccountMapping } from '../lib/consolidation';
+
+// Kontribusi satu entitas ke satu akun konsolidasi
+export interface ConsolidationContribution {
+  entity_id: string;
+  source_account_code: string;
+  budget: number;
+  realisasi: number;
+  eliminated: boolean; // Akun intercompany
+}
+
+// Satu baris laporan konsolidasi (per akun holding)
+export interface ConsolidatedLine {
+  account_code: string;
+  account_name: string;
+  account_type?: string;
+  gross_budget: number; // Sebelum eliminasi
+  gross_realisasi: number;
+  eliminated_budget: number;
+  eliminated_realisasi: number;
+  budget_allocated: number; // Setelah eliminasi
+  realisasi: number;
+  variance: number;
+  variance_percentage: number;
+  status: 'ON_TRACK' | 'OVER_BUDGET';
+  contributions: ConsolidationContribution[];
+}
+
+export interface ConsolidationEntityTotal {
+  entity_id: string;
+  budget: number;
+  realisasi: number;
+  eliminated_budget: number;
+  eliminated_realisasi: number;
+}
+
+const mappingKey = (entityId: string, accountCode: string) => `${entityId}|${accountCode}`;
+
+/**
+ * Gabungkan realisasi beberapa entitas ke akun holding.
+ *
+ * Akun dipetakan lewat consolidation_account_mappings; akun tanpa mapping
+ * memakai kode yang sama. Akun bertanda intercompany tetap ditampilkan
+ * tapi dikeluarkan dari total konsolidasi.
+ */
+export const consolidateRealizations = (
+  realizations: BudgetRealization[],
+  mappings: Pick<ConsolidationAccountMapping, 'entity_id' | 'account_code' | 'target_account_code' | 'is_intercompany'>[],
+  holdingAccountNames: Map<string, string> = new Map()
+): ConsolidatedLine[] => {
+  const mappingByKey = new Map(mappings.map((m) => [mappingKey(m.entity_id, m.account_code), m]));
+  const lines = new Map<string, ConsolidatedLine>();
+
+  for (const row of realizations) {
+    const mapping = mappingByKey.get(mappingKey(row.entity_id, row.account_code));
+    const targetCode = mapping?.target_account_code || row.account_code;
+    const eliminated = !!mapping?.is_intercompany;
+
+    const line = lines.get(targetCode) || {
+      account_code: targetCode,
+      account_name: holdingAccountNames.get(targetCode) || row.account_name,
+      account_type: row.account_type,
+      gross_budget: 0,
+      gross_realisasi: 0,
+      eliminated_budget: 0,
+      eliminated_realisasi: 0,
+      budget_allocated: 0,
+      realisasi: 0,
+      variance: 0,
+      variance_percentage: 0,
+      status: 'ON_TRACK' as const,
+      contributions: [],
+    };
+
+    line.gross_budget += row.budget_allocated;
+    line.gross_realisasi += row.realisasi;
+    if (eliminated) {
+      line.eliminated_budget += row.budget_allocated;
+      line.eliminated_realisasi += row.realisasi;
+    }
+    line.contributions.push({
+      entity_id: row.entity_id,
+      source_account_code: row.account_code,
+      budget: row.budget_allocated,
+      realisasi: row.realisasi,
+      eliminated,
+    });
+
+    lines.set(targetCode, line);
+  }
+
+  return Array.from(lines.values())
+    .map((line) => {
+      const budget = line.gross_budget - line.eliminated_budget;
+      const realisasi = line.gross_realisasi - line.eliminated_realisasi;
+      const variance = budget - realisasi;
+      return {
+        ...line,
+        budget_allocated: budget,
+        realisasi,
+        variance,
+        variance_percentage: budget > 0 ? (variance / budget) * 100 : 0,
+        status: realisasi <= budget ? ('ON_TRACK' as const) : ('OVER_BUDGET' as const),
+      };
+    })
+    .sort((a, b) => a.account_code.localeCompare(b.account_code));
+};
+
+/**
+ * Total per entitas (setelah eliminasi) untuk grafik kontribusi
+ */
+export const summarizeByEntity = (lines: ConsolidatedLine[]): ConsolidationEntityTotal[] => {
+  const totals = new Map<string, ConsolidationEntityTotal>();
+
+  for (const line of lines) {
+    for (const c of line.contributions) {
+      const total = totals.get(c.entity_id) || {
+        entity_id: c.entity_id,
+        budget: 0,
+        realisasi: 0,
+        eliminated_budget: 0,
+        eliminated_realisasi: 0,
+      };
+      if (c.eliminated) {
+        total.eliminated_budget += c.budget;
+        total.eliminated_realisasi += c.realisasi;
+      } else {
+        total.budget += c.budget;
+        total.realisasi += c.realisasi;
+      }
+      totals.set(c.entity_id, total);
+    }
+  }
+
+  return Array.from(totals.values());
+};
+
+/**
+ * Ubah baris konsolidasi ke bentuk BudgetRealization agar bisa dipakai
+ * ulang oleh dashboard dan ExportFile. Baris yang seluruhnya tereliminasi dibuang.
+ */
+export const toConsolidatedRealizations = (
+  lines: ConsolidatedLine[],
+  holdingEntityId: string,
+  groupName: string,
+  period: string
+): BudgetRealization[] => {
+  const now = new Date().toISOString();
+
+  return lines
+    .filter((line) => line.budget_allocated !== 0 || line.realisasi !== 0)
+    .map((line) => ({
+      id: `consolidated-${line.account_code}`,
+      budget_id: '',
+      budget_item_id: '',
+      entity_id: holdingEntityId,
+      period,
+      account_code: line.account_code,
+      account_name: line.account_name,
+      account_type: line.account_type,
+      budget_allocated: line.budget_allocated,
+      realisasi: line.realisasi,
+      variance: line.variance,
+      variance_percentage: line.variance_percentage,
+      status: line.status,
+      created_at: now,
+      updated_at: now,
+      budgets: { name: groupName },
+    }));
+};
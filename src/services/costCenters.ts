@@ -0,0 +1,105 @@
+import type {
+  AccurateDimensionFilter,
+  AccurateDimensionType,
+  BudgetRealization,
+} from '../lib/accurate';
+import type { CostCenter } from '../lib/costCenters';
+
+// Nilai filter khusus
+export const ALL_COST_CENTERS = 'all';
+export const NO_COST_CENTER = 'none';
+
+export const NO_COST_CENTER_LABEL = 'Tanpa Cost Center';
+
+export const ACCURATE_DIMENSION_LABELS: Record<AccurateDimensionType, string> = {
+  DEPARTMENT: 'Departemen',
+  PROJECT: 'Proyek',
+};
+
+export interface CostCenterSubtotal {
+  cost_center_id: string | null;
+  code: string;
+  name: string;
+  account_count: number;
+  budget: number;
+  realisasi: number;
+  variance: number;
+  variance_percentage: number;
+  status: 'ON_TRACK' | 'OVER_BUDGET';
+}
+
+export { resolveCostCenterId } from '../../supabase/functions/_shared/budgetRealization.ts';
+
+export const formatCostCenter = (costCenterId: string | null | undefined, costCenters: CostCenter[]): string => {
+  if (!costCenterId) return '-';
+  const costCenter = costCenters.find((cc) => cc.id === costCenterId);
+  return costCenter ? `${costCenter.code} - ${costCenter.name}` : '-';
+};
+
+/**
+ * Filter dimensi Accurate untuk cost center, null jika belum ditautkan
+ * (realisasi diambil dari saldo seluruh database)
+ */
+export const toAccurateDimension = (
+  costCenter?: Pick<CostCenter, 'accurate_dimension' | 'accurate_dimension_id'> | null
+): AccurateDimensionFilter | null => {
+  if (!costCenter?.accurate_dimension || !costCenter.accurate_dimension_id) return null;
+  return { type: costCenter.accurate_dimension, id: costCenter.accurate_dimension_id };
+};
+
+/**
+ * Filter realisasi per cost center ('all', 'none', atau ID cost center)
+ */
+export const filterByCostCenter = (realizations: BudgetRealization[], filter: string): BudgetRealization[] => {
+  if (filter === ALL_COST_CENTERS) return realizations;
+  if (filter === NO_COST_CENTER) return realizations.filter((r) => !r.cost_center_id);
+  return realizations.filter((r) => r.cost_center_id === filter);
+};
+
+/**
+ * Subtotal budget vs realisasi per cost center, diurutkan per kode.
+ * Item tanpa cost center dikumpulkan di baris terakhir.
+ */
+export const summarizeByCostCenter = (
+  realizations: BudgetRealization[],
+  costCenters: CostCenter[]
+): CostCenterSubtotal[] => {
+  const totals = new Map<string, CostCenterSubtotal>();
+
+  for (const row of realizations) {
+    const key = row.cost_center_id || NO_COST_CENTER;
+    const costCenter = costCenters.find((cc) => cc.id === row.cost_center_id);
+    const subtotal = totals.get(key) || {
+      cost_center_id: row.cost_center_id || null,
+      code: costCenter?.code || '-',
+      name: costCenter?.name || NO_COST_CENTER_LABEL,
+      account_count: 0,
+      budget: 0,
+      realisasi: 0,
+      variance: 0,
+      variance_percentage: 0,
+      status: 'ON_TRACK' as const,
+    };
+
+    subtotal.account_count++;
+    subtotal.budget += row.budget_allocated;
+    subtotal.realisasi += row.realisasi;
+    totals.set(key, subtotal);
+  }
+
+  return Array.from(totals.values())
+    .map((subtotal) => {
+      const variance = subtotal.budget - subtotal.realisasi;
+      return {
+        ...subtotal,
+        variance,
+        variance_percentage: subtotal.budget > 0 ? (variance / subtotal.budget) * 100 : 0,
+        status: subtotal.realisasi <= subtotal.budget ? ('ON_TRACK' as const) : ('OVER_BUDGET' as const),
+      };
+    })
+    .sort((a, b) => {
+      if (!a.cost_center_id) return 1;
+      if (!b.cost_center_id) return -1;
+      return a.code.localeCompare(b.code);
+    });
+};
@@ -0,0 +1,162 @@
+import { addMonths, getFiscalMonths } from './budgetPhasing';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ForecastMethod = 'RUN_RATE' | 'LAST_YEAR' | 'SEASONAL';
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  RUN_RATE: 'Run-rate Linear',
+  LAST_YEAR: 'Periode Sama Tahun Lalu',
+  SEASONAL: 'Musiman',
+};
+
+// Realisasi bulanan per periode "YYYY-MM"
+export type MonthlyActuals = Map<string, number>;
+
+export interface ForecastInput {
+  annualBudget: number;
+  startPeriod: string; // Bulan pertama tahun anggaran
+  asOfPeriod: string; // Bulan terakhir yang sudah ada realisasinya
+  actuals: MonthlyActuals;
+  budgetSchedule?: number[]; // Jadwal alokasi 12 bulan, dipakai sebagai pola musiman cadangan
+  budgetedMonths?: boolean[]; // 12 bulan; jika diisi, hanya bulan ber-budget yang dihitung & diproyeksikan
+}
+
+export interface ForecastResult {
+  method: ForecastMethod;
+  applied_method: ForecastMethod; // Bisa berbeda dari method jika data historis kurang
+  elapsed_months: number;
+  actual_ytd: number;
+  projected_remaining: number;
+  projected_year_end: number;
+  projected_variance: number; // annualBudget - projected_year_end
+  projected_variance_percentage: number;
+  monthly_projection: number[]; // 12 bulan: realisasi untuk bulan berjalan, proyeksi sisanya
+  overrun_period: string | null; // Bulan pertama kumulatif melewati budget
+  status: 'ON_TRACK' | 'PROJECTED_OVER' | 'OVER_BUDGET';
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Proporsi tiap bulan terhadap total (null jika total <= 0)
+ */
+const toShares = (values: number[]): number[] | null => {
+  const total = sum(values);
+  if (total <= 0) return null;
+  return values.map((value) => Math.max(value, 0) / total);
+};
+
+// ============================================
+// FORECAST ENGINE
+// ============================================
+
+/**
+ * Proyeksi realisasi akhir tahun untuk satu akun.
+ *
+ * - RUN_RATE: rata-rata bulan berjalan diteruskan ke sisa bulan
+ * - LAST_YEAR: sisa bulan = realisasi bulan yang sama tahun lalu
+ * - SEASONAL: total tahun diskalakan dari pola bulanan tahun lalu
+ *   (atau jadwal alokasi budget jika tahun lalu kosong)
+ * Tanpa data pendukung, LAST_YEAR dan SEASONAL jatuh ke RUN_RATE.
+ * Dengan `budgetedMonths`, bulan tanpa budget diabaikan (realisasi & proyeksi 0).
+ */
+export const buildForecast = (input: ForecastInput, method: ForecastMethod): ForecastResult => {
+  const fiscalMonths = getFiscalMonths(input.startPeriod);
+  const monthIndexes = fiscalMonths
+    .map((_, index) => index)
+    .filter((index) => !input.budgetedMonths || input.budgetedMonths[index]);
+  const months = monthIndexes.map((index) => fiscalMonths[index]);
+  const elapsed = months.filter((month) => month <= input.asOfPeriod).length;
+
+  const actualMonthly = months.slice(0, elapsed).map((month) => input.actuals.get(month) || 0);
+  const actualYtd = sum(actualMonthly);
+  const remainingMonths = months.slice(elapsed);
+
+  const runRate = elapsed > 0 ? actualYtd / elapsed : 0;
+  let appliedMethod: ForecastMethod = method;
+  let projected: number[] = remainingMonths.map(() => runRate);
+
+  const lastYear = months.map((month) => input.actuals.get(addMonths(month, -12)));
+
+  if (method === 'LAST_YEAR') {
+    const hasLastYear = remainingMonths.some((_, i) => lastYear[elapsed + i] !== undefined);
+    if (hasLastYear) {
+      projected = remainingMonths.map((_, i) => lastYear[elapsed + i] || 0);
+    } else {
+      appliedMethod = 'RUN_RATE';
+    }
+  }
+
+  if (method === 'SEASONAL') {
+    const { budgetSchedule } = input;
+    const shares =
+      toShares(lastYear.map((value) => value || 0)) ||
+      (budgetSchedule ? toShares(monthIndexes.map((index) => budgetSchedule[index] || 0)) : null);
+    const elapsedShare = shares ? sum(shares.slice(0, elapsed)) : 0;
+
+    if (shares && elapsedShare > 0) {
+      const projectedTotal = actualYtd / elapsedShare;
+      projected = remainingMonths.map((_, i) => projectedTotal * shares[elapsed + i]);
+    } else if (shares && elapsed === 0) {
+      // Belum ada realisasi: ikuti pola, dengan total = budget
+      projected = remainingMonths.map((_, i) => input.annualBudget * shares[i]);
+    } else {
+      appliedMethod = 'RUN_RATE';
+    }
+  }
+
+  const valueByMonth = new Map(months.map((month, i) => [month, i < elapsed ? actualMonthly[i] : projected[i - elapsed]]));
+  const monthlyProjection = fiscalMonths.map((month) => valueByMonth.get(month) || 0);
+  const projectedRemaining = sum(projected);
+  const projectedYearEnd = actualYtd + projectedRemaining;
+  const projectedVariance = input.annualBudget - projectedYearEnd;
+
+  // Bulan pertama kumulatif melewati budget
+  let cumulative = 0;
+  let overrunPeriod: string | null = null;
+  for (let i = 0; i < monthlyProjection.length; i++) {
+    cumulative += monthlyProjection[i];
+    if (cumulative > input.annualBudget) {
+      overrunPeriod = fiscalMonths[i];
+      break;
+    }
+  }
+
+  return {
+    method,
+    applied_method: appliedMethod,
+    elapsed_months: elapsed,
+    actual_ytd: actualYtd,
+    projected_remaining: projectedRemaining,
+    projected_year_end: projectedYearEnd,
+    projected_variance: projectedVariance,
+    projected_variance_percentage: input.annualBudget > 0 ? (projectedVariance / input.annualBudget) * 100 : 0,
+    monthly_projection: monthlyProjection,
+    overrun_period: overrunPeriod,
+    status: actualYtd > input.annualBudget
+      ? 'OVER_BUDGET'
+      : projectedYearEnd > input.annualBudget
+      ? 'PROJECTED_OVER'
+      : 'ON_TRACK',
+  };
+};
+
+/**
+ * Urutkan hasil proyeksi: yang paling cepat over budget di atas
+ */
+export const sortByOverrun = <T extends Pick<ForecastResult, 'overrun_period' | 'projected_variance'>>(
+  forecasts: T[]
+): T[] =>
+  [...forecasts].sort((a, b) => {
+    if (a.overrun_period && b.overrun_period) return a.overrun_period.localeCompare(b.overrun_period);
+    if (a.overrun_period) return -1;
+    if (b.overrun_period) return 1;
+    return a.projected_variance - b.projected_variance;
+  });
@@ -0,0 +1,295 @@
+// ============================================
+// TYPES
+// ============================================
+
+export type ReportDimension = 'ENTITY' | 'PERIOD' | 'BUDGET' | 'ACCOUNT_TYPE' | 'ACCOUNT';
+
+export type ReportMeasure = 'BUDGET' | 'ACTUAL' | 'VARIANCE' | 'UTILIZATION';
+
+export interface ReportFilters {
+  entity_ids: string[];
+  period_from: string; // YYYY-MM
+  period_to: string;
+  budget_names: string[]; // kosong = semua budget
+  account_types: string[]; // kosong = semua tipe akun
+  account_code_from: string; // kosong = tanpa batas bawah
+  account_code_to: string;
+}
+
+// Definisi laporan yang disimpan (kolom config di report_definitions)
+export interface ReportConfig {
+  filters: ReportFilters;
+  rows: ReportDimension[];
+  columns: ReportDimension[];
+  measures: ReportMeasure[];
+}
+
+// Satu baris data: budget & realisasi satu akun, satu budget, satu bulan
+export interface ReportFact {
+  entity_id: string;
+  entity_name: string;
+  period: string;
+  budget_name: string;
+  account_code: string;
+  account_name: string;
+  account_type: string | null;
+  budget: number;
+  actual: number;
+}
+
+export interface PivotKey {
+  key: string;
+  labels: string[]; // satu label per dimensi
+}
+
+export interface PivotAmounts {
+  budget: number;
+  actual: number;
+}
+
+export interface PivotResult {
+  rows: PivotKey[];
+  columns: PivotKey[]; // [] jika tidak ada dimensi kolom
+  cells: Map<string, PivotAmounts>; // key: `${row.key}||${column.key}`
+  row_totals: Map<string, PivotAmounts>;
+  column_totals: Map<string, PivotAmounts>;
+  grand_total: PivotAmounts;
+}
+
+export const REPORT_DIMENSIONS: ReportDimension[] = ['ENTITY', 'PERIOD', 'BUDGET', 'ACCOUNT_TYPE', 'ACCOUNT'];
+
+export const REPORT_MEASURES: ReportMeasure[] = ['BUDGET', 'ACTUAL', 'VARIANCE', 'UTILIZATION'];
+
+export const REPORT_DIMENSION_LABELS: Record<ReportDimension, string> = {
+  ENTITY: 'Entitas',
+  PERIOD: 'Periode',
+  BUDGET: 'Nama Budget',
+  ACCOUNT_TYPE: 'Tipe Akun',
+  ACCOUNT: 'Akun',
+};
+
+export const REPORT_MEASURE_LABELS: Record<ReportMeasure, string> = {
+  BUDGET: 'Budget',
+  ACTUAL: 'Realisasi',
+  VARIANCE: 'Variance',
+  UTILIZATION: 'Pemakaian (%)',
+};
+
+const TOTAL_KEY = '__total__';
+
+// ============================================
+// CONFIG
+// ============================================
+
+/**
+ * Definisi awal: semua akun per budget untuk satu periode
+ */
+export const createDefaultReportConfig = (entityIds: string[], period: string): ReportConfig => ({
+  filters: {
+    entity_ids: entityIds,
+    period_from: period,
+    period_to: period,
+    budget_names: [],
+    account_types: [],
+    account_code_from: '',
+    account_code_to: '',
+  },
+  rows: ['BUDGET', 'ACCOUNT'],
+  columns: [],
+  measures: ['BUDGET', 'ACTUAL', 'VARIANCE', 'UTILIZATION'],
+});
+
+/**
+ * Validasi sebelum disimpan / dijalankan, null jika valid
+ */
+export const validateReportConfig = (config: ReportConfig): string | null => {
+  const { filters } = config;
+  if (filters.entity_ids.length === 0) return 'Pilih minimal satu entitas';
+  if (!filters.period_from || !filters.period_to) return 'Periode awal dan akhir harus diisi';
+  if (filters.period_from > filters.period_to) return 'Periode awal tidak boleh setelah periode akhir';
+  if (config.rows.length === 0) return 'Pilih minimal satu dimensi baris';
+  if (config.measures.length === 0) return 'Pilih minimal satu ukuran';
+  if (config.rows.some((dimension) => config.columns.includes(dimension))) {
+    return 'Dimensi yang sama tidak boleh di baris dan kolom';
+  }
+  return null;
+};
+
+// ============================================
+// FILTER & PIVOT
+// ============================================
+
+const compareAccountCode = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Terapkan filter budget, tipe akun, rentang kode akun dan periode
+ */
+export const filterReportFacts = (facts: ReportFact[], filters: ReportFilters): ReportFact[] =>
+  facts.filter((fact) => {
+    if (filters.entity_ids.length > 0 && !filters.entity_ids.includes(fact.entity_id)) return false;
+    if (filters.period_from && fact.period < filters.period_from) return false;
+    if (filters.period_to && fact.period > filters.period_to) return false;
+    if (filters.budget_names.length > 0 && !filters.budget_names.includes(fact.budget_name)) return false;
+    if (filters.account_types.length > 0 && !filters.account_types.includes(fact.account_type || '')) return false;
+    if (filters.account_code_from && compareAccountCode(fact.account_code, filters.account_code_from) < 0) return false;
+    if (filters.account_code_to && compareAccountCode(fact.account_code, filters.account_code_to) > 0) return false;
+    return true;
+  });
+
+const getDimensionValue = (fact: ReportFact, dimension: ReportDimension): { key: string; label: string } => {
+  switch (dimension) {
+    case 'ENTITY':
+      return { key: fact.entity_id, label: fact.entity_name };
+    case 'PERIOD':
+      return { key: fact.period, label: fact.period };
+    case 'BUDGET':
+      return { key: fact.budget_name, label: fact.budget_name };
+    case 'ACCOUNT_TYPE':
+      return { key: fact.account_type || '', label: fact.account_type || '-' };
+    case 'ACCOUNT':
+      return { key: fact.account_code, label: `${fact.account_code} - ${fact.account_name}` };
+  }
+};
+
+const toPivotKey = (fact: ReportFact, dimensions: ReportDimension[]): PivotKey => {
+  const values = dimensions.map((dimension) => getDimensionValue(fact, dimension));
+  return {
+    key: dimensions.length > 0 ? values.map((value) => value.key).join('|') : TOTAL_KEY,
+    labels: values.map((value) => value.label),
+  };
+};
+
+const comparePivotKeys = (dimensions: ReportDimension[]) => (a: PivotKey, b: PivotKey) => {
+  for (let i = 0; i < dimensions.length; i++) {
+    const result = dimensions[i] === 'ACCOUNT'
+      ? compareAccountCode(a.labels[i], b.labels[i])
+      : a.labels[i].localeCompare(b.labels[i]);
+    if (result !== 0) return result;
+  }
+  return 0;
+};
+
+const addAmounts = (target: Map<string, PivotAmounts>, key: string, fact: ReportFact) => {
+  const amounts = target.get(key) || { budget: 0, actual: 0 };
+  amounts.budget += fact.budget;
+  amounts.actual += fact.actual;
+  target.set(key, amounts);
+};
+
+/**
+ * Pivot fakta laporan: baris x kolom, dijumlahkan per sel
+ */
+export const buildPivot = (facts: ReportFact[], config: ReportConfig): PivotResult => {
+  const rows = new Map<string, PivotKey>();
+  const columns = new Map<string, PivotKey>();
+  const cells = new Map<string, PivotAmounts>();
+  const rowTotals = new Map<string, PivotAmounts>();
+  const columnTotals = new Map<string, PivotAmounts>();
+  const grandTotal = { budget: 0, actual: 0 };
+
+  for (const fact of filterReportFacts(facts, config.filters)) {
+    const row = toPivotKey(fact, config.rows);
+    const column = toPivotKey(fact, config.columns);
+    rows.set(row.key, row);
+    columns.set(column.key, column);
+
+    addAmounts(cells, `${row.key}||${column.key}`, fact);
+    addAmounts(rowTotals, row.key, fact);
+    addAmounts(columnTotals, column.key, fact);
+    grandTotal.budget += fact.budget;
+    grandTotal.actual += fact.actual;
+  }
+
+  return {
+    rows: [...rows.values()].sort(comparePivotKeys(config.rows)),
+    columns: config.columns.length > 0 ? [...columns.values()].sort(comparePivotKeys(config.columns)) : [],
+    cells,
+    row_totals: rowTotals,
+    column_totals: columnTotals,
+    grand_total: grandTotal,
+  };
+};
+
+// ============================================
+// MEASURES
+// ============================================
+
+/**
+ * Nilai ukuran dari jumlah budget & realisasi, null jika tidak terdefinisi
+ */
+export const getMeasureValue = (amounts: PivotAmounts | undefined, measure: ReportMeasure): number | null => {
+  if (!amounts) return null;
+  switch (measure) {
+    case 'BUDGET':
+      return amounts.budget;
+    case 'ACTUAL':
+      return amounts.actual;
+    case 'VARIANCE':
+      return amounts.budget - amounts.actual;
+    case 'UTILIZATION':
+      return amounts.budget > 0 ? (amounts.actual / amounts.budget) * 100 : null;
+  }
+};
+
+export const formatMeasureValue = (value: number | null, measure: ReportMeasure): string => {
+  if (value === null) return '-';
+  if (measure === 'UTILIZATION') return `${value.toFixed(2)}%`;
+  return value.toLocaleString('id-ID');
+};
+
+// ============================================
+// TABLE (UNTUK TAMPILAN & EXPORT)
+// ============================================
+
+export interface ReportTable {
+  header: string[];
+  column_measures: (ReportMeasure | null)[]; // null untuk kolom dimensi
+  rows: (string | number | null)[][];
+  total: (string | number | null)[];
+}
+
+/**
+ * Ratakan pivot jadi tabel: kolom dimensi baris, lalu
+ * (kolom pivot x ukuran), lalu total per ukuran jika ada dimensi kolom
+ */
+export const toReportTable = (pivot: PivotResult, config: ReportConfig): ReportTable => {
+  const columnLabel = (column: PivotKey) => column.labels.join(' / ');
+  const measureCells = (amounts: (columnKey: string) => PivotAmounts | undefined) => [
+    ...pivot.columns.flatMap((column) =>
+      config.measures.map((measure) => getMeasureValue(amounts(column.key), measure))
+    ),
+    ...config.measures.map((measure) => getMeasureValue(amounts(TOTAL_KEY), measure)),
+  ];
+
+  const header = [
+    ...config.rows.map((dimension) => REPORT_DIMENSION_LABELS[dimension]),
+    ...pivot.columns.flatMap((column) =>
+      config.measures.map((measure) => `${columnLabel(column)} - ${REPORT_MEASURE_LABELS[measure]}`)
+    ),
+    ...config.measures.map((measure) =>
+      pivot.columns.length > 0 ? `Total - ${REPORT_MEASURE_LABELS[measure]}` : REPORT_MEASURE_LABELS[measure]
+    ),
+  ];
+
+  const rows = pivot.rows.map((row) => [
+    ...row.labels,
+    ...measureCells((columnKey) =>
+      columnKey === TOTAL_KEY ? pivot.row_totals.get(row.key) : pivot.cells.get(`${row.key}||${columnKey}`)
+    ),
+  ]);
+
+  const total = [
+    'TOTAL',
+    ...config.rows.slice(1).map(() => ''),
+    ...measureCells((columnKey) =>
+      columnKey === TOTAL_KEY ? pivot.grand_total : pivot.column_totals.get(columnKey)
+    ),
+  ];
+
+  const columnMeasures = [
+    ...config.rows.map(() => null),
+    ...[...pivot.columns, null].flatMap(() => config.measures),
+  ];
+
+  return { header, column_measures: columnMeasures, rows, total };
+};
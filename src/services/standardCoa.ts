@@ -0,0 +1,133 @@
+import type { BudgetRealization } from '../lib/accurate';
+import type { ConsolidationAccountMapping } from '../lib/consolidation';
+import type { StandardAccount, StandardAccountMapping } from '../lib/standardCoa';
+import { consolidateRealizations, type ConsolidatedLine } from './consolidation';
+
+// Skor minimum agar akun standar ditawarkan sebagai saran
+export const SUGGESTION_MIN_SCORE = 0.5;
+
+// Baris laporan untuk akun yang belum dipetakan ke akun standar
+export const UNMAPPED_STANDARD_CODE = '-';
+const UNMAPPED_STANDARD_NAME = 'Belum dipetakan ke akun standar';
+
+export interface StandardAccountSuggestion {
+  account: StandardAccount;
+  score: number; // 0..1
+}
+
+// Istilah yang sering dipakai bergantian antar entitas
+const SYNONYMS: Record<string, string> = {
+  beban: 'biaya',
+  expense: 'biaya',
+  cost: 'biaya',
+  ongkos: 'biaya',
+  upah: 'gaji',
+  salary: 'gaji',
+  salaries: 'gaji',
+  wages: 'gaji',
+  revenue: 'pendapatan',
+  income: 'pendapatan',
+  penghasilan: 'pendapatan',
+  rent: 'sewa',
+};
+
+const tokenize = (name: string): string[] =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => SYNONYMS[token] || token);
+
+const bigrams = (text: string): string[] => {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+};
+
+// Koefisien Dice antara dua daftar (dengan duplikat)
+const dice = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const item of a) counts.set(item, (counts.get(item) || 0) + 1);
+
+  let overlap = 0;
+  for (const item of b) {
+    const count = counts.get(item) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(item, count - 1);
+    }
+  }
+  return (2 * overlap) / (a.length + b.length);
+};
+
+/**
+ * Kemiripan dua nama akun (0..1): gabungan kecocokan kata dan bigram huruf,
+ * setelah sinonim umum (Beban/Biaya, Upah/Gaji, ...) disamakan.
+ */
+export const accountNameSimilarity = (a: string, b: string): number => {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  const wordScore = dice(Array.from(new Set(tokensA)), Array.from(new Set(tokensB)));
+  const charScore = dice(bigrams(tokensA.join(' ')), bigrams(tokensB.join(' ')));
+  return (wordScore + charScore) / 2;
+};
+
+/**
+ * Akun standar paling mirip untuk satu akun entitas.
+ * Tipe akun yang sama memberi bobot tambahan.
+ */
+export const suggestStandardAccount = (
+  account: { account_name: string; account_type?: string | null },
+  standardAccounts: StandardAccount[],
+  minScore: number = SUGGESTION_MIN_SCORE
+): StandardAccountSuggestion | null => {
+  let best: StandardAccountSuggestion | null = null;
+
+  for (const standard of standardAccounts) {
+    let score = accountNameSimilarity(account.account_name, standard.name);
+    if (standard.account_type && account.account_type) {
+      score *= standard.account_type === account.account_type ? 1 : 0.8;
+    }
+    if (score >= minScore && (!best || score > best.score)) {
+      best = { account: standard, score };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Gabungkan realisasi beberapa entitas per akun standar.
+ * Penanda intercompany dari mapping konsolidasi grup tetap dieliminasi.
+ */
+export const consolidateByStandardAccount = (
+  realizations: BudgetRealization[],
+  standardMappings: StandardAccountMapping[],
+  standardAccounts: StandardAccount[],
+  consolidationMappings: ConsolidationAccountMapping[] = []
+): ConsolidatedLine[] => {
+  const standardById = new Map(standardAccounts.map((s) => [s.id, s]));
+  const standardByKey = new Map(
+    standardMappings.map((m) => [`${m.entity_id}|${m.account_code}`, standardById.get(m.standard_account_id)])
+  );
+  const intercompanyKeys = new Set(
+    consolidationMappings.filter((m) => m.is_intercompany).map((m) => `${m.entity_id}|${m.account_code}`)
+  );
+
+  const mappings = realizations.map((row) => {
+    const key = `${row.entity_id}|${row.account_code}`;
+    return {
+      entity_id: row.entity_id,
+      account_code: row.account_code,
+      target_account_code: standardByKey.get(key)?.code || UNMAPPED_STANDARD_CODE,
+      is_intercompany: intercompanyKeys.has(key),
+    };
+  });
+
+  const names = new Map(standardAccounts.map((s) => [s.code, s.name]));
+  names.set(UNMAPPED_STANDARD_CODE, UNMAPPED_STANDARD_NAME);
+
+  return consolidateRealizations(realizations, mappings, names);
+};
@@ -0,0 +1,83 @@
+import type { WorkspaceRole, WorkspacePermission } from '../lib/workspaces';
+import type { MailMessage } from '../lib/mailTransport';
+import type { BudgetWorkflowAction } from '../lib/accurate';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['OWNER', 'FINANCE_ADMIN', 'BUDGET_EDITOR', 'VIEWER'];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  OWNER: 'Owner',
+  FINANCE_ADMIN: 'Finance Admin',
+  BUDGET_EDITOR: 'Budget Editor',
+  VIEWER: 'Viewer',
+};
+
+export const WORKSPACE_PERMISSION_LABELS: Record<WorkspacePermission, string> = {
+  MANAGE_MEMBERS: 'mengelola anggota workspace',
+  MANAGE_ENTITY: 'mengubah entitas',
+  DELETE_ENTITY: 'menghapus entitas',
+  EDIT_COA: 'mengubah COA',
+  EDIT_BUDGET: 'mengubah budget',
+  APPROVE_BUDGET: 'menyetujui budget',
+};
+
+export { hasPermission } from '../../supabase/functions/_shared/workspaceRoles.ts';
+
+/**
+ * Editor hanya boleh mengajukan; approve/reject/lock/reopen butuh hak approval
+ */
+export const getWorkflowActionPermission = (action: BudgetWorkflowAction): WorkspacePermission => {
+  return action === 'SUBMIT' ? 'EDIT_BUDGET' : 'APPROVE_BUDGET';
+};
+
+/**
+ * Peran user atas sebuah entitas.
+ * Entitas di workspace mengikuti peran keanggotaan (termasuk pembuatnya);
+ * pembuat hanya otomatis Owner untuk entitas tanpa workspace.
+ * Sama dengan fungsi database `entity_role` yang dipakai RLS.
+ */
+export const resolveEntityRole = (
+  entity: { user_id?: string | null; workspace_id?: string | null },
+  userId: string,
+  memberships: { workspace_id: string; role: WorkspaceRole }[]
+): WorkspaceRole | null => {
+  if (!entity.workspace_id) return entity.user_id === userId ? 'OWNER' : null;
+  return memberships.find((m) => m.workspace_id === entity.workspace_id)?.role || null;
+};
+
+export const isInviteExpired = (invite: { expires_at: string }, now: Date = new Date()): boolean => {
+  return new Date(invite.expires_at).getTime() < now.getTime();
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Susun email undangan workspace (HTML + plain text)
+ */
+export const buildWorkspaceInviteEmail = (
+  to: string,
+  workspaceName: string,
+  role: WorkspaceRole,
+  inviteUrl: string,
+  invitedBy: string
+): MailMessage => {
+  const subject = `Undangan bergabung ke workspace ${workspaceName}`;
+  const roleLabel = WORKSPACE_ROLE_LABELS[role];
+
+  const text = [
+    subject,
+    '',
+    `${invitedBy} mengundang Anda sebagai ${roleLabel} di workspace "${workspaceName}".`,
+    'Login dengan email ini lalu buka tautan berikut untuk menerima undangan:',
+    inviteUrl,
+  ].join('\n');
+
+  const html = [
+    `<h2>${escapeHtml(subject)}</h2>`,
+    `<p>${escapeHtml(invitedBy)} mengundang Anda sebagai <strong>${roleLabel}</strong> di workspace "${escapeHtml(workspaceName)}".</p>`,
+    '<p>Login dengan email ini lalu buka tautan berikut untuk menerima undangan:</p>',
+    `<p><a href="${escapeHtml(inviteUrl)}">${escapeHtml(inviteUrl)}</a></p>`,
+  ].join('');
+
+  return { to, subject, html, text };
+};
@@ -0,0 +1,221 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { HttpError } from './http.ts';
+
+/**
+ * Client Accurate API (autentikasi API Token) untuk edge function.
+ *
+ * Token entitas dibaca dari Supabase Vault lewat fungsi database
+ * get_entity_accurate_credential (hanya service role), bersama HMAC secret
+ * signature (secret Vault `accurate_hmac_secret`). Setiap request ditandatangani
+ * X-Api-Signature = base64(HMAC-SHA256(X-Api-Timestamp, secret)); host database
+ * diambil dari respons api-token.do.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AccurateCredential {
+  apiToken: string;
+  hmacSecret: string;
+}
+
+export type AccurateDimensionType = 'DEPARTMENT' | 'PROJECT';
+
+export interface AccurateDimensionFilter {
+  type: AccurateDimensionType;
+  id: string;
+}
+
+// Respons standar Accurate: { s: sukses, d: data / pesan error, sp: paging }
+export interface AccurateResponse<T = unknown> {
+  s: boolean;
+  d: T;
+  sp?: { page: number; pageSize: number; pageCount: number; rowCount: number };
+}
+
+type AccurateRecord = Record<string, unknown>;
+
+const ACCURATE_ACCOUNT_URL = 'https://account.accurate.id';
+const PAGE_SIZE = 100;
+
+// ============================================
+// CREDENTIAL
+// ============================================
+
+/**
+ * Token & HMAC secret entitas dari vault; error jika entitas belum punya token
+ */
+export async function getEntityCredential(admin: SupabaseClient, entityId: string): Promise<AccurateCredential> {
+  const { data, error } = await admin
+    .rpc('get_entity_accurate_credential', { p_entity_id: entityId })
+    .maybeSingle<{ api_token: string | null; hmac_secret: string | null }>();
+
+  if (error) throw error;
+  if (!data?.api_token) throw new HttpError(400, 'API Token Accurate entitas belum diisi');
+  if (!data.hmac_secret) throw new Error('Secret key Accurate belum dikonfigurasi di server');
+
+  return { apiToken: data.api_token, hmacSecret: data.hmac_secret };
+}
+
+/**
+ * HMAC secret untuk validasi token baru yang belum disimpan
+ */
+export async function getHmacSecret(admin: SupabaseClient): Promise<string> {
+  const { data, error } = await admin.rpc('get_accurate_hmac_secret');
+  if (error) throw error;
+  if (!data) throw new Error('Secret key Accurate belum dikonfigurasi di server');
+  return data as string;
+}
+
+// ============================================
+// REQUEST
+// ============================================
+
+async function sign(timestamp: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(timestamp));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+async function signedHeaders(credential: AccurateCredential): Promise<HeadersInit> {
+  const timestamp = new Date().toISOString();
+  return {
+    Authorization: `Bearer ${credential.apiToken}`,
+    'X-Api-Timestamp': timestamp,
+    'X-Api-Signature': await sign(timestamp, credential.hmacSecret),
+  };
+}
+
+async function parseResponse<T>(response: Response): Promise<AccurateResponse<T>> {
+  const body = await response.json().catch(() => null);
+
+  if (response.status === 401 || response.status === 403) {
+    throw new HttpError(response.status, 'API Token Accurate tidak valid atau tidak punya akses');
+  }
+  if (!response.ok || !body?.s) {
+    const detail = Array.isArray(body?.d) ? body.d.join(', ') : body?.d || body?.error;
+    throw new Error(`Accurate API error (${response.status}): ${detail || response.statusText}`);
+  }
+
+  return body as AccurateResponse<T>;
+}
+
+/**
+ * Info token: database yang bisa diakses beserta host-nya
+ */
+export async function getApiTokenInfo(credential: AccurateCredential): Promise<AccurateResponse<AccurateRecord>> {
+  const response = await fetch(`${ACCURATE_ACCOUNT_URL}/api/api-token.do`, {
+    method: 'POST',
+    headers: await signedHeaders(credential),
+  });
+  return parseResponse<AccurateRecord>(response);
+}
+
+/**
+ * Database milik token (format normalizeDatabase di frontend)
+ */
+export const getTokenDatabase = (info: AccurateResponse<AccurateRecord>): AccurateRecord => {
+  const d = info.d || {};
+  const database = (d.database || d['data usaha'] || d) as AccurateRecord;
+  return { ...database, host: getTokenHost(info) };
+};
+
+const getTokenHost = (info: AccurateResponse<AccurateRecord>): string => {
+  const d = info.d || {};
+  const candidates = [d.host, (d.database as AccurateRecord)?.host, (d['data usaha'] as AccurateRecord)?.host];
+  const host = candidates.find((value): value is string => typeof value === 'string' && value.length > 0);
+  if (!host) throw new Error('Host database Accurate tidak ditemukan pada respons token');
+  return host.replace(/\/$/, '');
+};
+
+/**
+ * Client untuk satu database Accurate; host di-resolve sekali per request edge function
+ */
+export async function createAccurateClient(credential: AccurateCredential) {
+  const host = getTokenHost(await getApiTokenInfo(credential));
+
+  const get = async <T = AccurateRecord[]>(path: string, params: Record<string, string | number | undefined> = {}) => {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') query.set(key, String(value));
+    });
+
+    const response = await fetch(`${host}/accurate/api/${path}?${query.toString()}`, {
+      headers: await signedHeaders(credential),
+    });
+    return parseResponse<T>(response);
+  };
+
+  /**
+   * Ambil semua halaman dari endpoint list.do
+   */
+  const list = async (path: string, params: Record<string, string | number | undefined> = {}) => {
+    const rows: AccurateRecord[] = [];
+    let page = 1;
+    let pageCount = 1;
+
+    do {
+      const result = await get<AccurateRecord[]>(path, { ...params, 'sp.page': page, 'sp.pageSize': PAGE_SIZE });
+      rows.push(...(result.d || []));
+      pageCount = result.sp?.pageCount || 1;
+      page++;
+    } while (page <= pageCount);
+
+    return rows;
+  };
+
+  return { host, get, list };
+}
+
+export type AccurateClient = Awaited<ReturnType<typeof createAccurateClient>>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * "YYYY-MM" → tanggal awal & akhir bulan dalam format Accurate (dd/MM/yyyy)
+ */
+export const getPeriodDates = (period: string) => {
+  if (!/^\d{4}-\d{2}$/.test(period)) {
+    throw new HttpError(400, 'Format periode tidak valid. Gunakan format YYYY-MM');
+  }
+
+  const [year, month] = period.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const mm = String(month).padStart(2, '0');
+
+  return {
+    fromDate: `01/${mm}/${year}`,
+    toDate: `${String(lastDay).padStart(2, '0')}/${mm}/${year}`,
+  };
+};
+
+/**
+ * Parameter filter dimensi (departemen / proyek) untuk endpoint saldo & jurnal
+ */
+export const getDimensionParams = (dimension: unknown): Record<string, string> => {
+  const filter = dimension as AccurateDimensionFilter | null | undefined;
+  if (!filter?.id) return {};
+  return filter.type === 'PROJECT' ? { projectId: filter.id } : { departmentId: filter.id };
+};
+
+/**
+ * Baris saldo akun Accurate → BSAccount di frontend
+ */
+export const toAccountAmount = (row: AccurateRecord) => ({
+  accountNo: String(row.accountNo ?? row.no ?? ''),
+  accountName: String(row.accountName ?? row.name ?? ''),
+  accountType: String(row.accountType ?? ''),
+  amount: Number(row.amount ?? row.balance) || 0,
+  lvl: Number(row.lvl) || 1,
+  parentNo: row.parentNo ? String(row.parentNo) : undefined,
+  isParent: Boolean(row.isParent),
+});
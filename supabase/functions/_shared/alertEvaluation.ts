@@ -0,0 +1,99 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import {
+  SEVERITY_LABELS,
+  evaluateAlertRules,
+  formatUtilization,
+  getAlertRecipients,
+  type AlertRule,
+} from './alertRules.ts';
+import { loadBudgetRealizations } from './realizations.ts';
+import type { WorkspaceRole } from './workspaceRoles.ts';
+
+/**
+ * Evaluasi semua rule aktif entitas terhadap realisasi periode tertentu
+ * dan buat notifikasi untuk owner & editor budget serta anggota workspace
+ * yang boleh menyetujui budget (pembuat entitas jika belum ada penerima).
+ * Dipakai edge function evaluate-alerts dan refresh-realizations.
+ *
+ * Notifikasi yang sama (rule + item + periode + user) hanya dibuat sekali.
+ * Return jumlah notifikasi baru.
+ */
+export async function evaluateEntityAlerts(
+  admin: SupabaseClient,
+  entityId: string,
+  periods: string[]
+): Promise<number> {
+  const { data: rules, error: rulesError } = await admin
+    .from('alert_rules')
+    .select('*')
+    .eq('entity_id', entityId)
+    .eq('is_active', true);
+
+  if (rulesError) throw rulesError;
+
+  const activeRules = (rules || []) as AlertRule[];
+  if (activeRules.length === 0 || periods.length === 0) return 0;
+
+  const { data: entity, error: entityError } = await admin
+    .from('entity')
+    .select('user_id, workspace_id')
+    .eq('id', entityId)
+    .single();
+
+  if (entityError) throw entityError;
+
+  let members: { user_id: string; role: WorkspaceRole }[] = [];
+  if (entity.workspace_id) {
+    const { data: memberRows, error: membersError } = await admin
+      .from('workspace_members')
+      .select('user_id, role')
+      .eq('workspace_id', entity.workspace_id);
+
+    if (membersError) throw membersError;
+    members = (memberRows || []) as typeof members;
+  }
+
+  const { data: budgetRows, error: budgetError } = await admin
+    .from('budgets')
+    .select('id, owner_id, editor_ids')
+    .eq('entity_id', entityId);
+
+  if (budgetError) throw budgetError;
+  const budgetById = new Map((budgetRows || []).map((budget) => [budget.id as string, budget]));
+
+  const rows: Record<string, unknown>[] = [];
+
+  for (const period of periods) {
+    const realizations = await loadBudgetRealizations(admin, entityId, period);
+
+    for (const { rule, realization, utilization } of evaluateAlertRules(activeRules, realizations)) {
+      const budgetName = realization.budgets?.name || '';
+      const recipients = getAlertRecipients(budgetById.get(realization.budget_id), members, entity.user_id);
+      rows.push(...recipients.map((userId) => ({
+        user_id: userId,
+        entity_id: entityId,
+        rule_id: rule.id,
+        budget_id: realization.budget_id,
+        budget_item_id: realization.budget_item_id,
+        severity: rule.severity,
+        title: `${SEVERITY_LABELS[rule.severity]}: ${realization.account_code} ${realization.account_name}`,
+        message: `Realisasi ${budgetName} periode ${period} mencapai ${formatUtilization(utilization)} dari budget (rule "${rule.name}")`,
+        period,
+        budget_name: budgetName,
+        utilization_percent: Number.isFinite(utilization) ? utilization : null,
+        dedupe_key: `${rule.id}:${realization.budget_item_id}:${period}`,
+        is_read: false,
+      })));
+    }
+  }
+
+  if (rows.length === 0) return 0;
+
+  const { data, error } = await admin
+    .from('notifications')
+    .upsert(rows, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  return data?.length || 0;
+}
@@ -0,0 +1,130 @@
+import { getFiscalMonths, type PhasingBudget } from './budgetPhasing.ts';
+import type { BudgetRealization } from './budgetRealization.ts';
+import { hasPermission, type WorkspaceRole } from './workspaceRoles.ts';
+
+/**
+ * Evaluasi alert rule terhadap realisasi budget. Dipakai frontend (lewat
+ * services/alertRules) dan edge function evaluate-alerts yang membuat notifikasi.
+ */
+
+export type AlertSeverity = 'WARNING' | 'CRITICAL';
+
+export interface AlertRule {
+  id: string;
+  entity_id: string;
+  name: string;
+  threshold_percent: number; // contoh: 80 = 80% pemakaian budget
+  severity: AlertSeverity;
+  account_type?: string | null; // kosong = semua tipe akun
+  budget_name?: string | null; // kosong = semua budget
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface TriggeredAlert {
+  rule: AlertRule;
+  realization: BudgetRealization;
+  utilization: number;
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  WARNING: 1,
+  CRITICAL: 2,
+};
+
+export const SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  WARNING: 'Peringatan',
+  CRITICAL: 'Kritis',
+};
+
+/**
+ * Persentase pemakaian budget (realisasi / budget * 100)
+ */
+export const getUtilization = (realization: Pick<BudgetRealization, 'budget_allocated' | 'realisasi'>): number => {
+  if (realization.budget_allocated <= 0) return realization.realisasi > 0 ? Infinity : 0;
+  return (realization.realisasi / realization.budget_allocated) * 100;
+};
+
+/**
+ * Apakah rule berlaku untuk item realisasi (filter tipe akun & nama budget opsional)
+ */
+export const matchesAlertRule = (rule: AlertRule, realization: BudgetRealization): boolean => {
+  if (!rule.is_active) return false;
+  if (rule.account_type && rule.account_type !== realization.account_type) return false;
+  if (rule.budget_name && rule.budget_name !== realization.budgets?.name) return false;
+  return true;
+};
+
+/**
+ * Cari rule yang terpicu untuk setiap item.
+ * Jika beberapa rule terpicu, hanya rule dengan threshold tertinggi yang dipakai
+ * (severity lebih tinggi menang jika threshold sama).
+ */
+export const evaluateAlertRules = (
+  rules: AlertRule[],
+  realizations: BudgetRealization[]
+): TriggeredAlert[] => {
+  const triggered: TriggeredAlert[] = [];
+
+  for (const realization of realizations) {
+    const utilization = getUtilization(realization);
+
+    const matched = rules
+      .filter((rule) => matchesAlertRule(rule, realization) && utilization >= rule.threshold_percent)
+      .sort(
+        (a, b) =>
+          b.threshold_percent - a.threshold_percent ||
+          SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]
+      )[0];
+
+    if (matched) {
+      triggered.push({ rule: matched, realization, utilization });
+    }
+  }
+
+  return triggered;
+};
+
+/**
+ * Format persentase pemakaian untuk pesan notifikasi
+ */
+export const formatUtilization = (utilization: number): string => {
+  return Number.isFinite(utilization) ? `${utilization.toFixed(1)}%` : 'tanpa budget';
+};
+
+/**
+ * Periode yang dievaluasi untuk satu budget: periodenya sendiri, atau untuk
+ * budget tahunan bulan terakhir yang sudah berjalan (realisasi YTD)
+ */
+export const getAlertPeriods = (
+  budget: PhasingBudget,
+  now: Date = new Date()
+): string[] => {
+  if (budget.period_type !== 'FISCAL_YEAR') return [budget.period];
+
+  const current = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  const elapsed = getFiscalMonths(budget.period).filter((month) => month <= current);
+  return elapsed.length > 0 ? [elapsed[elapsed.length - 1]] : [];
+};
+
+/**
+ * Penerima notifikasi alert: owner & editor budget ditambah anggota yang boleh
+ * menyetujui budget. Tanpa penerima, notifikasi dikirim ke pembuat entitas.
+ */
+export const getAlertRecipients = (
+  budget: { owner_id?: string | null; editor_ids?: string[] | null } | undefined,
+  members: { user_id: string; role: WorkspaceRole }[],
+  fallbackUserId: string
+): string[] => {
+  const recipients = new Set<string>();
+
+  if (budget?.owner_id) recipients.add(budget.owner_id);
+  (budget?.editor_ids || []).forEach((userId) => recipients.add(userId));
+  members
+    .filter((member) => hasPermission(member.role, 'APPROVE_BUDGET'))
+    .forEach((member) => recipients.add(member.user_id));
+
+  if (recipients.size === 0) recipients.add(fallbackUserId);
+  return [...recipients];
+};
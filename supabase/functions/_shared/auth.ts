@@ -0,0 +1,124 @@
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { HttpError } from './http.ts';
+
+/**
+ * Otorisasi edge function per entitas. Pemanggil berupa user (JWT Supabase)
+ * dicek dengan helper peran database (entity_role / has_entity_permission);
+ * service role (pg_cron, edge function lain) selalu diizinkan.
+ * Query selanjutnya memakai client service role.
+ */
+
+export type EntityPermission =
+  | 'MANAGE_MEMBERS'
+  | 'MANAGE_ENTITY'
+  | 'DELETE_ENTITY'
+  | 'EDIT_COA'
+  | 'EDIT_BUDGET'
+  | 'APPROVE_BUDGET';
+
+export interface Caller {
+  admin: SupabaseClient;
+  userId: string | null; // null = service role
+}
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+
+export const createAdminClient = () => createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+export const isServiceRoleRequest = (req: Request): boolean =>
+  req.headers.get('Authorization') === `Bearer ${SERVICE_ROLE_KEY}`;
+
+/**
+ * Hanya service role (pg_cron) yang boleh memanggil
+ */
+export function requireServiceRole(req: Request): SupabaseClient {
+  if (!isServiceRoleRequest(req)) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+  return createAdminClient();
+}
+
+/**
+ * User login atau service role
+ */
+export async function authorizeCaller(req: Request): Promise<Caller & { userClient: SupabaseClient | null }> {
+  if (isServiceRoleRequest(req)) {
+    return { admin: createAdminClient(), userId: null, userClient: null };
+  }
+
+  const authorization = req.headers.get('Authorization') ?? '';
+  const userClient = createClient(SUPABASE_URL, ANON_KEY, {
+    global: { headers: { Authorization: authorization } },
+  });
+
+  const { data: { user }, error } = await userClient.auth.getUser();
+  if (error || !user) {
+    throw new HttpError(401, 'User not authenticated');
+  }
+
+  return { admin: createAdminClient(), userId: user.id, userClient };
+}
+
+/**
+ * Pemanggil harus anggota entitas; dengan `permission`, perannya juga harus
+ * punya izin tersebut (sama dengan assertEntityPermission di frontend)
+ */
+export async function authorizeEntity(
+  req: Request,
+  entityId: unknown,
+  permission?: EntityPermission
+): Promise<Caller> {
+  if (typeof entityId !== 'string' || !entityId) {
+    throw new HttpError(400, 'Entitas belum dipilih');
+  }
+
+  const { admin, userId, userClient } = await authorizeCaller(req);
+  if (!userClient) return { admin, userId };
+
+  const { data: allowed, error } = permission
+    ? await userClient.rpc('has_entity_permission', { p_entity_id: entityId, p_permission: permission })
+    : await userClient.rpc('entity_role', { p_entity_id: entityId }).then(({ data, error }) => ({
+        data: data !== null,
+        error,
+      }));
+
+  if (error) throw error;
+  if (!allowed) {
+    throw new HttpError(403, 'Akses ditolak: peran Anda tidak memiliki izin untuk entitas ini');
+  }
+
+  return { admin, userId };
+}
+
+/**
+ * Apakah user (bukan pemanggil) masih anggota entitas; sama dengan
+ * entity_role di database untuk user tsb. Dipakai proses terjadwal yang
+ * bertindak atas nama user, misalnya digest subscriber.
+ */
+export async function userHasEntityAccess(
+  admin: SupabaseClient,
+  entityId: string,
+  userId: string
+): Promise<boolean> {
+  const { data: entity, error } = await admin
+    .from('entity')
+    .select('user_id, workspace_id')
+    .eq('id', entityId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!entity) return false;
+  if (!entity.workspace_id) return entity.user_id === userId;
+
+  const { data: member, error: memberError } = await admin
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', entity.workspace_id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (memberError) throw memberError;
+  return Boolean(member);
+}
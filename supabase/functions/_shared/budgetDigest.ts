@@ -0,0 +1,141 @@
+import { formatUtilization, getUtilization } from './alertRules.ts';
+import { addMonths } from './budgetPhasing.ts';
+import type { BudgetRealization, BudgetRealizationSummary } from './budgetRealization.ts';
+import type { MailMessage } from './mail.ts';
+
+/**
+ * Email digest budget vs realisasi. Dipakai tombol "kirim sekarang" di
+ * frontend (lewat services/budgetDigest) dan edge function send-digests.
+ */
+
+export type DigestFrequency = 'WEEKLY' | 'MONTHLY';
+
+export const DIGEST_TOP_ACCOUNTS = 10;
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  WEEKLY: 'Mingguan',
+  MONTHLY: 'Bulanan',
+};
+
+export type DigestSummary = Pick<
+  BudgetRealizationSummary,
+  'total_budget' | 'total_realisasi' | 'total_variance' | 'variance_percentage' | 'total_accounts' | 'over_budget_count'
+>;
+
+export interface DigestEntitySection {
+  entityName: string;
+  period: string;
+  summary: DigestSummary | null;
+  realizations: BudgetRealization[];
+}
+
+const toPeriod = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Periode yang dirangkum: mingguan = bulan berjalan, bulanan = bulan lalu (sudah closing)
+ */
+export const getDigestPeriod = (frequency: DigestFrequency, now: Date = new Date()): string => {
+  const current = toPeriod(now);
+  return frequency === 'MONTHLY' ? addMonths(current, -1) : current;
+};
+
+const formatRupiah = (amount: number): string => `Rp${amount.toLocaleString('id-ID')}`;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Akun over budget dengan selisih terbesar
+ */
+export const getTopOverBudgetAccounts = (
+  realizations: BudgetRealization[],
+  limit: number = DIGEST_TOP_ACCOUNTS
+): BudgetRealization[] => {
+  return realizations
+    .filter((item) => item.status === 'OVER_BUDGET')
+    .sort((a, b) => a.variance - b.variance)
+    .slice(0, limit);
+};
+
+/**
+ * Susun email digest (HTML + plain text) untuk satu atau beberapa entitas
+ */
+export const buildDigestEmail = (
+  to: string,
+  frequency: DigestFrequency,
+  sections: DigestEntitySection[]
+): MailMessage => {
+  const title = `Digest ${DIGEST_FREQUENCY_LABELS[frequency]} Budget vs Realisasi`;
+  const textParts: string[] = [title, ''];
+  const htmlParts: string[] = [`<h2>${title}</h2>`];
+
+  for (const section of sections) {
+    const heading = `${section.entityName} — periode ${section.period}`;
+    textParts.push(heading);
+    htmlParts.push(`<h3>${escapeHtml(heading)}</h3>`);
+
+    if (!section.summary) {
+      textParts.push('Belum ada data budget untuk periode ini.', '');
+      htmlParts.push('<p>Belum ada data budget untuk periode ini.</p>');
+      continue;
+    }
+
+    const { summary } = section;
+    const utilization = formatUtilization(
+      getUtilization({ budget_allocated: summary.total_budget, realisasi: summary.total_realisasi })
+    );
+
+    textParts.push(
+      `Total budget: ${formatRupiah(summary.total_budget)}`,
+      `Total realisasi: ${formatRupiah(summary.total_realisasi)} (${utilization})`,
+      `Variance: ${formatRupiah(summary.total_variance)} (${summary.variance_percentage.toFixed(2)}%)`,
+      `Akun over budget: ${summary.over_budget_count} dari ${summary.total_accounts}`
+    );
+    htmlParts.push(
+      '<ul>',
+      `<li>Total budget: <strong>${formatRupiah(summary.total_budget)}</strong></li>`,
+      `<li>Total realisasi: <strong>${formatRupiah(summary.total_realisasi)}</strong> (${utilization})</li>`,
+      `<li>Variance: <strong>${formatRupiah(summary.total_variance)}</strong> (${summary.variance_percentage.toFixed(2)}%)</li>`,
+      `<li>Akun over budget: <strong>${summary.over_budget_count}</strong> dari ${summary.total_accounts}</li>`,
+      '</ul>'
+    );
+
+    const topAccounts = getTopOverBudgetAccounts(section.realizations);
+    if (topAccounts.length === 0) {
+      textParts.push('Tidak ada akun over budget.', '');
+      htmlParts.push('<p>Tidak ada akun over budget.</p>');
+      continue;
+    }
+
+    textParts.push('', 'Akun over budget teratas:');
+    htmlParts.push(
+      '<table border="1" cellpadding="6" cellspacing="0" style="border-collapse:collapse">',
+      '<tr><th>Akun</th><th>Budget</th><th>Realisasi</th><th>Pemakaian</th><th>Variance</th></tr>'
+    );
+
+    for (const account of topAccounts) {
+      const accountUtilization = formatUtilization(getUtilization(account));
+      const label = `${account.account_code} ${account.account_name} (${account.budgets?.name || '-'})`;
+      textParts.push(
+        `- ${label}: ${formatRupiah(account.realisasi)} / ${formatRupiah(account.budget_allocated)} ` +
+          `(${accountUtilization}, variance ${formatRupiah(account.variance)})`
+      );
+      htmlParts.push(
+        `<tr><td>${escapeHtml(label)}</td><td>${formatRupiah(account.budget_allocated)}</td>` +
+          `<td>${formatRupiah(account.realisasi)}</td><td>${accountUtilization}</td>` +
+          `<td>${formatRupiah(account.variance)}</td></tr>`
+      );
+    }
+
+    textParts.push('');
+    htmlParts.push('</table>');
+  }
+
+  return {
+    to,
+    subject: `${title} — ${sections.map((s) => s.entityName).join(', ')}`,
+    text: textParts.join('\n'),
+    html: htmlParts.join('\n'),
+  };
+};
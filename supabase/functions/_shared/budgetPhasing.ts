@@ -0,0 +1,185 @@
+/**
+ * Phasing budget tahun fiskal. Dipakai frontend (lewat services/budgetPhasing)
+ * dan edge function, jadi hanya memakai tipe struktural tanpa import dari src.
+ */
+
+export type BudgetPeriodType = 'MONTHLY' | 'FISCAL_YEAR';
+
+export type PhasingMethod = 'EVEN' | 'SEASONAL' | 'MANUAL';
+
+// Bentuk minimal budget & item yang dibutuhkan perhitungan phasing
+export interface PhasingBudget {
+  period: string;
+  period_type?: BudgetPeriodType | null;
+}
+
+export interface PhasingItem {
+  allocated_amount?: number | null;
+  monthly_allocations?: number[] | null;
+  monthly_realisasi?: number[] | null;
+  realisasi_snapshot?: number | null;
+}
+
+export const MONTHS_IN_FISCAL_YEAR = 12;
+
+/**
+ * Nama bulan singkat untuk label jadwal phasing
+ */
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'Mei', 'Jun', 'Jul', 'Agu', 'Sep', 'Okt', 'Nov', 'Des'];
+
+/**
+ * Geser periode "YYYY-MM" sebanyak n bulan
+ */
+export const addMonths = (period: string, months: number): string => {
+  const [year, month] = period.split('-').map(Number);
+  const index = year * 12 + (month - 1) + months;
+  const newYear = Math.floor(index / 12);
+  const newMonth = (index % 12) + 1;
+  return `${newYear}-${String(newMonth).padStart(2, '0')}`;
+};
+
+/**
+ * Daftar 12 periode dalam satu tahun fiskal, dimulai dari bulan awal
+ */
+export const getFiscalMonths = (startPeriod: string): string[] => {
+  return Array.from({ length: MONTHS_IN_FISCAL_YEAR }, (_, i) => addMonths(startPeriod, i));
+};
+
+/**
+ * Label bulan untuk periode "YYYY-MM", contoh: "Jan 2026"
+ */
+export const formatPeriodLabel = (period: string): string => {
+  const [year, month] = period.split('-');
+  return `${MONTH_LABELS[Number(month) - 1] || month} ${year}`;
+};
+
+/**
+ * Periode terakhir dari budget (sama dengan period untuk budget bulanan)
+ */
+export const getBudgetEndPeriod = (budget: PhasingBudget): string => {
+  if (budget.period_type === 'FISCAL_YEAR') {
+    return addMonths(budget.period, MONTHS_IN_FISCAL_YEAR - 1);
+  }
+  return budget.period;
+};
+
+/**
+ * Apakah budget mencakup periode tertentu
+ */
+export const budgetCoversPeriod = (budget: PhasingBudget, period: string): boolean => {
+  if (budget.period_type !== 'FISCAL_YEAR') return budget.period === period;
+  return period >= budget.period && period <= getBudgetEndPeriod(budget);
+};
+
+/**
+ * Index bulan (0-11) dari periode di dalam tahun fiskal, -1 jika di luar
+ */
+export const getFiscalMonthIndex = (startPeriod: string, period: string): number => {
+  const [startYear, startMonth] = startPeriod.split('-').map(Number);
+  const [year, month] = period.split('-').map(Number);
+  const index = (year - startYear) * 12 + (month - startMonth);
+  return index >= 0 && index < MONTHS_IN_FISCAL_YEAR ? index : -1;
+};
+
+/**
+ * Bagi total secara merata ke 12 bulan.
+ * Sisa pembulatan diletakkan di bulan terakhir agar total tetap sama.
+ */
+export const buildEvenSchedule = (total: number): number[] => {
+  const monthly = Math.floor(total / MONTHS_IN_FISCAL_YEAR);
+  const schedule = Array(MONTHS_IN_FISCAL_YEAR).fill(monthly);
+  schedule[MONTHS_IN_FISCAL_YEAR - 1] += total - monthly * MONTHS_IN_FISCAL_YEAR;
+  return schedule;
+};
+
+/**
+ * Bagi total sesuai bobot musiman (contoh: [1,1,2,...]).
+ * Bobot kosong/nol semua dianggap rata.
+ */
+export const buildWeightedSchedule = (total: number, weights: number[]): number[] => {
+  const normalized = Array.from({ length: MONTHS_IN_FISCAL_YEAR }, (_, i) => Math.max(weights[i] || 0, 0));
+  const totalWeight = normalized.reduce((sum, w) => sum + w, 0);
+
+  if (totalWeight === 0) return buildEvenSchedule(total);
+
+  const schedule = normalized.map((w) => Math.floor((total * w) / totalWeight));
+  const distributed = schedule.reduce((sum, amount) => sum + amount, 0);
+  schedule[MONTHS_IN_FISCAL_YEAR - 1] += total - distributed;
+  return schedule;
+};
+
+/**
+ * Bangun jadwal alokasi 12 bulan sesuai metode phasing
+ */
+export const buildSchedule = (
+  method: PhasingMethod,
+  total: number,
+  options: { weights?: number[] | null; manual?: number[] | null } = {}
+): number[] => {
+  if (method === 'MANUAL') {
+    return Array.from({ length: MONTHS_IN_FISCAL_YEAR }, (_, i) => Number(options.manual?.[i]) || 0);
+  }
+  if (method === 'SEASONAL') {
+    return buildWeightedSchedule(total, options.weights || []);
+  }
+  return buildEvenSchedule(total);
+};
+
+/**
+ * Jadwal alokasi item; fallback ke pembagian rata jika belum tersimpan
+ */
+export const getItemSchedule = (item: Pick<PhasingItem, 'allocated_amount' | 'monthly_allocations'>): number[] => {
+  if (item.monthly_allocations && item.monthly_allocations.length === MONTHS_IN_FISCAL_YEAR) {
+    return item.monthly_allocations.map((amount) => Number(amount) || 0);
+  }
+  return buildEvenSchedule(item.allocated_amount || 0);
+};
+
+export interface PhasedAmounts {
+  budget_mtd: number;
+  budget_ytd: number;
+  realisasi_mtd: number | null;
+  realisasi_ytd: number;
+}
+
+/**
+ * Hitung budget & realisasi month-to-date dan year-to-date untuk satu item
+ * pada periode tertentu di dalam tahun fiskal.
+ *
+ * Realisasi bulanan diambil dari monthly_realisasi jika ada; tanpa itu
+ * realisasi_snapshot dianggap sebagai realisasi kumulatif (YTD).
+ */
+export const getPhasedAmounts = (
+  item: PhasingItem,
+  startPeriod: string,
+  period: string
+): PhasedAmounts => {
+  const index = getFiscalMonthIndex(startPeriod, period);
+  const schedule = getItemSchedule(item);
+
+  if (index === -1) {
+    return { budget_mtd: 0, budget_ytd: 0, realisasi_mtd: null, realisasi_ytd: 0 };
+  }
+
+  const budgetYtd = schedule.slice(0, index + 1).reduce((sum, amount) => sum + amount, 0);
+  const monthlyRealisasi = item.monthly_realisasi;
+
+  if (monthlyRealisasi && monthlyRealisasi.length > 0) {
+    const realisasiYtd = monthlyRealisasi
+      .slice(0, index + 1)
+      .reduce((sum, amount) => sum + (Number(amount) || 0), 0);
+    return {
+      budget_mtd: schedule[index],
+      budget_ytd: budgetYtd,
+      realisasi_mtd: Number(monthlyRealisasi[index]) || 0,
+      realisasi_ytd: realisasiYtd,
+    };
+  }
+
+  return {
+    budget_mtd: schedule[index],
+    budget_ytd: budgetYtd,
+    realisasi_mtd: null,
+    realisasi_ytd: item.realisasi_snapshot || 0,
+  };
+};
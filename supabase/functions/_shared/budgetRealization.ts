@@ -0,0 +1,192 @@
+import {
+  getPhasedAmounts,
+  type BudgetPeriodType,
+  type PhasedAmounts,
+  type PhasingBudget,
+  type PhasingItem,
+} from './budgetPhasing.ts';
+
+/**
+ * Budget vs realisasi per item. Dipakai getBudgetRealizationsLive di frontend
+ * dan edge function (evaluasi alert, digest) agar angkanya selalu sama.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface BudgetRealization {
+  id: string;
+  budget_id: string;
+  budget_item_id: string;
+  entity_id: string;
+  period: string;
+  account_id?: string;
+  accurate_id?: string;
+  account_code: string;
+  account_name: string;
+  account_type?: string;
+  cost_center_id?: string | null; // Cost center efektif (item, atau budget)
+  budget_allocated: number;
+  realisasi: number;
+  variance: number;
+  variance_percentage: number;
+  status: 'ON_TRACK' | 'OVER_BUDGET';
+  // Phasing tahun fiskal (hanya terisi untuk budget FISCAL_YEAR dengan filter periode)
+  period_type?: BudgetPeriodType;
+  fiscal_start_period?: string;
+  annual_allocated?: number;
+  budget_mtd?: number;
+  realisasi_mtd?: number | null;
+  variance_mtd?: number;
+  budget_ytd?: number;
+  realisasi_ytd?: number;
+  variance_ytd?: number;
+  version_name?: string; // Versi pembanding, kosong = alokasi saat ini
+  realisasi_synced_at?: string | null;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+  budgets?: {
+    name: string;
+  };
+}
+
+export interface BudgetRealizationSummary {
+  entity_id: string;
+  entity_name: string;
+  period: string;
+  total_accounts: number;
+  total_budgets: number;
+  total_budget: number;
+  total_realisasi: number;
+  total_variance: number;
+  variance_percentage: number;
+  overall_status: 'ON_TRACK' | 'OVER_BUDGET';
+  on_track_count: number;
+  over_budget_count: number;
+  last_updated: string;
+}
+
+export interface RealizationBudget extends PhasingBudget {
+  id: string;
+  name: string;
+  entity_id: string;
+  cost_center_id?: string | null;
+}
+
+export interface RealizationItem extends PhasingItem {
+  id: string;
+  budget_id: string;
+  account_id?: string | null;
+  accurate_id?: string | null;
+  account_code: string;
+  account_name: string;
+  account_type?: string | null;
+  cost_center_id?: string | null;
+  realisasi_synced_at?: string | null;
+}
+
+// ============================================
+// TRANSFORM
+// ============================================
+
+/**
+ * Cost center efektif item: milik item, kalau kosong ikut budget
+ */
+export const resolveCostCenterId = (
+  itemCostCenterId?: string | null,
+  budgetCostCenterId?: string | null
+): string | null => itemCostCenterId || budgetCostCenterId || null;
+
+/**
+ * Realisasi satu item. Untuk budget FISCAL_YEAR dengan `period`, budget &
+ * realisasi dihitung year-to-date sampai periode tsb (plus month-to-date).
+ */
+export const toBudgetRealization = (
+  budget: RealizationBudget | undefined,
+  item: RealizationItem,
+  period?: string
+): BudgetRealization => {
+  const isFiscalYear = budget?.period_type === 'FISCAL_YEAR';
+  const annualAllocated = item.allocated_amount || 0;
+
+  let budgetAllocated = annualAllocated;
+  let realisasi = item.realisasi_snapshot || 0;
+  let phased: PhasedAmounts | null = null;
+
+  if (isFiscalYear && period && budget) {
+    phased = getPhasedAmounts(item, budget.period, period);
+    budgetAllocated = phased.budget_ytd;
+    realisasi = phased.realisasi_ytd;
+  }
+
+  const variance = budgetAllocated - realisasi;
+  const variancePercentage = budgetAllocated > 0 ? (variance / budgetAllocated) * 100 : 0;
+  const now = new Date().toISOString();
+
+  return {
+    id: item.id,
+    budget_id: item.budget_id,
+    budget_item_id: item.id,
+    entity_id: budget?.entity_id || '',
+    period: isFiscalYear && period ? period : budget?.period || '',
+    period_type: budget?.period_type || 'MONTHLY',
+    fiscal_start_period: isFiscalYear ? budget?.period : undefined,
+    account_id: item.account_id ?? undefined,
+    accurate_id: item.accurate_id ?? undefined,
+    account_code: item.account_code,
+    account_name: item.account_name,
+    account_type: item.account_type ?? undefined,
+    cost_center_id: resolveCostCenterId(item.cost_center_id, budget?.cost_center_id),
+    budget_allocated: budgetAllocated,
+    annual_allocated: isFiscalYear ? annualAllocated : undefined,
+    realisasi,
+    variance,
+    variance_percentage: variancePercentage,
+    status: realisasi <= budgetAllocated ? 'ON_TRACK' : 'OVER_BUDGET',
+    budget_mtd: phased?.budget_mtd,
+    realisasi_mtd: phased?.realisasi_mtd,
+    variance_mtd: phased && phased.realisasi_mtd !== null ? phased.budget_mtd - phased.realisasi_mtd : undefined,
+    budget_ytd: phased?.budget_ytd,
+    realisasi_ytd: phased?.realisasi_ytd,
+    variance_ytd: phased ? phased.budget_ytd - phased.realisasi_ytd : undefined,
+    realisasi_synced_at: item.realisasi_synced_at || null,
+    created_at: now,
+    updated_at: now,
+    budgets: {
+      name: budget?.name || '',
+    },
+  };
+};
+
+/**
+ * Ringkasan total budget vs realisasi; null jika belum ada item
+ */
+export const summarizeRealizations = (
+  realizations: BudgetRealization[],
+  entityId?: string,
+  period?: string
+): BudgetRealizationSummary | null => {
+  if (realizations.length === 0) return null;
+
+  const totalBudget = realizations.reduce((sum, item) => sum + item.budget_allocated, 0);
+  const totalRealisasi = realizations.reduce((sum, item) => sum + item.realisasi, 0);
+  const totalVariance = totalBudget - totalRealisasi;
+
+  return {
+    entity_id: entityId || '',
+    entity_name: '',
+    period: period || 'all',
+    total_accounts: realizations.length,
+    total_budgets: new Set(realizations.map((item) => item.budget_id)).size,
+    total_budget: totalBudget,
+    total_realisasi: totalRealisasi,
+    total_variance: totalVariance,
+    variance_percentage: totalBudget > 0 ? (totalVariance / totalBudget) * 100 : 0,
+    overall_status: totalRealisasi <= totalBudget ? 'ON_TRACK' : 'OVER_BUDGET',
+    on_track_count: realizations.filter((item) => item.status === 'ON_TRACK').length,
+    over_budget_count: realizations.filter((item) => item.status === 'OVER_BUDGET').length,
+    last_updated: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,52 @@
+/**
+ * Helper HTTP bersama untuk edge function yang dipanggil browser
+ * (supabase.functions.invoke) maupun pg_cron.
+ */
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+/**
+ * Error dengan status HTTP; error lain dikembalikan sebagai 200 + success:false
+ * agar pesan tetap terbaca lewat supabase.functions.invoke
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const jsonResponse = (body: unknown, status = 200): Response =>
+  Response.json(body, { status, headers: corsHeaders });
+
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Bungkus handler: preflight CORS, parsing body JSON dan format error seragam
+ */
+export const serveJson = (
+  name: string,
+  handler: (req: Request, body: Record<string, unknown>) => Promise<Record<string, unknown>>
+) =>
+  Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+      const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+      return jsonResponse(await handler(req, body));
+    } catch (error) {
+      const message = errorMessage(error);
+      console.error(`[${name}] Error:`, message);
+      const status = error instanceof HttpError ? error.status : 200;
+      return jsonResponse({ success: false, error: message }, status);
+    }
+  });
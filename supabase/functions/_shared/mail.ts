@@ -0,0 +1,22 @@
+/**
+ * Kontrak transport email, dipakai frontend (lib/mailTransport) dan edge
+ * function. Adapter baru cukup mengimplementasikan send().
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailSendResult {
+  success: boolean;
+  transport: string;
+  error?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage) => Promise<MailSendResult>;
+}
@@ -0,0 +1,60 @@
+import nodemailer from 'npm:nodemailer@6';
+import type { MailMessage, MailSendResult, MailTransport } from './mail.ts';
+import { errorMessage } from './http.ts';
+
+/**
+ * Transport email di server (edge function send-digests & send-smtp-mail).
+ * Host, port dan kredensial SMTP dibaca dari secret edge function;
+ * MAIL_TRANSPORT=console hanya menulis email ke log (development).
+ */
+
+export type ServerMailTransportKind = 'smtp' | 'console';
+
+/**
+ * SMTP: SMTP_HOST, SMTP_PORT (default 465 = TLS), SMTP_USER, SMTP_PASSWORD, SMTP_FROM
+ */
+export function createSmtpTransport(): MailTransport {
+  const port = Number(Deno.env.get('SMTP_PORT') ?? 465);
+  const transporter = nodemailer.createTransport({
+    host: Deno.env.get('SMTP_HOST'),
+    port,
+    secure: port === 465,
+    auth: {
+      user: Deno.env.get('SMTP_USER'),
+      pass: Deno.env.get('SMTP_PASSWORD'),
+    },
+  });
+  const from = Deno.env.get('SMTP_FROM') ?? Deno.env.get('SMTP_USER');
+
+  return {
+    name: 'smtp',
+    send: async (message: MailMessage): Promise<MailSendResult> => {
+      try {
+        await transporter.sendMail({ from, ...message });
+        return { success: true, transport: 'smtp' };
+      } catch (error) {
+        console.error('[smtpTransport] Error:', errorMessage(error));
+        return { success: false, transport: 'smtp', error: errorMessage(error) };
+      }
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    send: async (message) => {
+      console.log(`[consoleTransport] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+      return { success: true, transport: 'console' };
+    },
+  };
+}
+
+/**
+ * Transport sesuai secret MAIL_TRANSPORT (default: smtp)
+ */
+export function getMailTransport(
+  kind: ServerMailTransportKind = (Deno.env.get('MAIL_TRANSPORT') as ServerMailTransportKind) || 'smtp'
+): MailTransport {
+  return kind === 'console' ? createConsoleTransport() : createSmtpTransport();
+}
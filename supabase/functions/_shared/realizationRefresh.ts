@@ -0,0 +1,431 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import {
+  createAccurateClient,
+  getDimensionParams,
+  getEntityCredential,
+  getPeriodDates,
+  toAccountAmount,
+  type AccurateClient,
+  type AccurateDimensionFilter,
+} from './accurate.ts';
+import { evaluateEntityAlerts } from './alertEvaluation.ts';
+import { addMonths, budgetCoversPeriod, getFiscalMonths } from './budgetPhasing.ts';
+import { resolveCostCenterId } from './budgetRealization.ts';
+import { errorMessage } from './http.ts';
+
+/**
+ * Refresh realisasi budget dari Accurate (edge function refresh-realizations,
+ * manual dari halaman realisasi atau terjadwal lewat pg_cron).
+ *
+ * Satu entitas hanya boleh punya satu refresh berjalan: baris
+ * realization_refresh_runs berstatus RUNNING di-insert lebih dulu dan dijaga
+ * unique index, sehingga refresh manual & terjadwal tidak saling menimpa.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RefreshTrigger = 'MANUAL' | 'SCHEDULED';
+
+export type RefreshStatus = 'RUNNING' | 'SUCCESS' | 'PARTIAL' | 'FAILED';
+
+export interface RefreshRealizationResult {
+  status: RefreshStatus;
+  updated_items: number;
+  fetched_periods: string[];
+  failed_periods: string[];
+  refreshed_at: string;
+}
+
+interface RefreshBudget {
+  id: string;
+  period: string;
+  period_type?: 'MONTHLY' | 'FISCAL_YEAR' | null;
+  cost_center_id?: string | null;
+}
+
+interface RefreshItem {
+  id: string;
+  budget_id: string;
+  account_code: string;
+  allocated_amount?: number | null;
+  monthly_realisasi?: number[] | null;
+  cost_center_id?: string | null;
+}
+
+interface LinkedCostCenter {
+  id: string;
+  code: string;
+  accurate_dimension: AccurateDimensionFilter['type'];
+  accurate_dimension_id: string;
+}
+
+// Sumber saldo untuk item tanpa cost center tertaut dimensi Accurate
+const WHOLE_DATABASE = '';
+
+// Refresh RUNNING lebih lama dari ini dianggap terhenti (edge function timeout)
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+// Waktu Indonesia Barat; periode berjalan mengikuti kalender pengguna
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Periode berjalan dalam format "YYYY-MM"
+ */
+export const getCurrentPeriod = (): string => {
+  const now = new Date(Date.now() + WIB_OFFSET_MS);
+  return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Periode yang perlu di-fetch untuk sebuah budget.
+ * Budget tahunan butuh semua bulan yang sudah berjalan agar YTD lengkap,
+ * ditambah bulan sebelum awal tahun fiskal sebagai saldo awal akun BS.
+ */
+const getPeriodsToFetch = (budget: RefreshBudget): string[] => {
+  if (budget.period_type !== 'FISCAL_YEAR') return [budget.period];
+
+  const current = getCurrentPeriod();
+  const months = getFiscalMonths(budget.period);
+  return [addMonths(months[0], -1), ...months.filter((month) => month <= current)];
+};
+
+/**
+ * Realisasi tahunan satu item: mutasi per bulan + snapshot YTD.
+ * Akun PL: nilai per bulan sudah berupa mutasi, snapshot = jumlahnya.
+ * Akun BS: Accurate mengembalikan saldo per akhir bulan, jadi mutasi bulanan
+ * = selisih saldo dengan bulan sebelumnya dan snapshot = saldo bulan terakhir.
+ * Bulan yang gagal di-fetch tetap memakai nilai sebelumnya.
+ */
+const computeFiscalRealisasi = (
+  months: string[],
+  amountsByPeriod: Map<string, Map<string, number>>,
+  accountCode: string,
+  isBalanceSheet: boolean,
+  previousMonthly: number[] | null | undefined
+): { realisasi_snapshot: number; monthly_realisasi: number[] } | null => {
+  const getAmount = (period: string) => {
+    const amounts = amountsByPeriod.get(period);
+    return amounts ? amounts.get(accountCode) || 0 : null;
+  };
+  const previous = (index: number) => Number(previousMonthly?.[index]) || 0;
+
+  if (!isBalanceSheet) {
+    const monthly = months.map((month, index) => getAmount(month) ?? previous(index));
+    return {
+      realisasi_snapshot: monthly.reduce((sum, amount) => sum + amount, 0),
+      monthly_realisasi: monthly,
+    };
+  }
+
+  const balances = [addMonths(months[0], -1), ...months].map(getAmount);
+  const monthly = months.map((_, index) => {
+    const opening = balances[index];
+    const closing = balances[index + 1];
+    return opening !== null && closing !== null ? closing - opening : previous(index);
+  });
+  const closingBalance = [...balances].reverse().find((balance) => balance !== null);
+
+  // Tanpa satu pun saldo bulan berjalan, snapshot lama dipertahankan
+  if (closingBalance === undefined || closingBalance === null) return null;
+  return { realisasi_snapshot: closingBalance, monthly_realisasi: monthly };
+};
+
+/**
+ * Saldo akun BS (akhir periode) & mutasi akun PL satu periode.
+ * Salah satu gagal → data yang berhasil tetap dipakai; keduanya gagal → error.
+ */
+async function fetchPeriodAmounts(
+  accurate: AccurateClient,
+  period: string,
+  dimension: AccurateDimensionFilter | undefined
+): Promise<{ amounts: Map<string, number>; balanceSheetAccounts: string[] }> {
+  const { fromDate, toDate } = getPeriodDates(period);
+  const dimensionParams = getDimensionParams(dimension);
+
+  const [bsResult, plResult] = await Promise.allSettled([
+    accurate.get('glaccount/get-bs-account-amount.do', { asOfDate: toDate, ...dimensionParams }),
+    accurate.get('glaccount/get-pl-account-amount.do', { fromDate, toDate, ...dimensionParams }),
+  ]);
+
+  if (bsResult.status === 'rejected' && plResult.status === 'rejected') {
+    throw new Error(`BS: ${errorMessage(bsResult.reason)} | PL: ${errorMessage(plResult.reason)}`);
+  }
+
+  const bsAccounts = bsResult.status === 'fulfilled' ? (bsResult.value.d || []).map(toAccountAmount) : [];
+  const plAccounts = plResult.status === 'fulfilled' ? (plResult.value.d || []).map(toAccountAmount) : [];
+
+  if (bsResult.status === 'rejected') console.warn('[fetchPeriodAmounts] BS error:', period, errorMessage(bsResult.reason));
+  if (plResult.status === 'rejected') console.warn('[fetchPeriodAmounts] PL error:', period, errorMessage(plResult.reason));
+
+  return {
+    amounts: new Map([...bsAccounts, ...plAccounts].map((account) => [account.accountNo, account.amount])),
+    balanceSheetAccounts: bsAccounts.map((account) => account.accountNo),
+  };
+}
+
+// ============================================
+// LOCK
+// ============================================
+
+/**
+ * Tandai refresh entitas sedang berjalan; null jika refresh lain masih RUNNING
+ */
+async function claimRefreshRun(
+  admin: SupabaseClient,
+  entityId: string,
+  periods: string[],
+  trigger: RefreshTrigger
+): Promise<{ id: string; started_at: string } | null> {
+  const { error: staleError } = await admin
+    .from('realization_refresh_runs')
+    .update({ status: 'FAILED', error_message: 'Refresh terhenti sebelum selesai', finished_at: new Date().toISOString() })
+    .eq('entity_id', entityId)
+    .eq('status', 'RUNNING')
+    .lt('started_at', new Date(Date.now() - STALE_RUN_MS).toISOString());
+
+  if (staleError) throw staleError;
+
+  const { data, error } = await admin
+    .from('realization_refresh_runs')
+    .insert({ entity_id: entityId, periods, trigger, status: 'RUNNING' })
+    .select('id, started_at')
+    .single();
+
+  // 23505 = unique violation: refresh lain untuk entitas ini masih berjalan
+  if (error?.code === '23505') return null;
+  if (error) throw error;
+  return data;
+}
+
+async function finishRefreshRun(
+  admin: SupabaseClient,
+  runId: string,
+  result: RefreshRealizationResult | null,
+  failure?: unknown
+) {
+  const message = failure
+    ? errorMessage(failure)
+    : result?.failed_periods.length
+    ? `Gagal fetch periode: ${result.failed_periods.join(', ')}`
+    : null;
+
+  const { error } = await admin
+    .from('realization_refresh_runs')
+    .update({
+      status: result?.status || 'FAILED',
+      updated_items: result?.updated_items || 0,
+      error_message: message,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', runId);
+
+  if (error) console.error('[finishRefreshRun] Error:', error);
+}
+
+// ============================================
+// REFRESH REALISASI
+// ============================================
+
+/**
+ * Ambil saldo terbaru dari Accurate lalu perbarui realisasi_snapshot
+ * semua budget item milik entitas yang mencakup periode yang diminta.
+ *
+ * Budget FISCAL_YEAR menyimpan mutasi per bulan di monthly_realisasi;
+ * realisasi_snapshot berisi total year-to-date (akun PL) atau saldo
+ * akhir bulan terakhir (akun BS).
+ * Item yang cost center-nya tertaut ke departemen / proyek Accurate memakai
+ * saldo yang difilter dimensi tersebut, sisanya saldo seluruh database.
+ * Setiap nilai baru disimpan di budget_item_realisasi_history, setiap
+ * eksekusi dicatat di realization_refresh_runs, lalu alert rule dievaluasi.
+ */
+export async function refreshEntityRealizations(
+  admin: SupabaseClient,
+  entityId: string,
+  periods: string[],
+  trigger: RefreshTrigger
+): Promise<RefreshRealizationResult> {
+  const run = await claimRefreshRun(admin, entityId, periods, trigger);
+  if (!run) {
+    throw new Error('Refresh realisasi entitas ini masih berjalan, coba lagi beberapa saat lagi');
+  }
+
+  try {
+    console.log('[refreshEntityRealizations] Starting:', entityId, periods, trigger);
+
+    // STEP 1: Budget yang mencakup periode yang diminta
+    const { data: budgetRows, error: budgetError } = await admin
+      .from('budgets')
+      .select('id, period, period_type, cost_center_id')
+      .eq('entity_id', entityId);
+
+    if (budgetError) throw budgetError;
+
+    const budgets = ((budgetRows || []) as RefreshBudget[]).filter((budget) =>
+      periods.some((period) => budgetCoversPeriod(budget, period))
+    );
+
+    if (budgets.length === 0) {
+      const result: RefreshRealizationResult = {
+        status: 'SUCCESS',
+        updated_items: 0,
+        fetched_periods: [],
+        failed_periods: [],
+        refreshed_at: run.started_at,
+      };
+      await finishRefreshRun(admin, run.id, result);
+      return result;
+    }
+
+    // STEP 2: Budget item + sumber saldo masing-masing
+    const { data: itemRows, error: itemError } = await admin
+      .from('budget_items')
+      .select('id, budget_id, account_code, allocated_amount, monthly_realisasi, cost_center_id')
+      .in('budget_id', budgets.map((b) => b.id));
+
+    if (itemError) throw itemError;
+    const items = (itemRows || []) as RefreshItem[];
+
+    const { data: costCenterRows, error: costCenterError } = await admin
+      .from('cost_centers')
+      .select('id, code, accurate_dimension, accurate_dimension_id')
+      .eq('entity_id', entityId)
+      .not('accurate_dimension_id', 'is', null);
+
+    if (costCenterError) throw costCenterError;
+    const linkedCostCenters = new Map(
+      ((costCenterRows || []) as LinkedCostCenter[]).map((cc) => [cc.id, cc])
+    );
+
+    const getSourceKey = (item: RefreshItem, budget: RefreshBudget) => {
+      const costCenterId = resolveCostCenterId(item.cost_center_id, budget.cost_center_id);
+      return costCenterId && linkedCostCenters.has(costCenterId) ? costCenterId : WHOLE_DATABASE;
+    };
+
+    const periodsBySource = new Map<string, Set<string>>();
+    for (const item of items) {
+      const budget = budgets.find((b) => b.id === item.budget_id);
+      if (!budget) continue;
+      const sourceKey = getSourceKey(item, budget);
+      const periodSet = periodsBySource.get(sourceKey) || new Set<string>();
+      getPeriodsToFetch(budget).forEach((period) => periodSet.add(period));
+      periodsBySource.set(sourceKey, periodSet);
+    }
+
+    // STEP 3: Fetch akun per sumber & periode (sekali per kombinasi, dipakai bersama)
+    const accurate = await createAccurateClient(await getEntityCredential(admin, entityId));
+    const amountsBySource = new Map<string, Map<string, Map<string, number>>>();
+    const balanceSheetAccounts = new Set<string>();
+    const fetchedPeriods = new Set<string>();
+    const failedPeriods: string[] = [];
+
+    for (const [sourceKey, periodSet] of periodsBySource) {
+      const costCenter = linkedCostCenters.get(sourceKey);
+      const dimension = costCenter
+        ? { type: costCenter.accurate_dimension, id: costCenter.accurate_dimension_id }
+        : undefined;
+      const amountsByPeriod = new Map<string, Map<string, number>>();
+
+      for (const period of [...periodSet].sort()) {
+        try {
+          const { amounts, balanceSheetAccounts: bsAccounts } = await fetchPeriodAmounts(accurate, period, dimension);
+          amountsByPeriod.set(period, amounts);
+          bsAccounts.forEach((accountNo) => balanceSheetAccounts.add(accountNo));
+          fetchedPeriods.add(period);
+        } catch (error) {
+          console.warn('[refreshEntityRealizations] Fetch failed:', period, costCenter?.code || '', errorMessage(error));
+          failedPeriods.push(costCenter ? `${period} (${costCenter.code})` : period);
+        }
+      }
+
+      amountsBySource.set(sourceKey, amountsByPeriod);
+    }
+
+    if (fetchedPeriods.size === 0 && failedPeriods.length > 0) {
+      throw new Error(`Gagal mengambil data Accurate untuk periode ${failedPeriods.join(', ')}`);
+    }
+
+    // STEP 4: Update budget_items
+    const refreshedAt = new Date().toISOString();
+    const historyRows: Record<string, unknown>[] = [];
+    let updatedItems = 0;
+
+    for (const item of items) {
+      const budget = budgets.find((b) => b.id === item.budget_id);
+      if (!budget) continue;
+
+      const amountsByPeriod = amountsBySource.get(getSourceKey(item, budget)) || new Map<string, Map<string, number>>();
+      let updates: { realisasi_snapshot: number; monthly_realisasi?: number[] } | null = null;
+
+      if (budget.period_type === 'FISCAL_YEAR') {
+        updates = computeFiscalRealisasi(
+          getFiscalMonths(budget.period),
+          amountsByPeriod,
+          item.account_code,
+          balanceSheetAccounts.has(item.account_code),
+          item.monthly_realisasi
+        );
+      } else {
+        const amounts = amountsByPeriod.get(budget.period);
+        if (amounts) {
+          updates = { realisasi_snapshot: amounts.get(item.account_code) || 0 };
+        }
+      }
+
+      if (!updates) continue;
+
+      const { error: updateError } = await admin
+        .from('budget_items')
+        .update({ ...updates, realisasi_synced_at: refreshedAt })
+        .eq('id', item.id);
+
+      if (updateError) throw updateError;
+      updatedItems++;
+
+      historyRows.push({
+        budget_item_id: item.id,
+        budget_id: item.budget_id,
+        realisasi: updates.realisasi_snapshot,
+        allocated_amount: item.allocated_amount || 0,
+        trigger,
+        recorded_at: refreshedAt,
+      });
+    }
+
+    if (historyRows.length > 0) {
+      const { error: historyError } = await admin
+        .from('budget_item_realisasi_history')
+        .insert(historyRows);
+
+      if (historyError) throw historyError;
+    }
+
+    const result: RefreshRealizationResult = {
+      status: failedPeriods.length > 0 ? 'PARTIAL' : 'SUCCESS',
+      updated_items: updatedItems,
+      fetched_periods: [...fetchedPeriods].sort(),
+      failed_periods: failedPeriods,
+      refreshed_at: refreshedAt,
+    };
+
+    await finishRefreshRun(admin, run.id, result);
+
+    // Realisasi berubah → cek alert rule entitas; gagal evaluasi tidak
+    // membatalkan refresh yang sudah tersimpan
+    await evaluateEntityAlerts(admin, entityId, periods).catch((error) =>
+      console.error('[refreshEntityRealizations] Alert evaluation failed:', errorMessage(error))
+    );
+
+    console.log('[refreshEntityRealizations] ✅ Updated', updatedItems, 'items');
+    return result;
+  } catch (error) {
+    console.error('[refreshEntityRealizations] ❌ Error:', errorMessage(error));
+    await finishRefreshRun(admin, run.id, null, error);
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { budgetCoversPeriod } from './budgetPhasing.ts';
+import {
+  toBudgetRealization,
+  type BudgetRealization,
+  type RealizationBudget,
+  type RealizationItem,
+} from './budgetRealization.ts';
+
+/**
+ * Realisasi budget satu entitas untuk satu periode (sama dengan
+ * getBudgetRealizationsLive di frontend, alokasi saat ini)
+ */
+export async function loadBudgetRealizations(
+  admin: SupabaseClient,
+  entityId: string,
+  period: string
+): Promise<BudgetRealization[]> {
+  const { data: budgetRows, error: budgetError } = await admin
+    .from('budgets')
+    .select('id, name, period, period_type, entity_id, cost_center_id')
+    .eq('entity_id', entityId)
+    .or(`period.eq.${period},period_type.eq.FISCAL_YEAR`);
+
+  if (budgetError) throw budgetError;
+
+  const budgets = ((budgetRows || []) as RealizationBudget[]).filter((b) => budgetCoversPeriod(b, period));
+  if (budgets.length === 0) return [];
+
+  const { data: items, error: itemError } = await admin
+    .from('budget_items')
+    .select('*')
+    .in('budget_id', budgets.map((b) => b.id))
+    .order('account_code', { ascending: true });
+
+  if (itemError) throw itemError;
+
+  return ((items || []) as RealizationItem[]).map((item) =>
+    toBudgetRealization(budgets.find((b) => b.id === item.budget_id), item, period)
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * Peran workspace & hak aksesnya. Dipakai frontend (lewat services/workspaceRoles)
+ * dan edge function; sama dengan fungsi database role_has_permission.
+ */
+
+export type WorkspaceRole = 'OWNER' | 'FINANCE_ADMIN' | 'BUDGET_EDITOR' | 'VIEWER';
+
+export type WorkspacePermission =
+  | 'MANAGE_MEMBERS'
+  | 'MANAGE_ENTITY'
+  | 'DELETE_ENTITY'
+  | 'EDIT_COA'
+  | 'EDIT_BUDGET'
+  | 'APPROVE_BUDGET';
+
+/**
+ * Hak akses per peran:
+ * Owner semua, Finance Admin semua kecuali kelola anggota & hapus entitas,
+ * Budget Editor hanya isi budget, Viewer hanya lihat.
+ */
+const ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  OWNER: ['MANAGE_MEMBERS', 'MANAGE_ENTITY', 'DELETE_ENTITY', 'EDIT_COA', 'EDIT_BUDGET', 'APPROVE_BUDGET'],
+  FINANCE_ADMIN: ['MANAGE_ENTITY', 'EDIT_COA', 'EDIT_BUDGET', 'APPROVE_BUDGET'],
+  BUDGET_EDITOR: ['EDIT_BUDGET'],
+  VIEWER: [],
+};
+
+export const hasPermission = (role: WorkspaceRole | null | undefined, permission: WorkspacePermission): boolean => {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+};
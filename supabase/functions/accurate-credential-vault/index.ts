@@ -0,0 +1,75 @@
+import { authorizeCaller, authorizeEntity } from '../_shared/auth.ts';
+import { HttpError, serveJson } from '../_shared/http.ts';
+
+/**
+ * Simpan, hapus dan cari pemilik API token Accurate entitas.
+ * Token disimpan di Supabase Vault lewat fungsi database (service role);
+ * client hanya menerima status token (has_api_token & 4 karakter terakhir).
+ *
+ * Body: { action: 'store', entityId, apiToken } | { action: 'delete', entityId }
+ *     | { action: 'find-owner', apiToken, excludeEntityId? }
+ */
+
+serveJson('accurate-credential-vault', async (req, body) => {
+  const { action, entityId, apiToken, excludeEntityId } = body;
+
+  if (action === 'store') {
+    if (typeof apiToken !== 'string' || !apiToken.trim()) {
+      throw new HttpError(400, 'API Token tidak boleh kosong');
+    }
+
+    const { admin } = await authorizeEntity(req, entityId, 'MANAGE_ENTITY');
+    const { error } = await admin.rpc('store_entity_api_token', {
+      p_entity_id: entityId,
+      p_token: apiToken.trim(),
+    });
+    if (error) throw error;
+
+    const { data, error: entityError } = await admin
+      .from('entity')
+      .select('has_api_token, api_token_hint')
+      .eq('id', entityId)
+      .single();
+    if (entityError) throw entityError;
+
+    console.log('[accurate-credential-vault] Stored token for entity:', entityId);
+    return { success: true, data };
+  }
+
+  if (action === 'delete') {
+    const { admin } = await authorizeEntity(req, entityId, 'MANAGE_ENTITY');
+    const { error } = await admin.rpc('delete_entity_api_token', { p_entity_id: entityId });
+    if (error) throw error;
+
+    console.log('[accurate-credential-vault] Deleted token for entity:', entityId);
+    return { success: true, data: null };
+  }
+
+  if (action === 'find-owner') {
+    if (typeof apiToken !== 'string' || !apiToken.trim()) {
+      throw new HttpError(400, 'API Token tidak boleh kosong');
+    }
+
+    const { admin, userClient } = await authorizeCaller(req);
+    const { data: owner, error } = await admin
+      .rpc('find_entity_by_api_token', {
+        p_token: apiToken.trim(),
+        p_exclude_entity_id: typeof excludeEntityId === 'string' ? excludeEntityId : null,
+      })
+      .maybeSingle<{ entity_id: string; entity_name: string }>();
+    if (error) throw error;
+    if (!owner) return { success: true, data: null };
+
+    // Nama entitas hanya ditampilkan jika pemanggil punya akses ke entitas tsb
+    const { data: role } = userClient
+      ? await userClient.rpc('entity_role', { p_entity_id: owner.entity_id })
+      : { data: 'SERVICE' };
+
+    return {
+      success: true,
+      data: { entity_id: owner.entity_id, entity_name: role ? owner.entity_name : 'entitas lain' },
+    };
+  }
+
+  throw new HttpError(400, `Action tidak dikenal: ${String(action)}`);
+});
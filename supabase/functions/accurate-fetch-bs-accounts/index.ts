@@ -0,0 +1,29 @@
+import { authorizeEntity } from '../_shared/auth.ts';
+import {
+  createAccurateClient,
+  getDimensionParams,
+  getEntityCredential,
+  getPeriodDates,
+  toAccountAmount,
+} from '../_shared/accurate.ts';
+import { serveJson } from '../_shared/http.ts';
+
+/**
+ * Saldo akun neraca per akhir periode. Body: { entityId, period: "YYYY-MM", dimension? }.
+ * Dengan `dimension` saldo hanya untuk departemen / proyek tersebut.
+ */
+
+serveJson('accurate-fetch-bs-accounts', async (req, body) => {
+  const { entityId, period, dimension } = body;
+  const { admin } = await authorizeEntity(req, entityId);
+  const { toDate } = getPeriodDates(String(period));
+
+  const accurate = await createAccurateClient(await getEntityCredential(admin, entityId as string));
+  const result = await accurate.get('glaccount/get-bs-account-amount.do', {
+    asOfDate: toDate,
+    ...getDimensionParams(dimension),
+  });
+
+  const accounts = (result.d || []).map(toAccountAmount);
+  return { success: true, accounts, total: accounts.length, period, asOfDate: toDate };
+});
@@ -0,0 +1,45 @@
+import { authorizeEntity } from '../_shared/auth.ts';
+import { createAccurateClient, getEntityCredential } from '../_shared/accurate.ts';
+import { serveJson } from '../_shared/http.ts';
+
+/**
+ * Ambil seluruh COA (glaccount) entitas dari Accurate untuk sinkronisasi manual.
+ * Body: { entityId }. Token & HMAC secret di-resolve dari vault.
+ */
+
+const ACCOUNT_FIELDS = 'id,no,name,accountType,accountTypeName,balance,currency,isParent,suspended,parent,lvl,asOf';
+
+serveJson('accurate-fetch-coa', async (req, body) => {
+  const { admin } = await authorizeEntity(req, body.entityId, 'EDIT_COA');
+  const accurate = await createAccurateClient(await getEntityCredential(admin, body.entityId as string));
+
+  const rows = await accurate.list('glaccount/list.do', { fields: ACCOUNT_FIELDS });
+
+  // Format CoaAccount di frontend
+  const accounts = rows.map((row) => {
+    const parent = row.parent as { id?: number } | null | undefined;
+    const currency = row.currency as { code?: string } | string | null | undefined;
+    return {
+      id: Number(row.id),
+      account_code: String(row.no ?? ''),
+      account_name: String(row.name ?? ''),
+      account_type: String(row.accountType ?? ''),
+      account_type_name: String(row.accountTypeName ?? row.accountType ?? ''),
+      balance: Number(row.balance) || 0,
+      currency: typeof currency === 'string' ? currency : currency?.code || 'IDR',
+      is_parent: Boolean(row.isParent),
+      suspended: Boolean(row.suspended),
+      parent_id: parent?.id ?? null,
+      lvl: Number(row.lvl) || 1,
+      coadate: (row.asOf as string) || null,
+    };
+  });
+
+  console.log('[accurate-fetch-coa] Fetched', accounts.length, 'accounts for entity:', body.entityId);
+  return {
+    success: true,
+    accounts,
+    total: accounts.length,
+    pagination: { pageSize: accounts.length, rowCount: accounts.length },
+  };
+});
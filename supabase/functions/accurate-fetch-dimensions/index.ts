@@ -0,0 +1,33 @@
+import { authorizeEntity } from '../_shared/auth.ts';
+import { createAccurateClient, getEntityCredential } from '../_shared/accurate.ts';
+import { HttpError, serveJson } from '../_shared/http.ts';
+
+/**
+ * Daftar departemen / proyek Accurate untuk menautkan cost center.
+ * Body: { entityId, type: 'DEPARTMENT' | 'PROJECT' } → { items: [{ id, name }] }
+ */
+
+const DIMENSION_ENDPOINTS: Record<string, string> = {
+  DEPARTMENT: 'department/list.do',
+  PROJECT: 'project/list.do',
+};
+
+serveJson('accurate-fetch-dimensions', async (req, body) => {
+  const { entityId, type } = body;
+  const path = DIMENSION_ENDPOINTS[String(type)];
+  if (!path) throw new HttpError(400, `Tipe dimensi tidak dikenal: ${String(type)}`);
+
+  const { admin } = await authorizeEntity(req, entityId, 'EDIT_COA');
+  const accurate = await createAccurateClient(await getEntityCredential(admin, entityId as string));
+
+  const rows = await accurate.list(path, { fields: 'id,no,name,suspended' });
+  const items = rows
+    .filter((row) => !row.suspended)
+    .map((row) => ({
+      id: String(row.id),
+      name: row.no ? `${row.no} - ${row.name}` : String(row.name ?? ''),
+    }));
+
+  console.log('[accurate-fetch-dimensions] Fetched', items.length, type, 'for entity:', entityId);
+  return { success: true, items };
+});
@@ -0,0 +1,63 @@
+import { authorizeEntity } from '../_shared/auth.ts';
+import {
+  createAccurateClient,
+  getDimensionParams,
+  getEntityCredential,
+  getPeriodDates,
+} from '../_shared/accurate.ts';
+import { serveJson } from '../_shared/http.ts';
+
+/**
+ * Transaksi buku besar satu akun untuk drill-down realisasi.
+ * Body: { entityId, accountNo, fromPeriod, toPeriod, dimension? }.
+ * Hasil disimpan ke accurate_journal_cache (hanya ditulis service role).
+ */
+
+const toDimensionKey = (dimension: unknown): string => {
+  const filter = dimension as { type?: string; id?: string } | null | undefined;
+  return filter?.id ? `${filter.type}:${filter.id}` : '';
+};
+
+serveJson('accurate-fetch-journal-entries', async (req, body) => {
+  const { entityId, accountNo, fromPeriod, toPeriod, dimension } = body;
+  const { admin } = await authorizeEntity(req, entityId);
+  const { fromDate } = getPeriodDates(String(fromPeriod));
+  const { toDate } = getPeriodDates(String(toPeriod));
+
+  const accurate = await createAccurateClient(await getEntityCredential(admin, entityId as string));
+  const rows = await accurate.list('glaccount/get-account-history.do', {
+    no: String(accountNo),
+    startDate: fromDate,
+    endDate: toDate,
+    ...getDimensionParams(dimension),
+  });
+
+  // Format AccurateJournalEntry di frontend; debit positif, kredit negatif
+  const entries = rows.map((row) => ({
+    date: String(row.transDate ?? row.date ?? ''),
+    number: String(row.number ?? row.transactionNo ?? ''),
+    description: String(row.description ?? ''),
+    amount: row.amount !== undefined
+      ? Number(row.amount) || 0
+      : (Number(row.debit) || 0) - (Number(row.credit) || 0),
+    transactionType: row.transactionType ? String(row.transactionType) : undefined,
+  }));
+
+  const { error: cacheError } = await admin.from('accurate_journal_cache').upsert(
+    {
+      entity_id: entityId,
+      account_code: accountNo,
+      from_period: fromPeriod,
+      to_period: toPeriod,
+      dimension_key: toDimensionKey(dimension),
+      entries,
+      fetched_at: new Date().toISOString(),
+    },
+    { onConflict: 'entity_id,account_code,from_period,to_period,dimension_key' }
+  );
+
+  // Cache gagal disimpan bukan alasan menolak data yang sudah didapat
+  if (cacheError) console.warn('[accurate-fetch-journal-entries] Cache write failed:', cacheError);
+
+  return { success: true, entries, total: entries.length };
+});
@@ -0,0 +1,30 @@
+import { authorizeEntity } from '../_shared/auth.ts';
+import {
+  createAccurateClient,
+  getDimensionParams,
+  getEntityCredential,
+  getPeriodDates,
+  toAccountAmount,
+} from '../_shared/accurate.ts';
+import { serveJson } from '../_shared/http.ts';
+
+/**
+ * Mutasi akun laba rugi selama satu periode. Body: { entityId, period: "YYYY-MM", dimension? }.
+ * Dengan `dimension` mutasi hanya untuk departemen / proyek tersebut.
+ */
+
+serveJson('accurate-fetch-pl-accounts', async (req, body) => {
+  const { entityId, period, dimension } = body;
+  const { admin } = await authorizeEntity(req, entityId);
+  const { fromDate, toDate } = getPeriodDates(String(period));
+
+  const accurate = await createAccurateClient(await getEntityCredential(admin, entityId as string));
+  const result = await accurate.get('glaccount/get-pl-account-amount.do', {
+    fromDate,
+    toDate,
+    ...getDimensionParams(dimension),
+  });
+
+  const accounts = (result.d || []).map(toAccountAmount);
+  return { success: true, accounts, total: accounts.length, period, fromDate, toDate };
+});
@@ -0,0 +1,211 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import { authorizeEntity } from '../_shared/auth.ts';
+import { errorMessage, HttpError, serveJson } from '../_shared/http.ts';
+
+/**
+ * OAuth Accurate per entitas.
+ *
+ * - exchangeCode: tukar authorization code (client secret hanya di server),
+ *   simpan access & refresh token di accurate_oauth_tokens (server-only) dan
+ *   status sesi di accurate_oauth_sessions. expires_at dihitung dari expires_in.
+ * - refresh: perpanjang token memakai refresh token tersimpan. Dipanggil client
+ *   atau refresh-accurate-oauth (service role). Refresh token yang ditolak
+ *   Accurate menandai sesi REVOKED, kegagalan lain REFRESH_FAILED.
+ * - listDatabases: daftar database akun Accurate memakai access token entitas.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  user?: { email?: string };
+}
+
+class OAuthTokenError extends Error {
+  revoked: boolean;
+
+  constructor(message: string, revoked: boolean) {
+    super(message);
+    this.revoked = revoked;
+  }
+}
+
+const ACCURATE_ACCOUNT_URL = 'https://account.accurate.id';
+const SESSION_COLUMNS = 'entity_id, status, expires_at, accurate_email, last_refreshed_at, last_error, updated_at';
+
+// Error token endpoint yang berarti grant sudah tidak berlaku (consent dicabut / token diganti)
+const REVOKED_ERRORS = ['invalid_grant', 'invalid_token', 'unauthorized_client'];
+
+// Default masa berlaku jika Accurate tidak mengirim expires_in (±15 hari)
+const DEFAULT_EXPIRES_IN_SECONDS = 15 * 24 * 60 * 60;
+
+// ============================================
+// ACCURATE OAUTH
+// ============================================
+
+async function requestToken(params: Record<string, string>): Promise<TokenResponse> {
+  const clientId = Deno.env.get('ACCURATE_CLIENT_ID') ?? '';
+  const clientSecret = Deno.env.get('ACCURATE_CLIENT_SECRET') ?? '';
+  if (!clientId || !clientSecret) throw new Error('Client Accurate belum dikonfigurasi di server');
+
+  const response = await fetch(`${ACCURATE_ACCOUNT_URL}/oauth/token`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(params),
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body?.access_token) {
+    const code = String(body?.error || '');
+    const revoked = response.status === 401 || REVOKED_ERRORS.includes(code);
+    const detail = [code, body?.error_description].filter(Boolean).join(': ') || response.statusText;
+    throw new OAuthTokenError(`Accurate OAuth error (${response.status}): ${detail}`, revoked);
+  }
+
+  return body as TokenResponse;
+}
+
+const getExpiresAt = (token: TokenResponse): string => {
+  const expiresIn = Number(token.expires_in) > 0 ? Number(token.expires_in) : DEFAULT_EXPIRES_IN_SECONDS;
+  return new Date(Date.now() + expiresIn * 1000).toISOString();
+};
+
+// ============================================
+// STORE
+// ============================================
+
+async function saveToken(admin: SupabaseClient, entityId: string, token: TokenResponse, previousRefreshToken?: string) {
+  const now = new Date().toISOString();
+  const expiresAt = getExpiresAt(token);
+
+  // Accurate tidak selalu merotasi refresh token; pakai yang lama jika tidak dikirim
+  const refreshToken = token.refresh_token || previousRefreshToken;
+  if (!refreshToken) throw new Error('Accurate tidak mengirim refresh token');
+
+  const { error: tokenError } = await admin.from('accurate_oauth_tokens').upsert({
+    entity_id: entityId,
+    access_token: token.access_token,
+    refresh_token: refreshToken,
+    expires_at: expiresAt,
+    updated_at: now,
+  });
+  if (tokenError) throw tokenError;
+
+  const { data: session, error: sessionError } = await admin
+    .from('accurate_oauth_sessions')
+    .upsert({
+      entity_id: entityId,
+      status: 'ACTIVE',
+      expires_at: expiresAt,
+      ...(token.user?.email ? { accurate_email: token.user.email } : {}),
+      last_refreshed_at: now,
+      last_error: null,
+      updated_at: now,
+    })
+    .select(SESSION_COLUMNS)
+    .single();
+  if (sessionError) throw sessionError;
+
+  return session;
+}
+
+async function markSessionFailed(admin: SupabaseClient, entityId: string, status: string, message: string) {
+  const { data: session, error } = await admin
+    .from('accurate_oauth_sessions')
+    .update({ status, last_error: message, updated_at: new Date().toISOString() })
+    .eq('entity_id', entityId)
+    .select(SESSION_COLUMNS)
+    .maybeSingle();
+
+  if (error) console.error('[accurate-oauth] Failed to mark session:', entityId, error);
+  return session;
+}
+
+async function getStoredToken(admin: SupabaseClient, entityId: string) {
+  const { data, error } = await admin
+    .from('accurate_oauth_tokens')
+    .select('access_token, refresh_token, expires_at')
+    .eq('entity_id', entityId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new HttpError(400, 'Entitas belum terhubung ke Accurate');
+  return data as { access_token: string; refresh_token: string; expires_at: string };
+}
+
+// ============================================
+// HANDLER
+// ============================================
+
+serveJson('accurate-oauth', async (req, body) => {
+  const { action, entityId, code } = body;
+
+  if (action === 'exchangeCode') {
+    if (typeof code !== 'string' || !code) throw new HttpError(400, 'Authorization code kosong');
+
+    const { admin } = await authorizeEntity(req, entityId, 'MANAGE_ENTITY');
+    const token = await requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: Deno.env.get('ACCURATE_REDIRECT_URI') ?? '',
+    });
+    const session = await saveToken(admin, entityId as string, token);
+
+    console.log('[accurate-oauth] Connected entity:', entityId);
+    return { success: true, session };
+  }
+
+  if (action === 'refresh') {
+    const { admin } = await authorizeEntity(req, entityId);
+    const stored = await getStoredToken(admin, entityId as string);
+
+    try {
+      const token = await requestToken({ grant_type: 'refresh_token', refresh_token: stored.refresh_token });
+      const session = await saveToken(admin, entityId as string, token, stored.refresh_token);
+
+      console.log('[accurate-oauth] Refreshed entity:', entityId);
+      return { success: true, session };
+    } catch (error) {
+      const message = errorMessage(error);
+      const revoked = error instanceof OAuthTokenError && error.revoked;
+      console.error('[accurate-oauth] Refresh failed for entity:', entityId, revoked ? '(revoked)' : '', message);
+
+      const session = await markSessionFailed(admin, entityId as string, revoked ? 'REVOKED' : 'REFRESH_FAILED', message);
+      return { success: false, error: message, session };
+    }
+  }
+
+  if (action === 'listDatabases') {
+    const { admin } = await authorizeEntity(req, entityId, 'MANAGE_ENTITY');
+    const stored = await getStoredToken(admin, entityId as string);
+
+    const response = await fetch(`${ACCURATE_ACCOUNT_URL}/api/db-list.do`, {
+      headers: { Authorization: `Bearer ${stored.access_token}` },
+    });
+    const result = await response.json().catch(() => null);
+
+    if (response.status === 401) {
+      await markSessionFailed(admin, entityId as string, 'REVOKED', 'Access token ditolak Accurate');
+      throw new HttpError(401, 'Akses Accurate dicabut. Hubungkan ulang Accurate.');
+    }
+    if (!response.ok || !result?.s) {
+      throw new Error(`Accurate API error (${response.status}): ${result?.d || response.statusText}`);
+    }
+
+    const databases = ((result.d || []) as Record<string, unknown>[]).map((db) => ({
+      id: Number(db.id),
+      name: String(db.alias ?? db.name ?? db.id),
+      alias: db.alias ? String(db.alias) : undefined,
+    }));
+    return { success: true, databases };
+  }
+
+  throw new HttpError(400, `Action tidak dikenal: ${String(action)}`);
+});
@@ -0,0 +1,27 @@
+import { createAdminClient, authorizeCaller, authorizeEntity } from '../_shared/auth.ts';
+import { getApiTokenInfo, getEntityCredential, getHmacSecret, getTokenDatabase } from '../_shared/accurate.ts';
+import { HttpError, serveJson } from '../_shared/http.ts';
+
+/**
+ * Validasi API Token Accurate: token baru yang diketik user (`{ apiToken }`)
+ * atau token tersimpan milik entitas (`{ entityId }`).
+ * Respons mengikuti format Accurate { s, d: [database] } yang dibaca
+ * parseAccurateResponse di frontend; token tidak valid → HTTP 401.
+ */
+
+serveJson('accurate-validate', async (req, body) => {
+  const { apiToken, entityId } = body;
+
+  let credential;
+  if (typeof apiToken === 'string') {
+    if (apiToken.trim().length < 10) throw new HttpError(400, 'API Token terlalu pendek atau kosong');
+    await authorizeCaller(req);
+    credential = { apiToken: apiToken.trim(), hmacSecret: await getHmacSecret(createAdminClient()) };
+  } else {
+    const { admin } = await authorizeEntity(req, entityId);
+    credential = await getEntityCredential(admin, entityId as string);
+  }
+
+  const info = await getApiTokenInfo(credential);
+  return { s: true, d: [getTokenDatabase(info)] };
+});
@@ -0,0 +1,22 @@
+import { authorizeEntity } from '../_shared/auth.ts';
+import { evaluateEntityAlerts } from '../_shared/alertEvaluation.ts';
+import { HttpError, serveJson } from '../_shared/http.ts';
+
+/**
+ * Evaluasi alert rule entitas setelah realisasi / alokasi budget berubah.
+ * Body: { entityId, periods: ["YYYY-MM"] }. Notifikasi untuk user lain hanya
+ * ditulis di sini (service role), bukan dari browser.
+ */
+
+serveJson('evaluate-alerts', async (req, body) => {
+  const { entityId, periods } = body;
+  if (!Array.isArray(periods) || !periods.every((period) => typeof period === 'string' && /^\d{4}-\d{2}$/.test(period))) {
+    throw new HttpError(400, 'Format periode tidak valid. Gunakan format YYYY-MM');
+  }
+
+  const { admin } = await authorizeEntity(req, entityId);
+  const created = await evaluateEntityAlerts(admin, entityId as string, periods as string[]);
+
+  console.log('[evaluate-alerts] New notifications:', created, 'for entity:', entityId);
+  return { success: true, created };
+});
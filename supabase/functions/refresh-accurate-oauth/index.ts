@@ -0,0 +1,73 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+/**
+ * Perpanjang token OAuth Accurate semua entitas yang mendekati kedaluwarsa.
+ * Dipanggil pg_cron (migration schedule_oauth_refresh) dengan service role key,
+ * jadi token tetap diperpanjang walaupun tidak ada user yang membuka aplikasi.
+ * Refresh per entitas memakai action `refresh` edge function accurate-oauth
+ * (dipanggil dengan service role), yang menyimpan token baru & status sesi.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+interface OAuthSessionRow {
+  entity_id: string;
+  status: string;
+  expires_at: string;
+}
+
+// Sama dengan OAUTH_REFRESH_MARGIN_MS di frontend (1 hari sebelum kedaluwarsa)
+const REFRESH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// HANDLER
+// ============================================
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  // Hanya scheduler (service role) yang boleh memicu refresh massal
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return Response.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+  const refreshBefore = new Date(Date.now() + REFRESH_MARGIN_MS).toISOString();
+
+  const { data: sessions, error } = await supabase
+    .from('accurate_oauth_sessions')
+    .select('entity_id, status, expires_at')
+    .eq('status', 'ACTIVE')
+    .lt('expires_at', refreshBefore);
+
+  if (error) {
+    console.error('[refresh-accurate-oauth] Error loading sessions:', error);
+    return Response.json({ success: false, error: error.message }, { status: 500 });
+  }
+
+  const due = (sessions || []) as OAuthSessionRow[];
+  const failed: { entityId: string; error: string }[] = [];
+  let refreshed = 0;
+
+  for (const session of due) {
+    try {
+      const { data, error: refreshError } = await supabase.functions.invoke('accurate-oauth', {
+        body: { action: 'refresh', entityId: session.entity_id },
+      });
+
+      if (refreshError) throw refreshError;
+      if (!data?.success) throw new Error(data?.error || 'Gagal memperpanjang token Accurate');
+      refreshed++;
+    } catch (err) {
+      // Status REVOKED / REFRESH_FAILED sudah ditandai accurate-oauth
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('[refresh-accurate-oauth] Failed for entity:', session.entity_id, message);
+      failed.push({ entityId: session.entity_id, error: message });
+    }
+  }
+
+  console.log(`[refresh-accurate-oauth] Refreshed ${refreshed} of ${due.length} due sessions`);
+  return Response.json({ success: failed.length === 0, data: { due: due.length, refreshed, failed } });
+});
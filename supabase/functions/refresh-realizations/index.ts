@@ -0,0 +1,56 @@
+import { authorizeEntity, requireServiceRole } from '../_shared/auth.ts';
+import { addMonths } from '../_shared/budgetPhasing.ts';
+import { HttpError, errorMessage, serveJson } from '../_shared/http.ts';
+import { getCurrentPeriod, refreshEntityRealizations } from '../_shared/realizationRefresh.ts';
+
+/**
+ * Refresh realisasi budget dari Accurate.
+ *
+ * * Manual (halaman realisasi): body { entityId, periods: ["YYYY-MM"] },
+ *   pemanggil harus anggota entitas.
+ * * Terjadwal (pg_cron, migration schedule_refresh_realizations): body kosong
+ *   dengan service role key; semua entitas yang punya API token di-refresh
+ *   untuk bulan berjalan dan bulan sebelumnya (closing).
+ */
+
+serveJson('refresh-realizations', async (req, body) => {
+  const { entityId, periods } = body;
+
+  if (entityId !== undefined) {
+    if (!Array.isArray(periods) || periods.length === 0 || !periods.every((period) => typeof period === 'string' && /^\d{4}-\d{2}$/.test(period))) {
+      throw new HttpError(400, 'Format periode tidak valid. Gunakan format YYYY-MM');
+    }
+
+    const { admin } = await authorizeEntity(req, entityId);
+    const result = await refreshEntityRealizations(admin, entityId as string, periods as string[], 'MANUAL');
+    return { success: true, ...result };
+  }
+
+  const admin = requireServiceRole(req);
+  const current = getCurrentPeriod();
+  const scheduledPeriods = [addMonths(current, -1), current];
+
+  const { data: entities, error } = await admin
+    .from('entity')
+    .select('id')
+    .eq('has_api_token', true);
+
+  if (error) throw error;
+
+  const failed: { entityId: string; error: string }[] = [];
+  let refreshed = 0;
+
+  for (const entity of entities || []) {
+    try {
+      await refreshEntityRealizations(admin, entity.id, scheduledPeriods, 'SCHEDULED');
+      refreshed++;
+    } catch (err) {
+      // Entitas yang refresh-nya masih berjalan dilewati; kegagalan lain tercatat di realization_refresh_runs
+      console.error('[refresh-realizations] Failed for entity:', entity.id, errorMessage(err));
+      failed.push({ entityId: entity.id, error: errorMessage(err) });
+    }
+  }
+
+  console.log(`[refresh-realizations] Refreshed ${refreshed} of ${entities?.length || 0} entities`);
+  return { success: failed.length === 0, refreshed, failed };
+});
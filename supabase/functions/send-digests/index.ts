@@ -0,0 +1,125 @@
+import { requireServiceRole, userHasEntityAccess } from '../_shared/auth.ts';
+import { buildDigestEmail, getDigestPeriod, type DigestFrequency } from '../_shared/budgetDigest.ts';
+import { summarizeRealizations } from '../_shared/budgetRealization.ts';
+import { errorMessage, serveJson } from '../_shared/http.ts';
+import { getMailTransport } from '../_shared/mailTransport.ts';
+import { loadBudgetRealizations } from '../_shared/realizations.ts';
+
+/**
+ * Kirim digest budget vs realisasi yang jatuh tempo ke semua subscriber.
+ * Dipanggil pg_cron (migration schedule_send_digests) dengan service role key,
+ * jadi digest tetap terkirim walaupun subscriber tidak membuka aplikasi.
+ * Angka & isi email memakai modul yang sama dengan tombol "kirim sekarang"
+ * di frontend. Subscriber yang sudah tidak punya akses ke entitas tidak
+ * dikirimi dan langganannya dinonaktifkan.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+interface DigestSubscription {
+  id: string;
+  user_id: string;
+  entity_id: string;
+  frequency: DigestFrequency;
+  email: string;
+  is_active: boolean;
+  last_sent_at: string | null;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const toPeriod = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const isDigestDue = (subscription: DigestSubscription, now: Date): boolean => {
+  if (!subscription.is_active) return false;
+  if (!subscription.last_sent_at) return true;
+
+  const lastSent = new Date(subscription.last_sent_at);
+  if (subscription.frequency === 'WEEKLY') {
+    return now.getTime() - lastSent.getTime() >= WEEK_MS;
+  }
+  return toPeriod(lastSent) < toPeriod(now);
+};
+
+// ============================================
+// HANDLER
+// ============================================
+
+serveJson('send-digests', async (req) => {
+  // Hanya scheduler (service role) yang boleh memicu pengiriman massal
+  const admin = requireServiceRole(req);
+  const transport = getMailTransport();
+  const now = new Date();
+
+  const { data: subscriptions, error } = await admin
+    .from('digest_subscriptions')
+    .select('id, user_id, entity_id, frequency, email, is_active, last_sent_at')
+    .eq('is_active', true);
+
+  if (error) throw error;
+
+  const due = ((subscriptions || []) as DigestSubscription[]).filter((s) => isDigestDue(s, now));
+  const failed: { id: string; error: string }[] = [];
+  let sent = 0;
+  let revoked = 0;
+
+  for (const subscription of due) {
+    try {
+      if (!(await userHasEntityAccess(admin, subscription.entity_id, subscription.user_id))) {
+        const { error: revokeError } = await admin
+          .from('digest_subscriptions')
+          .update({ is_active: false, updated_at: now.toISOString() })
+          .eq('id', subscription.id);
+
+        if (revokeError) throw revokeError;
+        console.log('[send-digests] Subscriber no longer has access, deactivated:', subscription.id);
+        revoked++;
+        continue;
+      }
+
+      const { data: entity, error: entityError } = await admin
+        .from('entity')
+        .select('entity_name')
+        .eq('id', subscription.entity_id)
+        .single();
+
+      if (entityError) throw entityError;
+
+      const period = getDigestPeriod(subscription.frequency, now);
+      const realizations = await loadBudgetRealizations(admin, subscription.entity_id, period);
+
+      const message = buildDigestEmail(subscription.email, subscription.frequency, [
+        {
+          entityName: entity.entity_name || 'Entitas',
+          period,
+          summary: summarizeRealizations(realizations, subscription.entity_id, period),
+          realizations,
+        },
+      ]);
+
+      const result = await transport.send(message);
+      if (!result.success) throw new Error(result.error || 'Gagal mengirim email');
+
+      const { error: updateError } = await admin
+        .from('digest_subscriptions')
+        .update({ last_sent_at: now.toISOString() })
+        .eq('id', subscription.id);
+
+      if (updateError) throw updateError;
+      sent++;
+    } catch (err) {
+      console.error('[send-digests] Failed for subscription:', subscription.id, errorMessage(err));
+      failed.push({ id: subscription.id, error: errorMessage(err) });
+    }
+  }
+
+  console.log(`[send-digests] Sent ${sent} of ${due.length} due digests (${revoked} deactivated)`);
+  return { success: failed.length === 0, due: due.length, sent, revoked, failed };
+});
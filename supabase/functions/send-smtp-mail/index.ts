@@ -0,0 +1,43 @@
+import { authorizeCaller } from '../_shared/auth.ts';
+import { HttpError, serveJson } from '../_shared/http.ts';
+import { createSmtpTransport } from '../_shared/mailTransport.ts';
+
+/**
+ * Kirim satu email lewat SMTP server (transport `smtp` di frontend, misalnya
+ * tombol "kirim sekarang" digest). Body: { to, subject, html, text }.
+ * User hanya boleh mengirim ke email digest miliknya sendiri agar function ini
+ * tidak menjadi relay terbuka; service role bebas.
+ */
+
+serveJson('send-smtp-mail', async (req, body) => {
+  const { to, subject, html, text } = body;
+  if ([to, subject, html, text].some((value) => typeof value !== 'string') || !String(to).includes('@')) {
+    throw new HttpError(400, 'Email tidak lengkap');
+  }
+
+  const { admin, userId } = await authorizeCaller(req);
+
+  if (userId) {
+    const { data: subscriptions, error } = await admin
+      .from('digest_subscriptions')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('email', to)
+      .limit(1);
+
+    if (error) throw error;
+    if (!subscriptions?.length) {
+      throw new HttpError(403, 'Akses ditolak: alamat email bukan penerima digest Anda');
+    }
+  }
+
+  const result = await createSmtpTransport().send({
+    to: to as string,
+    subject: subject as string,
+    html: html as string,
+    text: text as string,
+  });
+
+  if (!result.success) throw new Error(result.error || 'Gagal mengirim email');
+  return { success: true };
+});
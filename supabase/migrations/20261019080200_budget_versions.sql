@@ -0,0 +1,20 @@
+-- Versi budget (Original, Revision, Forecast): snapshot item budget dalam
+-- bentuk jsonb agar versi lama tidak ikut berubah saat item diedit.
+-- Versi tidak pernah diubah atau dihapus; RLS ada di migration
+-- workspace_roles_rls.
+
+create table if not exists public.budget_versions (
+  id uuid primary key default gen_random_uuid(),
+  budget_id uuid not null references public.budgets (id) on delete cascade,
+  version_type text not null check (version_type in ('ORIGINAL', 'REVISION', 'FORECAST')),
+  version_number integer not null default 0,
+  name text not null,
+  total_budget numeric not null default 0,
+  items jsonb not null default '[]'::jsonb,
+  note text,
+  created_at timestamptz not null default now(),
+  unique (budget_id, version_type, version_number)
+);
+
+create index if not exists budget_versions_budget_id_idx
+  on public.budget_versions (budget_id, created_at);
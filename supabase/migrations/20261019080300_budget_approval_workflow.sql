@@ -0,0 +1,135 @@
+-- Workflow approval budget: DRAFT → SUBMITTED → APPROVED → LOCKED.
+--
+-- Status & riwayat hanya ditulis RPC transition_budget_status dalam satu
+-- transaksi, sehingga budget_approvals selalu sinkron dengan status budget.
+-- Pengaju terakhir disimpan di budgets.submitted_by dan tidak boleh menyetujui
+-- pengajuannya sendiri (four-eyes); aturan ini juga dicek trigger
+-- enforce_budget_update. RLS budget_approvals ada di migration workspace_roles_rls.
+
+-- ============================================
+-- SCHEMA
+-- ============================================
+
+alter table public.budgets add column if not exists approval_status text not null default 'DRAFT';
+alter table public.budgets add column if not exists status_comment text;
+alter table public.budgets add column if not exists submitted_at timestamptz;
+alter table public.budgets add column if not exists submitted_by uuid references auth.users (id) on delete set null;
+alter table public.budgets add column if not exists approved_at timestamptz;
+alter table public.budgets add column if not exists approved_by uuid references auth.users (id) on delete set null;
+
+alter table public.budgets drop constraint if exists budgets_approval_status_check;
+alter table public.budgets add constraint budgets_approval_status_check
+  check (approval_status in ('DRAFT', 'SUBMITTED', 'APPROVED', 'LOCKED'));
+
+create table if not exists public.budget_approvals (
+  id uuid primary key default gen_random_uuid(),
+  budget_id uuid not null references public.budgets (id) on delete cascade,
+  action text not null check (action in ('SUBMIT', 'APPROVE', 'REJECT', 'LOCK', 'REOPEN')),
+  from_status text not null,
+  to_status text not null,
+  comment text,
+  user_id uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists budget_approvals_budget_id_idx
+  on public.budget_approvals (budget_id, created_at desc);
+
+-- ============================================
+-- RPC
+-- ============================================
+
+-- Transisi sama dengan TRANSITIONS di services/budgetWorkflow.ts.
+-- p_from_status = status yang dilihat client; jika sudah berubah (reviewer
+-- lain lebih dulu memproses) transisi ditolak.
+create or replace function public.transition_budget_status(
+  p_budget_id uuid,
+  p_action text,
+  p_from_status text,
+  p_comment text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_budget budgets;
+  v_from text;
+  v_to text;
+  v_comment text := nullif(trim(coalesce(p_comment, '')), '');
+begin
+  if auth.uid() is null then
+    raise exception 'User not authenticated';
+  end if;
+
+  select * into v_budget from budgets where id = p_budget_id for update;
+  if not found then
+    raise exception 'Budget tidak ditemukan';
+  end if;
+
+  v_from := coalesce(v_budget.approval_status, 'DRAFT');
+  if v_from is distinct from p_from_status then
+    raise exception 'Status budget sudah berubah, muat ulang data';
+  end if;
+
+  v_to := case
+    when p_action = 'SUBMIT' and v_from = 'DRAFT' then 'SUBMITTED'
+    when p_action = 'APPROVE' and v_from = 'SUBMITTED' then 'APPROVED'
+    when p_action = 'REJECT' and v_from = 'SUBMITTED' then 'DRAFT'
+    when p_action = 'LOCK' and v_from = 'APPROVED' then 'LOCKED'
+    when p_action = 'REOPEN' and v_from = 'APPROVED' then 'DRAFT'
+  end;
+
+  if v_to is null then
+    raise exception 'Aksi % tidak valid untuk budget berstatus %', p_action, v_from;
+  end if;
+
+  if p_action = 'SUBMIT' then
+    if not public.can_edit_budget(p_budget_id) then
+      raise exception 'Akses ditolak: tidak dapat mengajukan budget ini';
+    end if;
+  elsif not public.has_entity_permission(v_budget.entity_id, 'APPROVE_BUDGET') then
+    raise exception 'Akses ditolak: peran Anda tidak dapat menyetujui budget';
+  end if;
+
+  if p_action = 'REJECT' and v_comment is null then
+    raise exception 'Komentar penolakan harus diisi';
+  end if;
+
+  if p_action = 'APPROVE' and v_budget.submitted_by = auth.uid() then
+    raise exception 'Budget tidak bisa disetujui oleh user yang mengajukannya';
+  end if;
+
+  -- Penanda untuk enforce_budget_update: perubahan status lewat RPC ini
+  perform set_config('app.budget_transition', 'on', true);
+
+  update budgets
+  set approval_status = v_to,
+      status_comment = case when p_action = 'REJECT' then v_comment end,
+      submitted_at = case when p_action = 'SUBMIT' then now() else submitted_at end,
+      submitted_by = case when p_action = 'SUBMIT' then auth.uid() else submitted_by end,
+      approved_at = case
+        when p_action = 'APPROVE' then now()
+        when p_action = 'REOPEN' then null
+        else approved_at
+      end,
+      approved_by = case
+        when p_action = 'APPROVE' then auth.uid()
+        when p_action = 'REOPEN' then null
+        else approved_by
+      end,
+      updated_at = now()
+  where id = p_budget_id
+  returning * into v_budget;
+
+  perform set_config('app.budget_transition', 'off', true);
+
+  insert into budget_approvals (budget_id, action, from_status, to_status, comment, user_id)
+  values (p_budget_id, p_action, v_from, v_to, v_comment, auth.uid());
+
+  return to_jsonb(v_budget);
+end;
+$$;
+
+grant execute on function public.transition_budget_status(uuid, text, text, text) to authenticated;
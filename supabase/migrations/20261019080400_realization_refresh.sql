@@ -0,0 +1,43 @@
+-- Refresh realisasi budget dari Accurate (edge function refresh-realizations).
+--
+-- budget_items menyimpan realisasi terakhir (monthly_realisasi = mutasi per
+-- bulan untuk budget FISCAL_YEAR); setiap nilai baru juga dicatat di
+-- budget_item_realisasi_history. realization_refresh_runs mencatat setiap
+-- eksekusi; unique index RUNNING menjadi kunci agar satu entitas hanya punya
+-- satu refresh berjalan. Kedua tabel hanya ditulis edge function; RLS ada di
+-- migration workspace_roles_rls.
+
+alter table public.budget_items add column if not exists monthly_realisasi numeric[];
+alter table public.budget_items add column if not exists realisasi_synced_at timestamptz;
+
+create table if not exists public.realization_refresh_runs (
+  id uuid primary key default gen_random_uuid(),
+  entity_id uuid not null references public.entity (id) on delete cascade,
+  periods text[] not null,
+  trigger text not null check (trigger in ('MANUAL', 'SCHEDULED')),
+  status text not null check (status in ('RUNNING', 'SUCCESS', 'PARTIAL', 'FAILED')),
+  updated_items integer not null default 0,
+  error_message text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists realization_refresh_runs_entity_id_idx
+  on public.realization_refresh_runs (entity_id, started_at desc);
+
+create unique index if not exists realization_refresh_runs_running_idx
+  on public.realization_refresh_runs (entity_id)
+  where status = 'RUNNING';
+
+create table if not exists public.budget_item_realisasi_history (
+  id uuid primary key default gen_random_uuid(),
+  budget_item_id uuid not null references public.budget_items (id) on delete cascade,
+  budget_id uuid not null references public.budgets (id) on delete cascade,
+  realisasi numeric not null default 0,
+  allocated_amount numeric not null default 0,
+  trigger text not null check (trigger in ('MANUAL', 'SCHEDULED')),
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists budget_item_realisasi_history_item_idx
+  on public.budget_item_realisasi_history (budget_item_id, recorded_at);
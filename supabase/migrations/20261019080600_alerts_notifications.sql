@@ -0,0 +1,43 @@
+-- Rule alert pemakaian budget per entitas dan inbox notifikasi per user.
+--
+-- Notifikasi dibuat edge function evaluate-alerts / refresh-realizations
+-- (service role); dedupe_key = rule:item:periode sehingga notifikasi yang sama
+-- tidak dibuat ulang untuk user yang sama. RLS ada di migration
+-- workspace_roles_rls.
+
+create table if not exists public.alert_rules (
+  id uuid primary key default gen_random_uuid(),
+  entity_id uuid not null references public.entity (id) on delete cascade,
+  name text not null,
+  threshold_percent numeric not null check (threshold_percent > 0),
+  severity text not null default 'WARNING' check (severity in ('WARNING', 'CRITICAL')),
+  account_type text,
+  budget_name text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists alert_rules_entity_id_idx on public.alert_rules (entity_id);
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  entity_id uuid not null references public.entity (id) on delete cascade,
+  rule_id uuid references public.alert_rules (id) on delete set null,
+  budget_id uuid references public.budgets (id) on delete cascade,
+  budget_item_id uuid references public.budget_items (id) on delete cascade,
+  severity text not null check (severity in ('WARNING', 'CRITICAL')),
+  title text not null,
+  message text not null,
+  period text,
+  budget_name text,
+  utilization_percent numeric,
+  dedupe_key text not null,
+  is_read boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (user_id, dedupe_key)
+);
+
+create index if not exists notifications_user_id_idx
+  on public.notifications (user_id, created_at desc);
@@ -0,0 +1,21 @@
+-- Langganan digest budget vs realisasi per user & entitas.
+--
+-- Digest terjadwal dikirim edge function send-digests (pg_cron), yang
+-- mengecek ulang akses subscriber ke entitas sebelum mengirim. RLS ada di
+-- migration workspace_roles_rls.
+
+create table if not exists public.digest_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  entity_id uuid not null references public.entity (id) on delete cascade,
+  frequency text not null default 'WEEKLY' check (frequency in ('WEEKLY', 'MONTHLY')),
+  email text not null check (position('@' in email) > 1),
+  is_active boolean not null default true,
+  last_sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, entity_id)
+);
+
+create index if not exists digest_subscriptions_active_idx
+  on public.digest_subscriptions (is_active, last_sent_at);
@@ -0,0 +1,16 @@
+-- Template budget per entitas: struktur akun & alokasi tanpa periode
+-- (format item sama dengan budget_versions.items). RLS ada di migration
+-- workspace_roles_rls.
+
+create table if not exists public.budget_templates (
+  id uuid primary key default gen_random_uuid(),
+  entity_id uuid not null references public.entity (id) on delete cascade,
+  name text not null,
+  description text,
+  period_type text not null default 'MONTHLY' check (period_type in ('MONTHLY', 'FISCAL_YEAR')),
+  total_budget numeric not null default 0,
+  items jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists budget_templates_entity_id_idx on public.budget_templates (entity_id);
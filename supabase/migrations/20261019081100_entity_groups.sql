@@ -0,0 +1,27 @@
+-- Grup konsolidasi milik user: satu holding + anak usaha, beserta mapping
+-- akun anak usaha ke akun holding dan penanda intercompany.
+-- RLS ada di migration workspace_roles_rls.
+
+create table if not exists public.entity_groups (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  holding_entity_id uuid not null references public.entity (id) on delete cascade,
+  entity_ids uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (holding_entity_id = any(entity_ids))
+);
+
+create index if not exists entity_groups_user_id_idx on public.entity_groups (user_id);
+
+create table if not exists public.consolidation_account_mappings (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.entity_groups (id) on delete cascade,
+  entity_id uuid not null references public.entity (id) on delete cascade,
+  account_code text not null,
+  target_account_code text not null,
+  is_intercompany boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (group_id, entity_id, account_code)
+);
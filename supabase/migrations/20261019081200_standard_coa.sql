@@ -0,0 +1,27 @@
+-- COA standar grup milik user dan mapping akun entitas ke akun standar
+-- (satu akun entitas = satu akun standar). RLS ada di migration
+-- workspace_roles_rls.
+
+create table if not exists public.standard_accounts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  code text not null,
+  name text not null,
+  account_type text,
+  created_at timestamptz not null default now(),
+  unique (user_id, code)
+);
+
+create table if not exists public.standard_account_mappings (
+  id uuid primary key default gen_random_uuid(),
+  entity_id uuid not null references public.entity (id) on delete cascade,
+  account_code text not null,
+  accurate_id text,
+  standard_account_id uuid not null references public.standard_accounts (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (entity_id, account_code)
+);
+
+create index if not exists standard_account_mappings_standard_idx
+  on public.standard_account_mappings (standard_account_id);
@@ -0,0 +1,29 @@
+-- Cost center / departemen per entitas, opsional ditautkan ke departemen
+-- atau proyek Accurate (realisasi di-fetch per dimensi tsb).
+--
+-- budgets.cost_center_id = default untuk semua item; budget_items.cost_center_id
+-- kosong = ikut budget. Menghapus cost center mengembalikan budget & item
+-- ke tanpa cost center. RLS ada di migration workspace_roles_rls.
+
+create table if not exists public.cost_centers (
+  id uuid primary key default gen_random_uuid(),
+  entity_id uuid not null references public.entity (id) on delete cascade,
+  code text not null,
+  name text not null,
+  is_active boolean not null default true,
+  accurate_dimension text check (accurate_dimension in ('DEPARTMENT', 'PROJECT')),
+  accurate_dimension_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (entity_id, code),
+  check ((accurate_dimension is null) = (accurate_dimension_id is null))
+);
+
+create index if not exists cost_centers_entity_id_idx on public.cost_centers (entity_id);
+
+alter table public.budgets
+  add column if not exists cost_center_id uuid references public.cost_centers (id) on delete set null;
+alter table public.budget_items
+  add column if not exists cost_center_id uuid references public.cost_centers (id) on delete set null;
+
+create index if not exists budget_items_cost_center_id_idx on public.budget_items (cost_center_id);
@@ -0,0 +1,15 @@
+-- Cache transaksi jurnal Accurate untuk drill-down realisasi (TTL di
+-- lib/journalDrilldown.ts). Ditulis hanya oleh edge function
+-- accurate-fetch-journal-entries; RLS baca ada di migration workspace_roles_rls.
+
+create table if not exists public.accurate_journal_cache (
+  id uuid primary key default gen_random_uuid(),
+  entity_id uuid not null references public.entity (id) on delete cascade,
+  account_code text not null,
+  from_period text not null,
+  to_period text not null,
+  dimension_key text not null default '',
+  entries jsonb not null default '[]'::jsonb,
+  fetched_at timestamptz not null default now(),
+  unique (entity_id, account_code, from_period, to_period, dimension_key)
+);
@@ -0,0 +1,14 @@
+-- Definisi laporan custom yang disimpan per user (config = ReportConfig di
+-- services/reportBuilder.ts). RLS ada di migration workspace_roles_rls.
+
+create table if not exists public.report_definitions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  description text,
+  config jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists report_definitions_user_id_idx on public.report_definitions (user_id);
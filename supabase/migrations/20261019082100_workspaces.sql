@@ -0,0 +1,48 @@
+-- Workspace tim: anggota dengan peran (Owner, Finance Admin, Budget Editor,
+-- Viewer) dan undangan via token. Entitas dengan workspace_id diakses sesuai
+-- peran anggota; entitas tanpa workspace tetap milik pembuatnya.
+--
+-- Keanggotaan hanya ditulis RPC di migration workspace_roles_rls, yang juga
+-- berisi helper peran dan seluruh RLS.
+
+create table if not exists public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid not null references auth.users (id),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.workspace_members (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('OWNER', 'FINANCE_ADMIN', 'BUDGET_EDITOR', 'VIEWER')),
+  created_at timestamptz not null default now(),
+  unique (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_id_idx on public.workspace_members (user_id);
+
+create table if not exists public.workspace_invites (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('OWNER', 'FINANCE_ADMIN', 'BUDGET_EDITOR', 'VIEWER')),
+  token uuid not null unique default gen_random_uuid(),
+  status text not null default 'PENDING' check (status in ('PENDING', 'ACCEPTED', 'REVOKED')),
+  invited_by uuid not null references auth.users (id),
+  expires_at timestamptz not null default now() + interval '7 days',
+  accepted_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists workspace_invites_workspace_id_idx
+  on public.workspace_invites (workspace_id, status);
+create index if not exists workspace_invites_email_idx
+  on public.workspace_invites (lower(email)) where status = 'PENDING';
+
+alter table public.entity
+  add column if not exists workspace_id uuid references public.workspaces (id);
+
+create index if not exists entity_workspace_id_idx on public.entity (workspace_id);
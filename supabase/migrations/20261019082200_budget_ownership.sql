@@ -0,0 +1,12 @@
+-- Owner & editor per budget. owner_id kosong = semua anggota dengan izin
+-- EDIT_BUDGET boleh mengisi; editor_ids = editor tambahan selain owner.
+-- approval_status ada di migration budget_approval_workflow. Aturan siapa
+-- yang boleh mengganti owner / editor ditegakkan trigger di migration
+-- workspace_roles_rls.
+
+alter table public.budgets
+  add column if not exists owner_id uuid references auth.users (id) on delete set null;
+alter table public.budgets
+  add column if not exists editor_ids uuid[] not null default '{}';
+
+create index if not exists budgets_owner_id_idx on public.budgets (owner_id);
@@ -0,0 +1,24 @@
+-- Audit trail perubahan data. Baris ditulis trigger audit_log_row (migration
+-- audit_log_triggers), bukan client; RLS juga ada di migration tsb.
+--
+-- entity_id / workspace_id sengaja tanpa foreign key agar riwayat tetap ada
+-- setelah entitas atau workspace dihapus. Baris tanpa entitas (anggota
+-- workspace) memakai workspace_id; definisi laporan pribadi tanpa keduanya.
+
+create table if not exists public.audit_logs (
+  id uuid primary key default gen_random_uuid(),
+  entity_id uuid,
+  workspace_id uuid,
+  table_name text not null,
+  record_id text,
+  action text not null check (action in ('CREATE', 'UPDATE', 'DELETE', 'IMPORT')),
+  actor_id uuid,
+  actor_email text,
+  before_data jsonb,
+  after_data jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_logs_entity_id_idx on public.audit_logs (entity_id, created_at desc);
+create index if not exists audit_logs_workspace_id_idx on public.audit_logs (workspace_id, created_at desc);
+create index if not exists audit_logs_actor_id_idx on public.audit_logs (actor_id, created_at desc);
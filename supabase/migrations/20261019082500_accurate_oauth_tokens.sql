@@ -0,0 +1,35 @@
+-- Token OAuth Accurate per entitas, disimpan & diperpanjang server.
+--
+-- accurate_oauth_tokens: access & refresh token, hanya dibaca edge function
+-- accurate-oauth (service role). accurate_oauth_sessions: status koneksi yang
+-- dibaca client; expires_at dihitung dari expires_in token endpoint.
+-- RLS sesi ada di migration workspace_roles_rls; refresh terjadwal di
+-- migration schedule_oauth_refresh.
+
+create table if not exists public.accurate_oauth_tokens (
+  entity_id uuid primary key references public.entity (id) on delete cascade,
+  access_token text not null,
+  refresh_token text not null,
+  expires_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.accurate_oauth_tokens enable row level security;
+revoke all on public.accurate_oauth_tokens from anon, authenticated;
+
+create table if not exists public.accurate_oauth_sessions (
+  entity_id uuid primary key references public.entity (id) on delete cascade,
+  status text not null default 'ACTIVE'
+    check (status in ('ACTIVE', 'EXPIRED', 'REVOKED', 'REFRESH_FAILED')),
+  expires_at timestamptz not null,
+  accurate_email text,
+  last_refreshed_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Dipakai refresh-accurate-oauth untuk mencari sesi yang mendekati kedaluwarsa
+create index if not exists accurate_oauth_sessions_due_idx
+  on public.accurate_oauth_sessions (expires_at)
+  where status = 'ACTIVE';
@@ -0,0 +1,21 @@
+-- Digest budget dikirim server setiap jam lewat edge function send-digests,
+-- bukan dari browser subscriber (yang hanya jalan selama mereka login).
+-- Butuh secret Vault `project_url` dan `service_role_key`.
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'send-budget-digests',
+  '0 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/send-digests',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,84 @@
+-- Terapkan diff workbook ke satu budget dalam satu transaksi: hapus, ubah
+-- dan tambah item, lalu samakan total_budget dengan jumlah alokasi item.
+-- SECURITY INVOKER: RLS budget_items & budgets tetap berlaku untuk pemanggil.
+
+create or replace function public.apply_budget_item_diff(
+  p_budget_id uuid,
+  p_removed_ids uuid[],
+  p_changed jsonb,
+  p_added jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_changed jsonb;
+  v_added jsonb;
+  v_changed_count integer;
+  v_total numeric;
+begin
+  select coalesce(approval_status, 'DRAFT') into v_status
+  from budgets
+  where id = p_budget_id
+  for update;
+
+  if not found then
+    raise exception 'Budget tidak ditemukan';
+  end if;
+
+  if v_status <> 'DRAFT' then
+    raise exception 'Budget berstatus % dan tidak dapat diubah', v_status;
+  end if;
+
+  delete from budget_items
+  where budget_id = p_budget_id
+    and id = any(coalesce(p_removed_ids, '{}'::uuid[]));
+
+  with updated as (
+    update budget_items i
+    set allocated_amount = r.allocated_amount,
+        description = r.description,
+        monthly_allocations = r.monthly_allocations,
+        updated_at = now()
+    from jsonb_populate_recordset(null::budget_items, coalesce(p_changed, '[]'::jsonb)) r
+    where i.id = r.id
+      and i.budget_id = p_budget_id
+    returning i.*
+  )
+  select count(*), coalesce(jsonb_agg(to_jsonb(updated)), '[]'::jsonb)
+  into v_changed_count, v_changed
+  from updated;
+
+  if v_changed_count <> jsonb_array_length(coalesce(p_changed, '[]'::jsonb)) then
+    raise exception 'Item budget sudah berubah, muat ulang workbook';
+  end if;
+
+  with inserted as (
+    insert into budget_items (
+      budget_id, account_id, accurate_id, account_code, account_name, account_type,
+      allocated_amount, realisasi_snapshot, phasing_method, monthly_allocations, description
+    )
+    select
+      p_budget_id, r.account_id, r.accurate_id, r.account_code, r.account_name, r.account_type,
+      r.allocated_amount, 0, r.phasing_method, r.monthly_allocations, r.description
+    from jsonb_populate_recordset(null::budget_items, coalesce(p_added, '[]'::jsonb)) r
+    returning *
+  )
+  select coalesce(jsonb_agg(to_jsonb(inserted)), '[]'::jsonb) into v_added from inserted;
+
+  update budgets
+  set total_budget = (
+        select coalesce(sum(allocated_amount), 0) from budget_items where budget_id = p_budget_id
+      ),
+      updated_at = now()
+  where id = p_budget_id
+  returning total_budget into v_total;
+
+  return jsonb_build_object('changed', v_changed, 'added', v_added, 'total_budget', v_total);
+end;
+$$;
+
+grant execute on function public.apply_budget_item_diff(uuid, uuid[], jsonb, jsonb) to authenticated;
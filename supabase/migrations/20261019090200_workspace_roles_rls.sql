@@ -0,0 +1,826 @@
+-- Peran workspace ditegakkan di database, bukan hanya di client.
+--
+-- * Helper peran: entity_role / workspace_role mengikuti resolveEntityRole,
+--   role_has_permission mengikuti ROLE_PERMISSIONS (services/workspaceRoles.ts).
+-- * Keanggotaan workspace hanya bisa ditulis lewat RPC SECURITY DEFINER
+--   (create_workspace, accept_workspace_invite, update_workspace_member_role,
+--   remove_workspace_member) yang memvalidasi token undangan & peran pemanggil.
+-- * RLS untuk entity, budgets, budget_items, accurate_accounts, cost_centers,
+--   accurate_journal_cache, accurate_oauth_sessions, alert_rules,
+--   notifications, realization_refresh_runs, budget_item_realisasi_history,
+--   digest_subscriptions, budget_versions, budget_templates, entity_groups,
+--   consolidation_account_mappings, standard_accounts,
+--   standard_account_mappings dan report_definitions; trigger membedakan
+--   perubahan workflow/ownership budget dan update realisasi item, dan budget
+--   baru selalu DRAFT.
+-- Service role (edge function, pg_cron) tetap bypass RLS dan tidak dicek trigger.
+
+-- ============================================
+-- HELPER PERAN
+-- ============================================
+
+create or replace function public.role_has_permission(p_role text, p_permission text)
+returns boolean
+language sql
+immutable
+as $$
+  select case p_role
+    when 'OWNER' then p_permission in ('MANAGE_MEMBERS', 'MANAGE_ENTITY', 'DELETE_ENTITY', 'EDIT_COA', 'EDIT_BUDGET', 'APPROVE_BUDGET')
+    when 'FINANCE_ADMIN' then p_permission in ('MANAGE_ENTITY', 'EDIT_COA', 'EDIT_BUDGET', 'APPROVE_BUDGET')
+    when 'BUDGET_EDITOR' then p_permission = 'EDIT_BUDGET'
+    else false
+  end;
+$$;
+
+create or replace function public.workspace_role(p_workspace_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role::text
+  from workspace_members
+  where workspace_id = p_workspace_id
+    and user_id = auth.uid();
+$$;
+
+-- Entitas di workspace mengikuti peran keanggotaan; pembuat hanya Owner
+-- untuk entitas pribadi (tanpa workspace)
+create or replace function public.entity_role(p_entity_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when e.workspace_id is null then case when e.user_id = auth.uid() then 'OWNER' end
+    else public.workspace_role(e.workspace_id)
+  end
+  from entity e
+  where e.id = p_entity_id;
+$$;
+
+create or replace function public.has_entity_permission(p_entity_id uuid, p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.role_has_permission(public.entity_role(p_entity_id), p_permission), false);
+$$;
+
+-- Sama dengan canEditBudgetContent: admin entitas, atau editor yang menjadi
+-- owner/editor budget (budget tanpa owner boleh diisi semua editor)
+create or replace function public.can_edit_budget(p_budget_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    public.has_entity_permission(b.entity_id, 'EDIT_BUDGET')
+      and (
+        public.has_entity_permission(b.entity_id, 'APPROVE_BUDGET')
+        or b.owner_id is null
+        or b.owner_id = auth.uid()
+        or auth.uid()::text = any(coalesce(b.editor_ids::text[], '{}'))
+      ),
+    false
+  )
+  from budgets b
+  where b.id = p_budget_id;
+$$;
+
+grant execute on function public.role_has_permission(text, text) to authenticated;
+grant execute on function public.workspace_role(uuid) to authenticated;
+grant execute on function public.entity_role(uuid) to authenticated;
+grant execute on function public.has_entity_permission(uuid, text) to authenticated;
+grant execute on function public.can_edit_budget(uuid) to authenticated;
+
+-- ============================================
+-- RPC KEANGGOTAAN WORKSPACE
+-- ============================================
+
+-- Buat workspace beserta Owner-nya dalam satu transaksi
+create or replace function public.create_workspace(p_name text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workspace workspaces;
+  v_email text;
+begin
+  if auth.uid() is null then
+    raise exception 'User not authenticated';
+  end if;
+
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'Nama workspace harus diisi';
+  end if;
+
+  select email into v_email from auth.users where id = auth.uid();
+
+  insert into workspaces (name, created_by)
+  values (trim(p_name), auth.uid())
+  returning * into v_workspace;
+
+  insert into workspace_members (workspace_id, user_id, email, role)
+  values (v_workspace.id, auth.uid(), lower(coalesce(v_email, '')), 'OWNER');
+
+  return to_jsonb(v_workspace);
+end;
+$$;
+
+-- Terima undangan: token, status, masa berlaku dan email divalidasi server;
+-- peran diambil dari undangan, bukan dari client
+create or replace function public.accept_workspace_invite(p_token text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite workspace_invites;
+  v_email text;
+begin
+  if auth.uid() is null then
+    raise exception 'User not authenticated';
+  end if;
+
+  select email into v_email from auth.users where id = auth.uid();
+
+  select * into v_invite
+  from workspace_invites
+  where token::text = p_token
+  for update;
+
+  if not found or v_invite.status <> 'PENDING' then
+    raise exception 'Undangan tidak ditemukan atau sudah tidak berlaku';
+  end if;
+
+  if v_invite.expires_at < now() then
+    raise exception 'Undangan sudah kedaluwarsa';
+  end if;
+
+  if lower(v_invite.email) <> lower(coalesce(v_email, '')) then
+    raise exception 'Undangan ini untuk %, bukan %', v_invite.email, v_email;
+  end if;
+
+  -- Anggota lama tetap dengan perannya sekarang
+  insert into workspace_members (workspace_id, user_id, email, role)
+  values (v_invite.workspace_id, auth.uid(), lower(v_email), v_invite.role)
+  on conflict (workspace_id, user_id) do nothing;
+
+  update workspace_invites
+  set status = 'ACCEPTED', accepted_at = now()
+  where id = v_invite.id
+  returning * into v_invite;
+
+  return to_jsonb(v_invite);
+end;
+$$;
+
+-- Ubah peran anggota (khusus Owner); Owner terakhir tidak bisa diturunkan
+create or replace function public.update_workspace_member_role(p_member_id uuid, p_role text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member workspace_members;
+begin
+  if p_role not in ('OWNER', 'FINANCE_ADMIN', 'BUDGET_EDITOR', 'VIEWER') then
+    raise exception 'Peran % tidak dikenal', p_role;
+  end if;
+
+  select * into v_member from workspace_members where id = p_member_id;
+  if not found then
+    raise exception 'Anggota workspace tidak ditemukan';
+  end if;
+
+  if not coalesce(public.role_has_permission(public.workspace_role(v_member.workspace_id), 'MANAGE_MEMBERS'), false) then
+    raise exception 'Akses ditolak: hanya Owner yang dapat mengelola anggota workspace';
+  end if;
+
+  -- Kunci daftar anggota agar dua perubahan bersamaan tidak menghapus Owner terakhir
+  perform 1 from workspace_members where workspace_id = v_member.workspace_id for update;
+
+  if p_role <> 'OWNER' and v_member.role = 'OWNER'
+    and (select count(*) from workspace_members where workspace_id = v_member.workspace_id and role = 'OWNER') = 1 then
+    raise exception 'Workspace harus punya minimal satu Owner';
+  end if;
+
+  update workspace_members
+  set role = p_role
+  where id = p_member_id
+  returning * into v_member;
+
+  return to_jsonb(v_member);
+end;
+$$;
+
+-- Keluarkan anggota (khusus Owner); Owner terakhir tidak bisa dikeluarkan
+create or replace function public.remove_workspace_member(p_member_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_member workspace_members;
+begin
+  select * into v_member from workspace_members where id = p_member_id;
+  if not found then
+    raise exception 'Anggota workspace tidak ditemukan';
+  end if;
+
+  if not coalesce(public.role_has_permission(public.workspace_role(v_member.workspace_id), 'MANAGE_MEMBERS'), false) then
+    raise exception 'Akses ditolak: hanya Owner yang dapat mengelola anggota workspace';
+  end if;
+
+  perform 1 from workspace_members where workspace_id = v_member.workspace_id for update;
+
+  if v_member.role = 'OWNER'
+    and (select count(*) from workspace_members where workspace_id = v_member.workspace_id and role = 'OWNER') = 1 then
+    raise exception 'Workspace harus punya minimal satu Owner';
+  end if;
+
+  delete from workspace_members where id = p_member_id;
+end;
+$$;
+
+grant execute on function public.create_workspace(text) to authenticated;
+grant execute on function public.accept_workspace_invite(text) to authenticated;
+grant execute on function public.update_workspace_member_role(uuid, text) to authenticated;
+grant execute on function public.remove_workspace_member(uuid) to authenticated;
+
+-- ============================================
+-- RLS
+-- ============================================
+
+-- Policy lama (berbasis user_id pembuat) diganti seluruhnya; policy
+-- permissive digabung OR sehingga policy lama akan melemahkan yang baru
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select policyname, tablename
+    from pg_policies
+    where schemaname = 'public'
+      and tablename in (
+        'workspaces', 'workspace_members', 'workspace_invites',
+        'entity', 'budgets', 'budget_items', 'budget_approvals', 'accurate_accounts',
+        'cost_centers', 'accurate_journal_cache', 'accurate_oauth_sessions',
+        'alert_rules', 'notifications', 'realization_refresh_runs',
+        'budget_item_realisasi_history', 'digest_subscriptions', 'budget_versions',
+        'budget_templates', 'entity_groups', 'consolidation_account_mappings',
+        'standard_accounts', 'standard_account_mappings', 'report_definitions'
+      )
+  loop
+    execute format('drop policy %I on public.%I', v_policy.policyname, v_policy.tablename);
+  end loop;
+end;
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invites enable row level security;
+alter table public.entity enable row level security;
+alter table public.budgets enable row level security;
+alter table public.budget_items enable row level security;
+alter table public.budget_approvals enable row level security;
+alter table public.accurate_accounts enable row level security;
+alter table public.cost_centers enable row level security;
+alter table public.accurate_journal_cache enable row level security;
+alter table public.accurate_oauth_sessions enable row level security;
+alter table public.alert_rules enable row level security;
+alter table public.notifications enable row level security;
+alter table public.realization_refresh_runs enable row level security;
+alter table public.budget_item_realisasi_history enable row level security;
+alter table public.digest_subscriptions enable row level security;
+alter table public.budget_versions enable row level security;
+alter table public.budget_templates enable row level security;
+alter table public.entity_groups enable row level security;
+alter table public.consolidation_account_mappings enable row level security;
+alter table public.standard_accounts enable row level security;
+alter table public.standard_account_mappings enable row level security;
+alter table public.report_definitions enable row level security;
+
+-- Workspace & anggota: baca untuk anggota (nama workspace juga untuk
+-- penerima undangan pending), tulis hanya lewat RPC di atas
+create policy workspaces_select on public.workspaces
+  for select to authenticated
+  using (
+    public.workspace_role(workspaces.id) is not null
+    or exists (
+      select 1 from public.workspace_invites i
+      where i.workspace_id = workspaces.id
+        and i.status = 'PENDING'
+        and lower(i.email) = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+create policy workspace_members_select on public.workspace_members
+  for select to authenticated
+  using (public.workspace_role(workspace_id) is not null);
+
+-- Undangan: dikelola Owner, dibaca juga oleh email yang diundang
+create policy workspace_invites_select on public.workspace_invites
+  for select to authenticated
+  using (
+    public.role_has_permission(public.workspace_role(workspace_id), 'MANAGE_MEMBERS')
+    or lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+create policy workspace_invites_insert on public.workspace_invites
+  for insert to authenticated
+  with check (
+    public.role_has_permission(public.workspace_role(workspace_id), 'MANAGE_MEMBERS')
+    and invited_by = auth.uid()
+    and status = 'PENDING'
+  );
+
+create policy workspace_invites_update on public.workspace_invites
+  for update to authenticated
+  using (public.role_has_permission(public.workspace_role(workspace_id), 'MANAGE_MEMBERS'))
+  with check (status = 'REVOKED');
+
+-- Entitas
+create policy entity_select on public.entity
+  for select to authenticated
+  using (public.entity_role(id) is not null);
+
+create policy entity_insert on public.entity
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and (workspace_id is null or public.role_has_permission(public.workspace_role(workspace_id), 'MANAGE_ENTITY'))
+  );
+
+create policy entity_update on public.entity
+  for update to authenticated
+  using (public.has_entity_permission(id, 'MANAGE_ENTITY'))
+  with check (
+    case
+      when workspace_id is null then user_id = auth.uid()
+      else public.role_has_permission(public.workspace_role(workspace_id), 'MANAGE_ENTITY')
+    end
+  );
+
+create policy entity_delete on public.entity
+  for delete to authenticated
+  using (public.has_entity_permission(id, 'DELETE_ENTITY'));
+
+-- COA
+create policy accurate_accounts_select on public.accurate_accounts
+  for select to authenticated
+  using (public.entity_role(entity_id) is not null);
+
+create policy accurate_accounts_insert on public.accurate_accounts
+  for insert to authenticated
+  with check (public.has_entity_permission(entity_id, 'EDIT_COA'));
+
+create policy accurate_accounts_update on public.accurate_accounts
+  for update to authenticated
+  using (public.has_entity_permission(entity_id, 'EDIT_COA'))
+  with check (public.has_entity_permission(entity_id, 'EDIT_COA'));
+
+create policy accurate_accounts_delete on public.accurate_accounts
+  for delete to authenticated
+  using (public.has_entity_permission(entity_id, 'EDIT_COA'));
+
+-- Cost center: dikelola peran dengan izin COA
+create policy cost_centers_select on public.cost_centers
+  for select to authenticated
+  using (public.entity_role(entity_id) is not null);
+
+create policy cost_centers_insert on public.cost_centers
+  for insert to authenticated
+  with check (public.has_entity_permission(entity_id, 'EDIT_COA'));
+
+create policy cost_centers_update on public.cost_centers
+  for update to authenticated
+  using (public.has_entity_permission(entity_id, 'EDIT_COA'))
+  with check (public.has_entity_permission(entity_id, 'EDIT_COA'));
+
+create policy cost_centers_delete on public.cost_centers
+  for delete to authenticated
+  using (public.has_entity_permission(entity_id, 'EDIT_COA'));
+
+-- Cache jurnal: dibaca anggota entitas, ditulis hanya edge function
+create policy accurate_journal_cache_select on public.accurate_journal_cache
+  for select to authenticated
+  using (public.entity_role(entity_id) is not null);
+
+revoke insert, update, delete on public.accurate_journal_cache from anon, authenticated;
+
+-- Sesi OAuth: status dibaca anggota entitas, ditulis hanya edge function accurate-oauth
+create policy accurate_oauth_sessions_select on public.accurate_oauth_sessions
+  for select to authenticated
+  using (public.entity_role(entity_id) is not null);
+
+revoke insert, update, delete on public.accurate_oauth_sessions from anon, authenticated;
+
+-- Rule alert: dibaca anggota entitas, dikelola peran dengan izin MANAGE_ENTITY
+create policy alert_rules_select on public.alert_rules
+  for select to authenticated
+  using (public.entity_role(entity_id) is not null);
+
+create policy alert_rules_insert on public.alert_rules
+  for insert to authenticated
+  with check (public.has_entity_permission(entity_id, 'MANAGE_ENTITY'));
+
+create policy alert_rules_update on public.alert_rules
+  for update to authenticated
+  using (public.has_entity_permission(entity_id, 'MANAGE_ENTITY'))
+  with check (public.has_entity_permission(entity_id, 'MANAGE_ENTITY'));
+
+create policy alert_rules_delete on public.alert_rules
+  for delete to authenticated
+  using (public.has_entity_permission(entity_id, 'MANAGE_ENTITY'));
+
+-- Notifikasi: hanya milik sendiri; dibuat edge function, user cukup
+-- menandai sudah dibaca
+create policy notifications_select on public.notifications
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy notifications_update on public.notifications
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+revoke insert, update, delete on public.notifications from anon, authenticated;
+grant update (is_read) on public.notifications to authenticated;
+
+-- Riwayat refresh & realisasi: dibaca anggota entitas, ditulis hanya edge
+-- function refresh-realizations
+create policy realization_refresh_runs_select on public.realization_refresh_runs
+  for select to authenticated
+  using (public.entity_role(entity_id) is not null);
+
+revoke insert, update, delete on public.realization_refresh_runs from anon, authenticated;
+
+create policy budget_item_realisasi_history_select on public.budget_item_realisasi_history
+  for select to authenticated
+  using (exists (
+    select 1 from public.budgets b
+    where b.id = budget_id and public.entity_role(b.entity_id) is not null
+  ));
+
+revoke insert, update, delete on public.budget_item_realisasi_history from anon, authenticated;
+
+-- Langganan digest: milik sendiri, hanya untuk entitas yang bisa diakses
+create policy digest_subscriptions_select on public.digest_subscriptions
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy digest_subscriptions_insert on public.digest_subscriptions
+  for insert to authenticated
+  with check (user_id = auth.uid() and public.entity_role(entity_id) is not null);
+
+create policy digest_subscriptions_update on public.digest_subscriptions
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid() and public.entity_role(entity_id) is not null);
+
+create policy digest_subscriptions_delete on public.digest_subscriptions
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+-- Versi budget: snapshot ditulis editor budget, tidak pernah diubah
+create policy budget_versions_select on public.budget_versions
+  for select to authenticated
+  using (exists (
+    select 1 from public.budgets b
+    where b.id = budget_id and public.entity_role(b.entity_id) is not null
+  ));
+
+create policy budget_versions_insert on public.budget_versions
+  for insert to authenticated
+  with check (exists (
+    select 1 from public.budgets b
+    where b.id = budget_id and public.has_entity_permission(b.entity_id, 'EDIT_BUDGET')
+  ));
+
+revoke update, delete on public.budget_versions from anon, authenticated;
+
+-- Template budget: dibaca anggota entitas, dikelola peran dengan izin budget
+create policy budget_templates_select on public.budget_templates
+  for select to authenticated
+  using (public.entity_role(entity_id) is not null);
+
+create policy budget_templates_insert on public.budget_templates
+  for insert to authenticated
+  with check (public.has_entity_permission(entity_id, 'EDIT_BUDGET'));
+
+create policy budget_templates_delete on public.budget_templates
+  for delete to authenticated
+  using (public.has_entity_permission(entity_id, 'EDIT_BUDGET'));
+
+-- Grup konsolidasi: milik pembuat, hanya berisi entitas yang bisa diakses
+create policy entity_groups_select on public.entity_groups
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy entity_groups_insert on public.entity_groups
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and not exists (
+      select 1 from unnest(entity_ids) as e(id)
+      where public.entity_role(e.id) is null
+    )
+  );
+
+create policy entity_groups_update on public.entity_groups
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and not exists (
+      select 1 from unnest(entity_ids) as e(id)
+      where public.entity_role(e.id) is null
+    )
+  );
+
+create policy entity_groups_delete on public.entity_groups
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+create policy consolidation_account_mappings_select on public.consolidation_account_mappings
+  for select to authenticated
+  using (exists (
+    select 1 from public.entity_groups g
+    where g.id = group_id and g.user_id = auth.uid()
+  ));
+
+create policy consolidation_account_mappings_insert on public.consolidation_account_mappings
+  for insert to authenticated
+  with check (exists (
+    select 1 from public.entity_groups g
+    where g.id = group_id and g.user_id = auth.uid() and entity_id = any(g.entity_ids)
+  ));
+
+create policy consolidation_account_mappings_update on public.consolidation_account_mappings
+  for update to authenticated
+  using (exists (
+    select 1 from public.entity_groups g
+    where g.id = group_id and g.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.entity_groups g
+    where g.id = group_id and g.user_id = auth.uid() and entity_id = any(g.entity_ids)
+  ));
+
+create policy consolidation_account_mappings_delete on public.consolidation_account_mappings
+  for delete to authenticated
+  using (exists (
+    select 1 from public.entity_groups g
+    where g.id = group_id and g.user_id = auth.uid()
+  ));
+
+-- COA standar: milik pembuat; mapping akun entitas dikelola peran dengan izin COA
+create policy standard_accounts_all on public.standard_accounts
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy standard_account_mappings_select on public.standard_account_mappings
+  for select to authenticated
+  using (public.entity_role(entity_id) is not null);
+
+create policy standard_account_mappings_insert on public.standard_account_mappings
+  for insert to authenticated
+  with check (public.has_entity_permission(entity_id, 'EDIT_COA'));
+
+create policy standard_account_mappings_update on public.standard_account_mappings
+  for update to authenticated
+  using (public.has_entity_permission(entity_id, 'EDIT_COA'))
+  with check (public.has_entity_permission(entity_id, 'EDIT_COA'));
+
+create policy standard_account_mappings_delete on public.standard_account_mappings
+  for delete to authenticated
+  using (public.has_entity_permission(entity_id, 'EDIT_COA'));
+
+-- Definisi laporan: milik pembuat (data laporan tetap dibatasi RLS budget)
+create policy report_definitions_all on public.report_definitions
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Budget: detail perubahan workflow/ownership dicek trigger enforce_budget_update
+create policy budgets_select on public.budgets
+  for select to authenticated
+  using (public.entity_role(entity_id) is not null);
+
+create policy budgets_insert on public.budgets
+  for insert to authenticated
+  with check (public.has_entity_permission(entity_id, 'EDIT_BUDGET'));
+
+create policy budgets_update on public.budgets
+  for update to authenticated
+  using (public.has_entity_permission(entity_id, 'EDIT_BUDGET'))
+  with check (public.has_entity_permission(entity_id, 'EDIT_BUDGET'));
+
+create policy budgets_delete on public.budgets
+  for delete to authenticated
+  using (public.can_edit_budget(id) and coalesce(approval_status, 'DRAFT') = 'DRAFT');
+
+-- Item budget: update realisasi boleh semua anggota entitas (refresh
+-- realisasi), perubahan alokasi dicek trigger enforce_budget_item_update
+create policy budget_items_select on public.budget_items
+  for select to authenticated
+  using (exists (
+    select 1 from public.budgets b
+    where b.id = budget_id and public.entity_role(b.entity_id) is not null
+  ));
+
+create policy budget_items_insert on public.budget_items
+  for insert to authenticated
+  with check (exists (
+    select 1 from public.budgets b
+    where b.id = budget_id
+      and public.can_edit_budget(b.id)
+      and coalesce(b.approval_status, 'DRAFT') = 'DRAFT'
+  ));
+
+create policy budget_items_update on public.budget_items
+  for update to authenticated
+  using (exists (
+    select 1 from public.budgets b
+    where b.id = budget_id and public.entity_role(b.entity_id) is not null
+  ));
+
+create policy budget_items_delete on public.budget_items
+  for delete to authenticated
+  using (exists (
+    select 1 from public.budgets b
+    where b.id = budget_id
+      and public.can_edit_budget(b.id)
+      and coalesce(b.approval_status, 'DRAFT') = 'DRAFT'
+  ));
+
+-- Riwayat approval: dibaca anggota entitas, ditulis hanya oleh RPC
+-- transition_budget_status
+create policy budget_approvals_select on public.budget_approvals
+  for select to authenticated
+  using (exists (
+    select 1 from public.budgets b
+    where b.id = budget_id and public.entity_role(b.entity_id) is not null
+  ));
+
+revoke insert, update, delete on public.budget_approvals from anon, authenticated;
+
+-- ============================================
+-- TRIGGER BUDGET
+-- ============================================
+
+-- Budget baru selalu DRAFT tanpa riwayat workflow; owner = pembuat, kecuali
+-- Owner / Finance Admin yang boleh menunjuk owner lain (atau tanpa owner)
+create or replace function public.enforce_budget_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  new.approval_status := 'DRAFT';
+  new.status_comment := null;
+  new.submitted_at := null;
+  new.submitted_by := null;
+  new.approved_at := null;
+  new.approved_by := null;
+
+  if not public.has_entity_permission(new.entity_id, 'APPROVE_BUDGET') then
+    new.owner_id := auth.uid();
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Kolom workflow & ownership punya aturan sendiri; kolom lain = isi budget
+create or replace function public.enforce_budget_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workflow_columns text[] := array[
+    'approval_status', 'status_comment', 'submitted_at', 'submitted_by', 'approved_at', 'approved_by',
+    'owner_id', 'editor_ids', 'updated_at'
+  ];
+  v_can_approve boolean;
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  v_can_approve := public.has_entity_permission(old.entity_id, 'APPROVE_BUDGET');
+
+  if new.entity_id is distinct from old.entity_id then
+    raise exception 'Akses ditolak: budget tidak bisa dipindah ke entitas lain';
+  end if;
+
+  -- Status workflow hanya berubah lewat RPC transition_budget_status, yang
+  -- juga mencatat riwayat di budget_approvals
+  if new.approval_status is distinct from old.approval_status
+    or new.submitted_at is distinct from old.submitted_at
+    or new.submitted_by is distinct from old.submitted_by
+    or new.approved_by is distinct from old.approved_by
+    or new.approved_at is distinct from old.approved_at then
+    if coalesce(current_setting('app.budget_transition', true), '') <> 'on' then
+      raise exception 'Status budget hanya bisa diubah lewat aksi workflow';
+    end if;
+
+    -- Four-eyes: pengaju terakhir tidak boleh menyetujui pengajuannya sendiri
+    if new.approval_status = 'APPROVED' and old.approval_status = 'SUBMITTED'
+      and old.submitted_by = auth.uid() then
+      raise exception 'Budget tidak bisa disetujui oleh user yang mengajukannya';
+    end if;
+  end if;
+
+  if new.owner_id is distinct from old.owner_id and not v_can_approve then
+    raise exception 'Akses ditolak: hanya Owner atau Finance Admin yang dapat mengganti owner budget';
+  end if;
+
+  if new.editor_ids is distinct from old.editor_ids
+    and not (v_can_approve or (public.has_entity_permission(old.entity_id, 'EDIT_BUDGET') and old.owner_id = auth.uid())) then
+    raise exception 'Akses ditolak: hanya owner budget atau admin entitas yang dapat mengatur editor';
+  end if;
+
+  if (to_jsonb(new) - v_workflow_columns) is distinct from (to_jsonb(old) - v_workflow_columns) then
+    if not public.can_edit_budget(old.id) then
+      raise exception 'Akses ditolak: tidak dapat mengubah budget ini';
+    end if;
+    if coalesce(old.approval_status, 'DRAFT') <> 'DRAFT' then
+      raise exception 'Budget berstatus % dan tidak dapat diubah', old.approval_status;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Realisasi boleh diperbarui semua anggota; alokasi hanya editor budget DRAFT
+create or replace function public.enforce_budget_item_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_realisasi_columns text[] := array['realisasi_snapshot', 'monthly_realisasi', 'realisasi_synced_at', 'updated_at'];
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if new.budget_id is distinct from old.budget_id then
+    raise exception 'Akses ditolak: item tidak bisa dipindah ke budget lain';
+  end if;
+
+  if (to_jsonb(new) - v_realisasi_columns) is distinct from (to_jsonb(old) - v_realisasi_columns) then
+    if not public.can_edit_budget(old.budget_id) then
+      raise exception 'Akses ditolak: tidak dapat mengubah budget ini';
+    end if;
+    if exists (
+      select 1 from budgets
+      where id = old.budget_id and coalesce(approval_status, 'DRAFT') <> 'DRAFT'
+    ) then
+      raise exception 'Budget sudah diajukan/disetujui dan tidak dapat diubah';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_budget_insert on public.budgets;
+create trigger enforce_budget_insert
+  before insert on public.budgets
+  for each row execute function public.enforce_budget_insert();
+
+drop trigger if exists enforce_budget_update on public.budgets;
+create trigger enforce_budget_update
+  before update on public.budgets
+  for each row execute function public.enforce_budget_update();
+
+drop trigger if exists enforce_budget_item_update on public.budget_items;
+create trigger enforce_budget_item_update
+  before update on public.budget_items
+  for each row execute function public.enforce_budget_item_update();
@@ -0,0 +1,178 @@
+-- Audit log ditulis trigger database, bukan client: setiap insert/update/delete
+-- pada tabel yang diaudit tercatat walaupun mutasi dilakukan di luar aplikasi,
+-- actor diambil dari auth.uid() dan before/after dari baris lama/baru.
+-- Argumen trigger = kolom yang diabaikan saat membandingkan update (hasil
+-- refresh realisasi / sync saldo Accurate); update yang hanya mengubah kolom
+-- tsb tidak dicatat. Halaman Audit tetap membaca tabel audit_logs.
+
+-- ============================================
+-- HELPER
+-- ============================================
+
+-- Kredensial tidak boleh ikut tersimpan di audit log
+create or replace function public.audit_redact(p_values jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(
+    jsonb_object_agg(
+      key,
+      case
+        when key in ('api_token', 'access_token', 'refresh_token', 'secret_key') and value <> 'null'::jsonb
+          then to_jsonb('[disembunyikan]'::text)
+        else value
+      end
+    ),
+    '{}'::jsonb
+  )
+  from jsonb_each(p_values);
+$$;
+
+create or replace function public.audit_log_row()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  v_new jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  v_row jsonb := coalesce(v_new, v_old);
+  v_ignored text[] := array['updated_at'] || coalesce(tg_argv::text[], '{}');
+  v_entity_id uuid;
+  v_workspace_id uuid;
+  v_actor_email text;
+begin
+  if tg_op = 'UPDATE' and (v_new - v_ignored) = (v_old - v_ignored) then
+    return null;
+  end if;
+
+  -- Tabel tanpa entity_id diturunkan dari budget induknya. Item yang ikut
+  -- terhapus cascade bersama budget tidak lagi menemukan induknya; riwayatnya
+  -- tetap ada di baris DELETE budget.
+  v_entity_id := case tg_table_name
+    when 'entity' then (v_row ->> 'id')::uuid
+    when 'budget_items' then (select entity_id from budgets where id = (v_row ->> 'budget_id')::uuid)
+    when 'budget_versions' then (select entity_id from budgets where id = (v_row ->> 'budget_id')::uuid)
+    when 'realisasi' then (select entity_id from budgets where id = (v_row ->> 'budget_id')::uuid)
+    else (v_row ->> 'entity_id')::uuid
+  end;
+
+  -- Anggota workspace tidak terkait entitas tertentu
+  v_workspace_id := case tg_table_name
+    when 'workspace_members' then (v_row ->> 'workspace_id')::uuid
+  end;
+
+  if auth.uid() is not null then
+    select email into v_actor_email from auth.users where id = auth.uid();
+  end if;
+
+  insert into audit_logs (
+    entity_id, workspace_id, table_name, record_id, action, actor_id, actor_email, before_data, after_data
+  )
+  values (
+    v_entity_id,
+    v_workspace_id,
+    tg_table_name,
+    v_row ->> 'id',
+    case tg_op when 'INSERT' then 'CREATE' else tg_op end,
+    auth.uid(),
+    v_actor_email,
+    public.audit_redact(v_old),
+    public.audit_redact(v_new)
+  );
+
+  return null;
+end;
+$$;
+
+-- ============================================
+-- TRIGGER
+-- ============================================
+
+drop trigger if exists audit_log_row on public.entity;
+create trigger audit_log_row
+  after insert or update or delete on public.entity
+  for each row execute function public.audit_log_row();
+
+drop trigger if exists audit_log_row on public.budgets;
+create trigger audit_log_row
+  after insert or update or delete on public.budgets
+  for each row execute function public.audit_log_row();
+
+drop trigger if exists audit_log_row on public.budget_items;
+create trigger audit_log_row
+  after insert or update or delete on public.budget_items
+  for each row execute function public.audit_log_row('realisasi_snapshot', 'monthly_realisasi', 'realisasi_synced_at');
+
+drop trigger if exists audit_log_row on public.budget_versions;
+create trigger audit_log_row
+  after insert or update or delete on public.budget_versions
+  for each row execute function public.audit_log_row();
+
+drop trigger if exists audit_log_row on public.budget_templates;
+create trigger audit_log_row
+  after insert or update or delete on public.budget_templates
+  for each row execute function public.audit_log_row();
+
+drop trigger if exists audit_log_row on public.accurate_accounts;
+create trigger audit_log_row
+  after insert or update or delete on public.accurate_accounts
+  for each row execute function public.audit_log_row('balance');
+
+drop trigger if exists audit_log_row on public.realisasi;
+create trigger audit_log_row
+  after insert or update or delete on public.realisasi
+  for each row execute function public.audit_log_row();
+
+drop trigger if exists audit_log_row on public.workspace_members;
+create trigger audit_log_row
+  after insert or update or delete on public.workspace_members
+  for each row execute function public.audit_log_row();
+
+drop trigger if exists audit_log_row on public.alert_rules;
+create trigger audit_log_row
+  after insert or update or delete on public.alert_rules
+  for each row execute function public.audit_log_row();
+
+drop trigger if exists audit_log_row on public.cost_centers;
+create trigger audit_log_row
+  after insert or update or delete on public.cost_centers
+  for each row execute function public.audit_log_row();
+
+drop trigger if exists audit_log_row on public.report_definitions;
+create trigger audit_log_row
+  after insert or update or delete on public.report_definitions
+  for each row execute function public.audit_log_row();
+
+-- ============================================
+-- RLS
+-- ============================================
+
+-- Client hanya membaca log entitas / workspace yang bisa ia akses (log tanpa
+-- keduanya hanya untuk pelakunya); tidak ada policy insert/update/delete
+-- sehingga log tidak bisa dipalsukan dari browser
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select policyname from pg_policies where schemaname = 'public' and tablename = 'audit_logs'
+  loop
+    execute format('drop policy %I on public.audit_logs', v_policy.policyname);
+  end loop;
+end;
+$$;
+
+alter table public.audit_logs enable row level security;
+
+create policy audit_logs_select on public.audit_logs
+  for select to authenticated
+  using (
+    public.entity_role(entity_id) is not null
+    or (entity_id is null and public.workspace_role(workspace_id) is not null)
+    or (entity_id is null and workspace_id is null and actor_id = auth.uid())
+  );
+
+revoke insert, update, delete on public.audit_logs from anon, authenticated;
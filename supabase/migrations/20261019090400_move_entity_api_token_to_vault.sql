@@ -0,0 +1,187 @@
+-- Pindahkan API token Accurate lama dari kolom plaintext entity.api_token ke
+-- Supabase Vault, lalu hapus kolomnya agar token tidak bisa lagi terbaca
+-- lewat select di tabel entity.
+--
+-- Format sama dengan edge function accurate-credential-vault: secret Vault
+-- bernama `entity_api_token:<entity_id>`, direferensikan dari
+-- entity_credentials bersama hash SHA-256 (hex) token untuk pencarian
+-- pemilik token; entity hanya menyimpan has_api_token & 4 karakter terakhir.
+--
+-- Fungsi di bagian bawah (hanya service role) dipakai edge function untuk
+-- menyimpan token dan membaca token + HMAC secret (secret Vault
+-- `accurate_hmac_secret`) berdasarkan entityId.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.entity_credentials (
+  entity_id uuid primary key references public.entity (id) on delete cascade,
+  secret_id uuid not null,
+  token_hash text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Hanya service role (edge function) yang membaca tabel ini
+alter table public.entity_credentials enable row level security;
+revoke all on public.entity_credentials from anon, authenticated;
+
+alter table public.entity add column if not exists has_api_token boolean not null default false;
+alter table public.entity add column if not exists api_token_hint text;
+
+do $$
+declare
+  v_entity record;
+  v_token text;
+  v_secret_id uuid;
+begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'entity' and column_name = 'api_token'
+  ) then
+    return;
+  end if;
+
+  for v_entity in
+    execute 'select id, api_token from public.entity where coalesce(trim(api_token), '''') <> '''''
+  loop
+    v_token := trim(v_entity.api_token);
+
+    -- Token yang sudah tersimpan lewat vault lebih baru, jangan ditimpa
+    if exists (select 1 from public.entity_credentials where entity_id = v_entity.id) then
+      continue;
+    end if;
+
+    v_secret_id := vault.create_secret(
+      v_token,
+      'entity_api_token:' || v_entity.id,
+      'API token Accurate entitas ' || v_entity.id
+    );
+
+    insert into public.entity_credentials (entity_id, secret_id, token_hash)
+    values (v_entity.id, v_secret_id, encode(extensions.digest(v_token, 'sha256'), 'hex'));
+
+    update public.entity
+    set has_api_token = true,
+        api_token_hint = right(v_token, 4)
+    where id = v_entity.id;
+  end loop;
+end;
+$$;
+
+alter table public.entity drop column if exists api_token;
+
+-- ============================================
+-- VAULT FUNCTIONS (service role)
+-- ============================================
+
+create or replace function public.get_accurate_hmac_secret()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select decrypted_secret from vault.decrypted_secrets where name = 'accurate_hmac_secret' limit 1;
+$$;
+
+create or replace function public.get_entity_accurate_credential(p_entity_id uuid)
+returns table (api_token text, hmac_secret text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.decrypted_secret, public.get_accurate_hmac_secret()
+  from public.entity_credentials c
+  join vault.decrypted_secrets s on s.id = c.secret_id
+  where c.entity_id = p_entity_id;
+$$;
+
+create or replace function public.store_entity_api_token(p_entity_id uuid, p_token text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_token text := trim(coalesce(p_token, ''));
+  v_secret_id uuid;
+begin
+  if v_token = '' then
+    raise exception 'API Token tidak boleh kosong';
+  end if;
+
+  select secret_id into v_secret_id from entity_credentials where entity_id = p_entity_id;
+
+  if v_secret_id is null then
+    v_secret_id := vault.create_secret(
+      v_token,
+      'entity_api_token:' || p_entity_id,
+      'API token Accurate entitas ' || p_entity_id
+    );
+  else
+    perform vault.update_secret(v_secret_id, v_token);
+  end if;
+
+  insert into entity_credentials (entity_id, secret_id, token_hash)
+  values (p_entity_id, v_secret_id, encode(extensions.digest(v_token, 'sha256'), 'hex'))
+  on conflict (entity_id) do update
+  set secret_id = excluded.secret_id,
+      token_hash = excluded.token_hash,
+      updated_at = now();
+
+  update entity
+  set has_api_token = true,
+      api_token_hint = right(v_token, 4)
+  where id = p_entity_id;
+end;
+$$;
+
+create or replace function public.delete_entity_api_token(p_entity_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_secret_id uuid;
+begin
+  delete from entity_credentials where entity_id = p_entity_id
+  returning secret_id into v_secret_id;
+
+  if v_secret_id is not null then
+    delete from vault.secrets where id = v_secret_id;
+  end if;
+
+  update entity
+  set has_api_token = false,
+      api_token_hint = null
+  where id = p_entity_id;
+end;
+$$;
+
+create or replace function public.find_entity_by_api_token(p_token text, p_exclude_entity_id uuid default null)
+returns table (entity_id uuid, entity_name text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select e.id, e.entity_name
+  from public.entity_credentials c
+  join public.entity e on e.id = c.entity_id
+  where c.token_hash = encode(extensions.digest(trim(p_token), 'sha256'), 'hex')
+    and (p_exclude_entity_id is null or c.entity_id <> p_exclude_entity_id)
+  limit 1;
+$$;
+
+revoke execute on function public.get_accurate_hmac_secret() from public, anon, authenticated;
+revoke execute on function public.get_entity_accurate_credential(uuid) from public, anon, authenticated;
+revoke execute on function public.store_entity_api_token(uuid, text) from public, anon, authenticated;
+revoke execute on function public.delete_entity_api_token(uuid) from public, anon, authenticated;
+revoke execute on function public.find_entity_by_api_token(text, uuid) from public, anon, authenticated;
+grant execute on function public.get_accurate_hmac_secret() to service_role;
+grant execute on function public.get_entity_accurate_credential(uuid) to service_role;
+grant execute on function public.store_entity_api_token(uuid, text) to service_role;
+grant execute on function public.delete_entity_api_token(uuid) to service_role;
+grant execute on function public.find_entity_by_api_token(text, uuid) to service_role;
@@ -0,0 +1,22 @@
+-- Token OAuth Accurate diperpanjang server setiap jam lewat edge function
+-- refresh-accurate-oauth, bukan dari browser (yang hanya jalan selama user
+-- login, sehingga token entitas yang jarang dibuka bisa kedaluwarsa).
+-- Butuh secret Vault `project_url` dan `service_role_key`.
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'refresh-accurate-oauth',
+  '0 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/refresh-accurate-oauth',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,65 @@
+-- Import budget dari file dalam satu transaksi: semua budget & item dibuat,
+-- atau tidak sama sekali jika satu insert gagal.
+-- SECURITY INVOKER: RLS budgets & budget_items tetap berlaku untuk pemanggil;
+-- budget hasil import selalu DRAFT dengan owner pemanggil.
+
+create or replace function public.import_budgets(
+  p_entity_id uuid,
+  p_budgets jsonb
+)
+returns uuid[]
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget jsonb;
+  v_budget_id uuid;
+  v_budget_ids uuid[] := '{}';
+begin
+  if auth.uid() is null then
+    raise exception 'User not authenticated';
+  end if;
+
+  if not public.has_entity_permission(p_entity_id, 'EDIT_BUDGET') then
+    raise exception 'Akses ditolak: peran Anda tidak dapat membuat budget';
+  end if;
+
+  if jsonb_array_length(coalesce(p_budgets, '[]'::jsonb)) = 0 then
+    raise exception 'Tidak ada baris valid untuk diimport';
+  end if;
+
+  for v_budget in select * from jsonb_array_elements(p_budgets)
+  loop
+    insert into budgets (
+      entity_id, name, period, period_type, total_budget, approval_status, owner_id, editor_ids
+    )
+    values (
+      p_entity_id,
+      v_budget ->> 'name',
+      v_budget ->> 'period',
+      coalesce(v_budget ->> 'period_type', 'MONTHLY'),
+      coalesce((v_budget ->> 'total_budget')::numeric, 0),
+      'DRAFT',
+      auth.uid(),
+      '{}'
+    )
+    returning id into v_budget_id;
+
+    insert into budget_items (
+      budget_id, account_id, accurate_id, account_code, account_name, account_type,
+      allocated_amount, realisasi_snapshot, description
+    )
+    select
+      v_budget_id, r.account_id, r.accurate_id, r.account_code, r.account_name, r.account_type,
+      r.allocated_amount, 0, r.description
+    from jsonb_populate_recordset(null::budget_items, coalesce(v_budget -> 'items', '[]'::jsonb)) r;
+
+    v_budget_ids := v_budget_ids || v_budget_id;
+  end loop;
+
+  return v_budget_ids;
+end;
+$$;
+
+grant execute on function public.import_budgets(uuid, jsonb) to authenticated;
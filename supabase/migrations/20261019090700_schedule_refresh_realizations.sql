@@ -0,0 +1,24 @@
+-- Realisasi budget di-refresh server setiap jam lewat edge function
+-- refresh-realizations, bukan dari browser (setInterval hanya jalan selama user
+-- login dan tiap tab bisa memicu refresh yang sama bersamaan).
+-- Butuh secret Vault `project_url` dan `service_role_key`.
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'refresh-budget-realizations',
+  '15 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/refresh-realizations',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    -- Refresh semua entitas bisa lebih lama dari timeout default pg_net (5 detik)
+    timeout_milliseconds := 300000
+  );
+  $$
+);